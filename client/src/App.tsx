@@ -4,31 +4,60 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
+import { AuthProvider } from "@/hooks/use-auth";
+import { LocationProvider } from "@/hooks/use-locations";
+import { useRealtimeConnection } from "@/hooks/use-realtime";
+import { ProtectedRoute } from "@/lib/protected-route";
 import RosterPage from "@/pages/roster";
 import ComparisonPage from "@/pages/comparison";
 import SwapRequestsPage from "@/pages/swap-requests";
 import AnalyticsPage from "@/pages/analytics";
+import StaffPage from "@/pages/staff";
+import RulesPage from "@/pages/rules";
+import LeavePage from "@/pages/leave";
+import OpenShiftsPage from "@/pages/open-shifts";
+import NotificationsPage from "@/pages/notifications";
+import UsersPage from "@/pages/users";
+import AuthPage from "@/pages/auth";
 import NotFound from "@/pages/not-found";
+import { MANAGER_ROLES } from "@shared/schema";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={RosterPage} />
-      <Route path="/compare" component={ComparisonPage} />
-      <Route path="/swaps" component={SwapRequestsPage} />
-      <Route path="/analytics" component={AnalyticsPage} />
+      <Route path="/auth" component={AuthPage} />
+      <ProtectedRoute path="/" component={RosterPage} />
+      <ProtectedRoute path="/compare" component={ComparisonPage} />
+      <ProtectedRoute path="/swaps" component={SwapRequestsPage} />
+      <ProtectedRoute path="/analytics" component={AnalyticsPage} />
+      <ProtectedRoute path="/staff" component={StaffPage} roles={MANAGER_ROLES} />
+      <ProtectedRoute path="/rules" component={RulesPage} roles={MANAGER_ROLES} />
+      <ProtectedRoute path="/leave" component={LeavePage} />
+      <ProtectedRoute path="/open-shifts" component={OpenShiftsPage} />
+      <ProtectedRoute path="/notifications" component={NotificationsPage} />
+      <ProtectedRoute path="/users" component={UsersPage} roles={["admin"]} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
+function RealtimeConnection() {
+  useRealtimeConnection();
+  return null;
+}
+
 function App() {
   return (
     <ThemeProvider defaultTheme="light" storageKey="roster-ui-theme">
       <QueryClientProvider client={queryClient}>
         <TooltipProvider>
           <Toaster />
-          <Router />
+          <AuthProvider>
+            <LocationProvider>
+              <RealtimeConnection />
+              <Router />
+            </LocationProvider>
+          </AuthProvider>
         </TooltipProvider>
       </QueryClientProvider>
     </ThemeProvider>
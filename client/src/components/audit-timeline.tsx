@@ -0,0 +1,230 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { format } from "date-fns";
+import { ArrowRightLeft, Ban, CalendarPlus, CalendarX2, CheckCircle2, Clock, CalendarMinus, EyeOff, FilePlus2, Flag, Handshake, History, Import, LayoutGrid, MapPin, MapPinned, Megaphone, PartyPopper, Pencil, Scale, Trash2, Undo2, Upload, UserPlus, XCircle } from "lucide-react";
+import type { AuditAction, AuditEvent, RosterStatus, SwapStatus } from "@shared/schema";
+import { ROSTER_STATUS_LABELS } from "@shared/roster-lifecycle";
+import { SWAP_STATUS_LABELS } from "@shared/swap-workflow";
+
+interface AuditTimelineProps {
+  rosterId?: string;
+  shiftId?: string;
+}
+
+const actionLabels: Record<AuditAction, string> = {
+  roster_generated: "Generated",
+  roster_activated: "Activated",
+  roster_deleted: "Deleted",
+  roster_published: "Published",
+  roster_restored: "Restored",
+  roster_status_changed: "Status changed",
+  shift_updated: "Shift edited",
+  compliance_rules_updated: "Compliance rules changed",
+  shift_template_updated: "Shift times changed",
+  shift_type_created: "Shift type added",
+  shift_type_deleted: "Shift type removed",
+  shift_layout_updated: "Weekly layout changed",
+  location_created: "Location added",
+  location_updated: "Location changed",
+  public_holiday_created: "Public holiday added",
+  public_holiday_deleted: "Public holiday removed",
+  public_holidays_imported: "Public holidays imported",
+  swap_accepted: "Swap accepted",
+  swap_approved: "Swap approved",
+  swap_rejected: "Swap rejected",
+  swap_cancelled: "Swap cancelled",
+  open_shift_posted: "Open shift posted",
+  open_shift_awarded: "Open shift awarded",
+  open_shift_cancelled: "Open shift withdrawn",
+};
+
+const actionIcons: Record<AuditAction, typeof History> = {
+  roster_generated: FilePlus2,
+  roster_activated: CheckCircle2,
+  roster_deleted: Trash2,
+  roster_published: Upload,
+  roster_restored: Undo2,
+  roster_status_changed: Flag,
+  shift_updated: Pencil,
+  compliance_rules_updated: Scale,
+  shift_template_updated: Clock,
+  shift_type_created: CalendarPlus,
+  shift_type_deleted: CalendarX2,
+  shift_layout_updated: LayoutGrid,
+  location_created: MapPin,
+  location_updated: MapPinned,
+  public_holiday_created: PartyPopper,
+  public_holiday_deleted: CalendarMinus,
+  public_holidays_imported: Import,
+  swap_accepted: Handshake,
+  swap_approved: ArrowRightLeft,
+  swap_rejected: XCircle,
+  swap_cancelled: Ban,
+  open_shift_posted: Megaphone,
+  open_shift_awarded: UserPlus,
+  open_shift_cancelled: EyeOff,
+};
+
+function assignee(value: unknown): string {
+  return typeof value === "string" && value ? value : "Unassigned";
+}
+
+function describeEvent(event: AuditEvent): string {
+  const before = event.before ?? {};
+  const after = event.after ?? {};
+  switch (event.action) {
+    case "roster_generated":
+      return `"${after.name}" · ${after.weeks} week${after.weeks === 1 ? "" : "s"} · ${after.mode} mode`;
+    case "roster_activated":
+      return `Replaced ${before.activeRosterName ? `"${before.activeRosterName}"` : "no active roster"}`;
+    case "roster_deleted":
+      return `"${before.name}" (${before.startDate} – ${before.endDate})`;
+    case "roster_published":
+      return `Version ${after.version}${after.note ? ` · ${after.note}` : ""}${after.unfilledShifts ? ` · ${after.unfilledShifts} unfilled shift(s)` : ""}`;
+    case "roster_status_changed":
+      return `${ROSTER_STATUS_LABELS[before.status as RosterStatus]} → ${ROSTER_STATUS_LABELS[after.status as RosterStatus]}`;
+    case "roster_restored":
+      return `Draft reset to version ${after.restoredVersion}${after.clearedForLeave ? ` · ${after.clearedForLeave} shift(s) left empty for leave` : ""}`;
+    case "shift_updated":
+    case "swap_approved":
+      return `${assignee(before.assigned)} → ${assignee(after.assigned)}`;
+    case "swap_accepted":
+      return `Colleague agreed · ${assignee(before.assigned)} keeps the shift until a manager approves`;
+    case "swap_rejected":
+      return `${assignee(before.assigned)} keeps the shift`;
+    case "swap_cancelled":
+      return `${SWAP_STATUS_LABELS[after.status as SwapStatus]} · ${assignee(before.assigned)} keeps the shift`;
+    case "open_shift_posted":
+      return `${assignee(before.assigned)} · open to claim${after.note ? ` · ${after.note}` : ""}`;
+    case "open_shift_awarded":
+      return `${assignee(before.assigned)} → ${assignee(after.assigned)} · ${after.awardMethod === "manual" ? "picked by manager" : `awarded by ${after.awardMethod === "first_claim" ? "first claim" : "fewest hours"}`}`;
+    case "open_shift_cancelled":
+      return "Taken down without awarding";
+    case "shift_template_updated":
+      return `${after.shiftType} · ${before.startTime}–${before.endTime} → ${after.startTime}–${after.endTime}${
+        before.breakMinutes !== after.breakMinutes ? ` · break ${before.breakMinutes} → ${after.breakMinutes} min` : ""
+      }${before.timezone !== after.timezone ? ` · ${before.timezone} → ${after.timezone}` : ""}${
+        before.headcount !== after.headcount ? ` · ${before.headcount ?? 1} → ${after.headcount} staff` : ""
+      }`;
+    case "shift_type_created":
+      return `${after.shiftType} · ${after.startTime}–${after.endTime} · ${after.headcount} staff`;
+    case "shift_type_deleted":
+      return `${before.shiftType} · ${before.startTime}–${before.endTime}`;
+    case "shift_layout_updated":
+      return Object.keys(after)
+        .filter((day) => String(before[day] ?? []) !== String(after[day]))
+        .map((day) => `${day}: ${after[day] === null ? "same as weekday" : (after[day] as string[]).join(", ") || "none"}`)
+        .join(" · ") || "No changes";
+    case "location_created":
+      return `${after.name}`;
+    case "location_updated":
+      return [
+        before.name !== after.name ? `${before.name} → ${after.name}` : `${after.name}`,
+        before.isActive !== after.isActive ? (after.isActive ? "reopened" : "archived") : null,
+      ].filter(Boolean).join(" · ");
+    case "public_holiday_created":
+      return `${after.name} · ${after.date}`;
+    case "public_holiday_deleted":
+      return `${before.name} · ${before.date}`;
+    case "public_holidays_imported":
+      return `${after.count} holiday${after.count === 1 ? "" : "s"} · ${after.from} – ${after.to}`;
+    case "compliance_rules_updated":
+      return Object.keys(after)
+        .filter((key) => before[key] !== after[key])
+        .map((key) => `${key}: ${before[key] ?? "off"} → ${after[key] ?? "off"}`)
+        .join(" · ") || "No changes";
+  }
+}
+
+// Audit events for a roster or a single shift, newest first
+export function AuditTimeline({ rosterId, shiftId }: AuditTimelineProps) {
+  const { data: events, isLoading } = useQuery<AuditEvent[]>({
+    queryKey: ["/api/audit", { rosterId, shiftId }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (rosterId) params.set("rosterId", rosterId);
+      if (shiftId) params.set("shiftId", shiftId);
+      const response = await apiRequest("GET", `/api/audit?${params}`);
+      return await response.json();
+    },
+    enabled: !!rosterId || !!shiftId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-14 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!events || events.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-center">
+        <History className="h-10 w-10 text-muted-foreground/50 mb-3" />
+        <p className="text-sm text-muted-foreground">No changes recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-5">
+      {events.map((event) => {
+        const Icon = actionIcons[event.action];
+        return (
+          <li key={event.id} className="ml-5" data-testid={`audit-event-${event.id}`}>
+            <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-muted ring-4 ring-background">
+              <Icon className="h-3 w-3 text-muted-foreground" />
+            </span>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge variant="secondary" className="text-xs">{actionLabels[event.action]}</Badge>
+              <span className="text-xs text-muted-foreground">
+                {format(new Date(event.createdAt), "MMM d, yyyy 'at' HH:mm")}
+              </span>
+            </div>
+            <p className="text-sm mt-1">{describeEvent(event)}</p>
+            <p className="text-xs text-muted-foreground">by {event.actorName}</p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+interface AuditTimelineSheetProps extends AuditTimelineProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description?: string;
+}
+
+export function AuditTimelineSheet({ open, onOpenChange, title, description, rosterId, shiftId }: AuditTimelineSheetProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            {title}
+          </SheetTitle>
+          {description && <SheetDescription>{description}</SheetDescription>}
+        </SheetHeader>
+        <ScrollArea className="h-[calc(100vh-8rem)] mt-6 pr-4">
+          {open && <AuditTimeline rosterId={rosterId} shiftId={shiftId} />}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,97 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+import type { CalendarFeedResponse } from "@shared/schema";
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The logged-in user's calendar subscription URL, to add once in their phone or desktop calendar
+export function CalendarFeedDialog({ open, onOpenChange }: CalendarFeedDialogProps) {
+  const { toast } = useToast();
+
+  const { data: feed } = useQuery<CalendarFeedResponse>({
+    queryKey: ["/api/calendar/feed"],
+    enabled: open,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/feed/reset");
+      return await response.json() as CalendarFeedResponse;
+    },
+    onSuccess: (reset) => {
+      queryClient.setQueryData(["/api/calendar/feed"], reset);
+      toast({
+        title: "New Calendar Link",
+        description: "The old link has stopped working. Subscribe again with this one.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create a new calendar link.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const url = feed ? `${window.location.origin}${feed.path}` : "";
+  const webcalUrl = url.replace(/^https?:/, "webcal:");
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Copied", description: "Paste the link into your calendar app's subscribe option." });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Subscribe to your shifts</DialogTitle>
+          <DialogDescription>
+            Add this link to Google Calendar, Apple Calendar or Outlook as a subscribed calendar. Your shifts on the
+            published roster stay up to date, and shifts you are taken off show as cancelled. Keep the link private:
+            anyone with it can see your shifts.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center gap-2">
+          <Input readOnly value={url} onFocus={(e) => e.target.select()} data-testid="input-calendar-url" />
+          <Button variant="outline" size="icon" onClick={copy} disabled={!feed} title="Copy link" data-testid="button-copy-calendar-url">
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button
+            variant="ghost"
+            onClick={() => resetMutation.mutate()}
+            disabled={!feed || resetMutation.isPending}
+            data-testid="button-reset-calendar-url"
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            New link
+          </Button>
+          <Button asChild disabled={!feed}>
+            <a href={webcalUrl} data-testid="link-open-calendar">
+              <CalendarPlus className="mr-2 h-4 w-4" />
+              Open in calendar app
+            </a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
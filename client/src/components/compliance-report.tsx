@@ -0,0 +1,51 @@
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle } from "lucide-react";
+import type { ComplianceRuleKey, ComplianceViolation, RosterShift } from "@shared/schema";
+
+export const COMPLIANCE_RULE_LABELS: Record<ComplianceRuleKey, string> = {
+  max_avg_weekly_hours: "Weekly hours",
+  min_daily_rest: "Daily rest",
+  min_weekly_rest: "Weekly rest",
+  max_consecutive_shifts: "Consecutive days",
+  max_consecutive_nights: "Consecutive nights",
+  max_night_shifts_per_week: "Night shifts",
+};
+
+// Violations a shift's current assignee takes part in, keyed by shift id
+export function violationsByShift(violations: ComplianceViolation[], shifts: RosterShift[]): Map<string, ComplianceViolation[]> {
+  const byShift = new Map<string, ComplianceViolation[]>();
+  for (const shift of shifts) {
+    const matching = violations.filter(
+      (violation) => violation.staffMember === shift.assigned && violation.shiftIds.includes(shift.id)
+    );
+    if (matching.length > 0) byShift.set(shift.id, matching);
+  }
+  return byShift;
+}
+
+export function ComplianceReportCard({ violations }: { violations: ComplianceViolation[] }) {
+  return (
+    <Card className="border-amber-300 dark:border-amber-800">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 text-amber-500" />
+          {violations.length} working-time issue{violations.length === 1 ? "" : "s"}
+        </CardTitle>
+        <CardDescription>Affected shifts are marked in the roster below</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2 max-h-48 overflow-y-auto">
+          {violations.map((violation, i) => (
+            <li key={i} className="flex items-start gap-2 text-sm" data-testid={`compliance-violation-${i}`}>
+              <Badge variant="secondary" className="text-xs shrink-0">
+                {COMPLIANCE_RULE_LABELS[violation.rule]}
+              </Badge>
+              <span>{violation.message}</span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import type { ComplianceRules } from "@shared/schema";
+
+type LimitKey = Exclude<keyof ComplianceRules, "referenceWeeks" | "blockViolations">;
+
+const limitFields: { key: LimitKey; label: string; unit: string }[] = [
+  { key: "maxAvgWeeklyHours", label: "Max average weekly hours", unit: "h" },
+  { key: "minDailyRestHours", label: "Min rest between shifts", unit: "h" },
+  { key: "minWeeklyRestHours", label: "Min uninterrupted weekly rest", unit: "h" },
+  { key: "maxConsecutiveShifts", label: "Max consecutive days", unit: "days" },
+  { key: "maxConsecutiveNights", label: "Max consecutive nights", unit: "nights" },
+  { key: "maxNightShiftsPerWeek", label: "Max night shifts per week", unit: "nights" },
+];
+
+// Empty inputs switch a limit off
+function toLimit(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+export function ComplianceRulesCard() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ComplianceRules>();
+
+  const { data: rules, isLoading } = useQuery<ComplianceRules>({
+    queryKey: ["/api/compliance/rules"],
+  });
+
+  useEffect(() => {
+    if (rules) setDraft(rules);
+  }, [rules]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: ComplianceRules) => {
+      const response = await apiRequest("PATCH", "/api/compliance/rules", updates);
+      return await response.json() as ComplianceRules;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/compliance/rules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
+      toast({
+        title: "Compliance Rules Saved",
+        description: "Rosters are now checked against the new limits.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save compliance rules. Check the values are whole numbers in range.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Working-time compliance</CardTitle>
+        <CardDescription>
+          Limits every roster is checked against. Leave a limit empty to switch it off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !draft ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {limitFields.map(({ key, label, unit }) => (
+                <div key={key} className="space-y-1.5">
+                  <Label htmlFor={`compliance-${key}`}>{label}</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id={`compliance-${key}`}
+                      type="number"
+                      min={0}
+                      value={draft[key] ?? ""}
+                      placeholder="Off"
+                      onChange={(e) => setDraft({ ...draft, [key]: toLimit(e.target.value) })}
+                      data-testid={`input-compliance-${key}`}
+                    />
+                    <span className="text-sm text-muted-foreground w-12">{unit}</span>
+                  </div>
+                </div>
+              ))}
+              <div className="space-y-1.5">
+                <Label htmlFor="compliance-referenceWeeks">Averaging period</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="compliance-referenceWeeks"
+                    type="number"
+                    min={1}
+                    value={draft.referenceWeeks}
+                    onChange={(e) => setDraft({ ...draft, referenceWeeks: Number(e.target.value) })}
+                    data-testid="input-compliance-referenceWeeks"
+                  />
+                  <span className="text-sm text-muted-foreground w-12">weeks</span>
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-4 flex-wrap">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="compliance-block"
+                  checked={draft.blockViolations}
+                  onCheckedChange={(checked) => setDraft({ ...draft, blockViolations: checked })}
+                  data-testid="switch-compliance-block"
+                />
+                <Label htmlFor="compliance-block">Block assignments that break a limit</Label>
+              </div>
+              <Button
+                onClick={() => saveMutation.mutate(draft)}
+                disabled={saveMutation.isPending}
+                data-testid="button-save-compliance"
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+import { useMemo, useState } from "react";
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+} from "date-fns";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useStaff } from "@/hooks/use-staff";
+import type { Unavailability } from "@shared/schema";
+
+interface LeaveCalendarProps {
+  entries: Unavailability[];
+}
+
+// Month grid showing who is on approved leave each day
+export function LeaveCalendar({ entries }: LeaveCalendarProps) {
+  const { getColors } = useStaff();
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+
+  const days = useMemo(() => {
+    const first = startOfWeek(startOfMonth(month), { weekStartsOn: 1 });
+    const last = endOfWeek(endOfMonth(month), { weekStartsOn: 1 });
+    const result: Date[] = [];
+    for (let day = first; day <= last; day = addDays(day, 1)) {
+      result.push(day);
+    }
+    return result;
+  }, [month]);
+
+  const approved = useMemo(() => entries.filter((e) => e.status === "approved"), [entries]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => setMonth(subMonths(month, 1))}
+          data-testid="button-leave-prev-month"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm font-medium">{format(month, "MMMM yyyy")}</span>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => setMonth(addMonths(month, 1))}
+          data-testid="button-leave-next-month"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {days.slice(0, 7).map((day) => (
+          <div key={day.toISOString()} className="text-center text-xs font-medium text-muted-foreground py-1">
+            {format(day, "EEE")}
+          </div>
+        ))}
+        {days.map((day) => {
+          const dateStr = format(day, "yyyy-MM-dd");
+          const onLeave = approved.filter((e) => e.startDate <= dateStr && dateStr <= e.endDate);
+          return (
+            <div
+              key={dateStr}
+              className={cn(
+                "min-h-[72px] rounded-md border p-1 space-y-1",
+                !isSameMonth(day, month) && "opacity-40",
+                isToday(day) && "border-primary"
+              )}
+              data-testid={`leave-day-${dateStr}`}
+            >
+              <div className="text-xs font-mono text-muted-foreground">{format(day, "d")}</div>
+              {onLeave.map((entry) => {
+                const colors = getColors(entry.staffMember);
+                return (
+                  <div
+                    key={entry.id}
+                    className={cn("truncate rounded px-1 text-xs font-medium", colors.bg, colors.text)}
+                    title={`${entry.staffMember} · ${entry.type}`}
+                  >
+                    {entry.staffMember}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
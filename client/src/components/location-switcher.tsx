@@ -0,0 +1,32 @@
+import { MapPin } from "lucide-react";
+import { useLocations } from "@/hooks/use-locations";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Picks the site the page is showing; hidden while there is only one
+export function LocationSwitcher() {
+  const { activeLocations, locationId, setLocationId, isMultiSite } = useLocations();
+
+  if (!isMultiSite) return null;
+
+  return (
+    <Select value={locationId} onValueChange={setLocationId}>
+      <SelectTrigger className="w-44" data-testid="select-location">
+        <MapPin className="mr-1 h-4 w-4 shrink-0 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {activeLocations.map((location) => (
+          <SelectItem key={location.id} value={location.id} data-testid={`select-location-${location.id}`}>
+            {location.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/use-locations";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  DEFAULT_LOCATION_ID,
+  type CreateLocationRequest,
+  type Location,
+  type UpdateLocationRequest,
+} from "@shared/schema";
+
+// Sites the organisation rosters for. Archiving a site keeps its rosters but stops new ones.
+export function LocationsCard() {
+  const { toast } = useToast();
+  const { locations, isLoading } = useLocations();
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [newName, setNewName] = useState("");
+
+  useEffect(() => {
+    setNames(Object.fromEntries(locations.map((l) => [l.id, l.name])));
+  }, [locations]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save location.",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (location: CreateLocationRequest) => {
+      const response = await apiRequest("POST", "/api/locations", location);
+      return await response.json() as Location;
+    },
+    onSuccess: (location) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      setNewName("");
+      toast({
+        title: "Location Added",
+        description: `Add staff to ${location.name} before generating its first roster.`,
+      });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateLocationRequest }) => {
+      const response = await apiRequest("PATCH", `/api/locations/${id}`, updates);
+      return await response.json() as Location;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Locations</CardTitle>
+        <CardDescription>
+          Each site has its own rosters and can have its own rules. Archived sites keep their rosters but get no new ones.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="divide-y">
+            {locations.map((location) => {
+              const name = names[location.id] ?? location.name;
+              return (
+                <div
+                  key={location.id}
+                  className={cn("flex items-center gap-3 py-3", !location.isActive && "opacity-60")}
+                  data-testid={`row-location-${location.id}`}
+                >
+                  <Input
+                    value={name}
+                    onChange={(e) => setNames({ ...names, [location.id]: e.target.value })}
+                    className="w-[240px]"
+                    data-testid={`input-location-name-${location.id}`}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => updateMutation.mutate({ id: location.id, updates: { name: name.trim() } })}
+                    disabled={!name.trim() || name.trim() === location.name || updateMutation.isPending}
+                    data-testid={`button-save-location-${location.id}`}
+                  >
+                    Save
+                  </Button>
+                  <div className="ml-auto flex items-center gap-2 text-sm text-muted-foreground">
+                    {location.isActive ? "Active" : "Archived"}
+                    <Switch
+                      checked={location.isActive}
+                      onCheckedChange={(checked) =>
+                        updateMutation.mutate({ id: location.id, updates: { isActive: checked } })
+                      }
+                      disabled={location.id === DEFAULT_LOCATION_ID || updateMutation.isPending}
+                      data-testid={`switch-location-active-${location.id}`}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+            <div className="flex items-end gap-3 py-3">
+              <div className="space-y-2">
+                <Label htmlFor="location-new-name">New location</Label>
+                <Input
+                  id="location-new-name"
+                  value={newName}
+                  placeholder="Riverside House"
+                  onChange={(e) => setNewName(e.target.value)}
+                  className="w-[240px]"
+                  data-testid="input-location-name-new"
+                />
+              </div>
+              <Button
+                onClick={() => createMutation.mutate({ name: newName.trim() })}
+                disabled={!newName.trim() || createMutation.isPending}
+                data-testid="button-add-location"
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { NotificationItem } from "@/components/notification-list";
+import { useMarkAllNotificationsRead, useMarkNotificationRead, useNotifications } from "@/hooks/use-notifications";
+import { Bell, CheckCheck } from "lucide-react";
+import type { Notification } from "@shared/schema";
+
+const INBOX_SIZE = 8;
+
+// Header bell with the unread count; opens the latest notifications for the logged-in user
+export function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const { notifications, unreadCount, hasInbox } = useNotifications();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read) markRead.mutate(notification.id);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute right-1 top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground"
+              data-testid="badge-unread-count"
+            >
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3">
+          <span className="text-sm font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7"
+              onClick={() => markAllRead.mutate()}
+              disabled={markAllRead.isPending}
+              data-testid="button-mark-all-read"
+            >
+              <CheckCheck className="mr-1 h-4 w-4" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <Separator />
+        {!hasInbox ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">
+            Your account is not linked to a staff record, so nothing is sent to it.
+          </p>
+        ) : notifications.length === 0 ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">You're all caught up.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto p-1">
+            {notifications.slice(0, INBOX_SIZE).map((notification) => (
+              <NotificationItem key={notification.id} notification={notification} onOpen={handleOpen} compact />
+            ))}
+          </div>
+        )}
+        <Separator />
+        <Link
+          href="/notifications"
+          onClick={() => setOpen(false)}
+          className="block px-4 py-2 text-center text-sm text-primary hover:underline"
+          data-testid="link-all-notifications"
+        >
+          View all notifications
+        </Link>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { format } from "date-fns";
+import { RotateCw } from "lucide-react";
+import { DELIVERY_STATUSES, type DeliveryStatus, type NotificationDelivery } from "@shared/schema";
+
+const statusLabels: Record<DeliveryStatus, string> = {
+  pending: "Retrying",
+  sent: "Sent",
+  failed: "Failed",
+};
+
+const statusVariants: Record<DeliveryStatus, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  sent: "default",
+  failed: "destructive",
+};
+
+// Manager view of email and webhook deliveries, with a retry for those that gave up
+export function NotificationDeliveryLog() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<DeliveryStatus | "all">("all");
+
+  const { data: deliveries = [], isLoading } = useQuery<NotificationDelivery[]>({
+    queryKey: ["/api/notification-deliveries", { status }],
+    queryFn: async () => {
+      const params = status === "all" ? "" : `?${new URLSearchParams({ status })}`;
+      const response = await apiRequest("GET", `/api/notification-deliveries${params}`);
+      return await response.json();
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (deliveryId: string) => {
+      await apiRequest("POST", `/api/notification-deliveries/${deliveryId}/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notification-deliveries"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to retry the delivery.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0 flex-wrap">
+        <div className="space-y-1.5">
+          <CardTitle>Delivery log</CardTitle>
+          <CardDescription>
+            Emails and webhooks sent for notifications. Failed sends are retried with backoff before giving up.
+          </CardDescription>
+        </div>
+        <Select value={status} onValueChange={(v) => setStatus(v as DeliveryStatus | "all")}>
+          <SelectTrigger className="w-32" data-testid="select-delivery-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All</SelectItem>
+            {DELIVERY_STATUSES.map((s) => (
+              <SelectItem key={s} value={s}>
+                {statusLabels[s]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : deliveries.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Nothing has been sent outside the app yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Queued</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead>Notification</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id} data-testid={`row-delivery-${delivery.id}`}>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {format(new Date(delivery.createdAt), "d MMM HH:mm")}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div>{delivery.staffMember}</div>
+                    <div className="text-xs text-muted-foreground break-all">
+                      {delivery.channel === "email" ? "Email" : "Webhook"} · {delivery.destination}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{delivery.notificationTitle}</TableCell>
+                  <TableCell className="text-sm">
+                    <Badge variant={statusVariants[delivery.status]}>{statusLabels[delivery.status]}</Badge>
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      {delivery.attempts} {delivery.attempts === 1 ? "attempt" : "attempts"}
+                      {delivery.status === "pending" && delivery.nextAttemptAt &&
+                        ` · next ${format(new Date(delivery.nextAttemptAt), "HH:mm")}`}
+                    </div>
+                    {delivery.lastError && delivery.status !== "sent" && (
+                      <div className="mt-1 text-xs text-destructive">{delivery.lastError}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {delivery.status === "failed" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => retryMutation.mutate(delivery.id)}
+                        disabled={retryMutation.isPending}
+                        title="Retry"
+                        data-testid={`button-retry-delivery-${delivery.id}`}
+                      >
+                        <RotateCw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
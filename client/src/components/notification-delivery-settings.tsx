@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, parseApiError } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { NOTIFICATION_TYPE_LABELS } from "@/components/notification-list";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { channelsFor } from "@shared/notifications";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  type NotificationChannel,
+  type NotificationChannelMap,
+  type NotificationPreferencesResponse,
+  type Staff,
+} from "@shared/schema";
+
+const channelLabels: Record<NotificationChannel, string> = {
+  email: "Email",
+  webhook: "Webhook",
+};
+
+interface Draft {
+  email: string;
+  webhookUrl: string;
+  channels: NotificationChannelMap;
+}
+
+function toDraft(prefs: NotificationPreferencesResponse): Draft {
+  return {
+    email: prefs.email ?? "",
+    webhookUrl: prefs.webhookUrl ?? "",
+    channels: Object.fromEntries(NOTIFICATION_TYPES.map((type) => [type, channelsFor(prefs.channels, type)])),
+  };
+}
+
+// Where a staff member's notifications go besides the inbox. Managers can set anyone's,
+// and only they can set a webhook URL, since the server sends to it.
+export function NotificationDeliverySettings() {
+  const { user, isManager } = useAuth();
+  const { toast } = useToast();
+  const [staffId, setStaffId] = useState<string | null>(user?.staffId ?? null);
+  const [draft, setDraft] = useState<Draft>();
+
+  const { data: staffList = [] } = useQuery<Staff[]>({
+    queryKey: ["/api/staff"],
+    enabled: isManager,
+  });
+
+  useEffect(() => {
+    if (!staffId && isManager && staffList.length > 0) setStaffId(staffList[0].id);
+  }, [staffId, isManager, staffList]);
+
+  const prefsKey = ["/api/staff", staffId, "notification-preferences"];
+  const { data: prefs, isLoading } = useQuery<NotificationPreferencesResponse>({
+    queryKey: prefsKey,
+    enabled: !!staffId,
+  });
+
+  useEffect(() => {
+    if (prefs) setDraft(toDraft(prefs));
+  }, [prefs]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: Draft) => {
+      const response = await apiRequest("PATCH", `/api/staff/${staffId}/notification-preferences`, {
+        email: updates.email.trim() || null,
+        ...(isManager ? { webhookUrl: updates.webhookUrl.trim() || null } : {}),
+        channels: updates.channels,
+      });
+      return await response.json() as NotificationPreferencesResponse;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(prefsKey, saved);
+      toast({
+        title: "Delivery Settings Saved",
+        description: "New notifications will be sent to the channels you chose.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(error).body?.error ?? "Failed to save delivery settings. Check the email address and webhook URL.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!staffId && !isManager) return null;
+
+  const available = prefs?.availableChannels ?? [];
+  const toggle = (type: keyof NotificationChannelMap, channel: NotificationChannel, on: boolean) => {
+    if (!draft) return;
+    const current = draft.channels[type] ?? [];
+    const next = on ? [...current, channel] : current.filter((c) => c !== channel);
+    setDraft({ ...draft, channels: { ...draft.channels, [type]: next } });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0 flex-wrap">
+        <div className="space-y-1.5">
+          <CardTitle>Delivery</CardTitle>
+          <CardDescription>
+            Also send notifications by email or to a webhook. Leave a destination empty to keep them in the app.
+          </CardDescription>
+        </div>
+        {isManager && (
+          <Select value={staffId ?? undefined} onValueChange={setStaffId}>
+            <SelectTrigger className="w-44" data-testid="select-delivery-staff">
+              <SelectValue placeholder="Staff member" />
+            </SelectTrigger>
+            <SelectContent>
+              {staffList.map((member) => (
+                <SelectItem key={member.id} value={member.id}>
+                  {member.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading || !draft ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1.5">
+                <Label htmlFor="delivery-email">Email address</Label>
+                <Input
+                  id="delivery-email"
+                  type="email"
+                  value={draft.email}
+                  placeholder="name@example.com"
+                  onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                  data-testid="input-delivery-email"
+                />
+                {!available.includes("email") && (
+                  <p className="text-xs text-muted-foreground">Email is not set up on this server yet.</p>
+                )}
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="delivery-webhook">Webhook URL</Label>
+                <Input
+                  id="delivery-webhook"
+                  type="url"
+                  value={draft.webhookUrl}
+                  placeholder="https://"
+                  disabled={!isManager}
+                  onChange={(e) => setDraft({ ...draft, webhookUrl: e.target.value })}
+                  data-testid="input-delivery-webhook"
+                />
+                {!isManager && (
+                  <p className="text-xs text-muted-foreground">Ask a manager to set or change the webhook.</p>
+                )}
+              </div>
+            </div>
+            <div className="space-y-2">
+              {NOTIFICATION_TYPES.map((type) => (
+                <div key={type} className="flex items-center justify-between gap-4">
+                  <span className="text-sm">{NOTIFICATION_TYPE_LABELS[type]}</span>
+                  <div className="flex items-center gap-4">
+                    {NOTIFICATION_CHANNELS.map((channel) => (
+                      <div key={channel} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`delivery-${type}-${channel}`}
+                          checked={draft.channels[type]?.includes(channel) ?? false}
+                          onCheckedChange={(checked) => toggle(type, channel, checked === true)}
+                          data-testid={`checkbox-delivery-${type}-${channel}`}
+                        />
+                        <Label htmlFor={`delivery-${type}-${channel}`} className="font-normal">
+                          {channelLabels[channel]}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate(draft)}
+                disabled={saveMutation.isPending}
+                data-testid="button-save-delivery"
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,67 @@
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowRightLeft, CalendarCheck, CalendarClock, CalendarRange, Megaphone, MessageSquareReply } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useLocations } from "@/hooks/use-locations";
+import type { Notification, NotificationType } from "@shared/schema";
+import { notificationPath } from "@shared/notifications";
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  shift_assigned: "Shift assignments",
+  shift_changed: "Shift changes",
+  roster_update: "Roster updates",
+  swap_request: "Swap requests",
+  swap_response: "Swap decisions",
+  open_shift: "Open shifts",
+};
+
+const typeIcons: Record<NotificationType, typeof ArrowRightLeft> = {
+  shift_assigned: CalendarCheck,
+  shift_changed: CalendarClock,
+  roster_update: CalendarRange,
+  swap_request: ArrowRightLeft,
+  swap_response: MessageSquareReply,
+  open_shift: Megaphone,
+};
+
+interface NotificationItemProps {
+  notification: Notification;
+  onOpen: (notification: Notification) => void;
+  compact?: boolean;
+}
+
+export function NotificationItem({ notification, onOpen, compact }: NotificationItemProps) {
+  const Icon = typeIcons[notification.type];
+  const { isMultiSite, nameOf, setLocationId } = useLocations();
+  const site = isMultiSite ? nameOf(notification.locationId) : undefined;
+
+  return (
+    <Link
+      href={notificationPath(notification)}
+      onClick={() => {
+        // The linked shift is on that site's roster
+        if (notification.locationId) setLocationId(notification.locationId);
+        onOpen(notification);
+      }}
+      className={cn(
+        "flex gap-3 rounded-md p-3 text-left transition-colors hover:bg-muted",
+        !notification.read && "bg-primary/5"
+      )}
+      data-testid={`notification-${notification.id}`}
+    >
+      <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+      <div className="min-w-0 flex-1 space-y-0.5">
+        <div className="flex items-center gap-2">
+          <span className={cn("text-sm", !notification.read && "font-medium")}>{notification.title}</span>
+          {!notification.read && <span className="h-2 w-2 shrink-0 rounded-full bg-primary" aria-label="Unread" />}
+        </div>
+        <p className={cn("text-sm text-muted-foreground", compact && "line-clamp-2")}>{notification.message}</p>
+        <p className="text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+          {site && ` · ${site}`}
+          {!compact && ` · ${NOTIFICATION_TYPE_LABELS[notification.type]}`}
+        </p>
+      </div>
+    </Link>
+  );
+}
@@ -0,0 +1,226 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/use-locations";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Import, Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import type {
+  CreatePublicHolidayRequest,
+  ImportPublicHolidaysRequest,
+  ImportPublicHolidaysResponse,
+  PublicHoliday,
+} from "@shared/schema";
+
+const ALL_LOCATIONS = "all";
+
+// Bank holidays the generator lays out and rotates separately, for every site or just one
+export function PublicHolidaysCard() {
+  const { toast } = useToast();
+  const { activeLocations, isMultiSite, nameOf } = useLocations();
+  const [date, setDate] = useState("");
+  const [name, setName] = useState("");
+  const [site, setSite] = useState(ALL_LOCATIONS);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const { data: holidays, isLoading } = useQuery<PublicHoliday[]>({
+    queryKey: ["/api/public-holidays"],
+  });
+
+  const locationId = site === ALL_LOCATIONS ? null : site;
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update public holidays.",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (holiday: CreatePublicHolidayRequest) => {
+      const response = await apiRequest("POST", "/api/public-holidays", holiday);
+      return await response.json() as PublicHoliday;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/public-holidays"] });
+      setDate("");
+      setName("");
+    },
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (request: ImportPublicHolidaysRequest) => {
+      const response = await apiRequest("POST", "/api/public-holidays/import", request);
+      return await response.json() as ImportPublicHolidaysResponse;
+    },
+    onSuccess: ({ imported, skipped, errors }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/public-holidays"] });
+      toast({
+        title: "Public Holidays Imported",
+        description: [
+          `${imported.length} added`,
+          skipped > 0 ? `${skipped} already in the calendar` : null,
+          errors.length > 0 ? `${errors.length} line(s) could not be read: ${errors[0]}` : null,
+        ].filter(Boolean).join(" · "),
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/public-holidays/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/public-holidays"] });
+    },
+    onError,
+  });
+
+  // .ics files from calendar apps, anything else is read as date,name rows
+  const importFile = async (file: File) => {
+    const content = await file.text();
+    const fileFormat = file.name.toLowerCase().endsWith(".ics") || content.includes("BEGIN:VCALENDAR") ? "ics" : "csv";
+    importMutation.mutate({ format: fileFormat, content, locationId });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Public holidays</CardTitle>
+        <CardDescription>
+          Days the holiday layout and holiday rules apply. Import an ICS calendar or a CSV of date,name rows, or add
+          days one at a time. Rosters already generated keep their shifts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="holiday-date">Date</Label>
+            <Input
+              id="holiday-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-[160px]"
+              data-testid="input-holiday-date"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="holiday-name">Name</Label>
+            <Input
+              id="holiday-name"
+              value={name}
+              placeholder="Christmas Day"
+              onChange={(e) => setName(e.target.value)}
+              className="w-[200px]"
+              data-testid="input-holiday-name"
+            />
+          </div>
+          {isMultiSite && (
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <Select value={site} onValueChange={setSite}>
+                <SelectTrigger className="w-[170px]" data-testid="select-holiday-location">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+                  {activeLocations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <Button
+            onClick={() => createMutation.mutate({ date, name: name.trim(), locationId })}
+            disabled={!date || !name.trim() || createMutation.isPending}
+            data-testid="button-add-holiday"
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => fileInput.current?.click()}
+            disabled={importMutation.isPending}
+            data-testid="button-import-holidays"
+          >
+            <Import className="mr-1 h-4 w-4" />
+            Import
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".ics,.csv,text/calendar,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = "";
+            }}
+            data-testid="input-import-holidays"
+          />
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : !holidays || holidays.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No public holidays yet.</p>
+        ) : (
+          <ScrollArea className="h-64 rounded-md border">
+            <div className="divide-y">
+              {holidays.map((holiday) => (
+                <div
+                  key={holiday.id}
+                  className={cn("flex items-center gap-3 px-3 py-2 text-sm", holiday.date < today && "opacity-60")}
+                  data-testid={`row-holiday-${holiday.id}`}
+                >
+                  <span className="w-36 font-mono">{format(parseISO(holiday.date), "EEE d MMM yyyy")}</span>
+                  <span className="font-medium">{holiday.name}</span>
+                  {(isMultiSite || holiday.locationId !== null) && (
+                    <Badge variant="outline" className="font-normal">
+                      {holiday.locationId === null ? "All locations" : nameOf(holiday.locationId)}
+                    </Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="ml-auto h-7 w-7"
+                    onClick={() => deleteMutation.mutate(holiday.id)}
+                    disabled={deleteMutation.isPending}
+                    title="Remove public holiday"
+                    data-testid={`button-delete-holiday-${holiday.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
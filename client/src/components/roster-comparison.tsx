@@ -6,93 +6,58 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import { format } from "date-fns";
 import { ArrowRight, Equal, AlertCircle } from "lucide-react";
-import type { Roster, RosterShift, StaffMember, RosterSummary } from "@shared/schema";
-import { STAFF_COLORS } from "@shared/schema";
+import type { Roster, RosterVersion, RosterVersionRef, StaffMember } from "@shared/schema";
+import { diffRosterShifts } from "@shared/roster-diff";
+import { useStaff } from "@/hooks/use-staff";
 
 interface RosterComparisonProps {
   leftRosterId: string;
   rightRosterId: string;
+  // Published version to compare, or "draft"; when omitted the roster's current shifts are used
+  leftVersion?: RosterVersionRef;
+  rightVersion?: RosterVersionRef;
 }
 
-interface ShiftDiff {
-  shiftId: string;
-  date: string;
-  weekday: string;
-  shiftType: string;
-  leftAssigned: StaffMember | null;
-  rightAssigned: StaffMember | null;
-  isDifferent: boolean;
+// Roster or published version - both carry a name and shifts
+function useComparisonSide(rosterId: string, version?: RosterVersionRef) {
+  const isPublished = typeof version === "number";
+  return useQuery<Roster | RosterVersion | null>({
+    queryKey: isPublished ? ["/api/roster", rosterId, "versions", version] : ["/api/roster", rosterId],
+    enabled: !!rosterId,
+  });
+}
+
+function sideLabel(name: string, version?: RosterVersionRef): string {
+  if (version === undefined) return name;
+  return `${name} · ${version === "draft" ? "Draft" : `v${version}`}`;
 }
 
 function StaffBadge({ staff }: { staff: StaffMember | null }) {
+  const { getColors } = useStaff();
+
   if (!staff) {
     return (
       <span className="text-xs text-muted-foreground italic">Unassigned</span>
     );
   }
 
-  const colors = STAFF_COLORS[staff];
+  const colors = getColors(staff);
   return (
-    <Badge className={`${colors.bg} ${colors.text} ${colors.darkBg} ${colors.darkText}`}>
+    <Badge className={`${colors.bg} ${colors.text}`}>
       {staff}
     </Badge>
   );
 }
 
-export function RosterComparison({ leftRosterId, rightRosterId }: RosterComparisonProps) {
-  const { data: leftRoster, isLoading: leftLoading } = useQuery<Roster | null>({
-    queryKey: ["/api/roster", leftRosterId],
-    enabled: !!leftRosterId,
-  });
-
-  const { data: rightRoster, isLoading: rightLoading } = useQuery<Roster | null>({
-    queryKey: ["/api/roster", rightRosterId],
-    enabled: !!rightRosterId,
-  });
+export function RosterComparison({ leftRosterId, rightRosterId, leftVersion, rightVersion }: RosterComparisonProps) {
+  const { data: leftRoster, isLoading: leftLoading } = useComparisonSide(leftRosterId, leftVersion);
+  const { data: rightRoster, isLoading: rightLoading } = useComparisonSide(rightRosterId, rightVersion);
 
   const isLoading = leftLoading || rightLoading;
 
   const diffs = useMemo(() => {
     if (!leftRoster || !rightRoster) return [];
-
-    const leftShiftsMap = new Map<string, RosterShift>();
-    leftRoster.shifts.forEach((shift) => {
-      const key = `${shift.date}-${shift.shiftType}`;
-      leftShiftsMap.set(key, shift);
-    });
-
-    const rightShiftsMap = new Map<string, RosterShift>();
-    rightRoster.shifts.forEach((shift) => {
-      const key = `${shift.date}-${shift.shiftType}`;
-      rightShiftsMap.set(key, shift);
-    });
-
-    const allKeys = new Set([...Array.from(leftShiftsMap.keys()), ...Array.from(rightShiftsMap.keys())]);
-    const results: ShiftDiff[] = [];
-
-    allKeys.forEach((key) => {
-      const leftShift = leftShiftsMap.get(key);
-      const rightShift = rightShiftsMap.get(key);
-
-      const leftAssigned = leftShift?.assigned || null;
-      const rightAssigned = rightShift?.assigned || null;
-      const isDifferent = leftAssigned !== rightAssigned;
-
-      const shift = leftShift || rightShift;
-      if (shift) {
-        results.push({
-          shiftId: shift.id,
-          date: shift.date,
-          weekday: shift.weekday,
-          shiftType: shift.shiftType,
-          leftAssigned,
-          rightAssigned,
-          isDifferent,
-        });
-      }
-    });
-
-    return results.sort((a, b) => a.date.localeCompare(b.date) || a.shiftType.localeCompare(b.shiftType));
+    return diffRosterShifts(leftRoster.shifts, rightRoster.shifts);
   }, [leftRoster, rightRoster]);
 
   const changedCount = useMemo(() => {
@@ -144,9 +109,9 @@ export function RosterComparison({ leftRosterId, rightRosterId }: RosterComparis
           </Badge>
         </div>
         <div className="flex items-center gap-2 text-sm text-muted-foreground mt-2">
-          <span className="font-medium text-foreground">{leftRoster.name}</span>
+          <span className="font-medium text-foreground">{sideLabel(leftRoster.name, leftVersion)}</span>
           <ArrowRight className="h-4 w-4" />
-          <span className="font-medium text-foreground">{rightRoster.name}</span>
+          <span className="font-medium text-foreground">{sideLabel(rightRoster.name, rightVersion)}</span>
         </div>
       </CardHeader>
       <CardContent>
@@ -162,8 +127,8 @@ export function RosterComparison({ leftRosterId, rightRosterId }: RosterComparis
 
             {diffs.map((diff) => (
               <div
-                key={`${diff.date}-${diff.shiftType}`}
-                data-testid={`comparison-row-${diff.date}-${diff.shiftType}`}
+                key={diff.slotKey}
+                data-testid={`comparison-row-${diff.slotKey}`}
                 className={`
                   grid grid-cols-[120px_80px_1fr_24px_1fr] gap-2 px-3 py-2 rounded-md items-center
                   ${diff.isDifferent ? "bg-amber-50 dark:bg-amber-900/20" : ""}
@@ -176,6 +141,7 @@ export function RosterComparison({ leftRosterId, rightRosterId }: RosterComparis
                 <div>
                   <Badge variant="outline" className="text-xs">
                     {diff.shiftType}
+                    {diff.position > 1 && ` #${diff.position}`}
                   </Badge>
                 </div>
                 <div className="flex justify-center">
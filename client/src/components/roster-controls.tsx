@@ -15,6 +15,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { cn } from "@/lib/utils";
 
 interface RosterControlsProps {
@@ -22,11 +24,14 @@ interface RosterControlsProps {
   onStartDateChange: (date: Date | undefined) => void;
   weeks: number;
   onWeeksChange: (weeks: number) => void;
+  useSolver: boolean;
+  onUseSolverChange: (useSolver: boolean) => void;
   onGenerate: () => void;
   onExport: () => void;
   isGenerating?: boolean;
   isExporting?: boolean;
   hasRoster?: boolean;
+  canGenerate?: boolean;
 }
 
 export function RosterControls({
@@ -34,81 +39,100 @@ export function RosterControls({
   onStartDateChange,
   weeks,
   onWeeksChange,
+  useSolver,
+  onUseSolverChange,
   onGenerate,
   onExport,
   isGenerating,
   isExporting,
   hasRoster,
+  canGenerate = true,
 }: RosterControlsProps) {
   const [calendarOpen, setCalendarOpen] = useState(false);
 
   return (
     <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 flex-wrap">
-      <div className="flex items-center gap-2">
-        <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
-          <PopoverTrigger asChild>
-            <Button
-              variant="outline"
-              className={cn(
-                "w-[200px] justify-start text-left font-normal",
-                !startDate && "text-muted-foreground"
-              )}
-              data-testid="button-date-picker"
-            >
-              <CalendarIcon className="mr-2 h-4 w-4" />
-              {startDate ? format(startDate, "dd MMM yyyy") : "Select start date"}
-            </Button>
-          </PopoverTrigger>
-          <PopoverContent className="w-auto p-0" align="start">
-            <Calendar
-              mode="single"
-              selected={startDate}
-              onSelect={(date) => {
-                onStartDateChange(date);
-                setCalendarOpen(false);
-              }}
-              disabled={(date) => {
-                const day = date.getDay();
-                return day !== 1;
-              }}
-              initialFocus
-            />
-            <div className="p-3 border-t text-xs text-muted-foreground text-center">
-              Only Mondays can be selected as start date
-            </div>
-          </PopoverContent>
-        </Popover>
+      {canGenerate && (
+        <div className="flex items-center gap-2">
+          <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className={cn(
+                  "w-[200px] justify-start text-left font-normal",
+                  !startDate && "text-muted-foreground"
+                )}
+                data-testid="button-date-picker"
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {startDate ? format(startDate, "dd MMM yyyy") : "Select start date"}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={startDate}
+                onSelect={(date) => {
+                  onStartDateChange(date);
+                  setCalendarOpen(false);
+                }}
+                disabled={(date) => {
+                  const day = date.getDay();
+                  return day !== 1;
+                }}
+                initialFocus
+              />
+              <div className="p-3 border-t text-xs text-muted-foreground text-center">
+                Only Mondays can be selected as start date
+              </div>
+            </PopoverContent>
+          </Popover>
 
-        <Select
-          value={weeks.toString()}
-          onValueChange={(value) => onWeeksChange(parseInt(value, 10))}
-        >
-          <SelectTrigger className="w-[100px]" data-testid="select-weeks">
-            <SelectValue placeholder="Weeks" />
-          </SelectTrigger>
-          <SelectContent>
-            {[1, 2, 3, 4, 5, 6, 8, 12].map((w) => (
-              <SelectItem key={w} value={w.toString()}>
-                {w} week{w !== 1 ? "s" : ""}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
-      </div>
+          <Select
+            value={weeks.toString()}
+            onValueChange={(value) => onWeeksChange(parseInt(value, 10))}
+          >
+            <SelectTrigger className="w-[100px]" data-testid="select-weeks">
+              <SelectValue placeholder="Weeks" />
+            </SelectTrigger>
+            <SelectContent>
+              {[1, 2, 3, 4, 5, 6, 8, 12].map((w) => (
+                <SelectItem key={w} value={w.toString()}>
+                  {w} week{w !== 1 ? "s" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-center gap-2 pl-1">
+            <Switch
+              id="use-solver"
+              checked={useSolver}
+              onCheckedChange={onUseSolverChange}
+              data-testid="switch-use-solver"
+            />
+            <Label htmlFor="use-solver" className="text-sm font-normal">
+              Optimise
+            </Label>
+          </div>
+        </div>
+      )}
 
       <div className="flex items-center gap-2">
-        <Button
-          onClick={onGenerate}
-          disabled={!startDate || isGenerating}
-          data-testid="button-generate-roster"
-        >
-          {isGenerating ? (
-            <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
-          ) : (
-            <RefreshCw className="mr-2 h-4 w-4" />
-          )}
-          Generate Roster
-        </Button>
+        {canGenerate && (
+          <Button
+            onClick={onGenerate}
+            disabled={!startDate || isGenerating}
+            data-testid="button-generate-roster"
+          >
+            {isGenerating ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Generate Roster
+          </Button>
+        )}
 
         <Button
           variant="outline"
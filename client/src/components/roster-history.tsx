@@ -1,12 +1,16 @@
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocations } from "@/hooks/use-locations";
 import { format } from "date-fns";
-import { Calendar, Check, Trash2, History } from "lucide-react";
+import { RosterVersionsSheet, versionLabel } from "@/components/roster-versions";
+import { RosterStatusBadge } from "@/components/roster-status";
+import { Calendar, Check, Trash2, History, Layers } from "lucide-react";
 import type { RosterSummary } from "@shared/schema";
 import {
   AlertDialog,
@@ -27,9 +31,16 @@ interface RosterHistoryProps {
 
 export function RosterHistory({ onRosterSelect, selectedRosterId }: RosterHistoryProps) {
   const { toast } = useToast();
+  const { isManager } = useAuth();
+  const { locationId } = useLocations();
+  const [versionsRosterId, setVersionsRosterId] = useState<string | null>(null);
 
   const { data: rosters, isLoading } = useQuery<RosterSummary[]>({
-    queryKey: ["/api/rosters"],
+    queryKey: ["/api/rosters", { locationId }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/rosters?${new URLSearchParams({ locationId })}`);
+      return await response.json();
+    },
   });
 
   const activateMutation = useMutation({
@@ -40,9 +51,10 @@ export function RosterHistory({ onRosterSelect, selectedRosterId }: RosterHistor
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/rosters"] });
       queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
       toast({
         title: "Roster Activated",
-        description: "This roster is now the active version.",
+        description: "Its latest published version is now live for staff.",
       });
     },
     onError: () => {
@@ -62,6 +74,7 @@ export function RosterHistory({ onRosterSelect, selectedRosterId }: RosterHistor
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/rosters"] });
       queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
       toast({
         title: "Roster Deleted",
         description: "The roster has been permanently deleted.",
@@ -100,95 +113,115 @@ export function RosterHistory({ onRosterSelect, selectedRosterId }: RosterHistor
     );
   }
 
+  const versionsRoster = rosters.find((r) => r.id === versionsRosterId) ?? null;
+
   return (
-    <ScrollArea className="h-[400px] pr-2">
-      <div className="space-y-2">
-        {rosters.map((roster) => (
-          <div
-            key={roster.id}
-            data-testid={`roster-history-item-${roster.id}`}
-            className={`
-              group p-3 rounded-lg border cursor-pointer transition-colors
-              ${roster.isActive ? "border-primary bg-primary/5" : "border-border hover-elevate"}
-              ${selectedRosterId === roster.id ? "ring-2 ring-primary" : ""}
-            `}
-            onClick={() => onRosterSelect(roster.id)}
-          >
-            <div className="flex items-start justify-between gap-2">
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2 mb-1">
-                  <span className="font-medium text-sm truncate">
-                    {roster.name}
-                  </span>
-                  {roster.isActive && (
-                    <Badge variant="default" className="text-xs shrink-0">
-                      Active
-                    </Badge>
-                  )}
-                </div>
-                <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                  <Calendar className="h-3 w-3" />
-                  <span>
-                    {format(new Date(roster.startDate), "MMM d")} - {format(new Date(roster.endDate), "MMM d, yyyy")}
-                  </span>
+    <>
+      <ScrollArea className="h-[400px] pr-2">
+        <div className="space-y-2">
+          {rosters.map((roster) => (
+            <div
+              key={roster.id}
+              data-testid={`roster-history-item-${roster.id}`}
+              className={`
+                group p-3 rounded-lg border cursor-pointer transition-colors
+                ${roster.isActive ? "border-primary bg-primary/5" : "border-border hover-elevate"}
+                ${selectedRosterId === roster.id ? "ring-2 ring-primary" : ""}
+              `}
+              onClick={() => onRosterSelect(roster.id)}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="font-medium text-sm truncate">
+                      {roster.name}
+                    </span>
+                    <RosterStatusBadge status={roster.status} />
+                  </div>
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Calendar className="h-3 w-3" />
+                    <span>
+                      {format(new Date(roster.startDate), "MMM d")} - {format(new Date(roster.endDate), "MMM d, yyyy")}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {roster.shiftCount} shifts · {versionLabel(roster.version)}
+                  </div>
                 </div>
-                <div className="text-xs text-muted-foreground mt-1">
-                  {roster.shiftCount} shifts · v{roster.version}
-                </div>
-              </div>
-              
-              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                {!roster.isActive && (
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-7 w-7"
-                    data-testid={`button-activate-roster-${roster.id}`}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      activateMutation.mutate(roster.id);
-                    }}
-                    disabled={activateMutation.isPending}
-                  >
-                    <Check className="h-4 w-4" />
-                  </Button>
-                )}
                 
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
+                {isManager && (
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                     <Button
                       variant="ghost"
                       size="icon"
-                      className="h-7 w-7 text-destructive hover:text-destructive"
-                      data-testid={`button-delete-roster-${roster.id}`}
-                      onClick={(e) => e.stopPropagation()}
+                      className="h-7 w-7"
+                      data-testid={`button-roster-versions-${roster.id}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setVersionsRosterId(roster.id);
+                      }}
                     >
-                      <Trash2 className="h-4 w-4" />
+                      <Layers className="h-4 w-4" />
                     </Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Delete Roster</AlertDialogTitle>
-                      <AlertDialogDescription>
-                        Are you sure you want to delete this roster? This action cannot be undone.
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction
-                        onClick={() => deleteMutation.mutate(roster.id)}
-                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+
+                    {roster.version > 0 && roster.status !== "published" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        data-testid={`button-activate-roster-${roster.id}`}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          activateMutation.mutate(roster.id);
+                        }}
+                        disabled={activateMutation.isPending}
                       >
-                        Delete
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                        <Check className="h-4 w-4" />
+                      </Button>
+                    )}
+
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-destructive hover:text-destructive"
+                          data-testid={`button-delete-roster-${roster.id}`}
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Roster</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete this roster? This action cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteMutation.mutate(roster.id)}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
               </div>
             </div>
-          </div>
-        ))}
-      </div>
-    </ScrollArea>
+          ))}
+        </div>
+      </ScrollArea>
+
+      <RosterVersionsSheet
+        roster={versionsRoster}
+        onOpenChange={(open) => !open && setVersionsRosterId(null)}
+      />
+    </>
   );
 }
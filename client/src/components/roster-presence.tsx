@@ -0,0 +1,40 @@
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Eye, Pencil } from "lucide-react";
+import type { RosterViewer } from "@shared/realtime";
+
+// Everyone else who has this roster open, with a pencil on those who can edit it
+export function RosterPresence({ viewers }: { viewers: RosterViewer[] }) {
+  if (viewers.length === 0) return null;
+
+  const editors = viewers.filter((v) => v.editing).length;
+  return (
+    <div className="flex items-center gap-2" data-testid="roster-presence">
+      <div className="flex -space-x-2">
+        {viewers.map((viewer) => (
+          <Tooltip key={viewer.userId}>
+            <TooltipTrigger asChild>
+              <div className="relative">
+                <Avatar className="h-7 w-7 border-2 border-background">
+                  <AvatarFallback className="text-xs">{viewer.username.slice(0, 2).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                {viewer.editing && (
+                  <span className="absolute -bottom-1 -right-1 flex h-4 w-4 items-center justify-center rounded-full bg-primary text-primary-foreground">
+                    <Pencil className="h-2.5 w-2.5" />
+                  </span>
+                )}
+              </div>
+            </TooltipTrigger>
+            <TooltipContent>
+              {viewer.username} {viewer.editing ? "is editing" : "is viewing"}
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+      <span className="flex items-center gap-1 text-xs">
+        <Eye className="h-3.5 w-3.5" />
+        {editors > 0 ? `${editors} editing` : `${viewers.length} viewing`}
+      </span>
+    </div>
+  );
+}
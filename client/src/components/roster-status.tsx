@@ -0,0 +1,73 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { usePublishRoster, useRosterStatus } from "@/hooks/use-roster-lifecycle";
+import { Archive, FilePen, Send, Upload } from "lucide-react";
+import type { Roster, RosterStatus } from "@shared/schema";
+import { ROSTER_STATUS_LABELS } from "@shared/roster-lifecycle";
+
+const statusStyles: Record<RosterStatus, string> = {
+  draft: "bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300",
+  under_review: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+  published: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  archived: "bg-muted text-muted-foreground",
+};
+
+export function RosterStatusBadge({ status }: { status: RosterStatus }) {
+  return (
+    <Badge className={`text-xs shrink-0 ${statusStyles[status]}`} data-testid={`badge-roster-status-${status}`}>
+      {ROSTER_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+// Lifecycle buttons for managers; the server enforces the same transitions
+export function RosterStatusActions({ roster }: { roster: Roster }) {
+  const publishMutation = usePublishRoster();
+  const statusMutation = useRosterStatus();
+  const status = roster.status ?? "draft";
+  const isPending = publishMutation.isPending || statusMutation.isPending;
+
+  const moveTo = (next: "draft" | "under_review" | "archived") =>
+    statusMutation.mutate({ rosterId: roster.id, status: next });
+
+  return (
+    <div className="flex items-center gap-1">
+      {status === "draft" && (
+        <Button variant="ghost" size="sm" className="h-7" onClick={() => moveTo("under_review")} disabled={isPending} data-testid="button-submit-review">
+          <Send className="mr-1 h-4 w-4" />
+          Submit for review
+        </Button>
+      )}
+      {status === "under_review" && (
+        <Button variant="ghost" size="sm" className="h-7" onClick={() => moveTo("draft")} disabled={isPending} data-testid="button-back-to-draft">
+          <FilePen className="mr-1 h-4 w-4" />
+          Back to draft
+        </Button>
+      )}
+      {status !== "archived" && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7"
+          onClick={() => publishMutation.mutate({ rosterId: roster.id })}
+          disabled={isPending}
+          data-testid="button-publish"
+        >
+          <Upload className="mr-1 h-4 w-4" />
+          {status === "published" ? "Publish changes" : "Publish"}
+        </Button>
+      )}
+      {status === "archived" ? (
+        <Button variant="ghost" size="sm" className="h-7" onClick={() => moveTo("draft")} disabled={isPending} data-testid="button-reopen">
+          <FilePen className="mr-1 h-4 w-4" />
+          Reopen as draft
+        </Button>
+      ) : (
+        <Button variant="ghost" size="sm" className="h-7" onClick={() => moveTo("archived")} disabled={isPending} data-testid="button-archive">
+          <Archive className="mr-1 h-4 w-4" />
+          Archive
+        </Button>
+      )}
+    </div>
+  );
+}
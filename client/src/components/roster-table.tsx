@@ -7,16 +7,25 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { StaffAssignmentCell } from "@/components/staff-assignment-cell";
-import type { RosterShift, StaffMember } from "@shared/schema";
+import type { ComplianceViolation, RosterShift, StaffMember } from "@shared/schema";
+import { formatHours, formatShiftTimes, toZonedDateTime } from "@shared/shift-times";
 import { formatDisplayDate, isToday, isPast } from "@/lib/roster-utils";
 import { cn } from "@/lib/utils";
-import { Sun, Moon, Clock } from "lucide-react";
+import { Sun, Moon, Clock, History, AlertTriangle } from "lucide-react";
 
 interface RosterTableProps {
   shifts: RosterShift[];
   onAssign: (shiftId: string, staff: StaffMember | null) => void;
   isLoading?: boolean;
+  readOnly?: boolean;
+  onShowHistory?: (shift: RosterShift) => void;
+  // Working-time violations per shift id, highlighted next to the assignee
+  violations?: Map<string, ComplianceViolation[]>;
+  // Shift opened from a notification
+  highlightedShiftId?: string;
 }
 
 const weekdayColors: Record<string, string> = {
@@ -29,17 +38,32 @@ const weekdayColors: Record<string, string> = {
   Sun: "bg-violet-100 text-violet-700 dark:bg-violet-900/50 dark:text-violet-300",
 };
 
-function ShiftIcon({ shiftType }: { shiftType: string }) {
-  if (shiftType === "Day") {
+const LONG_SHIFT_MS = 20 * 60 * 60 * 1000;
+
+// Shift types are configurable, so the icon follows the times: a sun for shifts starting
+// between 05:00 and 17:00, a moon for the rest, and a clock for round-the-clock shifts
+function ShiftIcon({ shift }: { shift: RosterShift }) {
+  if (Date.parse(shift.endsAt) - Date.parse(shift.startsAt) >= LONG_SHIFT_MS) {
+    return <Clock className="h-4 w-4 text-muted-foreground" />;
+  }
+  const startHour = Number(toZonedDateTime(shift.startsAt, shift.timezone).time.slice(0, 2));
+  if (startHour >= 5 && startHour < 17) {
     return <Sun className="h-4 w-4 text-amber-500" />;
   }
-  if (shiftType === "Night") {
-    return <Moon className="h-4 w-4 text-indigo-500" />;
+  return <Moon className="h-4 w-4 text-indigo-500" />;
+}
+
+// How many people each date's shift type needs, from the places generated for it
+function countPlaces(shifts: RosterShift[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const shift of shifts) {
+    const key = `${shift.date}|${shift.shiftType}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
   }
-  return <Clock className="h-4 w-4 text-muted-foreground" />;
+  return counts;
 }
 
-export function RosterTable({ shifts, onAssign, isLoading }: RosterTableProps) {
+export function RosterTable({ shifts, onAssign, isLoading, readOnly, onShowHistory, violations, highlightedShiftId }: RosterTableProps) {
   if (shifts.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-16 text-center">
@@ -52,6 +76,8 @@ export function RosterTable({ shifts, onAssign, isLoading }: RosterTableProps) {
     );
   }
 
+  const places = countPlaces(shifts);
+
   return (
     <div className="rounded-lg border border-border overflow-hidden">
       <Table>
@@ -72,6 +98,7 @@ export function RosterTable({ shifts, onAssign, isLoading }: RosterTableProps) {
             <TableHead className="font-semibold text-xs uppercase tracking-wide text-right w-[80px]">
               Hours
             </TableHead>
+            {onShowHistory && <TableHead className="w-[50px]" />}
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -79,14 +106,18 @@ export function RosterTable({ shifts, onAssign, isLoading }: RosterTableProps) {
             const isTodayShift = isToday(shift.date);
             const isPastShift = isPast(shift.date) && !isTodayShift;
             const isNewDate = index === 0 || shifts[index - 1].date !== shift.date;
+            const shiftViolations = violations?.get(shift.id);
             
             return (
               <TableRow 
                 key={shift.id}
+                id={`shift-${shift.id}`}
                 className={cn(
                   "transition-colors",
                   isTodayShift && "bg-primary/5 dark:bg-primary/10",
                   isPastShift && "opacity-60",
+                  shiftViolations && "bg-amber-50 dark:bg-amber-900/10",
+                  shift.id === highlightedShiftId && "bg-primary/10 ring-2 ring-inset ring-primary",
                   !isNewDate && "border-t-0"
                 )}
                 data-testid={`row-shift-${shift.id}`}
@@ -102,6 +133,15 @@ export function RosterTable({ shifts, onAssign, isLoading }: RosterTableProps) {
                           Today
                         </Badge>
                       )}
+                      {shift.publicHoliday && (
+                        <Badge
+                          variant="outline"
+                          className="border-rose-300 text-xs text-rose-700 dark:border-rose-800 dark:text-rose-300"
+                          data-testid={`badge-holiday-${shift.id}`}
+                        >
+                          {shift.publicHoliday}
+                        </Badge>
+                      )}
                     </div>
                   ) : (
                     <span className="text-muted-foreground/50">—</span>
@@ -125,30 +165,72 @@ export function RosterTable({ shifts, onAssign, isLoading }: RosterTableProps) {
                 </TableCell>
                 <TableCell>
                   <div className="flex items-center gap-2">
-                    <ShiftIcon shiftType={shift.shiftType} />
+                    <ShiftIcon shift={shift} />
                     <span 
                       className="text-sm font-medium"
                       data-testid={`text-shift-${shift.id}`}
                     >
                       {shift.shiftLabel}
                     </span>
+                    {(places.get(`${shift.date}|${shift.shiftType}`) ?? 1) > 1 && (
+                      <Badge variant="outline" className="px-1.5 py-0 text-[10px]" data-testid={`badge-place-${shift.id}`}>
+                        {shift.position}/{places.get(`${shift.date}|${shift.shiftType}`)}
+                      </Badge>
+                    )}
+                    <span
+                      className="font-mono text-xs tabular-nums text-muted-foreground"
+                      title={shift.breakMinutes > 0 ? `${shift.breakMinutes} min unpaid break` : undefined}
+                      data-testid={`text-times-${shift.id}`}
+                    >
+                      {formatShiftTimes(shift)}
+                    </span>
                   </div>
                 </TableCell>
                 <TableCell>
-                  <StaffAssignmentCell 
-                    shift={shift} 
-                    onAssign={onAssign}
-                    disabled={isLoading}
-                  />
+                  <div className="flex items-center gap-2">
+                    <StaffAssignmentCell 
+                      shift={shift} 
+                      onAssign={onAssign}
+                      disabled={isLoading || readOnly}
+                    />
+                    {shiftViolations && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <AlertTriangle
+                            className="h-4 w-4 shrink-0 text-amber-500"
+                            data-testid={`icon-compliance-${shift.id}`}
+                          />
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-xs">
+                          {shiftViolations.map((violation, i) => (
+                            <p key={i} className="text-xs">{violation.message}</p>
+                          ))}
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+                  </div>
                 </TableCell>
                 <TableCell className="text-right">
                   <span 
                     className="font-mono text-sm tabular-nums"
                     data-testid={`text-hours-${shift.id}`}
                   >
-                    {shift.hours}h
+                    {formatHours(shift.hours)}
                   </span>
                 </TableCell>
+                {onShowHistory && (
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => onShowHistory(shift)}
+                      data-testid={`button-shift-history-${shift.id}`}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                )}
               </TableRow>
             );
           })}
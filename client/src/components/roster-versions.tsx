@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { usePublishRoster } from "@/hooks/use-roster-lifecycle";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { format } from "date-fns";
+import { GitCompare, Layers, Undo2, Upload } from "lucide-react";
+import type {
+  RestoreRosterVersionResponse,
+  RosterSummary,
+  RosterVersionRef,
+  RosterVersionSummary,
+} from "@shared/schema";
+import { isRosterEditable } from "@shared/roster-lifecycle";
+
+// Link to the compare page with both sides preselected
+export function compareVersionsHref(rosterId: string, left: RosterVersionRef, right: RosterVersionRef): string {
+  const params = new URLSearchParams({
+    left: rosterId,
+    leftVersion: String(left),
+    right: rosterId,
+    rightVersion: String(right),
+  });
+  return `/compare?${params}`;
+}
+
+export function versionLabel(version: number): string {
+  return version > 0 ? `v${version}` : "Unpublished";
+}
+
+interface RosterVersionsSheetProps {
+  roster: RosterSummary | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Published versions of a roster, with publish and restore for managers
+export function RosterVersionsSheet({ roster, onOpenChange }: RosterVersionsSheetProps) {
+  const { toast } = useToast();
+  const { isManager } = useAuth();
+  const [note, setNote] = useState("");
+  const rosterId = roster?.id ?? "";
+
+  const { data: versions, isLoading } = useQuery<RosterVersionSummary[]>({
+    queryKey: ["/api/roster", rosterId, "versions"],
+    enabled: !!roster,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/rosters"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+  };
+
+  const publishMutation = usePublishRoster();
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest("POST", `/api/roster/${rosterId}/versions/${version}/restore`, {});
+      return await response.json() as RestoreRosterVersionResponse;
+    },
+    onSuccess: (restored, version) => {
+      invalidate();
+      toast({
+        title: "Version Restored",
+        description: restored.clearedForLeave.length > 0
+          ? `The draft now matches version ${version}, except ${restored.clearedForLeave.length} shift(s) left empty because of approved leave.`
+          : `The draft now matches version ${version}. Publish it to make it current.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore version.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sheet open={!!roster} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Layers className="h-4 w-4" />
+            Versions
+          </SheetTitle>
+          <SheetDescription>
+            {roster?.name} · the draft is {roster?.version ? `based on v${roster.version}` : "not yet published"}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isManager && roster?.status !== "archived" && (
+          <div className="flex items-center gap-2 mt-6">
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note (optional)"
+              maxLength={500}
+              data-testid="input-publish-note"
+            />
+            <Button
+              onClick={() => publishMutation.mutate(
+                { rosterId, note: note.trim() || undefined },
+                { onSuccess: () => setNote("") }
+              )}
+              disabled={publishMutation.isPending}
+              data-testid="button-publish-roster"
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Publish
+            </Button>
+          </div>
+        )}
+
+        <ScrollArea className="h-[calc(100vh-12rem)] mt-6 pr-4">
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : !versions || versions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No published versions yet
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {versions.map((version) => (
+                <div
+                  key={version.id}
+                  className="p-3 rounded-lg border"
+                  data-testid={`roster-version-${version.version}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={version.version === roster?.version ? "default" : "secondary"}>
+                        v{version.version}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(version.publishedAt), "MMM d, yyyy 'at' HH:mm")}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon" className="h-7 w-7" asChild>
+                        <Link
+                          href={compareVersionsHref(version.rosterId, version.version, "draft")}
+                          data-testid={`link-compare-version-${version.version}`}
+                        >
+                          <GitCompare className="h-4 w-4" />
+                        </Link>
+                      </Button>
+                      {isManager && roster && isRosterEditable(roster.status) && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              disabled={restoreMutation.isPending}
+                              data-testid={`button-restore-version-${version.version}`}
+                            >
+                              <Undo2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Restore v{version.version}</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The draft's assignments will be replaced with those of version {version.version}.
+                                Published versions are not changed.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => restoreMutation.mutate(version.version)}>
+                                Restore
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    by {version.publishedBy} · {version.shiftCount} shifts
+                  </p>
+                  {version.note && <p className="text-sm mt-1">{version.note}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
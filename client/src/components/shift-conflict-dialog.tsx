@@ -0,0 +1,61 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { formatDisplayDate } from "@/lib/roster-utils";
+import { format } from "date-fns";
+import type { ShiftConflictResponse, StaffMember } from "@shared/schema";
+
+export interface ShiftConflict {
+  response: ShiftConflictResponse;
+  attempted: StaffMember | null; // the assignment that was refused
+}
+
+interface ShiftConflictDialogProps {
+  conflict: ShiftConflict | undefined;
+  onKeepTheirs: () => void;
+  onOverwrite: (conflict: ShiftConflict) => void;
+}
+
+// Shown when an edit was made against a shift someone else has changed since it was loaded
+export function ShiftConflictDialog({ conflict, onKeepTheirs, onOverwrite }: ShiftConflictDialogProps) {
+  const shift = conflict?.response.shift;
+  const { changedBy, changedAt } = conflict?.response ?? {};
+
+  return (
+    <AlertDialog open={!!conflict} onOpenChange={(open) => !open && onKeepTheirs()}>
+      <AlertDialogContent data-testid="dialog-shift-conflict">
+        <AlertDialogHeader>
+          <AlertDialogTitle>This shift has just been changed</AlertDialogTitle>
+          {shift && (
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>
+                  {changedBy ?? "Someone else"} changed {formatDisplayDate(shift.date)} · {shift.shiftLabel}
+                  {changedAt ? ` at ${format(new Date(changedAt), "HH:mm")}` : ""} while you had it open.
+                </p>
+                <p>
+                  Now assigned: <strong className="text-foreground">{shift.assigned ?? "No one"}</strong>
+                  <br />
+                  Your change: <strong className="text-foreground">{conflict.attempted ?? "No one"}</strong>
+                </p>
+              </div>
+            </AlertDialogDescription>
+          )}
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel data-testid="button-keep-theirs">Keep their change</AlertDialogCancel>
+          <AlertDialogAction onClick={() => conflict && onOverwrite(conflict)} data-testid="button-overwrite">
+            Use mine
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
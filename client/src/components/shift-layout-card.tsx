@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useShiftTypes } from "@/hooks/use-shift-types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { HOLIDAY_LAYOUT_KEY, WEEKDAYS, type ShiftLayout, type ShiftType, type Weekday } from "@shared/schema";
+
+const LAYOUT_ROWS: (Weekday | typeof HOLIDAY_LAYOUT_KEY)[] = [...WEEKDAYS, HOLIDAY_LAYOUT_KEY];
+
+// Which shift types each weekday runs, and optionally public holidays in place of their
+// weekday; shifts appear on the roster in shift type order
+export function ShiftLayoutCard() {
+  const { toast } = useToast();
+  const { shiftTypes, layout, isLoading } = useShiftTypes();
+  const [draft, setDraft] = useState<ShiftLayout>();
+
+  useEffect(() => {
+    if (layout) setDraft(layout);
+  }, [layout]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: ShiftLayout) => {
+      const response = await apiRequest("PUT", "/api/shift-layout", updates);
+      return await response.json() as ShiftLayout;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shift-layout"] });
+      toast({
+        title: "Weekly Layout Saved",
+        description: "Rosters generated from now on use the new layout.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save the weekly layout.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setDay = (weekday: Weekday | typeof HOLIDAY_LAYOUT_KEY, selected: ShiftType[]) => {
+    if (!draft) return;
+    const ordered = shiftTypes.map((t) => t.shiftType).filter((type) => selected.includes(type));
+    setDraft({ ...draft, [weekday]: ordered });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Weekly layout</CardTitle>
+        <CardDescription>The shifts that run on each day of the week and on public holidays.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !draft ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="space-y-3">
+            {LAYOUT_ROWS.map((day) => {
+              const selected = day === HOLIDAY_LAYOUT_KEY ? draft.Holiday : draft[day];
+              return (
+                <div key={day} className="flex items-center gap-4">
+                  <span className="w-16 text-sm font-medium">{day === HOLIDAY_LAYOUT_KEY ? "Holidays" : day}</span>
+                  {selected === null ? (
+                    <span className="text-sm text-muted-foreground">Same as the weekday they fall on</span>
+                  ) : (
+                    <ToggleGroup
+                      type="multiple"
+                      variant="outline"
+                      size="sm"
+                      className="justify-start flex-wrap"
+                      value={selected}
+                      onValueChange={(v) => setDay(day, v as ShiftType[])}
+                    >
+                      {shiftTypes.map(({ shiftType, headcount }) => (
+                        <ToggleGroupItem
+                          key={shiftType}
+                          value={shiftType}
+                          data-testid={`toggle-layout-${day}-${shiftType}`}
+                        >
+                          {shiftType}
+                          {headcount > 1 && <span className="ml-1 text-muted-foreground">×{headcount}</span>}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  )}
+                  {day === HOLIDAY_LAYOUT_KEY && (
+                    <div className="ml-auto flex items-center gap-2 text-sm text-muted-foreground">
+                      Own layout
+                      <Switch
+                        checked={draft.Holiday !== null}
+                        onCheckedChange={(checked) => setDraft({ ...draft, Holiday: checked ? [...draft.Sun] : null })}
+                        data-testid="switch-layout-holiday"
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate(draft)}
+                disabled={saveMutation.isPending}
+                data-testid="button-save-layout"
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { X } from "lucide-react";
+import { useStaff } from "@/hooks/use-staff";
+import { useShiftTypes } from "@/hooks/use-shift-types";
+import { useLocations } from "@/hooks/use-locations";
+import type { CreateShiftRuleRequest, PublicHolidayRuleMode, ShiftRule, ShiftType, StaffMember, Weekday } from "@shared/schema";
+import { WEEKDAYS } from "@shared/schema";
+
+interface ShiftRuleFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rule?: ShiftRule;
+  onSubmit: (rule: CreateShiftRuleRequest) => void;
+  isSubmitting?: boolean;
+}
+
+const emptyRule: CreateShiftRuleRequest = {
+  name: "",
+  priority: 100,
+  weekdays: [],
+  shiftTypes: [],
+  allowedStaff: null,
+  rotation: [],
+  fromWeek: null,
+  toWeek: null,
+  isActive: true,
+  locationId: null,
+  publicHolidays: "include",
+};
+
+const ALL_LOCATIONS = "all";
+
+const PUBLIC_HOLIDAY_OPTIONS: Record<PublicHolidayRuleMode, string> = {
+  include: "Also on public holidays",
+  exclude: "Not on public holidays",
+  only: "Only on public holidays",
+};
+
+function parseWeek(value: string): number | null {
+  const week = parseInt(value, 10);
+  return Number.isNaN(week) || week < 1 ? null : week;
+}
+
+export function ShiftRuleForm({ open, onOpenChange, rule, onSubmit, isSubmitting }: ShiftRuleFormProps) {
+  const { staff, activeStaff } = useStaff();
+  const { shiftTypes } = useShiftTypes();
+  const { activeLocations, locationId, isMultiSite, nameOf } = useLocations();
+  const [draft, setDraft] = useState<CreateShiftRuleRequest>(emptyRule);
+
+  // A new rule starts out at the site being viewed
+  useEffect(() => {
+    if (open) {
+      setDraft(rule ? { ...rule } : { ...emptyRule, locationId: isMultiSite ? locationId : null });
+    }
+  }, [open, rule, isMultiSite, locationId]);
+
+  // Only people who work at the rule's site can be picked, plus anyone it already names
+  const worksHere = (member: { name: StaffMember; locationIds: string[] }) =>
+    draft.locationId === null ||
+    member.locationIds.includes(draft.locationId) ||
+    !!draft.allowedStaff?.includes(member.name);
+  // A rule kept for an archived site still shows where it applies
+  const siteLocations = draft.locationId && !activeLocations.some((l) => l.id === draft.locationId)
+    ? [...activeLocations, { id: draft.locationId, name: nameOf(draft.locationId) ?? draft.locationId }]
+    : activeLocations;
+
+  const update = (changes: Partial<CreateShiftRuleRequest>) => setDraft((d) => ({ ...d, ...changes }));
+
+  const toggleAllowed = (name: StaffMember, checked: boolean) => {
+    const current = draft.allowedStaff ?? [];
+    update({ allowedStaff: checked ? [...current, name] : current.filter((s) => s !== name) });
+  };
+
+  const canSubmit = draft.name.trim().length > 0 && draft.weekdays.length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit Rule" : "New Rule"}</DialogTitle>
+          <DialogDescription>
+            Rules decide who may work a shift and who it is given to by default
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-[1fr_100px] gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                value={draft.name}
+                onChange={(e) => update({ name: e.target.value })}
+                data-testid="input-rule-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-priority">Priority</Label>
+              <Input
+                id="rule-priority"
+                type="number"
+                min={0}
+                value={draft.priority}
+                onChange={(e) => update({ priority: Number(e.target.value) })}
+                data-testid="input-rule-priority"
+              />
+            </div>
+          </div>
+
+          {(isMultiSite || draft.locationId !== null) && (
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <Select
+                value={draft.locationId ?? ALL_LOCATIONS}
+                onValueChange={(v) => update({ locationId: v === ALL_LOCATIONS ? null : v })}
+              >
+                <SelectTrigger data-testid="select-rule-location">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+                  {siteLocations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Public holidays</Label>
+            <Select
+              value={draft.publicHolidays}
+              onValueChange={(v) =>
+                // A holidays-only rule applies whatever weekday the holiday falls on
+                update(v === "only" ? { publicHolidays: v, weekdays: [...WEEKDAYS] } : { publicHolidays: v as PublicHolidayRuleMode })
+              }
+            >
+              <SelectTrigger data-testid="select-rule-public-holidays">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(PUBLIC_HOLIDAY_OPTIONS).map(([mode, label]) => (
+                  <SelectItem key={mode} value={mode}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Days</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="justify-start flex-wrap"
+              value={draft.weekdays}
+              onValueChange={(v) => update({ weekdays: v as Weekday[] })}
+              disabled={draft.publicHolidays === "only"}
+            >
+              {WEEKDAYS.map((day) => (
+                <ToggleGroupItem key={day} value={day} data-testid={`toggle-rule-day-${day}`}>
+                  {day}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Shifts (none selected means every shift)</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="justify-start flex-wrap"
+              value={draft.shiftTypes}
+              onValueChange={(v) => update({ shiftTypes: v as ShiftType[] })}
+            >
+              {shiftTypes.map(({ shiftType }) => (
+                <ToggleGroupItem key={shiftType} value={shiftType} data-testid={`toggle-rule-shift-${shiftType}`}>
+                  {shiftType}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Allowed staff</Label>
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <span>Anyone</span>
+                <Switch
+                  checked={draft.allowedStaff === null}
+                  onCheckedChange={(checked) => update({ allowedStaff: checked ? null : [] })}
+                  data-testid="switch-rule-anyone"
+                />
+              </div>
+            </div>
+            {draft.allowedStaff !== null && (
+              <div className="flex flex-wrap gap-3">
+                {staff.filter(worksHere).map((member) => (
+                  <label key={member.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={draft.allowedStaff?.includes(member.name) ?? false}
+                      onCheckedChange={(checked) => toggleAllowed(member.name, checked === true)}
+                    />
+                    {member.name}
+                    {!member.isActive && <span className="text-xs text-muted-foreground">(archived)</span>}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Rotation (cycles {draft.publicHolidays === "only" ? "holiday by holiday" : "week by week"})
+            </Label>
+            <div className="flex flex-wrap items-center gap-2">
+              {draft.rotation.map((name, index) => (
+                <Badge key={`${name}-${index}`} variant="secondary" className="gap-1">
+                  {index + 1}. {name}
+                  <button
+                    type="button"
+                    onClick={() => update({ rotation: draft.rotation.filter((_, i) => i !== index) })}
+                    aria-label={`Remove ${name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              <Select value="" onValueChange={(name) => update({ rotation: [...draft.rotation, name] })}>
+                <SelectTrigger className="w-[140px] h-8" data-testid="select-rule-rotation">
+                  <SelectValue placeholder="Add staff" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeStaff.filter(worksHere).map((member) => (
+                    <SelectItem key={member.id} value={member.name}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="rule-from-week">From week</Label>
+              <Input
+                id="rule-from-week"
+                type="number"
+                min={1}
+                placeholder="Any"
+                value={draft.fromWeek ?? ""}
+                onChange={(e) => update({ fromWeek: parseWeek(e.target.value) })}
+                data-testid="input-rule-from-week"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-to-week">To week</Label>
+              <Input
+                id="rule-to-week"
+                type="number"
+                min={1}
+                placeholder="Any"
+                value={draft.toWeek ?? ""}
+                onChange={(e) => update({ toWeek: parseWeek(e.target.value) })}
+                data-testid="input-rule-to-week"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onSubmit({ ...draft, name: draft.name.trim() })}
+            disabled={!canSubmit || isSubmitting}
+            data-testid="button-save-rule"
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
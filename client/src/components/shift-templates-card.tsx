@@ -0,0 +1,270 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  DEFAULT_TIMEZONE,
+  type CreateShiftTemplateRequest,
+  type ShiftTemplate,
+  type ShiftType,
+  type UpdateShiftTemplateRequest,
+} from "@shared/schema";
+import { formatHours } from "@shared/shift-times";
+
+type TemplateFields = Omit<ShiftTemplate, "shiftType" | "sortOrder" | "updatedAt">;
+
+const NEW_TYPE: CreateShiftTemplateRequest = {
+  shiftType: "",
+  startTime: "07:00",
+  endTime: "15:00",
+  breakMinutes: 30,
+  timezone: DEFAULT_TIMEZONE,
+  crossesMidnight: false,
+  headcount: 1,
+};
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Paid length on a day without a clock change
+function usualHours(template: TemplateFields): number {
+  const length = minutesOf(template.endTime) - minutesOf(template.startTime) + (template.crossesMidnight ? 24 * 60 : 0);
+  return Math.max(0, length - template.breakMinutes) / 60;
+}
+
+// A shift ending at or before it starts runs into the next day
+function withChanges<T extends TemplateFields>(template: T, changes: Partial<TemplateFields>): T {
+  const next = { ...template, ...changes };
+  return { ...next, crossesMidnight: next.endTime <= next.startTime };
+}
+
+function updatesOf(template: TemplateFields): UpdateShiftTemplateRequest {
+  const { startTime, endTime, breakMinutes, timezone, crossesMidnight, headcount } = template;
+  return { startTime, endTime, breakMinutes, timezone, crossesMidnight, headcount };
+}
+
+interface TemplateFieldsRowProps {
+  id: string;
+  template: TemplateFields;
+  onChange: (changes: Partial<TemplateFields>) => void;
+}
+
+function TemplateFieldsRow({ id, template, onChange }: TemplateFieldsRowProps) {
+  return (
+    <>
+      <div className="space-y-1.5">
+        <Label htmlFor={`template-${id}-start`}>Start</Label>
+        <Input
+          id={`template-${id}-start`}
+          type="time"
+          value={template.startTime}
+          onChange={(e) => onChange({ startTime: e.target.value })}
+          data-testid={`input-template-start-${id}`}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`template-${id}-end`} className="flex items-center gap-2">
+          End
+          {template.crossesMidnight && <Badge variant="secondary" className="px-1.5 py-0 text-[10px]">next day</Badge>}
+        </Label>
+        <Input
+          id={`template-${id}-end`}
+          type="time"
+          value={template.endTime}
+          onChange={(e) => onChange({ endTime: e.target.value })}
+          data-testid={`input-template-end-${id}`}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`template-${id}-break`}>Break (min)</Label>
+        <Input
+          id={`template-${id}-break`}
+          type="number"
+          min={0}
+          value={template.breakMinutes}
+          onChange={(e) => onChange({ breakMinutes: Number(e.target.value) })}
+          data-testid={`input-template-break-${id}`}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`template-${id}-headcount`}>Staff</Label>
+        <Input
+          id={`template-${id}-headcount`}
+          type="number"
+          min={1}
+          max={10}
+          value={template.headcount}
+          onChange={(e) => onChange({ headcount: Number(e.target.value) })}
+          data-testid={`input-template-headcount-${id}`}
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`template-${id}-timezone`}>Time zone</Label>
+        <Input
+          id={`template-${id}-timezone`}
+          value={template.timezone}
+          placeholder={DEFAULT_TIMEZONE}
+          onChange={(e) => onChange({ timezone: e.target.value.trim() })}
+          data-testid={`input-template-timezone-${id}`}
+        />
+      </div>
+    </>
+  );
+}
+
+const ROW_GRID = "grid gap-3 py-3 sm:grid-cols-[8rem_1fr_1fr_1fr_1fr_2fr_auto] sm:items-end";
+
+export function ShiftTemplatesCard() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ShiftTemplate[]>();
+  const [newType, setNewType] = useState<CreateShiftTemplateRequest>(NEW_TYPE);
+
+  const { data: templates, isLoading } = useQuery<ShiftTemplate[]>({
+    queryKey: ["/api/shift-templates"],
+  });
+
+  useEffect(() => {
+    if (templates) setDraft(templates);
+  }, [templates]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save shift type.",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ shiftType, updates }: { shiftType: ShiftType; updates: UpdateShiftTemplateRequest }) => {
+      const response = await apiRequest("PATCH", `/api/shift-templates/${encodeURIComponent(shiftType)}`, updates);
+      return await response.json() as ShiftTemplate;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shift-templates"] });
+      toast({
+        title: "Shift Type Saved",
+        description: `Rosters generated from now on use the new ${template.shiftType} settings.`,
+      });
+    },
+    onError,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (template: CreateShiftTemplateRequest) => {
+      const response = await apiRequest("POST", "/api/shift-templates", template);
+      return await response.json() as ShiftTemplate;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shift-templates"] });
+      setNewType(NEW_TYPE);
+      toast({
+        title: "Shift Type Added",
+        description: `Add ${template.shiftType} to the weekly layout for rosters to include it.`,
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (shiftType: ShiftType) => {
+      await apiRequest("DELETE", `/api/shift-templates/${encodeURIComponent(shiftType)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shift-templates"] });
+      toast({ title: "Shift Type Removed" });
+    },
+    onError,
+  });
+
+  const update = (shiftType: ShiftType, changes: Partial<TemplateFields>) => {
+    setDraft(draft?.map((t) => (t.shiftType === shiftType ? withChanges(t, changes) : t)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Shift types</CardTitle>
+        <CardDescription>
+          Local start and end times, unpaid break, staff needed and time zone for each shift type. Existing rosters
+          keep the shifts they were generated with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !draft ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="divide-y">
+            {draft.map((template) => (
+              <div key={template.shiftType} className={ROW_GRID}>
+                <div className="space-y-1">
+                  <span className="font-medium">{template.shiftType}</span>
+                  <p className="text-xs text-muted-foreground">{formatHours(usualHours(template))} paid</p>
+                </div>
+                <TemplateFieldsRow
+                  id={template.shiftType}
+                  template={template}
+                  onChange={(changes) => update(template.shiftType, changes)}
+                />
+                <div className="flex gap-1">
+                  <Button
+                    variant="outline"
+                    onClick={() => saveMutation.mutate({ shiftType: template.shiftType, updates: updatesOf(template) })}
+                    disabled={saveMutation.isPending}
+                    data-testid={`button-save-template-${template.shiftType}`}
+                  >
+                    Save
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(template.shiftType)}
+                    disabled={deleteMutation.isPending}
+                    title="Remove shift type"
+                    data-testid={`button-delete-template-${template.shiftType}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <div className={ROW_GRID}>
+              <div className="space-y-1.5">
+                <Label htmlFor="template-new-name">New type</Label>
+                <Input
+                  id="template-new-name"
+                  value={newType.shiftType}
+                  placeholder="Early"
+                  onChange={(e) => setNewType({ ...newType, shiftType: e.target.value })}
+                  data-testid="input-template-name-new"
+                />
+              </div>
+              <TemplateFieldsRow
+                id="new"
+                template={newType}
+                onChange={(changes) => setNewType(withChanges(newType, changes))}
+              />
+              <Button
+                onClick={() => createMutation.mutate(newType)}
+                disabled={!newType.shiftType.trim() || createMutation.isPending}
+                data-testid="button-add-template"
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import type { SolverReport } from "@shared/schema";
+import { formatDisplayDate } from "@/lib/roster-utils";
+
+interface SolverReportCardProps {
+  report: SolverReport;
+}
+
+function ScoreItem({ label, value, detail }: { label: string; value: number; detail?: string }) {
+  return (
+    <div className="space-y-1">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-lg font-semibold font-mono tabular-nums">{Math.round(value * 10) / 10}</p>
+      {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+    </div>
+  );
+}
+
+export function SolverReportCard({ report }: SolverReportCardProps) {
+  const { score, unmet } = report;
+
+  return (
+    <Card data-testid="card-solver-report">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base">Optimisation Result</CardTitle>
+            <CardDescription>
+              Penalty score after {report.iterations.toLocaleString()} search steps (lower is better)
+            </CardDescription>
+          </div>
+          {unmet.length === 0 ? (
+            <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+              <CheckCircle2 className="h-3 w-3 mr-1" />
+              All constraints met
+            </Badge>
+          ) : (
+            <Badge variant="destructive">
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              {unmet.length} unmet constraint{unmet.length !== 1 ? "s" : ""}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+          <ScoreItem label="Total" value={score.total} />
+          <ScoreItem label="Hours balance" value={score.hoursBalance} detail={`±${report.hoursStdDev}h std dev`} />
+          <ScoreItem label="Holiday balance" value={score.holidayBalance} detail={`±${report.holidayHoursStdDev}h std dev`} />
+          <ScoreItem label="Locum use" value={score.locumShifts} detail={`${report.locumShiftCount} shifts`} />
+          <ScoreItem label="Preferred days" value={score.preferredDays} detail={`${report.preferenceMisses} missed`} />
+          <ScoreItem label="Hard violations" value={score.hardViolations} />
+        </div>
+
+        {unmet.length > 0 && (
+          <div className="space-y-2 max-h-[200px] overflow-y-auto">
+            {unmet.map((item, index) => (
+              <div
+                key={`${item.shiftId}-${item.constraint}-${index}`}
+                className="flex items-center justify-between gap-2 p-2 rounded-md bg-amber-50 dark:bg-amber-900/20"
+              >
+                <span className="text-sm">
+                  {formatDisplayDate(item.date)} {item.shiftType}: {item.message}
+                </span>
+                <Badge variant="outline">{item.constraint === "coverage" ? "Coverage" : "Rest"}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,8 @@ import {
 } from "@/components/ui/select";
 import type { StaffMember, RosterShift } from "@shared/schema";
 import { cn } from "@/lib/utils";
+import { useStaff } from "@/hooks/use-staff";
+import { useLeave } from "@/hooks/use-leave";
 
 interface StaffAssignmentCellProps {
   shift: RosterShift;
@@ -14,28 +16,11 @@ interface StaffAssignmentCellProps {
   disabled?: boolean;
 }
 
-const staffColors: Record<StaffMember, { bg: string; text: string }> = {
-  Joflix: { 
-    bg: "bg-orange-400 dark:bg-orange-500", 
-    text: "text-white" 
-  },
-  Peninah: { 
-    bg: "bg-pink-300 dark:bg-pink-400", 
-    text: "text-pink-900 dark:text-pink-950" 
-  },
-  Ashley: { 
-    bg: "bg-blue-400 dark:bg-blue-500", 
-    text: "text-white" 
-  },
-  Locum: { 
-    bg: "bg-gray-400 dark:bg-gray-500", 
-    text: "text-white" 
-  },
-};
-
 export function StaffAssignmentCell({ shift, onAssign, disabled }: StaffAssignmentCellProps) {
+  const { getColors } = useStaff();
+  const { getLeave } = useLeave();
   const currentAssignment = shift.assigned;
-  const colors = currentAssignment ? staffColors[currentAssignment] : null;
+  const colors = currentAssignment ? getColors(currentAssignment) : null;
   const isLocked = shift.allowedStaff.length === 1;
   
   return (
@@ -64,11 +49,13 @@ export function StaffAssignmentCell({ shift, onAssign, disabled }: StaffAssignme
       </SelectTrigger>
       <SelectContent>
         {shift.allowedStaff.map((staff) => {
-          const staffColor = staffColors[staff];
+          const staffColor = getColors(staff);
+          const leave = getLeave(staff, shift.date);
           return (
             <SelectItem 
               key={staff} 
               value={staff}
+              disabled={!!leave && staff !== currentAssignment}
               className={cn(
                 "font-medium",
                 staffColor.bg,
@@ -77,14 +64,11 @@ export function StaffAssignmentCell({ shift, onAssign, disabled }: StaffAssignme
               data-testid={`select-item-${shift.id}-${staff.toLowerCase()}`}
             >
               <div className="flex items-center gap-2">
-                <div className={cn(
-                  "w-2 h-2 rounded-full",
-                  staff === "Joflix" && "bg-orange-600",
-                  staff === "Peninah" && "bg-pink-600",
-                  staff === "Ashley" && "bg-blue-600",
-                  staff === "Locum" && "bg-gray-600",
-                )} />
+                <div className={cn("w-2 h-2 rounded-full", staffColor.dot)} />
                 {staff}
+                {leave && (
+                  <span className="text-xs font-normal opacity-75">On leave</span>
+                )}
               </div>
             </SelectItem>
           );
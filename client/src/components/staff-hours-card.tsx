@@ -1,8 +1,9 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Clock, AlertTriangle } from "lucide-react";
-import type { StaffHoursSummary, StaffMember } from "@shared/schema";
+import type { StaffHoursSummary } from "@shared/schema";
 import { cn } from "@/lib/utils";
+import { useStaff } from "@/hooks/use-staff";
 
 interface StaffHoursCardProps {
   summary: StaffHoursSummary;
@@ -10,32 +11,10 @@ interface StaffHoursCardProps {
   warningThreshold?: number;
 }
 
-const staffColorStyles: Record<StaffMember, { border: string; accent: string; progressBg: string }> = {
-  Joflix: {
-    border: "border-l-orange-400 dark:border-l-orange-500",
-    accent: "text-orange-600 dark:text-orange-400",
-    progressBg: "[&>div]:bg-orange-400 dark:[&>div]:bg-orange-500",
-  },
-  Peninah: {
-    border: "border-l-pink-400 dark:border-l-pink-500",
-    accent: "text-pink-600 dark:text-pink-400",
-    progressBg: "[&>div]:bg-pink-400 dark:[&>div]:bg-pink-500",
-  },
-  Ashley: {
-    border: "border-l-blue-400 dark:border-l-blue-500",
-    accent: "text-blue-600 dark:text-blue-400",
-    progressBg: "[&>div]:bg-blue-400 dark:[&>div]:bg-blue-500",
-  },
-  Locum: {
-    border: "border-l-gray-400 dark:border-l-gray-500",
-    accent: "text-gray-600 dark:text-gray-400",
-    progressBg: "[&>div]:bg-gray-400 dark:[&>div]:bg-gray-500",
-  },
-};
-
 export function StaffHoursCard({ summary, maxHours = 200, warningThreshold = 168 }: StaffHoursCardProps) {
-  const { name, totalHours, shiftCount } = summary;
-  const styles = staffColorStyles[name];
+  const { getColors } = useStaff();
+  const { name, totalHours, shiftCount, holidayHours, holidayShiftCount } = summary;
+  const styles = getColors(name);
   const isOverThreshold = totalHours > warningThreshold;
   const progressValue = Math.min((totalHours / maxHours) * 100, 100);
   
@@ -89,6 +68,12 @@ export function StaffHoursCard({ summary, maxHours = 200, warningThreshold = 168
             )}
           />
           
+          {holidayShiftCount > 0 && (
+            <p className="text-xs text-muted-foreground" data-testid={`text-holiday-hours-${name.toLowerCase()}`}>
+              {holidayHours}h on {holidayShiftCount} public holiday shift{holidayShiftCount !== 1 ? "s" : ""}
+            </p>
+          )}
+
           {isOverThreshold && (
             <p className="text-xs text-destructive font-medium mt-1">
               Exceeds {warningThreshold}h weekly limit
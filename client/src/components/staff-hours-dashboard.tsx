@@ -10,6 +10,7 @@ interface StaffHoursDashboardProps {
 export function StaffHoursDashboard({ summaries, isLoading }: StaffHoursDashboardProps) {
   const totalHours = summaries.reduce((sum, s) => sum + s.totalHours, 0);
   const totalShifts = summaries.reduce((sum, s) => sum + s.shiftCount, 0);
+  const holidayHours = summaries.reduce((sum, s) => sum + s.holidayHours, 0);
 
   if (summaries.length === 0 || totalShifts === 0) {
     return (
@@ -33,6 +34,11 @@ export function StaffHoursDashboard({ summaries, isLoading }: StaffHoursDashboar
           <span>
             <span className="font-medium text-foreground font-mono">{totalHours}</span> total hours
           </span>
+          {holidayHours > 0 && (
+            <span data-testid="text-total-holiday-hours">
+              <span className="font-medium text-foreground font-mono">{holidayHours}</span> on public holidays
+            </span>
+          )}
         </div>
       </div>
       
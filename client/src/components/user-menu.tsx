@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CalendarFeedDialog } from "@/components/calendar-feed-dialog";
+import { CalendarPlus, CircleUser, KeyRound, LogOut } from "lucide-react";
+import type { UserRole } from "@shared/schema";
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  manager: "Rota manager",
+  staff: "Staff member",
+};
+
+export function UserMenu() {
+  const { user, isAdmin, logoutMutation } = useAuth();
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  if (!user) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" data-testid="button-user-menu">
+            <CircleUser className="h-5 w-5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-52">
+          <DropdownMenuLabel>
+            <div className="text-sm font-medium">{user.username}</div>
+            <div className="text-xs font-normal text-muted-foreground">
+              {ROLE_LABELS[user.role]}
+              {user.staffName && ` · ${user.staffName}`}
+            </div>
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {isAdmin && (
+            <DropdownMenuItem asChild>
+              <Link href="/users" data-testid="link-user-accounts">
+                <KeyRound className="mr-2 h-4 w-4" />
+                User accounts
+              </Link>
+            </DropdownMenuItem>
+          )}
+          {user.staffName && (
+            <DropdownMenuItem onClick={() => setCalendarOpen(true)} data-testid="button-calendar-feed">
+              <CalendarPlus className="mr-2 h-4 w-4" />
+              Calendar feed
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            onClick={() => logoutMutation.mutate()}
+            data-testid="button-logout"
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            Log out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <CalendarFeedDialog open={calendarOpen} onOpenChange={setCalendarOpen} />
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { LoginRequest, User } from "@shared/schema";
+import { MANAGER_ROLES } from "@shared/schema";
+
+interface AuthContextType {
+  user: User | null;
+  isLoading: boolean;
+  isManager: boolean;
+  isAdmin: boolean;
+  loginMutation: UseMutationResult<User, Error, LoginRequest>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { data: user, isLoading } = useQuery<User | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginRequest) => {
+      const response = await apiRequest("POST", "/api/login", credentials);
+      return await response.json() as User;
+    },
+    onSuccess: (loggedIn) => {
+      // Drop anything cached for the previous session
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], loggedIn);
+    },
+    onError: () => {
+      toast({
+        title: "Login Failed",
+        description: "Incorrect username or password.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+  });
+
+  const currentUser = user ?? null;
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: currentUser,
+        isLoading,
+        isManager: !!currentUser && MANAGER_ROLES.includes(currentUser.role),
+        isAdmin: currentUser?.role === "admin",
+        loginMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
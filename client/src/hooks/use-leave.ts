@@ -0,0 +1,21 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { StaffMember, Unavailability } from "@shared/schema";
+import { findApprovedLeave } from "@shared/availability";
+
+// All leave requests; only approved entries block assignments
+export function useLeave() {
+  const { data, isLoading } = useQuery<Unavailability[]>({
+    queryKey: ["/api/unavailability"],
+  });
+
+  const entries = useMemo(() => data ?? [], [data]);
+  const approved = useMemo(() => entries.filter((e) => e.status === "approved"), [entries]);
+
+  const getLeave = useCallback(
+    (staffName: StaffMember, date: string) => findApprovedLeave(approved, staffName, date),
+    [approved]
+  );
+
+  return { entries, approved, isLoading, getLeave };
+}
@@ -0,0 +1,74 @@
+import { createContext, useContext, useMemo, useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { DEFAULT_LOCATION_ID, type Location, type Roster } from "@shared/schema";
+
+const STORAGE_KEY = "roster-location";
+
+interface LocationContextType {
+  locations: Location[];
+  activeLocations: Location[];
+  location: Location | undefined;
+  locationId: string;
+  setLocationId: (locationId: string) => void;
+  // Name of any location, archived ones included, for labelling rosters and notifications
+  nameOf: (locationId: string | null) => string | undefined;
+  // More than one site is running, so pages show which one they are about
+  isMultiSite: boolean;
+  isLoading: boolean;
+}
+
+const LocationContext = createContext<LocationContextType | null>(null);
+
+// The site the roster, rules and analytics pages are showing, remembered per browser
+export function LocationProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [selectedId, setSelectedId] = useState(() => localStorage.getItem(STORAGE_KEY) ?? DEFAULT_LOCATION_ID);
+
+  const { data, isLoading } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+    enabled: !!user,
+  });
+
+  const value = useMemo(() => {
+    const locations = data ?? [];
+    const activeLocations = locations.filter((l) => l.isActive);
+    // A remembered site that has since been archived falls back to the first one still open
+    const location = activeLocations.find((l) => l.id === selectedId) ?? activeLocations[0];
+    return {
+      locations,
+      activeLocations,
+      location,
+      locationId: location?.id ?? DEFAULT_LOCATION_ID,
+      setLocationId: (locationId: string) => {
+        localStorage.setItem(STORAGE_KEY, locationId);
+        setSelectedId(locationId);
+      },
+      nameOf: (locationId: string | null) => locations.find((l) => l.id === locationId)?.name,
+      isMultiSite: activeLocations.length > 1,
+      isLoading,
+    };
+  }, [data, selectedId, isLoading]);
+
+  return <LocationContext.Provider value={value}>{children}</LocationContext.Provider>;
+}
+
+export function useLocations() {
+  const context = useContext(LocationContext);
+  if (!context) {
+    throw new Error("useLocations must be used within a LocationProvider");
+  }
+  return context;
+}
+
+// Query for a location's live roster, keyed so realtime updates can find every site's copy
+export function liveRosterQuery(locationId: string) {
+  return {
+    queryKey: ["/api/roster", { locationId }],
+    queryFn: async (): Promise<Roster | null> => {
+      const response = await apiRequest("GET", `/api/roster?${new URLSearchParams({ locationId })}`);
+      return await response.json();
+    },
+  };
+}
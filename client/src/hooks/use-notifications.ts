@@ -0,0 +1,56 @@
+import { useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import type { Notification } from "@shared/schema";
+
+// The logged-in user's own notifications, newest first. Managers can read everyone's,
+// but the inbox only shows what was sent to their own staff record.
+export function useNotifications() {
+  const { user } = useAuth();
+  const staff = user?.staffName ?? null;
+
+  const { data, isLoading } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications", { staff }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/notifications?${new URLSearchParams({ staff: staff! })}`);
+      return await response.json();
+    },
+    enabled: !!staff,
+  });
+
+  const notifications = useMemo(
+    () => [...(data ?? [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    [data]
+  );
+  const unreadCount = notifications.filter((n) => !n.read).length;
+
+  return { notifications, unreadCount, isLoading, hasInbox: !!staff };
+}
+
+function markReadInCache(matches: (notification: Notification) => boolean) {
+  queryClient.setQueriesData<Notification[]>({ queryKey: ["/api/notifications"] }, (list) =>
+    list?.map((n) => (matches(n) ? { ...n, read: true } : n))
+  );
+}
+
+export function useMarkNotificationRead() {
+  return useMutation({
+    mutationFn: async (notificationId: string) => {
+      await apiRequest("POST", `/api/notifications/${notificationId}/read`);
+      return notificationId;
+    },
+    onSuccess: (notificationId) => markReadInCache((n) => n.id === notificationId),
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/mark-all-read", { staffMember: user?.staffName });
+    },
+    onSuccess: () => markReadInCache((n) => n.staffMember === user?.staffName),
+  });
+}
@@ -0,0 +1,47 @@
+import { useEffect, useRef, useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { connectRealtime, disconnectRealtime, sendPresence, subscribeRealtime } from "@/lib/realtime";
+import type { RosterViewer, ServerEvent } from "@shared/realtime";
+
+// Keep a live connection open while someone is logged in
+export function useRealtimeConnection() {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+    connectRealtime();
+    return () => disconnectRealtime();
+  }, [userId]);
+}
+
+export function useRealtimeEvent(handler: (event: ServerEvent) => void) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => subscribeRealtime((event) => handlerRef.current(event)), []);
+}
+
+// Announce that this tab has a roster open and return everyone else who has it open
+export function useRosterPresence(rosterId: string | undefined, editing: boolean): RosterViewer[] {
+  const { user } = useAuth();
+  const [viewers, setViewers] = useState<RosterViewer[]>([]);
+
+  useEffect(() => {
+    setViewers([]);
+  }, [rosterId]);
+
+  useEffect(() => {
+    if (!rosterId) return;
+    sendPresence({ type: "presence", rosterId, editing });
+    return () => sendPresence({ type: "presence", rosterId: null, editing: false });
+  }, [rosterId, editing]);
+
+  useRealtimeEvent((event) => {
+    if (event.type === "presence" && event.rosterId === rosterId) {
+      setViewers(event.viewers);
+    }
+  });
+
+  return viewers.filter((viewer) => viewer.userId !== user?.id);
+}
@@ -0,0 +1,76 @@
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest, parseApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Roster, RosterVersion, UpdateRosterStatusRequest } from "@shared/schema";
+import { ROSTER_STATUS_LABELS } from "@shared/roster-lifecycle";
+
+function invalidateRosters() {
+  queryClient.invalidateQueries({ queryKey: ["/api/rosters"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+}
+
+async function publish(rosterId: string, note: string | undefined, override: boolean): Promise<RosterVersion> {
+  const response = await apiRequest("POST", `/api/roster/${rosterId}/publish`, { note, override });
+  return await response.json() as RosterVersion;
+}
+
+// Publish a roster's draft, asking before publishing with unfilled shifts
+export function usePublishRoster() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ rosterId, note }: { rosterId: string; note?: string }) => {
+      try {
+        return await publish(rosterId, note, false);
+      } catch (error) {
+        const { body } = parseApiError(error as Error);
+        if (body?.code === "coverage_gaps" && window.confirm(`${body.error}. Publish anyway?`)) {
+          return await publish(rosterId, note, true);
+        }
+        throw error;
+      }
+    },
+    onSuccess: (published) => {
+      invalidateRosters();
+      toast({
+        title: "Roster Published",
+        description: `Version ${published.version} is now live for staff. Further edits go into the draft.`,
+      });
+    },
+    onError: (error: Error) => {
+      const { body } = parseApiError(error);
+      if (body?.code === "coverage_gaps") return; // declined at the prompt
+      toast({
+        title: "Error",
+        description: body?.error ?? "Failed to publish roster.",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function useRosterStatus() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ rosterId, status }: { rosterId: string } & UpdateRosterStatusRequest) => {
+      const response = await apiRequest("POST", `/api/roster/${rosterId}/status`, { status });
+      return await response.json() as Roster;
+    },
+    onSuccess: (roster) => {
+      invalidateRosters();
+      toast({
+        title: "Status Updated",
+        description: `${roster.name} is now ${ROSTER_STATUS_LABELS[roster.status ?? "draft"].toLowerCase()}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(error).body?.error ?? "Failed to update roster status.",
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,21 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { ShiftLayout, ShiftTemplate, ShiftType } from "@shared/schema";
+
+// Configured shift types in display order, and the types each weekday runs
+export function useShiftTypes() {
+  const { data, isLoading: typesLoading } = useQuery<ShiftTemplate[]>({
+    queryKey: ["/api/shift-templates"],
+  });
+  const { data: layout, isLoading: layoutLoading } = useQuery<ShiftLayout>({
+    queryKey: ["/api/shift-layout"],
+  });
+
+  const shiftTypes = useMemo(() => data ?? [], [data]);
+  const byName = useMemo(
+    () => new Map<ShiftType, ShiftTemplate>(shiftTypes.map((t) => [t.shiftType, t])),
+    [shiftTypes]
+  );
+
+  return { shiftTypes, byName, layout, isLoading: typesLoading || layoutLoading };
+}
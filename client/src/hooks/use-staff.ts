@@ -0,0 +1,21 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Staff, StaffMember } from "@shared/schema";
+import { getStaffColorStyles } from "@/lib/staff-colors";
+
+// Staff directory, including archived members so historical rosters still resolve
+export function useStaff() {
+  const { data, isLoading } = useQuery<Staff[]>({
+    queryKey: ["/api/staff"],
+  });
+
+  const staff = useMemo(() => data ?? [], [data]);
+  const activeStaff = useMemo(() => staff.filter((s) => s.isActive), [staff]);
+
+  const getColors = useCallback(
+    (staffName: StaffMember) => getStaffColorStyles(staffName, staff),
+    [staff]
+  );
+
+  return { staff, activeStaff, isLoading, getColors };
+}
@@ -0,0 +1,32 @@
+import type { ComponentType } from "react";
+import { Redirect, Route } from "wouter";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import type { UserRole } from "@shared/schema";
+
+interface ProtectedRouteProps {
+  path: string;
+  component: ComponentType;
+  roles?: UserRole[];
+}
+
+// Sends anonymous users to the login page and users without the role back home
+export function ProtectedRoute({ path, component: Component, roles }: ProtectedRouteProps) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex min-h-screen items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : !user ? (
+        <Redirect to="/auth" />
+      ) : roles && !roles.includes(user.role) ? (
+        <Redirect to="/" />
+      ) : (
+        <Component />
+      )}
+    </Route>
+  );
+}
@@ -23,6 +23,17 @@ export async function apiRequest(
   return res;
 }
 
+// Status and JSON body of an error thrown by apiRequest ("409: {...}")
+export function parseApiError(error: Error): { status: number; body: Record<string, any> | null } {
+  const match = /^(\d{3}): ([\s\S]*)$/.exec(error.message);
+  if (!match) return { status: 0, body: null };
+  try {
+    return { status: Number(match[1]), body: JSON.parse(match[2]) };
+  } catch {
+    return { status: Number(match[1]), body: null };
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
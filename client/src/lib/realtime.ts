@@ -0,0 +1,126 @@
+import { queryClient } from "./queryClient";
+import { REALTIME_PATH, type ClientEvent, type ServerEvent } from "@shared/realtime";
+import type { Notification, Roster, RosterShift } from "@shared/schema";
+
+type Listener = (event: ServerEvent) => void;
+
+// Back off up to 30s while the server is unreachable
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+let socket: WebSocket | null = null;
+let wanted = false;
+let attempts = 0;
+let connectedBefore = false;
+let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+// The roster this tab has open, re-sent after a reconnect
+let presence: ClientEvent | null = null;
+const listeners = new Set<Listener>();
+
+function withShift(roster: Roster | null | undefined, rosterId: string, shift: RosterShift) {
+  if (!roster || roster.id !== rosterId) return roster;
+  return { ...roster, shifts: roster.shifts.map((s) => (s.id === shift.id ? shift : s)) };
+}
+
+// Bring cached API responses up to date with an event. A single shift edit is patched
+// in place; anything bigger is refetched.
+function applyToCache(event: ServerEvent) {
+  switch (event.type) {
+    case "shift_updated": {
+      const patch = (roster: Roster | null | undefined) => withShift(roster, event.rosterId, event.shift);
+      // Each site's live roster is cached under ["/api/roster", { locationId }]
+      for (const [key] of queryClient.getQueriesData<Roster | null>({ queryKey: ["/api/roster"] })) {
+        if (typeof key[1] === "object") queryClient.setQueryData<Roster | null>(key, patch);
+      }
+      queryClient.setQueryData<Roster | null>(["/api/roster", event.rosterId], patch);
+      queryClient.invalidateQueries({ queryKey: ["/api/roster", event.rosterId, "compliance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+      break;
+    }
+    case "roster_changed":
+      queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rosters"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/open-shifts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+      break;
+    case "swap_changed":
+      queryClient.invalidateQueries({ queryKey: ["/api/swap-requests"] });
+      break;
+    case "notification":
+      // Into every cached list it belongs in: the full list and the recipient's own inbox
+      for (const [key, list] of queryClient.getQueriesData<Notification[]>({ queryKey: ["/api/notifications"] })) {
+        const filter = key[1] as { staff?: string | null } | undefined;
+        if (!list || list.some((n) => n.id === event.notification.id)) continue;
+        if (filter?.staff && filter.staff !== event.notification.staffMember) continue;
+        queryClient.setQueryData<Notification[]>(key, [event.notification, ...list]);
+      }
+      break;
+  }
+}
+
+// Anything could have changed while the socket was down
+function refetchAfterReconnect() {
+  for (const key of ["/api/roster", "/api/rosters", "/api/swap-requests", "/api/notifications", "/api/open-shifts"]) {
+    queryClient.invalidateQueries({ queryKey: [key] });
+  }
+}
+
+function open() {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const ws = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    attempts = 0;
+    if (connectedBefore) refetchAfterReconnect();
+    connectedBefore = true;
+    if (presence) ws.send(JSON.stringify(presence));
+  };
+
+  ws.onmessage = (message) => {
+    const event = JSON.parse(message.data) as ServerEvent;
+    applyToCache(event);
+    listeners.forEach((listener) => listener(event));
+  };
+
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    if (!wanted) return;
+    const delay = RECONNECT_DELAYS_MS[Math.min(attempts, RECONNECT_DELAYS_MS.length - 1)];
+    attempts += 1;
+    reconnectTimer = setTimeout(open, delay);
+  };
+}
+
+// Open the channel for the logged-in user, reconnecting until disconnectRealtime is called
+export function connectRealtime() {
+  if (wanted) return;
+  wanted = true;
+  attempts = 0;
+  connectedBefore = false;
+  open();
+}
+
+export function disconnectRealtime() {
+  wanted = false;
+  clearTimeout(reconnectTimer);
+  presence = null;
+  const ws = socket;
+  socket = null;
+  ws?.close();
+}
+
+// Tell the server which roster this tab has open (null when it leaves)
+export function sendPresence(event: ClientEvent) {
+  presence = event.rosterId ? event : null;
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(event));
+  }
+}
+
+export function subscribeRealtime(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,85 @@
+import type { Staff, StaffColor, StaffMember } from "@shared/schema";
+import { FALLBACK_STAFF_COLOR } from "@shared/schema";
+
+export interface StaffColorStyles {
+  bg: string;
+  text: string;
+  dot: string;
+  border: string;
+  accent: string;
+  progressBg: string;
+}
+
+// Tailwind classes for each staff colour (kept here so Tailwind can see them)
+export const staffColorStyles: Record<StaffColor, StaffColorStyles> = {
+  orange: {
+    bg: "bg-orange-400 dark:bg-orange-500",
+    text: "text-white",
+    dot: "bg-orange-600",
+    border: "border-l-orange-400 dark:border-l-orange-500",
+    accent: "text-orange-600 dark:text-orange-400",
+    progressBg: "[&>div]:bg-orange-400 dark:[&>div]:bg-orange-500",
+  },
+  pink: {
+    bg: "bg-pink-300 dark:bg-pink-400",
+    text: "text-pink-900 dark:text-pink-950",
+    dot: "bg-pink-600",
+    border: "border-l-pink-400 dark:border-l-pink-500",
+    accent: "text-pink-600 dark:text-pink-400",
+    progressBg: "[&>div]:bg-pink-400 dark:[&>div]:bg-pink-500",
+  },
+  blue: {
+    bg: "bg-blue-400 dark:bg-blue-500",
+    text: "text-white",
+    dot: "bg-blue-600",
+    border: "border-l-blue-400 dark:border-l-blue-500",
+    accent: "text-blue-600 dark:text-blue-400",
+    progressBg: "[&>div]:bg-blue-400 dark:[&>div]:bg-blue-500",
+  },
+  gray: {
+    bg: "bg-gray-400 dark:bg-gray-500",
+    text: "text-white",
+    dot: "bg-gray-600",
+    border: "border-l-gray-400 dark:border-l-gray-500",
+    accent: "text-gray-600 dark:text-gray-400",
+    progressBg: "[&>div]:bg-gray-400 dark:[&>div]:bg-gray-500",
+  },
+  green: {
+    bg: "bg-green-400 dark:bg-green-500",
+    text: "text-green-950",
+    dot: "bg-green-700",
+    border: "border-l-green-400 dark:border-l-green-500",
+    accent: "text-green-600 dark:text-green-400",
+    progressBg: "[&>div]:bg-green-400 dark:[&>div]:bg-green-500",
+  },
+  purple: {
+    bg: "bg-purple-400 dark:bg-purple-500",
+    text: "text-white",
+    dot: "bg-purple-700",
+    border: "border-l-purple-400 dark:border-l-purple-500",
+    accent: "text-purple-600 dark:text-purple-400",
+    progressBg: "[&>div]:bg-purple-400 dark:[&>div]:bg-purple-500",
+  },
+  teal: {
+    bg: "bg-teal-400 dark:bg-teal-500",
+    text: "text-teal-950",
+    dot: "bg-teal-700",
+    border: "border-l-teal-400 dark:border-l-teal-500",
+    accent: "text-teal-600 dark:text-teal-400",
+    progressBg: "[&>div]:bg-teal-400 dark:[&>div]:bg-teal-500",
+  },
+  red: {
+    bg: "bg-red-400 dark:bg-red-500",
+    text: "text-white",
+    dot: "bg-red-700",
+    border: "border-l-red-400 dark:border-l-red-500",
+    accent: "text-red-600 dark:text-red-400",
+    progressBg: "[&>div]:bg-red-400 dark:[&>div]:bg-red-500",
+  },
+};
+
+// Resolve a staff member's colour, falling back for names missing from the directory
+export function getStaffColorStyles(staffName: StaffMember, directory: Staff[]): StaffColorStyles {
+  const member = directory.find((s) => s.name === staffName);
+  return staffColorStyles[member?.color ?? FALLBACK_STAFF_COLOR];
+}
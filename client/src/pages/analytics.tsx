@@ -1,16 +1,28 @@
 import { useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQueries, useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
+import { LocationSwitcher } from "@/components/location-switcher";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Progress } from "@/components/ui/progress";
-import { ArrowLeft, BarChart3, Users, Clock, AlertTriangle, TrendingUp } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, BarChart3, Building2, Users, Clock, AlertTriangle, PartyPopper, TrendingUp } from "lucide-react";
 import type { Roster, StaffMember } from "@shared/schema";
-import { STAFF_MEMBERS, STAFF_COLORS } from "@shared/schema";
+import { STAFF_COLOR_VALUES, FALLBACK_STAFF_COLOR } from "@shared/schema";
 import { calculateStaffHours } from "@/lib/roster-utils";
+import { useStaff } from "@/hooks/use-staff";
+import { useLocations, liveRosterQuery } from "@/hooks/use-locations";
 import { 
   BarChart, 
   Bar, 
@@ -25,12 +37,11 @@ import {
   Legend
 } from "recharts";
 
-const COLORS = ["#60A5FA", "#F9A8D4", "#FB923C", "#9CA3AF"];
-
 interface HoursDistributionData {
   name: string;
   hours: number;
   shifts: number;
+  holidayHours: number;
   color: string;
 }
 
@@ -38,6 +49,14 @@ interface CoverageGap {
   date: string;
   shiftType: string;
   weekday: string;
+  place: string | null;
+}
+
+interface ShiftTypeCoverage {
+  shiftType: string;
+  total: number;
+  assigned: number;
+  coverage: number;
 }
 
 interface FairnessMetrics {
@@ -49,42 +68,224 @@ interface FairnessMetrics {
 }
 
 function StaffBadge({ staff }: { staff: StaffMember }) {
-  const colors = STAFF_COLORS[staff];
+  const { getColors } = useStaff();
+  const colors = getColors(staff);
   return (
-    <Badge className={`${colors.bg} ${colors.text} ${colors.darkBg} ${colors.darkText}`}>
+    <Badge className={`${colors.bg} ${colors.text}`}>
       {staff}
     </Badge>
   );
 }
 
-export default function AnalyticsPage() {
-  const { data: roster, isLoading } = useQuery<Roster | null>({
-    queryKey: ["/api/roster"],
+interface SiteSummary {
+  locationId: string;
+  name: string;
+  rosterName: string | null;
+  total: number;
+  assigned: number;
+  coverage: number;
+  hours: number;
+}
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
+
+// Every site's live roster side by side, and each person's hours summed across the sites they work at
+function CrossSiteCard() {
+  const { staff } = useStaff();
+  const { activeLocations } = useLocations();
+  const results = useQueries({
+    queries: activeLocations.map((location) => liveRosterQuery(location.id)),
   });
+  const rosters = results.map((result) => result.data);
+
+  const sites: SiteSummary[] = activeLocations.map((location, i) => {
+    const shifts = rosters[i]?.shifts ?? [];
+    const assigned = shifts.filter((s) => s.assigned);
+    return {
+      locationId: location.id,
+      name: location.name,
+      rosterName: rosters[i]?.name ?? null,
+      total: shifts.length,
+      assigned: assigned.length,
+      coverage: shifts.length > 0 ? Math.round((assigned.length / shifts.length) * 100) : 0,
+      hours: roundHours(assigned.reduce((sum, s) => sum + s.hours, 0)),
+    };
+  });
+
+  const staffAcrossSites = staff
+    .filter((member) => member.isActive)
+    .map((member) => {
+      const bySite = rosters.map((roster) =>
+        roundHours((roster?.shifts ?? []).filter((s) => s.assigned === member.name).reduce((sum, s) => sum + s.hours, 0))
+      );
+      return { member, bySite, total: roundHours(bySite.reduce((a, b) => a + b, 0)) };
+    })
+    .filter(({ total }) => total > 0)
+    .sort((a, b) => b.total - a.total);
+
+  const isLoading = results.some((result) => result.isLoading);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Building2 className="h-4 w-4" />
+          All Locations
+        </CardTitle>
+        <CardDescription>
+          Live rosters across every site, and each person's hours summed over the sites they work at
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Live roster</TableHead>
+                  <TableHead className="text-right">Shifts</TableHead>
+                  <TableHead className="w-[200px]">Coverage</TableHead>
+                  <TableHead className="text-right">Hours</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sites.map((site) => (
+                  <TableRow key={site.locationId} data-testid={`row-site-${site.locationId}`}>
+                    <TableCell className="font-medium text-sm">{site.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{site.rosterName ?? "None"}</TableCell>
+                    <TableCell className="text-right font-mono text-sm tabular-nums">
+                      {site.assigned}/{site.total}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Progress value={site.coverage} className="h-2" />
+                        <span className="w-10 text-right text-xs text-muted-foreground">{site.coverage}%</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm tabular-nums">{site.hours}h</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
 
+            {staffAcrossSites.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Staff</TableHead>
+                    {sites.map((site) => (
+                      <TableHead key={site.locationId} className="text-right">{site.name}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Contracted / wk</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {staffAcrossSites.map(({ member, bySite, total }) => (
+                    <TableRow key={member.id} data-testid={`row-cross-site-${member.id}`}>
+                      <TableCell>
+                        <StaffBadge staff={member.name} />
+                      </TableCell>
+                      {bySite.map((hours, i) => (
+                        <TableCell key={sites[i].locationId} className="text-right font-mono text-sm tabular-nums">
+                          {hours > 0 ? `${hours}h` : "—"}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-mono text-sm font-medium tabular-nums">{total}h</TableCell>
+                      <TableCell className="text-right font-mono text-sm text-muted-foreground tabular-nums">
+                        {member.contractedHours}h
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AnalyticsPage() {
+  const { staff, activeStaff } = useStaff();
+  const { locationId, isMultiSite } = useLocations();
+  const { data: roster, isLoading } = useQuery<Roster | null>(liveRosterQuery(locationId));
+
+  // Everyone who works at this site, so someone with no shifts here still counts
   const staffHours = useMemo(() => {
     if (!roster) return [];
-    return calculateStaffHours(roster.shifts);
-  }, [roster]);
+    const siteStaff = activeStaff.filter((s) => s.locationIds.includes(roster.locationId));
+    return calculateStaffHours(roster.shifts, siteStaff.map((s) => s.name));
+  }, [roster, activeStaff]);
 
   const hoursDistribution: HoursDistributionData[] = useMemo(() => {
-    return staffHours.map((s, index) => ({
-      name: s.name,
-      hours: s.totalHours,
-      shifts: s.shiftCount,
-      color: COLORS[index % COLORS.length],
-    }));
-  }, [staffHours]);
+    return staffHours.map((s) => {
+      const member = staff.find((m) => m.name === s.name);
+      return {
+        name: s.name,
+        hours: s.totalHours,
+        shifts: s.shiftCount,
+        holidayHours: s.holidayHours,
+        color: STAFF_COLOR_VALUES[member?.color ?? FALLBACK_STAFF_COLOR].hex,
+      };
+    });
+  }, [staffHours, staff]);
+
+  // Each public holiday on the roster once, with how many of its places are filled
+  const holidaysOnRoster = useMemo(() => {
+    if (!roster) return [];
+    const byDate = new Map<string, { date: string; name: string; total: number; assigned: number }>();
+    for (const shift of roster.shifts) {
+      if (!shift.publicHoliday) continue;
+      const entry = byDate.get(shift.date) ?? { date: shift.date, name: shift.publicHoliday, total: 0, assigned: 0 };
+      entry.total++;
+      if (shift.assigned) entry.assigned++;
+      byDate.set(shift.date, entry);
+    }
+    return Array.from(byDate.values());
+  }, [roster]);
 
   const coverageGaps: CoverageGap[] = useMemo(() => {
     if (!roster) return [];
+    const places = new Map<string, number>();
+    for (const shift of roster.shifts) {
+      const key = `${shift.date}|${shift.shiftType}`;
+      places.set(key, (places.get(key) ?? 0) + 1);
+    }
     return roster.shifts
       .filter((shift) => !shift.assigned)
-      .map((shift) => ({
-        date: shift.date,
-        shiftType: shift.shiftType,
-        weekday: shift.weekday,
-      }));
+      .map((shift) => {
+        const count = places.get(`${shift.date}|${shift.shiftType}`) ?? 1;
+        return {
+          date: shift.date,
+          shiftType: shift.shiftType,
+          weekday: shift.weekday,
+          place: count > 1 ? `${shift.position}/${count}` : null,
+        };
+      });
+  }, [roster]);
+
+  const shiftTypeCoverage: ShiftTypeCoverage[] = useMemo(() => {
+    if (!roster) return [];
+    const byType = new Map<string, { total: number; assigned: number }>();
+    for (const shift of roster.shifts) {
+      const counts = byType.get(shift.shiftType) ?? { total: 0, assigned: 0 };
+      counts.total++;
+      if (shift.assigned) counts.assigned++;
+      byType.set(shift.shiftType, counts);
+    }
+    return Array.from(byType.entries()).map(([shiftType, { total, assigned }]) => ({
+      shiftType,
+      total,
+      assigned,
+      coverage: Math.round((assigned / total) * 100),
+    }));
   }, [roster]);
 
   const fairnessMetrics: FairnessMetrics = useMemo(() => {
@@ -153,7 +354,11 @@ export default function AnalyticsPage() {
                 </p>
               </div>
             </div>
-            <ThemeToggle />
+            <div className="flex items-center gap-2">
+              <LocationSwitcher />
+              <NotificationBell />
+              <ThemeToggle />
+            </div>
           </div>
         </div>
       </header>
@@ -207,7 +412,7 @@ export default function AnalyticsPage() {
                     <div>
                       <p className="text-sm text-muted-foreground">Active Staff</p>
                       <p className="text-2xl font-bold">
-                        {staffHours.filter((s) => s.totalHours > 0).length}/{STAFF_MEMBERS.length}
+                        {staffHours.filter((s) => s.totalHours > 0).length}/{staffHours.length}
                       </p>
                     </div>
                   </div>
@@ -383,7 +588,10 @@ export default function AnalyticsPage() {
                           <span className="text-sm">
                             {gap.weekday}, {gap.date}
                           </span>
-                          <Badge variant="outline">{gap.shiftType}</Badge>
+                          <Badge variant="outline">
+                            {gap.shiftType}
+                            {gap.place && <span className="ml-1 text-muted-foreground">{gap.place}</span>}
+                          </Badge>
                         </div>
                       ))}
                       {coverageGaps.length > 10 && (
@@ -393,6 +601,13 @@ export default function AnalyticsPage() {
                       )}
                     </div>
                   )}
+                  {coverageGaps.length > 0 && (
+                    <Link href="/open-shifts">
+                      <Button variant="outline" size="sm" className="w-full mt-3" data-testid="button-post-open-shifts">
+                        Post as open shifts
+                      </Button>
+                    </Link>
+                  )}
                 </CardContent>
               </Card>
             </div>
@@ -429,8 +644,90 @@ export default function AnalyticsPage() {
                 </div>
               </CardContent>
             </Card>
+
+            {holidaysOnRoster.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <PartyPopper className="h-4 w-4" />
+                    Public Holiday Hours
+                  </CardTitle>
+                  <CardDescription>
+                    Hours each staff member works on public holidays, counted separately from ordinary hours
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div className="h-[220px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={hoursDistribution}>
+                        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                        <XAxis dataKey="name" className="text-xs" />
+                        <YAxis className="text-xs" allowDecimals={false} />
+                        <Tooltip 
+                          contentStyle={{ 
+                            backgroundColor: "hsl(var(--card))",
+                            border: "1px solid hsl(var(--border))",
+                            borderRadius: "var(--radius)"
+                          }}
+                          formatter={(value: number) => [`${value}h`, "Public holiday hours"]}
+                        />
+                        <Bar dataKey="holidayHours" radius={[4, 4, 0, 0]}>
+                          {hoursDistribution.map((entry, index) => (
+                            <Cell key={`cell-${index}`} fill={entry.color} />
+                          ))}
+                        </Bar>
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Holiday</TableHead>
+                        <TableHead className="text-right">Filled</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {holidaysOnRoster.map((holiday) => (
+                        <TableRow key={holiday.date} data-testid={`row-analytics-holiday-${holiday.date}`}>
+                          <TableCell className="font-mono text-sm">{holiday.date}</TableCell>
+                          <TableCell className="text-sm">{holiday.name}</TableCell>
+                          <TableCell className="text-right text-sm">
+                            {holiday.assigned}/{holiday.total}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Coverage by Shift Type</CardTitle>
+                <CardDescription>
+                  Places filled for each shift type, counting every person a shift needs
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {shiftTypeCoverage.map((row) => (
+                  <div key={row.shiftType} className="space-y-2" data-testid={`coverage-type-${row.shiftType}`}>
+                    <div className="flex items-center justify-between text-sm">
+                      <span>{row.shiftType}</span>
+                      <span className="font-medium">
+                        {row.assigned}/{row.total} ({row.coverage}%)
+                      </span>
+                    </div>
+                    <Progress value={row.coverage} className="h-2" />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
           </>
         )}
+
+        {isMultiSite && <CrossSiteCard />}
       </main>
     </div>
   );
@@ -1,18 +1,59 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Link } from "wouter";
+import { Link, useSearch } from "wouter";
 import { RosterComparison } from "@/components/roster-comparison";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocations } from "@/hooks/use-locations";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ClipboardList, ArrowLeft, GitCompare } from "lucide-react";
 import { format } from "date-fns";
-import type { RosterSummary } from "@shared/schema";
+import type { RosterSummary, RosterVersionRef, RosterVersionSummary } from "@shared/schema";
+import { rosterVersionRefSchema } from "@shared/schema";
+
+function parseVersion(value: string | null): RosterVersionRef {
+  const parsed = rosterVersionRefSchema.safeParse(value);
+  return parsed.success ? parsed.data : "draft";
+}
+
+function VersionSelect({ rosterId, value, onChange, testId }: { rosterId: string; value: RosterVersionRef; onChange: (version: RosterVersionRef) => void; testId: string }) {
+  const { data: versions } = useQuery<RosterVersionSummary[]>({
+    queryKey: ["/api/roster", rosterId, "versions"],
+    enabled: !!rosterId,
+  });
+
+  return (
+    <Select value={String(value)} onValueChange={(v) => onChange(parseVersion(v))} disabled={!rosterId}>
+      <SelectTrigger data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="draft">Current draft</SelectItem>
+        {versions?.map((version) => (
+          <SelectItem key={version.id} value={String(version.version)}>
+            v{version.version} ({format(new Date(version.publishedAt), "MMM d, HH:mm")})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
 
 export default function ComparisonPage() {
-  const [leftRosterId, setLeftRosterId] = useState<string>("");
-  const [rightRosterId, setRightRosterId] = useState<string>("");
+  // Staff only see published rosters, so they compare rosters rather than versions
+  const { isManager } = useAuth();
+  // Rosters from every site are listed, so one home's rota can be set against another's
+  const { isMultiSite, nameOf } = useLocations();
+  // Links from the version list preselect both sides, e.g. ?left=<id>&leftVersion=2&right=<id>&rightVersion=draft
+  const search = new URLSearchParams(useSearch());
+  const [leftRosterId, setLeftRosterId] = useState<string>(search.get("left") ?? "");
+  const [rightRosterId, setRightRosterId] = useState<string>(search.get("right") ?? "");
+  const [leftVersion, setLeftVersion] = useState<RosterVersionRef>(parseVersion(search.get("leftVersion")));
+  const [rightVersion, setRightVersion] = useState<RosterVersionRef>(parseVersion(search.get("rightVersion")));
+  const isSameSide = leftRosterId === rightRosterId && leftVersion === rightVersion;
 
   const { data: rosters, isLoading } = useQuery<RosterSummary[]>({
     queryKey: ["/api/rosters"],
@@ -39,7 +80,10 @@ export default function ComparisonPage() {
                 </p>
               </div>
             </div>
-            <ThemeToggle />
+            <div className="flex items-center gap-2">
+              <NotificationBell />
+              <ThemeToggle />
+            </div>
           </div>
         </div>
       </header>
@@ -49,7 +93,7 @@ export default function ComparisonPage() {
           <CardHeader>
             <CardTitle className="text-base">Select Rosters to Compare</CardTitle>
             <CardDescription>
-              Choose two roster versions to see the differences in staff assignments
+              Choose two rosters, or two versions of the same roster, to see the differences in staff assignments
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -58,7 +102,10 @@ export default function ComparisonPage() {
                 <label className="text-sm font-medium">Original Roster</label>
                 <Select
                   value={leftRosterId}
-                  onValueChange={setLeftRosterId}
+                  onValueChange={(id) => {
+                    setLeftRosterId(id);
+                    setLeftVersion("draft");
+                  }}
                   disabled={isLoading || !rosters?.length}
                 >
                   <SelectTrigger data-testid="select-left-roster">
@@ -67,18 +114,30 @@ export default function ComparisonPage() {
                   <SelectContent>
                     {rosters?.map((roster) => (
                       <SelectItem key={roster.id} value={roster.id}>
-                        {roster.name} ({format(new Date(roster.createdAt), "MMM d, HH:mm")})
+                        {roster.name}
+                        {isMultiSite && ` · ${nameOf(roster.locationId)}`} ({format(new Date(roster.createdAt), "MMM d, HH:mm")})
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                {isManager && (
+                  <VersionSelect
+                    rosterId={leftRosterId}
+                    value={leftVersion}
+                    onChange={setLeftVersion}
+                    testId="select-left-version"
+                  />
+                )}
               </div>
 
               <div className="space-y-2">
                 <label className="text-sm font-medium">Compare With</label>
                 <Select
                   value={rightRosterId}
-                  onValueChange={setRightRosterId}
+                  onValueChange={(id) => {
+                    setRightRosterId(id);
+                    setRightVersion("draft");
+                  }}
                   disabled={isLoading || !rosters?.length}
                 >
                   <SelectTrigger data-testid="select-right-roster">
@@ -87,30 +146,44 @@ export default function ComparisonPage() {
                   <SelectContent>
                     {rosters?.map((roster) => (
                       <SelectItem key={roster.id} value={roster.id}>
-                        {roster.name} ({format(new Date(roster.createdAt), "MMM d, HH:mm")})
+                        {roster.name}
+                        {isMultiSite && ` · ${nameOf(roster.locationId)}`} ({format(new Date(roster.createdAt), "MMM d, HH:mm")})
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
+                {isManager && (
+                  <VersionSelect
+                    rosterId={rightRosterId}
+                    value={rightVersion}
+                    onChange={setRightVersion}
+                    testId="select-right-version"
+                  />
+                )}
               </div>
             </div>
 
-            {(!rosters || rosters.length < 2) && !isLoading && (
+            {(!rosters || rosters.length === 0) && !isLoading && (
               <p className="text-sm text-muted-foreground mt-4">
-                You need at least two saved rosters to compare. Generate more rosters from the main page.
+                No saved rosters yet. Generate a roster from the main page, then publish versions of it to compare.
               </p>
             )}
           </CardContent>
         </Card>
 
-        {leftRosterId && rightRosterId && leftRosterId !== rightRosterId && (
-          <RosterComparison leftRosterId={leftRosterId} rightRosterId={rightRosterId} />
+        {leftRosterId && rightRosterId && !isSameSide && (
+          <RosterComparison
+            leftRosterId={leftRosterId}
+            leftVersion={isManager ? leftVersion : undefined}
+            rightRosterId={rightRosterId}
+            rightVersion={isManager ? rightVersion : undefined}
+          />
         )}
 
-        {leftRosterId && rightRosterId && leftRosterId === rightRosterId && (
+        {leftRosterId && rightRosterId && isSameSide && (
           <Card>
             <CardContent className="py-8 text-center text-muted-foreground">
-              Please select two different rosters to compare
+              Please select two different rosters or versions to compare
             </CardContent>
           </Card>
         )}
@@ -0,0 +1,362 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
+import { LeaveCalendar } from "@/components/leave-calendar";
+import { useToast } from "@/hooks/use-toast";
+import { useStaff } from "@/hooks/use-staff";
+import { useLeave } from "@/hooks/use-leave";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, CalendarOff, Check, Plus, Trash2, X } from "lucide-react";
+import { format } from "date-fns";
+import type {
+  CreateUnavailabilityRequest,
+  StaffMember,
+  Unavailability,
+  UnavailabilityStatus,
+  UnavailabilityType,
+} from "@shared/schema";
+import { UNAVAILABILITY_TYPES } from "@shared/schema";
+
+const statusStyles: Record<UnavailabilityStatus, string> = {
+  pending: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+  approved: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  rejected: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function formatRange(entry: Unavailability): string {
+  const start = format(new Date(entry.startDate), "MMM d, yyyy");
+  if (entry.startDate === entry.endDate) return start;
+  return `${start} – ${format(new Date(entry.endDate), "MMM d, yyyy")}`;
+}
+
+export default function LeavePage() {
+  const { toast } = useToast();
+  const { activeStaff, getColors } = useStaff();
+  const { entries, isLoading } = useLeave();
+  const { user, isManager } = useAuth();
+  const today = format(new Date(), "yyyy-MM-dd");
+  // Staff can only request leave for themselves
+  const [selectedStaff, setSelectedStaff] = useState<StaffMember>("");
+  const staffMember = isManager ? selectedStaff : user?.staffName ?? "";
+  const [type, setType] = useState<UnavailabilityType>("holiday");
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [reason, setReason] = useState("");
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update leave.",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (request: CreateUnavailabilityRequest) => {
+      const response = await apiRequest("POST", "/api/unavailability", request);
+      return await response.json() as Unavailability;
+    },
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/unavailability"] });
+      setReason("");
+      toast({
+        title: "Leave Requested",
+        description: `${entry.staffMember}'s ${entry.type} is awaiting approval.`,
+      });
+    },
+    onError,
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: "approved" | "rejected" }) => {
+      const response = await apiRequest("POST", `/api/unavailability/${id}/respond`, { status });
+      return await response.json() as Unavailability;
+    },
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/unavailability"] });
+      toast({
+        title: `Leave ${capitalize(entry.status)}`,
+        description: entry.status === "approved"
+          ? `${entry.staffMember} can no longer be assigned from ${entry.startDate} to ${entry.endDate}.`
+          : `${entry.staffMember}'s leave request was rejected.`,
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/unavailability/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/unavailability"] });
+    },
+    onError,
+  });
+
+  const handleCreate = () => {
+    if (!staffMember) return;
+    createMutation.mutate({
+      staffMember,
+      type,
+      startDate,
+      endDate,
+      reason: reason.trim() || undefined,
+    });
+  };
+
+  const pending = entries.filter((e) => e.status === "pending");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3">
+              <Link href="/">
+                <Button variant="ghost" size="icon" data-testid="button-back-home">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+                <CalendarOff className="h-5 w-5" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-foreground">Leave</h1>
+                <p className="text-sm text-muted-foreground hidden sm:block">
+                  Holidays, sickness and training that block assignments
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <NotificationBell />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Request Leave</CardTitle>
+            <CardDescription>
+              Approved leave stops the staff member being assigned, generated or swapped onto shifts in the range
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col sm:flex-row items-start sm:items-end gap-3 flex-wrap">
+              <div className="space-y-2">
+                <Label>Staff member</Label>
+                <Select value={staffMember} onValueChange={setSelectedStaff} disabled={!isManager}>
+                  <SelectTrigger className="w-[160px]" data-testid="select-leave-staff">
+                    <SelectValue placeholder="Choose…" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeStaff.map((member) => (
+                      <SelectItem key={member.id} value={member.name}>
+                        {member.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={(v) => setType(v as UnavailabilityType)}>
+                  <SelectTrigger className="w-[130px]" data-testid="select-leave-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UNAVAILABILITY_TYPES.map((t) => (
+                      <SelectItem key={t} value={t}>
+                        {capitalize(t)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leave-start">From</Label>
+                <Input
+                  id="leave-start"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => {
+                    setStartDate(e.target.value);
+                    if (e.target.value > endDate) setEndDate(e.target.value);
+                  }}
+                  className="w-[160px]"
+                  data-testid="input-leave-start"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leave-end">To</Label>
+                <Input
+                  id="leave-end"
+                  type="date"
+                  min={startDate}
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="w-[160px]"
+                  data-testid="input-leave-end"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="leave-reason">Reason</Label>
+                <Input
+                  id="leave-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Optional"
+                  className="w-[200px]"
+                  data-testid="input-leave-reason"
+                />
+              </div>
+              <Button
+                onClick={handleCreate}
+                disabled={!staffMember || !startDate || !endDate || createMutation.isPending}
+                data-testid="button-request-leave"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Request
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_1fr]">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Calendar</CardTitle>
+              <CardDescription>Approved leave by day</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LeaveCalendar entries={entries} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Requests</CardTitle>
+              <CardDescription>
+                {pending.length > 0 ? `${pending.length} awaiting approval` : "Nothing awaiting approval"}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-2">
+                  {Array.from({ length: 4 }).map((_, i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : entries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No leave recorded yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Staff</TableHead>
+                      <TableHead>Dates</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="w-[110px]" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => {
+                      const colors = getColors(entry.staffMember);
+                      return (
+                        <TableRow key={entry.id} data-testid={`row-leave-${entry.id}`}>
+                          <TableCell>
+                            <Badge className={`${colors.bg} ${colors.text}`}>{entry.staffMember}</Badge>
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {capitalize(entry.type)}
+                              {entry.reason && ` · ${entry.reason}`}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm">{formatRange(entry)}</TableCell>
+                          <TableCell>
+                            <Badge className={statusStyles[entry.status]}>{capitalize(entry.status)}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center justify-end gap-1">
+                              {entry.status === "pending" && isManager && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-7 w-7 text-green-600"
+                                    onClick={() => respondMutation.mutate({ id: entry.id, status: "approved" })}
+                                    disabled={respondMutation.isPending}
+                                    data-testid={`button-approve-leave-${entry.id}`}
+                                  >
+                                    <Check className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-7 w-7 text-red-600"
+                                    onClick={() => respondMutation.mutate({ id: entry.id, status: "rejected" })}
+                                    disabled={respondMutation.isPending}
+                                    data-testid={`button-reject-leave-${entry.id}`}
+                                  >
+                                    <X className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                              {(isManager || (entry.status === "pending" && entry.staffMember === user?.staffName)) && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-7 w-7 text-destructive hover:text-destructive"
+                                  onClick={() => deleteMutation.mutate(entry.id)}
+                                  disabled={deleteMutation.isPending}
+                                  data-testid={`button-delete-leave-${entry.id}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
+import { NOTIFICATION_TYPE_LABELS, NotificationItem } from "@/components/notification-list";
+import { NotificationDeliverySettings } from "@/components/notification-delivery-settings";
+import { NotificationDeliveryLog } from "@/components/notification-delivery-log";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocations } from "@/hooks/use-locations";
+import { useMarkAllNotificationsRead, useMarkNotificationRead, useNotifications } from "@/hooks/use-notifications";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Bell, Check, CheckCheck, Inbox } from "lucide-react";
+import { NOTIFICATION_TYPES, type Notification, type NotificationType } from "@shared/schema";
+
+type ReadFilter = "all" | "unread" | "read";
+
+export default function NotificationsPage() {
+  const [typeFilter, setTypeFilter] = useState<NotificationType | "all">("all");
+  const [readFilter, setReadFilter] = useState<ReadFilter>("all");
+  const [locationFilter, setLocationFilter] = useState<string>("all");
+  const { locations, isMultiSite } = useLocations();
+  const { isManager } = useAuth();
+  const { notifications, unreadCount, isLoading, hasInbox } = useNotifications();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const filtered = notifications.filter(
+    (n) =>
+      (typeFilter === "all" || n.type === typeFilter) &&
+      (readFilter === "all" || (readFilter === "unread" ? !n.read : n.read)) &&
+      (locationFilter === "all" || n.locationId === locationFilter)
+  );
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read) markRead.mutate(notification.id);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3">
+              <Link href="/">
+                <Button variant="ghost" size="icon" data-testid="button-back-home">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+                <Bell className="h-5 w-5" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-foreground">Notifications</h1>
+                <p className="text-sm text-muted-foreground hidden sm:block">
+                  Roster changes, swaps and open shifts sent to you
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <NotificationBell />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0 flex-wrap">
+            <div className="space-y-1.5">
+              <CardTitle>Inbox</CardTitle>
+              <CardDescription>
+                {unreadCount > 0 ? `${unreadCount} unread` : "Nothing unread"}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Select value={typeFilter} onValueChange={(v) => setTypeFilter(v as NotificationType | "all")}>
+                <SelectTrigger className="w-44" data-testid="select-notification-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All types</SelectItem>
+                  {NOTIFICATION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {NOTIFICATION_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isMultiSite && (
+                <Select value={locationFilter} onValueChange={setLocationFilter}>
+                  <SelectTrigger className="w-44" data-testid="select-notification-location">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All locations</SelectItem>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Select value={readFilter} onValueChange={(v) => setReadFilter(v as ReadFilter)}>
+                <SelectTrigger className="w-32" data-testid="select-notification-read">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="unread">Unread</SelectItem>
+                  <SelectItem value="read">Read</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={() => markAllRead.mutate()}
+                disabled={unreadCount === 0 || markAllRead.isPending}
+                data-testid="button-mark-all-read-page"
+              >
+                <CheckCheck className="mr-2 h-4 w-4" />
+                Mark all read
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!hasInbox ? (
+              <EmptyState message="Your account is not linked to a staff record, so no notifications are sent to it." />
+            ) : isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <Skeleton key={i} className="h-16 w-full" />
+                ))}
+              </div>
+            ) : filtered.length === 0 ? (
+              <EmptyState
+                message={notifications.length === 0 ? "No notifications yet." : "No notifications match these filters."}
+              />
+            ) : (
+              <div className="divide-y">
+                {filtered.map((notification) => (
+                  <div key={notification.id} className="flex items-center gap-2 py-1">
+                    <div className="flex-1">
+                      <NotificationItem notification={notification} onOpen={handleOpen} />
+                    </div>
+                    {!notification.read && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => markRead.mutate(notification.id)}
+                        title="Mark as read"
+                        data-testid={`button-mark-read-${notification.id}`}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <NotificationDeliverySettings />
+        {isManager && <NotificationDeliveryLog />}
+      </main>
+    </div>
+  );
+}
+
+function EmptyState({ message }: { message: string }) {
+  return (
+    <div className="flex flex-col items-center justify-center py-12 text-center">
+      <Inbox className="h-10 w-10 text-muted-foreground/50 mb-3" />
+      <p className="text-sm text-muted-foreground">{message}</p>
+    </div>
+  );
+}
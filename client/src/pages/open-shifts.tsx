@@ -0,0 +1,464 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { queryClient, apiRequest, parseApiError } from "@/lib/queryClient";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
+import { LocationSwitcher } from "@/components/location-switcher";
+import { useToast } from "@/hooks/use-toast";
+import { useStaff } from "@/hooks/use-staff";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocations, liveRosterQuery } from "@/hooks/use-locations";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Calendar, Hand, Megaphone, UserPlus, Wand2, X } from "lucide-react";
+import { format } from "date-fns";
+import type {
+  OpenShift,
+  OpenShiftAwardRule,
+  OpenShiftStatus,
+  Roster,
+  RosterShift,
+  StaffMember,
+} from "@shared/schema";
+
+const statusStyles: Record<OpenShiftStatus, string> = {
+  open: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+  awarded: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  cancelled: "bg-muted text-muted-foreground",
+  expired: "bg-muted text-muted-foreground",
+};
+
+const awardRuleLabels: Record<OpenShiftAwardRule, string> = {
+  fewest_hours: "Fewest hours",
+  first_claim: "First claim",
+};
+
+function shiftHeading(posting: Pick<OpenShift, "shiftDate" | "shiftType" | "hours">): string {
+  return `${format(new Date(posting.shiftDate), "EEEE, MMMM d, yyyy")} - ${posting.shiftType} shift (${posting.hours}h)`;
+}
+
+function ClaimForm({ onClaim, isPending, postingId }: { onClaim: (note: string) => void; isPending: boolean; postingId: string }) {
+  const [note, setNote] = useState("");
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note for the manager (optional)"
+        className="h-8 w-56"
+        data-testid={`input-claim-note-${postingId}`}
+      />
+      <Button size="sm" onClick={() => onClaim(note)} disabled={isPending} data-testid={`button-claim-${postingId}`}>
+        <Hand className="h-4 w-4 mr-1" />
+        Claim
+      </Button>
+    </div>
+  );
+}
+
+function PostingCard({
+  posting,
+  roster,
+  isManager,
+  staffName,
+  isPending,
+  onClaim,
+  onWithdrawClaim,
+  onAward,
+  onCancel,
+}: {
+  posting: OpenShift;
+  roster: Roster | null | undefined;
+  isManager: boolean;
+  staffName: StaffMember | null;
+  isPending: boolean;
+  onClaim: (note: string) => void;
+  onWithdrawClaim: () => void;
+  onAward: (award: { staffMember?: StaffMember; rule?: OpenShiftAwardRule }) => void;
+  onCancel: () => void;
+}) {
+  const [rule, setRule] = useState<OpenShiftAwardRule>("fewest_hours");
+  const ownClaim = posting.claims.find((c) => c.staffMember === staffName);
+  const isOpen = posting.status === "open";
+  const rosterHours = (name: StaffMember) =>
+    roster?.id === posting.rosterId
+      ? roster.shifts.filter((s) => s.assigned === name).reduce((sum, s) => sum + s.hours, 0)
+      : null;
+
+  return (
+    <Card data-testid={`open-shift-${posting.id}`}>
+      <CardContent className="pt-4 space-y-3">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Calendar className="h-4 w-4 text-muted-foreground" />
+              {shiftHeading(posting)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {posting.previousAssigned ? `Covered by ${posting.previousAssigned}` : "Unassigned"} · posted by {posting.postedBy}{" "}
+              {format(new Date(posting.createdAt), "MMM d, HH:mm")}
+            </p>
+            {posting.note && <p className="text-sm text-muted-foreground">{posting.note}</p>}
+            {posting.awardedTo && (
+              <p className="text-sm" data-testid={`text-awarded-${posting.id}`}>
+                Awarded to <span className="font-medium">{posting.awardedTo}</span>
+                {posting.awardMethod && posting.awardMethod !== "manual" && ` (${awardRuleLabels[posting.awardMethod].toLowerCase()})`}
+              </p>
+            )}
+          </div>
+          <Badge className={statusStyles[posting.status]}>
+            {posting.status.charAt(0).toUpperCase() + posting.status.slice(1)}
+          </Badge>
+        </div>
+
+        {isManager ? (
+          <div className="space-y-2">
+            {posting.claims.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No claims yet</p>
+            ) : (
+              <ul className="divide-y rounded-md border">
+                {posting.claims.map((claim) => (
+                  <li key={claim.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <div>
+                      <span className="font-medium">{claim.staffMember}</span>
+                      {rosterHours(claim.staffMember) !== null && (
+                        <span className="text-muted-foreground"> · {rosterHours(claim.staffMember)}h on this roster</span>
+                      )}
+                      {claim.note && <p className="text-muted-foreground">{claim.note}</p>}
+                    </div>
+                    {isOpen && claim.status === "pending" ? (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onAward({ staffMember: claim.staffMember })}
+                        disabled={isPending}
+                        data-testid={`button-award-${posting.id}-${claim.staffMember}`}
+                      >
+                        <UserPlus className="h-4 w-4 mr-1" />
+                        Award
+                      </Button>
+                    ) : (
+                      <Badge variant="outline">{claim.status === "awarded" ? "Awarded" : claim.status === "pending" ? "Claimed" : "Not awarded"}</Badge>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {isOpen && (
+              <div className="flex items-center justify-end gap-2 flex-wrap">
+                <Select value={rule} onValueChange={(v) => setRule(v as OpenShiftAwardRule)}>
+                  <SelectTrigger className="h-8 w-40" data-testid={`select-award-rule-${posting.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(awardRuleLabels) as OpenShiftAwardRule[]).map((key) => (
+                      <SelectItem key={key} value={key}>{awardRuleLabels[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  onClick={() => onAward({ rule })}
+                  disabled={isPending || posting.claims.length === 0}
+                  data-testid={`button-auto-award-${posting.id}`}
+                >
+                  <Wand2 className="h-4 w-4 mr-1" />
+                  Auto-award
+                </Button>
+                <Button size="sm" variant="ghost" onClick={onCancel} disabled={isPending} data-testid={`button-cancel-open-shift-${posting.id}`}>
+                  <X className="h-4 w-4 mr-1" />
+                  Take down
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : ownClaim ? (
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {ownClaim.status === "pending"
+                ? "You have claimed this shift"
+                : ownClaim.status === "awarded"
+                  ? "This shift is yours"
+                  : "This shift went to someone else"}
+            </p>
+            {isOpen && ownClaim.status === "pending" && (
+              <Button size="sm" variant="ghost" onClick={onWithdrawClaim} disabled={isPending} data-testid={`button-withdraw-claim-${posting.id}`}>
+                Withdraw claim
+              </Button>
+            )}
+          </div>
+        ) : (
+          isOpen && staffName && <ClaimForm onClaim={onClaim} isPending={isPending} postingId={posting.id} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Published shifts that nobody permanent holds, not yet started or posted
+function ShiftsNeedingCover({
+  shifts,
+  onPost,
+  isPending,
+}: {
+  shifts: RosterShift[];
+  onPost: (shiftId: string, note: string) => void;
+  isPending: boolean;
+}) {
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Shifts needing cover</CardTitle>
+        <CardDescription>Unassigned and Locum shifts on the published roster</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {shifts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Every upcoming shift is covered by permanent staff</p>
+        ) : (
+          <ul className="divide-y">
+            {shifts.map((shift) => (
+              <li key={shift.id} className="flex items-center justify-between gap-3 py-2 flex-wrap" data-testid={`cover-shift-${shift.id}`}>
+                <div className="text-sm">
+                  <span className="font-medium">{shift.weekday}, {shift.date}</span>{" "}
+                  <Badge variant="outline">{shift.shiftType}</Badge>{" "}
+                  <span className="text-muted-foreground">{shift.assigned ?? "Unassigned"}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={notes[shift.id] ?? ""}
+                    onChange={(e) => setNotes({ ...notes, [shift.id]: e.target.value })}
+                    placeholder="Note (optional)"
+                    className="h-8 w-48"
+                    data-testid={`input-post-note-${shift.id}`}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onPost(shift.id, notes[shift.id] ?? "")}
+                    disabled={isPending}
+                    data-testid={`button-post-${shift.id}`}
+                  >
+                    <Megaphone className="h-4 w-4 mr-1" />
+                    Post
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function OpenShiftsPage() {
+  const { toast } = useToast();
+  const { user, isManager } = useAuth();
+  const { staff } = useStaff();
+  const [activeTab, setActiveTab] = useState<"open" | "closed">("open");
+
+  const { data: postings, isLoading } = useQuery<OpenShift[]>({
+    queryKey: ["/api/open-shifts"],
+  });
+
+  // Shifts needing cover are offered from the chosen site's live roster
+  const { locationId } = useLocations();
+  const { data: roster } = useQuery<Roster | null>({
+    ...liveRosterQuery(locationId),
+    enabled: isManager,
+  });
+
+  const onMutationSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/open-shifts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+  };
+
+  const onMutationError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: parseApiError(error).body?.error ?? fallback,
+      variant: "destructive",
+    });
+  };
+
+  const postMutation = useMutation({
+    mutationFn: async ({ shiftId, note }: { shiftId: string; note: string }) => {
+      const response = await apiRequest("POST", "/api/open-shifts", { shiftId, note: note || undefined });
+      return await response.json() as OpenShift;
+    },
+    onSuccess: () => {
+      onMutationSuccess();
+      toast({ title: "Open Shift Posted", description: "Eligible staff have been notified." });
+    },
+    onError: onMutationError("Failed to post open shift."),
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async ({ id, note }: { id: string; note: string }) => {
+      const response = await apiRequest("POST", `/api/open-shifts/${id}/claims`, { note: note || undefined });
+      return await response.json();
+    },
+    onSuccess: () => {
+      onMutationSuccess();
+      toast({ title: "Shift Claimed", description: "A manager will decide who gets the shift." });
+    },
+    onError: onMutationError("Failed to claim open shift."),
+  });
+
+  const withdrawClaimMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/open-shifts/${id}/claims`);
+    },
+    onSuccess: onMutationSuccess,
+    onError: onMutationError("Failed to withdraw claim."),
+  });
+
+  const awardMutation = useMutation({
+    mutationFn: async ({ id, ...award }: { id: string; staffMember?: StaffMember; rule?: OpenShiftAwardRule }) => {
+      const response = await apiRequest("POST", `/api/open-shifts/${id}/award`, award);
+      return await response.json() as OpenShift;
+    },
+    onSuccess: (posting) => {
+      onMutationSuccess();
+      toast({ title: "Open Shift Awarded", description: `${posting.awardedTo} now has the shift.` });
+    },
+    onError: onMutationError("Failed to award open shift."),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/open-shifts/${id}/cancel`);
+      return await response.json() as OpenShift;
+    },
+    onSuccess: onMutationSuccess,
+    onError: onMutationError("Failed to take down open shift."),
+  });
+
+  const isPending =
+    postMutation.isPending || claimMutation.isPending || withdrawClaimMutation.isPending ||
+    awardMutation.isPending || cancelMutation.isPending;
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const postedShiftIds = new Set((postings || []).filter((p) => p.status === "open").map((p) => p.shiftId));
+  const locums = new Set(staff.filter((s) => s.role === "Locum").map((s) => s.name));
+  const needingCover = roster?.status === "published"
+    ? roster.shifts.filter(
+        (shift) =>
+          (!shift.assigned || locums.has(shift.assigned)) &&
+          shift.date >= today &&
+          !postedShiftIds.has(shift.id)
+      )
+    : [];
+
+  const displayPostings = (postings || []).filter((p) =>
+    activeTab === "open" ? p.status === "open" : p.status !== "open"
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3">
+              <Link href="/">
+                <Button variant="ghost" size="icon" data-testid="button-back-home">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+                <Megaphone className="h-5 w-5" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-foreground">Open Shifts</h1>
+                <p className="text-sm text-muted-foreground hidden sm:block">
+                  Volunteer for shifts that would otherwise go to a Locum
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {isManager && <LocationSwitcher />}
+              <NotificationBell />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {isManager && (
+          <ShiftsNeedingCover
+            shifts={needingCover}
+            onPost={(shiftId, note) => postMutation.mutate({ shiftId, note })}
+            isPending={isPending}
+          />
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Posted shifts</CardTitle>
+            <CardDescription>
+              {isManager
+                ? "Award a shift to one of the staff who claimed it, or let the fairness rule pick"
+                : "Claim a shift you can work; a manager picks who gets it"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "open" | "closed")}>
+              <TabsList className="mb-4">
+                <TabsTrigger value="open" data-testid="tab-open">Open</TabsTrigger>
+                <TabsTrigger value="closed" data-testid="tab-closed">Closed</TabsTrigger>
+              </TabsList>
+              <TabsContent value={activeTab}>
+                {isLoading ? (
+                  <div className="space-y-3">
+                    {Array.from({ length: 3 }).map((_, i) => (
+                      <Skeleton key={i} className="h-28 w-full" />
+                    ))}
+                  </div>
+                ) : displayPostings.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center py-12 text-center">
+                    <Megaphone className="h-12 w-12 text-muted-foreground mb-3" />
+                    <p className="text-sm text-muted-foreground">
+                      {activeTab === "open" ? "No open shifts right now" : "No closed postings yet"}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {displayPostings.map((posting) => (
+                      <PostingCard
+                        key={posting.id}
+                        posting={posting}
+                        roster={roster}
+                        isManager={isManager}
+                        staffName={user?.staffName ?? null}
+                        isPending={isPending}
+                        onClaim={(note) => claimMutation.mutate({ id: posting.id, note })}
+                        onWithdrawClaim={() => withdrawClaimMutation.mutate(posting.id)}
+                        onAward={(award) => awardMutation.mutate({ id: posting.id, ...award })}
+                        onCancel={() => cancelMutation.mutate(posting.id)}
+                      />
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,30 +1,65 @@
-import { useState, useMemo, useCallback } from "react";
+import { useState, useMemo, useCallback, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, parseApiError } from "@/lib/queryClient";
 import { RosterControls } from "@/components/roster-controls";
 import { RosterTable } from "@/components/roster-table";
 import { StaffHoursDashboard } from "@/components/staff-hours-dashboard";
 import { RosterHistory } from "@/components/roster-history";
+import { SolverReportCard } from "@/components/solver-report";
+import { AuditTimelineSheet } from "@/components/audit-timeline";
+import { RosterStatusActions, RosterStatusBadge } from "@/components/roster-status";
+import { ComplianceReportCard, violationsByShift } from "@/components/compliance-report";
+import { RosterPresence } from "@/components/roster-presence";
+import { ShiftConflictDialog, type ShiftConflict } from "@/components/shift-conflict-dialog";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { UserMenu } from "@/components/user-menu";
+import { NotificationBell } from "@/components/notification-bell";
+import { LocationSwitcher } from "@/components/location-switcher";
 import { useToast } from "@/hooks/use-toast";
-import { getNextMonday, calculateStaffHours } from "@/lib/roster-utils";
-import type { Roster, StaffMember, RosterShift } from "@shared/schema";
-import { Calendar, ClipboardList, History, PanelLeftClose, PanelLeft } from "lucide-react";
+import { useStaff } from "@/hooks/use-staff";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocations, liveRosterQuery } from "@/hooks/use-locations";
+import { useRealtimeEvent, useRosterPresence } from "@/hooks/use-realtime";
+import { getNextMonday, calculateStaffHours, formatDisplayDate } from "@/lib/roster-utils";
+import type {
+  ComplianceReport,
+  Roster,
+  StaffMember,
+  RosterShift,
+  GenerateRosterResponse,
+  ShiftConflictResponse,
+  SolverReport,
+} from "@shared/schema";
+import { isRosterEditable } from "@shared/roster-lifecycle";
+import { Link, useSearch } from "wouter";
+import { Calendar, CalendarOff, ClipboardList, History, ListChecks, Megaphone, PanelLeftClose, PanelLeft, Users } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 export default function RosterPage() {
   const { toast } = useToast();
+  const { activeStaff } = useStaff();
+  const { isManager } = useAuth();
+  const { locationId } = useLocations();
   const [startDate, setStartDate] = useState<Date | undefined>(getNextMonday());
   const [weeks, setWeeks] = useState(4);
+  const [useSolver, setUseSolver] = useState(false);
+  const [solverReport, setSolverReport] = useState<SolverReport>();
   const [localShifts, setLocalShifts] = useState<RosterShift[]>([]);
   const [showHistory, setShowHistory] = useState(true);
   const [selectedRosterId, setSelectedRosterId] = useState<string>();
+  const [auditTarget, setAuditTarget] = useState<{ title: string; description?: string; rosterId?: string; shiftId?: string }>();
+  const [conflict, setConflict] = useState<ShiftConflict>();
 
-  const { data: activeRoster, isLoading: isLoadingRoster } = useQuery<Roster | null>({
-    queryKey: ["/api/roster"],
-  });
+  const { data: activeRoster, isLoading: isLoadingRoster } = useQuery<Roster | null>(liveRosterQuery(locationId));
+
+  // Switching site starts again from that site's live roster
+  useEffect(() => {
+    setSelectedRosterId(undefined);
+    setLocalShifts([]);
+    setSolverReport(undefined);
+  }, [locationId]);
 
   const { data: selectedRoster } = useQuery<Roster | null>({
     queryKey: ["/api/roster", selectedRosterId],
@@ -33,24 +68,55 @@ export default function RosterPage() {
 
   const displayRoster = selectedRosterId && selectedRoster ? selectedRoster : activeRoster;
   
+  const canEdit = isManager && isRosterEditable(displayRoster?.status ?? "draft");
+  const viewers = useRosterPresence(displayRoster?.id, canEdit);
+
+  // Another manager's edit: the query cache is patched for us, but shifts edited here are held locally
+  useRealtimeEvent((event) => {
+    if (event.type === "shift_updated" && event.rosterId === displayRoster?.id) {
+      setLocalShifts((prev) => prev.map((s) => (s.id === event.shift.id ? event.shift : s)));
+    }
+  });
+  
   const shifts = useMemo(() => {
     return localShifts.length > 0 ? localShifts : (displayRoster?.shifts || []);
   }, [localShifts, displayRoster?.shifts]);
 
+  // Opened from a notification (?shift=id): scroll the shift into view once it is on screen
+  const linkedShiftId = new URLSearchParams(useSearch()).get("shift") ?? undefined;
+  const linkedShiftShown = !!linkedShiftId && shifts.some((s) => s.id === linkedShiftId);
+  useEffect(() => {
+    if (linkedShiftShown) document.getElementById(`shift-${linkedShiftId}`)?.scrollIntoView({ block: "center" });
+  }, [linkedShiftId, linkedShiftShown]);
+
+  const { data: compliance } = useQuery<ComplianceReport>({
+    queryKey: ["/api/roster", displayRoster?.id, "compliance"],
+    enabled: isManager && !!displayRoster,
+  });
+
+  const shiftViolations = useMemo(
+    () => violationsByShift(compliance?.violations ?? [], shifts),
+    [compliance, shifts]
+  );
+
   const staffHours = useMemo(() => {
-    return calculateStaffHours(shifts);
-  }, [shifts]);
+    const siteId = displayRoster?.locationId ?? locationId;
+    const siteStaff = activeStaff.filter((s) => s.locationIds.includes(siteId));
+    return calculateStaffHours(shifts, siteStaff.map((s) => s.name));
+  }, [shifts, activeStaff, displayRoster?.locationId, locationId]);
 
   const generateMutation = useMutation({
-    mutationFn: async ({ startDate, weeks }: { startDate: string; weeks: number }) => {
-      const response = await apiRequest("POST", "/api/roster/generate", { startDate, weeks });
-      return await response.json() as Roster;
+    mutationFn: async ({ startDate, weeks, mode }: { startDate: string; weeks: number; mode: "rules" | "solver" }) => {
+      const response = await apiRequest("POST", "/api/roster/generate", { startDate, weeks, mode, locationId });
+      return await response.json() as GenerateRosterResponse;
     },
     onSuccess: (data) => {
       setLocalShifts(data.shifts);
       setSelectedRosterId(data.id);
+      setSolverReport(data.solverReport);
       queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
       queryClient.invalidateQueries({ queryKey: ["/api/rosters"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
       toast({
         title: "Roster Generated",
         description: `Created ${data.shifts.length} shifts for ${weeks} week${weeks !== 1 ? "s" : ""}.`,
@@ -65,26 +131,40 @@ export default function RosterPage() {
     },
   });
 
+  const replaceShift = useCallback(
+    (shift: RosterShift) => {
+      setLocalShifts((prev) =>
+        (prev.length > 0 ? prev : displayRoster?.shifts || []).map((s) => (s.id === shift.id ? shift : s))
+      );
+    },
+    [displayRoster?.shifts]
+  );
+
   const updateShiftMutation = useMutation({
-    mutationFn: async ({ shiftId, assigned }: { shiftId: string; assigned: StaffMember | null }) => {
-      const response = await apiRequest("PATCH", "/api/roster/shift", { shiftId, assigned });
+    mutationFn: async ({ shiftId, assigned, revision }: { shiftId: string; assigned: StaffMember | null; revision: number }) => {
+      const response = await apiRequest("PATCH", "/api/roster/shift", { shiftId, assigned, revision });
       return await response.json() as RosterShift;
     },
     onSuccess: (updatedShift) => {
-      setLocalShifts((prev) =>
-        prev.length > 0 
-          ? prev.map((s) => (s.id === updatedShift.id ? updatedShift : s))
-          : (displayRoster?.shifts || []).map((s) => (s.id === updatedShift.id ? updatedShift : s))
-      );
+      replaceShift(updatedShift);
       queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
       if (selectedRosterId) {
         queryClient.invalidateQueries({ queryKey: ["/api/roster", selectedRosterId] });
       }
     },
-    onError: () => {
+    onError: (error: Error, { assigned }) => {
+      const { body } = parseApiError(error);
+      // Someone else changed the shift first: show what it is now and let the manager choose
+      if (body?.code === "revision_conflict") {
+        const response = body as ShiftConflictResponse;
+        replaceShift(response.shift);
+        setConflict({ response, attempted: assigned });
+        return;
+      }
       toast({
-        title: "Error",
-        description: "Failed to update assignment. Please try again.",
+        title: body?.code === "compliance_violation" ? "Assignment Blocked" : "Error",
+        description: body?.error ?? "Failed to update assignment. Please try again.",
         variant: "destructive",
       });
     },
@@ -92,7 +172,7 @@ export default function RosterPage() {
 
   const exportMutation = useMutation({
     mutationFn: async () => {
-      const response = await fetch("/api/roster/export", {
+      const response = await fetch(`/api/roster/export?${new URLSearchParams({ locationId })}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ rosterId: displayRoster?.id || "current" }),
@@ -128,20 +208,33 @@ export default function RosterPage() {
     generateMutation.mutate({
       startDate: startDate.toISOString().split("T")[0],
       weeks,
+      mode: useSolver ? "solver" : "rules",
     });
-  }, [startDate, weeks, generateMutation]);
+  }, [startDate, weeks, useSolver, generateMutation]);
 
   const handleAssign = useCallback(
     (shiftId: string, staff: StaffMember | null) => {
       const currentShifts = localShifts.length > 0 ? localShifts : (displayRoster?.shifts || []);
+      const shift = currentShifts.find((s) => s.id === shiftId);
+      if (!shift) return;
       setLocalShifts(
         currentShifts.map((s) => (s.id === shiftId ? { ...s, assigned: staff } : s))
       );
-      updateShiftMutation.mutate({ shiftId, assigned: staff });
+      updateShiftMutation.mutate({ shiftId, assigned: staff, revision: shift.revision });
     },
     [updateShiftMutation, localShifts, displayRoster?.shifts]
   );
 
+  // Reapply the refused edit on top of the other change
+  const handleOverwrite = useCallback(
+    ({ response, attempted }: ShiftConflict) => {
+      setConflict(undefined);
+      replaceShift({ ...response.shift, assigned: attempted });
+      updateShiftMutation.mutate({ shiftId: response.shift.id, assigned: attempted, revision: response.shift.revision });
+    },
+    [replaceShift, updateShiftMutation]
+  );
+
   const handleExport = useCallback(() => {
     exportMutation.mutate();
   }, [exportMutation]);
@@ -149,6 +242,7 @@ export default function RosterPage() {
   const handleRosterSelect = useCallback((rosterId: string) => {
     setSelectedRosterId(rosterId);
     setLocalShifts([]);
+    setSolverReport(undefined);
   }, []);
 
   return (
@@ -168,6 +262,30 @@ export default function RosterPage() {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              {isManager && (
+                <>
+                  <Link href="/staff">
+                    <Button variant="ghost" size="icon" data-testid="button-staff-directory">
+                      <Users className="h-5 w-5" />
+                    </Button>
+                  </Link>
+                  <Link href="/rules">
+                    <Button variant="ghost" size="icon" data-testid="button-shift-rules">
+                      <ListChecks className="h-5 w-5" />
+                    </Button>
+                  </Link>
+                </>
+              )}
+              <Link href="/open-shifts">
+                <Button variant="ghost" size="icon" data-testid="button-open-shifts">
+                  <Megaphone className="h-5 w-5" />
+                </Button>
+              </Link>
+              <Link href="/leave">
+                <Button variant="ghost" size="icon" data-testid="button-leave">
+                  <CalendarOff className="h-5 w-5" />
+                </Button>
+              </Link>
               <Button
                 variant="ghost"
                 size="icon"
@@ -180,7 +298,10 @@ export default function RosterPage() {
                   <PanelLeft className="h-5 w-5" />
                 )}
               </Button>
+              <LocationSwitcher />
+              <NotificationBell />
               <ThemeToggle />
+              <UserMenu />
             </div>
           </div>
         </div>
@@ -214,26 +335,53 @@ export default function RosterPage() {
                 onStartDateChange={setStartDate}
                 weeks={weeks}
                 onWeeksChange={setWeeks}
+                useSolver={useSolver}
+                onUseSolverChange={setUseSolver}
                 onGenerate={handleGenerate}
                 onExport={handleExport}
                 isGenerating={generateMutation.isPending}
                 isExporting={exportMutation.isPending}
                 hasRoster={shifts.length > 0}
+                canGenerate={isManager}
               />
             </section>
 
             {displayRoster && (
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <div className="flex items-center gap-2 flex-wrap text-sm text-muted-foreground">
                 <Calendar className="h-4 w-4" />
                 <span>
                   Viewing: <strong className="text-foreground">{displayRoster.name}</strong>
-                  {displayRoster.isActive && (
-                    <span className="ml-2 text-xs text-primary">(Active)</span>
-                  )}
                 </span>
+                {isManager && displayRoster.status && <RosterStatusBadge status={displayRoster.status} />}
+                {isManager && <RosterStatusActions roster={displayRoster} />}
+                {isManager && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7"
+                    onClick={() => setAuditTarget({ title: "Roster audit trail", description: displayRoster.name, rosterId: displayRoster.id })}
+                    data-testid="button-roster-audit"
+                  >
+                    <History className="mr-1 h-4 w-4" />
+                    Audit trail
+                  </Button>
+                )}
+                <RosterPresence viewers={viewers} />
               </div>
             )}
 
+            {solverReport && displayRoster?.id === selectedRosterId && (
+              <section>
+                <SolverReportCard report={solverReport} />
+              </section>
+            )}
+
+            {compliance && compliance.violations.length > 0 && (
+              <section>
+                <ComplianceReportCard violations={compliance.violations} />
+              </section>
+            )}
+
             <section>
               <StaffHoursDashboard summaries={staffHours} isLoading={isLoadingRoster} />
             </section>
@@ -250,6 +398,14 @@ export default function RosterPage() {
                   shifts={shifts}
                   onAssign={handleAssign}
                   isLoading={updateShiftMutation.isPending}
+                  readOnly={!canEdit}
+                  violations={shiftViolations}
+                  highlightedShiftId={linkedShiftId}
+                  onShowHistory={isManager ? (shift) => setAuditTarget({
+                    title: "Shift audit trail",
+                    description: `${formatDisplayDate(shift.date)} · ${shift.shiftLabel}`,
+                    shiftId: shift.id,
+                  }) : undefined}
                 />
               )}
             </section>
@@ -257,6 +413,21 @@ export default function RosterPage() {
         </div>
       </div>
 
+      <AuditTimelineSheet
+        open={!!auditTarget}
+        onOpenChange={(open) => !open && setAuditTarget(undefined)}
+        title={auditTarget?.title ?? ""}
+        description={auditTarget?.description}
+        rosterId={auditTarget?.rosterId}
+        shiftId={auditTarget?.shiftId}
+      />
+
+      <ShiftConflictDialog
+        conflict={conflict}
+        onKeepTheirs={() => setConflict(undefined)}
+        onOverwrite={handleOverwrite}
+      />
+
       <footer className="border-t mt-8">
         <div className="container mx-auto px-4 py-4">
           <p className="text-sm text-muted-foreground text-center">
@@ -0,0 +1,360 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
+import { LocationSwitcher } from "@/components/location-switcher";
+import { ShiftRuleForm } from "@/components/shift-rule-form";
+import { ComplianceRulesCard } from "@/components/compliance-rules-card";
+import { ShiftTemplatesCard } from "@/components/shift-templates-card";
+import { ShiftLayoutCard } from "@/components/shift-layout-card";
+import { PublicHolidaysCard } from "@/components/public-holidays-card";
+import { useToast } from "@/hooks/use-toast";
+import { useStaff } from "@/hooks/use-staff";
+import { useShiftTypes } from "@/hooks/use-shift-types";
+import { useLocations } from "@/hooks/use-locations";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, ListChecks, Pencil, Plus, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { CreateShiftRuleRequest, ShiftRule, UpdateShiftRuleRequest } from "@shared/schema";
+import { WEEKDAYS } from "@shared/schema";
+import { evaluateShiftRules } from "@shared/rule-engine";
+
+const PREVIEW_WEEKS = 4;
+
+function describeWeeks(rule: ShiftRule): string {
+  if (rule.fromWeek === null && rule.toWeek === null) return "All weeks";
+  if (rule.toWeek === null) return `Week ${rule.fromWeek}+`;
+  if (rule.fromWeek === null) return `Up to week ${rule.toWeek}`;
+  return `Weeks ${rule.fromWeek}–${rule.toWeek}`;
+}
+
+function RulePreview({ rules, locationId }: { rules: ShiftRule[]; locationId: string }) {
+  const { activeStaff, getColors } = useStaff();
+  const { layout, byName } = useShiftTypes();
+
+  const slots = useMemo(
+    () =>
+      WEEKDAYS.flatMap((weekday) =>
+        (layout?.[weekday] ?? []).map((shiftType) => ({ weekday, shiftType, headcount: byName.get(shiftType)?.headcount ?? 1 }))
+      ),
+    [layout, byName]
+  );
+
+  const activeNames = useMemo(
+    () => activeStaff.filter((s) => s.locationIds.includes(locationId)).map((s) => s.name),
+    [activeStaff, locationId]
+  );
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Shift</TableHead>
+          {Array.from({ length: PREVIEW_WEEKS }).map((_, i) => (
+            <TableHead key={i}>Week {i + 1}</TableHead>
+          ))}
+          <TableHead>Allowed</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {slots.map(({ weekday, shiftType, headcount }) => {
+          // One result per person the shift needs, with nobody defaulted onto it twice
+          const weeks = Array.from({ length: PREVIEW_WEEKS }).map((_, weekIndex) => {
+            const results = Array.from({ length: headcount }).map((_, i) =>
+              evaluateShiftRules(rules, { weekday, shiftType, weekIndex, position: i + 1 }, activeNames)
+            );
+            const assigned = results.map((result, i) =>
+              results.slice(0, i).some((earlier) => earlier.defaultAssignment === result.defaultAssignment)
+                ? null
+                : result.defaultAssignment
+            );
+            return { results, assigned };
+          });
+          return (
+            <TableRow key={`${weekday}-${shiftType}`}>
+              <TableCell className="font-medium text-sm">
+                {weekday} {shiftType}
+                {headcount > 1 && <span className="text-muted-foreground font-normal"> ×{headcount}</span>}
+              </TableCell>
+              {weeks.map(({ assigned }, weekIndex) => (
+                <TableCell key={weekIndex}>
+                  <div className="flex flex-wrap gap-1">
+                    {assigned.map((name, i) => {
+                      const colors = name ? getColors(name) : null;
+                      return name && colors ? (
+                        <Badge key={i} className={`${colors.bg} ${colors.text}`}>{name}</Badge>
+                      ) : (
+                        <span key={i} className="text-xs text-muted-foreground italic">Unassigned</span>
+                      );
+                    })}
+                  </div>
+                </TableCell>
+              ))}
+              <TableCell className="text-xs text-muted-foreground">
+                {weeks[0].results[0].allowedStaff.join(", ") || "Nobody"}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function RulesPage() {
+  const { toast } = useToast();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<ShiftRule>();
+  const { locationId, isMultiSite, nameOf } = useLocations();
+
+  const { data: rules, isLoading } = useQuery<ShiftRule[]>({
+    queryKey: ["/api/rules"],
+  });
+
+  // Rules for every location plus those for the site being viewed
+  const siteRules = useMemo(
+    () => (rules ?? []).filter((rule) => rule.locationId === null || rule.locationId === locationId),
+    [rules, locationId]
+  );
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save rule.",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (rule: CreateShiftRuleRequest) => {
+      const response = editingRule
+        ? await apiRequest("PATCH", `/api/rules/${editingRule.id}`, rule)
+        : await apiRequest("POST", "/api/rules", rule);
+      return await response.json() as ShiftRule;
+    },
+    onSuccess: (rule) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+      setFormOpen(false);
+      toast({
+        title: "Rule Saved",
+        description: `"${rule.name}" will apply to newly generated rosters.`,
+      });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateShiftRuleRequest }) => {
+      const response = await apiRequest("PATCH", `/api/rules/${id}`, updates);
+      return await response.json() as ShiftRule;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/rules/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+    },
+    onError,
+  });
+
+  const openForm = (rule?: ShiftRule) => {
+    setEditingRule(rule);
+    setFormOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3">
+              <Link href="/">
+                <Button variant="ghost" size="icon" data-testid="button-back-home">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+                <ListChecks className="h-5 w-5" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-foreground">Shift Rules</h1>
+                <p className="text-sm text-muted-foreground hidden sm:block">
+                  Eligibility and default assignments used when generating rosters
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <LocationSwitcher />
+              <NotificationBell />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="text-base">Rules</CardTitle>
+                <CardDescription>
+                  Evaluated lowest priority first. The first matching rule with allowed staff decides eligibility;
+                  the first with a rotation decides the default assignment.
+                </CardDescription>
+              </div>
+              <Button onClick={() => openForm()} data-testid="button-new-rule">
+                <Plus className="mr-2 h-4 w-4" />
+                New Rule
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[70px]">Priority</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Applies to</TableHead>
+                    <TableHead>Allowed</TableHead>
+                    <TableHead>Rotation</TableHead>
+                    <TableHead className="text-right">Active</TableHead>
+                    <TableHead className="w-[90px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {siteRules.map((rule) => (
+                    <TableRow
+                      key={rule.id}
+                      className={cn(!rule.isActive && "opacity-60")}
+                      data-testid={`row-rule-${rule.id}`}
+                    >
+                      <TableCell className="font-mono text-sm">{rule.priority}</TableCell>
+                      <TableCell className="font-medium text-sm">
+                        {rule.name}
+                        {isMultiSite && (
+                          <div>
+                            <Badge variant="outline" className="mt-1 font-normal">
+                              {rule.locationId === null ? "All locations" : nameOf(rule.locationId)}
+                            </Badge>
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {rule.publicHolidays === "only" ? "Public holidays" : rule.weekdays.join(", ")} ·{" "}
+                        {rule.shiftTypes.length > 0 ? rule.shiftTypes.join(", ") : "Any shift"}
+                        <div className="text-xs text-muted-foreground">
+                          {describeWeeks(rule)}
+                          {rule.publicHolidays === "exclude" && " · not on public holidays"}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {rule.allowedStaff === null ? (
+                          <span className="text-muted-foreground">Anyone</span>
+                        ) : (
+                          rule.allowedStaff.join(", ")
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {rule.rotation.length > 0 ? rule.rotation.join(" → ") : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Switch
+                          checked={rule.isActive}
+                          onCheckedChange={(checked) =>
+                            updateMutation.mutate({ id: rule.id, updates: { isActive: checked } })
+                          }
+                          data-testid={`switch-rule-active-${rule.id}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => openForm(rule)}
+                            data-testid={`button-edit-rule-${rule.id}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                            onClick={() => deleteMutation.mutate(rule.id)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-rule-${rule.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Preview</CardTitle>
+            <CardDescription>
+              Default assignments the current rules would produce for a {PREVIEW_WEEKS}-week roster
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RulePreview rules={siteRules} locationId={locationId} />
+          </CardContent>
+        </Card>
+
+        <ShiftTemplatesCard />
+
+        <ShiftLayoutCard />
+
+        <PublicHolidaysCard />
+
+        <ComplianceRulesCard />
+      </main>
+
+      <ShiftRuleForm
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        rule={editingRule}
+        onSubmit={(rule) => saveMutation.mutate(rule)}
+        isSubmitting={saveMutation.isPending}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
+import { useToast } from "@/hooks/use-toast";
+import { useStaff } from "@/hooks/use-staff";
+import { useLocations } from "@/hooks/use-locations";
+import { LocationsCard } from "@/components/locations-card";
+import { staffColorStyles } from "@/lib/staff-colors";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Users, UserPlus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Staff, StaffColor, CreateStaffRequest, UpdateStaffRequest } from "@shared/schema";
+import { STAFF_COLOR_KEYS } from "@shared/schema";
+
+function ColorSelect({ value, onChange, testId }: { value: StaffColor; onChange: (color: StaffColor) => void; testId: string }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as StaffColor)}>
+      <SelectTrigger className="w-[130px]" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {STAFF_COLOR_KEYS.map((color) => (
+          <SelectItem key={color} value={color}>
+            <div className="flex items-center gap-2">
+              <div className={cn("w-2 h-2 rounded-full", staffColorStyles[color].dot)} />
+              {color.charAt(0).toUpperCase() + color.slice(1)}
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// The sites someone can be rostered at; at least one stays selected
+function LocationToggles({ value, onChange, testId }: { value: string[]; onChange: (locationIds: string[]) => void; testId: string }) {
+  const { locations } = useLocations();
+
+  return (
+    <ToggleGroup
+      type="multiple"
+      variant="outline"
+      size="sm"
+      className="justify-start flex-wrap"
+      value={value}
+      onValueChange={(ids) => ids.length > 0 && onChange(ids)}
+      data-testid={testId}
+    >
+      {locations
+        .filter((location) => location.isActive || value.includes(location.id))
+        .map((location) => (
+          <ToggleGroupItem key={location.id} value={location.id} data-testid={`${testId}-${location.id}`}>
+            {location.name}
+          </ToggleGroupItem>
+        ))}
+    </ToggleGroup>
+  );
+}
+
+export default function StaffPage() {
+  const { toast } = useToast();
+  const { staff, isLoading } = useStaff();
+  const [name, setName] = useState("");
+  const [role, setRole] = useState("Carer");
+  const [color, setColor] = useState<StaffColor>("green");
+  const [contractedHours, setContractedHours] = useState(48);
+  const { locationId, locations } = useLocations();
+  const [locationIds, setLocationIds] = useState<string[]>([locationId]);
+  const showLocations = locations.length > 1;
+
+  // New staff start at the site being viewed
+  useEffect(() => {
+    setLocationIds([locationId]);
+  }, [locationId]);
+
+  const createMutation = useMutation({
+    mutationFn: async (member: CreateStaffRequest) => {
+      const response = await apiRequest("POST", "/api/staff", member);
+      return await response.json() as Staff;
+    },
+    onSuccess: (member) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+      setName("");
+      toast({
+        title: "Staff Member Added",
+        description: `${member.name} can now be rostered.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add staff member. Names must be unique.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateStaffRequest }) => {
+      const response = await apiRequest("PATCH", `/api/staff/${id}`, updates);
+      return await response.json() as Staff;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update staff member.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    createMutation.mutate({ name: name.trim(), role: role.trim(), color, contractedHours, locationIds });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3">
+              <Link href="/">
+                <Button variant="ghost" size="icon" data-testid="button-back-home">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+                <Users className="h-5 w-5" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-foreground">Staff Directory</h1>
+                <p className="text-sm text-muted-foreground hidden sm:block">
+                  Manage who can be rostered
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <NotificationBell />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Add Staff Member</CardTitle>
+            <CardDescription>
+              New staff are available for rostering as soon as they are added
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col sm:flex-row items-start sm:items-end gap-3 flex-wrap">
+              <div className="space-y-2">
+                <Label htmlFor="staff-name">Name</Label>
+                <Input
+                  id="staff-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-[200px]"
+                  data-testid="input-staff-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="staff-role">Role</Label>
+                <Input
+                  id="staff-role"
+                  value={role}
+                  onChange={(e) => setRole(e.target.value)}
+                  className="w-[160px]"
+                  data-testid="input-staff-role"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Colour</Label>
+                <ColorSelect value={color} onChange={setColor} testId="select-staff-color" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="staff-hours">Contracted hours</Label>
+                <Input
+                  id="staff-hours"
+                  type="number"
+                  min={0}
+                  max={168}
+                  value={contractedHours}
+                  onChange={(e) => setContractedHours(Number(e.target.value))}
+                  className="w-[120px]"
+                  data-testid="input-staff-hours"
+                />
+              </div>
+              {showLocations && (
+                <div className="space-y-2">
+                  <Label>Locations</Label>
+                  <LocationToggles value={locationIds} onChange={setLocationIds} testId="toggle-staff-locations" />
+                </div>
+              )}
+              <Button
+                onClick={handleCreate}
+                disabled={!name.trim() || createMutation.isPending}
+                data-testid="button-add-staff"
+              >
+                <UserPlus className="mr-2 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Staff</CardTitle>
+            <CardDescription>
+              Archived staff are hidden from new rosters but still appear on historical ones
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 4 }).map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Colour</TableHead>
+                    {showLocations && <TableHead>Locations</TableHead>}
+                    <TableHead className="text-right">Contracted</TableHead>
+                    <TableHead className="text-right">Active</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {staff.map((member) => {
+                    const styles = staffColorStyles[member.color];
+                    return (
+                      <TableRow
+                        key={member.id}
+                        className={cn(!member.isActive && "opacity-60")}
+                        data-testid={`row-staff-${member.id}`}
+                      >
+                        <TableCell>
+                          <Badge className={`${styles.bg} ${styles.text}`}>{member.name}</Badge>
+                          {!member.isActive && (
+                            <span className="ml-2 text-xs text-muted-foreground">Archived</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{member.role}</TableCell>
+                        <TableCell>
+                          <ColorSelect
+                            value={member.color}
+                            onChange={(c) => updateMutation.mutate({ id: member.id, updates: { color: c } })}
+                            testId={`select-color-${member.id}`}
+                          />
+                        </TableCell>
+                        {showLocations && (
+                          <TableCell>
+                            <LocationToggles
+                              value={member.locationIds}
+                              onChange={(ids) => updateMutation.mutate({ id: member.id, updates: { locationIds: ids } })}
+                              testId={`toggle-locations-${member.id}`}
+                            />
+                          </TableCell>
+                        )}
+                        <TableCell className="text-right font-mono text-sm tabular-nums">
+                          {member.contractedHours}h
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Switch
+                            checked={member.isActive}
+                            onCheckedChange={(checked) =>
+                              updateMutation.mutate({ id: member.id, updates: { isActive: checked } })
+                            }
+                            disabled={updateMutation.isPending}
+                            data-testid={`switch-active-${member.id}`}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <LocationsCard />
+      </main>
+    </div>
+  );
+}
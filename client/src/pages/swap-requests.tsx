@@ -1,8 +1,9 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Link } from "wouter";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Link, useSearch } from "wouter";
+import { queryClient, apiRequest, parseApiError } from "@/lib/queryClient";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -10,56 +11,101 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ArrowLeft, ArrowRightLeft, Check, X, Clock, Calendar } from "lucide-react";
+import { ArrowLeft, ArrowRightLeft, Check, X, Clock, Calendar, TimerOff, AlertTriangle, Ban, Undo2, UserCheck } from "lucide-react";
 import { format } from "date-fns";
-import type { SwapRequestWithDetails, StaffMember } from "@shared/schema";
-import { STAFF_COLORS } from "@shared/schema";
+import type { SwapRequestWithDetails, SwapStatus, StaffMember } from "@shared/schema";
+import { SWAP_STATUS_LABELS, swapStage } from "@shared/swap-workflow";
+import { useStaff } from "@/hooks/use-staff";
+import { useAuth } from "@/hooks/use-auth";
 
 function StaffBadge({ staff }: { staff: StaffMember }) {
-  const colors = STAFF_COLORS[staff];
+  const { getColors } = useStaff();
+  const colors = getColors(staff);
   return (
-    <Badge className={`${colors.bg} ${colors.text} ${colors.darkBg} ${colors.darkText}`}>
+    <Badge className={`${colors.bg} ${colors.text}`}>
       {staff}
     </Badge>
   );
 }
 
-function StatusBadge({ status }: { status: "pending" | "approved" | "rejected" }) {
-  const variants = {
-    pending: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+function StatusBadge({ status }: { status: SwapStatus }) {
+  const variants: Record<SwapStatus, string> = {
+    pending_colleague: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400",
+    pending_manager: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
     approved: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
     rejected: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+    cancelled: "bg-muted text-muted-foreground",
+    withdrawn: "bg-muted text-muted-foreground",
+    expired: "bg-muted text-muted-foreground",
   };
 
-  const icons = {
-    pending: <Clock className="h-3 w-3" />,
+  const icons: Record<SwapStatus, JSX.Element> = {
+    pending_colleague: <Clock className="h-3 w-3" />,
+    pending_manager: <UserCheck className="h-3 w-3" />,
     approved: <Check className="h-3 w-3" />,
     rejected: <X className="h-3 w-3" />,
+    cancelled: <Ban className="h-3 w-3" />,
+    withdrawn: <Undo2 className="h-3 w-3" />,
+    expired: <TimerOff className="h-3 w-3" />,
   };
 
   return (
     <Badge className={variants[status]}>
       <span className="flex items-center gap-1">
         {icons[status]}
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {SWAP_STATUS_LABELS[status]}
       </span>
     </Badge>
   );
 }
 
+// Who acted at each stage so far
+function StageTrail({ request }: { request: SwapRequestWithDetails }) {
+  const declinedByColleague = request.status === "rejected" && !request.managerActedBy;
+  return (
+    <>
+      {request.colleagueActedBy && request.colleagueActedAt && (
+        <div className="text-xs text-muted-foreground" data-testid={`text-colleague-acted-${request.id}`}>
+          {declinedByColleague ? "Declined" : "Accepted"} by {request.colleagueActedBy}{" "}
+          {format(new Date(request.colleagueActedAt), "MMM d, HH:mm")}
+        </div>
+      )}
+      {request.managerActedBy && request.managerActedAt && (
+        <div className="text-xs text-muted-foreground" data-testid={`text-manager-acted-${request.id}`}>
+          {request.status === "approved" ? "Approved" : "Rejected"} by {request.managerActedBy}{" "}
+          {format(new Date(request.managerActedAt), "MMM d, HH:mm")}
+        </div>
+      )}
+    </>
+  );
+}
+
 function SwapRequestCard({ 
   request, 
   onApprove, 
   onReject,
-  isResponding 
+  onCancel,
+  isResponding,
+  canRespond,
+  canCancel,
+  highlighted
 }: { 
   request: SwapRequestWithDetails;
   onApprove: () => void;
   onReject: () => void;
+  onCancel: () => void;
   isResponding: boolean;
+  canRespond: boolean;
+  canCancel: boolean;
+  highlighted?: boolean;
 }) {
+  const stage = swapStage(request.status);
   return (
-    <Card data-testid={`swap-request-${request.id}`}>
+    <Card
+      id={`swap-${request.id}`}
+      className={highlighted ? "ring-2 ring-primary" : undefined}
+      data-testid={`swap-request-${request.id}`}
+    >
       <CardContent className="pt-4">
         <div className="flex items-start justify-between gap-4">
           <div className="space-y-3">
@@ -67,15 +113,28 @@ function SwapRequestCard({
               <StaffBadge staff={request.fromStaff} />
               <ArrowRightLeft className="h-4 w-4 text-muted-foreground" />
               <StaffBadge staff={request.toStaff} />
+              {request.type === "trade" && (
+                <Badge variant="outline" data-testid={`badge-trade-${request.id}`}>Trade</Badge>
+              )}
             </div>
             
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <Calendar className="h-4 w-4" />
               <span>
+                {request.type === "trade" && `${request.fromStaff} gives `}
                 {format(new Date(request.shiftDate), "EEEE, MMMM d, yyyy")} - {request.shiftType} shift
               </span>
             </div>
 
+            {request.type === "trade" && request.counterShiftDate && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Calendar className="h-4 w-4" />
+                <span>
+                  {request.toStaff} gives {format(new Date(request.counterShiftDate), "EEEE, MMMM d, yyyy")} - {request.counterShiftType} shift
+                </span>
+              </div>
+            )}
+
             {request.reason && (
               <p className="text-sm text-muted-foreground">
                 Reason: {request.reason}
@@ -89,37 +148,59 @@ function SwapRequestCard({
 
           <div className="flex flex-col items-end gap-2">
             <StatusBadge status={request.status} />
+            {request.stale && (
+              <Badge variant="outline" className="text-amber-600 border-amber-300" data-testid={`badge-stale-${request.id}`}>
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                Out of date
+              </Badge>
+            )}
             
-            {request.status === "pending" && (
+            {stage && (canRespond || canCancel) && (
               <div className="flex items-center gap-2 mt-2">
-                <Button
-                  size="sm"
-                  variant="outline"
-                  className="text-green-600 border-green-200 hover:bg-green-50 dark:border-green-800 dark:hover:bg-green-900/20"
-                  onClick={onApprove}
-                  disabled={isResponding}
-                  data-testid={`button-approve-swap-${request.id}`}
-                >
-                  <Check className="h-4 w-4 mr-1" />
-                  Approve
-                </Button>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  className="text-red-600 border-red-200 hover:bg-red-50 dark:border-red-800 dark:hover:bg-red-900/20"
-                  onClick={onReject}
-                  disabled={isResponding}
-                  data-testid={`button-reject-swap-${request.id}`}
-                >
-                  <X className="h-4 w-4 mr-1" />
-                  Reject
-                </Button>
+                {canRespond && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-green-600 border-green-200 hover:bg-green-50 dark:border-green-800 dark:hover:bg-green-900/20"
+                      onClick={onApprove}
+                      disabled={isResponding || request.stale}
+                      data-testid={`button-approve-swap-${request.id}`}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      {stage === "colleague" ? "Accept" : "Approve"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-red-600 border-red-200 hover:bg-red-50 dark:border-red-800 dark:hover:bg-red-900/20"
+                      onClick={onReject}
+                      disabled={isResponding}
+                      data-testid={`button-reject-swap-${request.id}`}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      {stage === "colleague" ? "Decline" : "Reject"}
+                    </Button>
+                  </>
+                )}
+                {canCancel && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={onCancel}
+                    disabled={isResponding}
+                    data-testid={`button-cancel-swap-${request.id}`}
+                  >
+                    {stage === "colleague" ? "Cancel" : "Withdraw"}
+                  </Button>
+                )}
               </div>
             )}
 
+            <StageTrail request={request} />
             {request.respondedAt && (
               <div className="text-xs text-muted-foreground">
-                Responded {format(new Date(request.respondedAt), "MMM d, HH:mm")}
+                Closed {format(new Date(request.respondedAt), "MMM d, HH:mm")}
               </div>
             )}
           </div>
@@ -129,37 +210,90 @@ function SwapRequestCard({
   );
 }
 
+type SwapTab = "pending_colleague" | "pending_manager" | "approved" | "rejected" | "closed" | "all";
+
+const tabs: { value: SwapTab; label: string; statuses: SwapStatus[] | null; empty: string }[] = [
+  { value: "pending_colleague", label: "Awaiting colleague", statuses: ["pending_colleague"], empty: "No requests waiting on a colleague" },
+  { value: "pending_manager", label: "Awaiting manager", statuses: ["pending_manager"], empty: "No requests waiting on a manager" },
+  { value: "approved", label: "Approved", statuses: ["approved"], empty: "No approved swaps" },
+  { value: "rejected", label: "Rejected", statuses: ["rejected"], empty: "No rejected swaps" },
+  { value: "closed", label: "Cancelled & expired", statuses: ["cancelled", "withdrawn", "expired"], empty: "No cancelled or expired requests" },
+  { value: "all", label: "All", statuses: null, empty: "No swap requests yet" },
+];
+
 export default function SwapRequestsPage() {
   const { toast } = useToast();
-  const [activeTab, setActiveTab] = useState<"pending" | "all">("pending");
+  const [activeTab, setActiveTab] = useState<SwapTab>("pending_colleague");
+  const { user, isManager } = useAuth();
 
-  const { data: pendingRequests, isLoading: pendingLoading } = useQuery<SwapRequestWithDetails[]>({
-    queryKey: ["/api/swap-requests", "pending"],
-  });
+  // The colleague answers first (managers may answer for them); only managers give final approval
+  const canRespond = (request: SwapRequestWithDetails) =>
+    isManager || (request.status === "pending_colleague" && request.toStaff === user?.staffName);
+
+  const canCancel = (request: SwapRequestWithDetails) =>
+    request.fromStaff === user?.staffName;
 
-  const { data: allRequests, isLoading: allLoading } = useQuery<SwapRequestWithDetails[]>({
+  const { data: requests, isLoading } = useQuery<SwapRequestWithDetails[]>({
     queryKey: ["/api/swap-requests"],
   });
 
+  // Opened from a notification (?swap=id): show the tab the request is in and scroll to it
+  const linkedSwapId = new URLSearchParams(useSearch()).get("swap");
+  const linkedRequest = requests?.find((r) => r.id === linkedSwapId);
+  useEffect(() => {
+    const tab = linkedRequest && tabs.find((t) => t.statuses?.includes(linkedRequest.status));
+    if (tab) setActiveTab(tab.value);
+  }, [linkedRequest?.id, linkedRequest?.status]);
+  useEffect(() => {
+    if (linkedRequest) document.getElementById(`swap-${linkedRequest.id}`)?.scrollIntoView({ block: "center" });
+  }, [linkedRequest?.id, activeTab]);
+
+  const onMutationSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/swap-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audit"] });
+  };
+
   const respondMutation = useMutation({
     mutationFn: async ({ requestId, status }: { requestId: string; status: "approved" | "rejected" }) => {
       const response = await apiRequest("POST", `/api/swap-requests/${requestId}/respond`, { status });
-      return response.json();
+      return await response.json() as SwapRequestWithDetails;
+    },
+    onSuccess: (request) => {
+      onMutationSuccess();
+      const toasts: Partial<Record<SwapStatus, { title: string; description: string }>> = {
+        pending_manager: { title: "Swap Accepted", description: "The request now needs a manager's approval." },
+        approved: { title: "Swap Approved", description: "The shift assignment has been updated." },
+        rejected: { title: "Swap Rejected", description: "The swap request has been declined." },
+      };
+      const message = toasts[request.status];
+      if (message) toast(message);
     },
-    onSuccess: (_, { status }) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/swap-requests"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
+    onError: (error: Error) => {
       toast({
-        title: status === "approved" ? "Swap Approved" : "Swap Rejected",
-        description: status === "approved" 
-          ? "The shift assignment has been updated." 
-          : "The swap request has been declined.",
+        title: "Error",
+        description: parseApiError(error).body?.error ?? "Failed to respond to swap request.",
+        variant: "destructive",
       });
     },
-    onError: () => {
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (requestId: string) => {
+      const response = await apiRequest("POST", `/api/swap-requests/${requestId}/cancel`);
+      return await response.json() as SwapRequestWithDetails;
+    },
+    onSuccess: (request) => {
+      onMutationSuccess();
+      toast({
+        title: `Swap Request ${SWAP_STATUS_LABELS[request.status]}`,
+        description: `${request.toStaff} has been told the request is off.`,
+      });
+    },
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to respond to swap request.",
+        description: parseApiError(error).body?.error ?? "Failed to cancel swap request.",
         variant: "destructive",
       });
     },
@@ -173,11 +307,11 @@ export default function SwapRequestsPage() {
     respondMutation.mutate({ requestId, status: "rejected" });
   };
 
-  const displayRequests = activeTab === "pending" 
-    ? (pendingRequests || []).filter(r => r.status === "pending")
-    : (allRequests || []);
+  const inTab = (tab: (typeof tabs)[number]) =>
+    (requests || []).filter((r) => !tab.statuses || tab.statuses.includes(r.status));
 
-  const isLoading = activeTab === "pending" ? pendingLoading : allLoading;
+  const currentTab = tabs.find((tab) => tab.value === activeTab)!;
+  const displayRequests = inTab(currentTab);
 
   return (
     <div className="min-h-screen bg-background">
@@ -200,7 +334,10 @@ export default function SwapRequestsPage() {
                 </p>
               </div>
             </div>
-            <ThemeToggle />
+            <div className="flex items-center gap-2">
+              <NotificationBell />
+              <ThemeToggle />
+            </div>
           </div>
         </div>
       </header>
@@ -210,23 +347,22 @@ export default function SwapRequestsPage() {
           <CardHeader>
             <CardTitle className="text-base">Swap Requests</CardTitle>
             <CardDescription>
-              Review and approve or reject shift swap requests from staff members
+              The colleague accepts a swap first, then a manager approves it
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "pending" | "all")}>
-              <TabsList className="mb-4">
-                <TabsTrigger value="pending" data-testid="tab-pending">
-                  Pending
-                  {pendingRequests && pendingRequests.filter(r => r.status === "pending").length > 0 && (
-                    <Badge variant="secondary" className="ml-2">
-                      {pendingRequests.filter(r => r.status === "pending").length}
-                    </Badge>
-                  )}
-                </TabsTrigger>
-                <TabsTrigger value="all" data-testid="tab-all">
-                  All Requests
-                </TabsTrigger>
+            <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as SwapTab)}>
+              <TabsList className="mb-4 flex-wrap h-auto">
+                {tabs.map((tab) => (
+                  <TabsTrigger key={tab.value} value={tab.value} data-testid={`tab-${tab.value}`}>
+                    {tab.label}
+                    {(tab.value === "pending_colleague" || tab.value === "pending_manager") && inTab(tab).length > 0 && (
+                      <Badge variant="secondary" className="ml-2">
+                        {inTab(tab).length}
+                      </Badge>
+                    )}
+                  </TabsTrigger>
+                ))}
               </TabsList>
 
               <TabsContent value={activeTab}>
@@ -241,9 +377,7 @@ export default function SwapRequestsPage() {
                     <div className="flex flex-col items-center justify-center py-12 text-center">
                       <ArrowRightLeft className="h-12 w-12 text-muted-foreground mb-3" />
                       <p className="text-sm text-muted-foreground">
-                        {activeTab === "pending" 
-                          ? "No pending swap requests" 
-                          : "No swap requests yet"}
+                        {currentTab.empty}
                       </p>
                     </div>
                   ) : (
@@ -254,7 +388,11 @@ export default function SwapRequestsPage() {
                           request={request}
                           onApprove={() => handleApprove(request.id)}
                           onReject={() => handleReject(request.id)}
-                          isResponding={respondMutation.isPending}
+                          onCancel={() => cancelMutation.mutate(request.id)}
+                          isResponding={respondMutation.isPending || cancelMutation.isPending}
+                          canRespond={canRespond(request)}
+                          canCancel={canCancel(request)}
+                          highlighted={request.id === linkedSwapId}
                         />
                       ))}
                     </div>
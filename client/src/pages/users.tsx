@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationBell } from "@/components/notification-bell";
+import { ROLE_LABELS } from "@/components/user-menu";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useStaff } from "@/hooks/use-staff";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, KeyRound, UserPlus } from "lucide-react";
+import type { CreateUserRequest, UpdateUserRequest, User, UserRole } from "@shared/schema";
+import { USER_ROLES } from "@shared/schema";
+
+const NO_STAFF = "none";
+
+function RoleSelect({ value, onChange, disabled, testId }: { value: UserRole; onChange: (role: UserRole) => void; disabled?: boolean; testId: string }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as UserRole)} disabled={disabled}>
+      <SelectTrigger className="w-[150px]" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {USER_ROLES.map((role) => (
+          <SelectItem key={role} value={role}>
+            {ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function StaffLinkSelect({ value, onChange, testId }: { value: string | null; onChange: (staffId: string | null) => void; testId: string }) {
+  const { staff } = useStaff();
+  return (
+    <Select value={value ?? NO_STAFF} onValueChange={(v) => onChange(v === NO_STAFF ? null : v)}>
+      <SelectTrigger className="w-[150px]" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_STAFF}>Not linked</SelectItem>
+        {staff.map((member) => (
+          <SelectItem key={member.id} value={member.id}>
+            {member.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function UsersPage() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("staff");
+  const [staffId, setStaffId] = useState<string | null>(null);
+
+  const { data: users, isLoading } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (request: CreateUserRequest) => {
+      const response = await apiRequest("POST", "/api/users", request);
+      return await response.json() as User;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setUsername("");
+      setPassword("");
+      setStaffId(null);
+      toast({
+        title: "Account Created",
+        description: `${created.username} can now log in.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create account. Usernames must be unique and passwords at least 8 characters.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateUserRequest }) => {
+      const response = await apiRequest("PATCH", `/api/users/${id}`, updates);
+      return await response.json() as User;
+    },
+    onSuccess: (_, { updates }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      if (updates.password) {
+        toast({ title: "Password Reset" });
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update account.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    if (!username.trim() || password.length < 8) return;
+    createMutation.mutate({ username: username.trim(), password, role, staffId });
+  };
+
+  const handleResetPassword = (user: User) => {
+    const newPassword = window.prompt(`New password for ${user.username} (at least 8 characters)`);
+    if (!newPassword) return;
+    updateMutation.mutate({ id: user.id, updates: { password: newPassword } });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-50 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <div className="flex items-center gap-3">
+              <Link href="/">
+                <Button variant="ghost" size="icon" data-testid="button-back-home">
+                  <ArrowLeft className="h-5 w-5" />
+                </Button>
+              </Link>
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+                <KeyRound className="h-5 w-5" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-foreground">User Accounts</h1>
+                <p className="text-sm text-muted-foreground hidden sm:block">
+                  Logins, roles and their staff records
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <NotificationBell />
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Create Account</CardTitle>
+            <CardDescription>
+              Link staff accounts to their staff record so they can see their own shifts, swaps and notifications
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col sm:flex-row items-start sm:items-end gap-3 flex-wrap">
+              <div className="space-y-2">
+                <Label htmlFor="user-username">Username</Label>
+                <Input
+                  id="user-username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="w-[180px]"
+                  data-testid="input-user-username"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="user-password">Password</Label>
+                <Input
+                  id="user-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-[180px]"
+                  data-testid="input-user-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <RoleSelect value={role} onChange={setRole} testId="select-user-role" />
+              </div>
+              <div className="space-y-2">
+                <Label>Staff record</Label>
+                <StaffLinkSelect value={staffId} onChange={setStaffId} testId="select-user-staff" />
+              </div>
+              <Button
+                onClick={handleCreate}
+                disabled={!username.trim() || password.length < 8 || createMutation.isPending}
+                data-testid="button-create-user"
+              >
+                <UserPlus className="mr-2 h-4 w-4" />
+                Create
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Accounts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-2">
+                {Array.from({ length: 3 }).map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Staff record</TableHead>
+                    <TableHead className="w-[140px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(users || []).map((user) => (
+                    <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                      <TableCell className="font-medium text-sm">{user.username}</TableCell>
+                      <TableCell>
+                        <RoleSelect
+                          value={user.role}
+                          onChange={(r) => updateMutation.mutate({ id: user.id, updates: { role: r } })}
+                          disabled={user.id === currentUser?.id}
+                          testId={`select-role-${user.id}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <StaffLinkSelect
+                          value={user.staffId}
+                          onChange={(id) => updateMutation.mutate({ id: user.id, updates: { staffId: id } })}
+                          testId={`select-staff-${user.id}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleResetPassword(user)}
+                          data-testid={`button-reset-password-${user.id}`}
+                        >
+                          Reset password
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
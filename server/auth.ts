@@ -0,0 +1,179 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import {
+  loginRequestSchema,
+  MANAGER_ROLES,
+  type User as AppUser,
+  type UserRole,
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends AppUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Passwords are stored as "<hash>.<salt>" using scrypt
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  // timingSafeEqual throws on buffers of different lengths, as a malformed stored hash gives
+  if (hashedBuf.length !== suppliedBuf.length) return false;
+  return timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function isManager(user: Express.User | undefined): boolean {
+  return !!user && MANAGER_ROLES.includes(user.role);
+}
+
+// Reject anonymous requests
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Not logged in" });
+  }
+  next();
+}
+
+// Reject requests from users without one of the given roles
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not logged in" });
+    }
+    if (!roles.includes(req.user.role)) {
+      return res.status(403).json({ error: "You do not have permission to do this" });
+    }
+    next();
+  };
+}
+
+// Create the first admin account so a fresh install can be logged into
+export async function seedAdminUser(): Promise<void> {
+  const existingUsers = await storage.getUsers();
+  if (existingUsers.length > 0) return;
+
+  // A generated password would end up in the logs, so production must be given one
+  if (!process.env.ADMIN_PASSWORD && process.env.NODE_ENV === "production") {
+    throw new Error("ADMIN_PASSWORD environment variable is not set");
+  }
+  const password = process.env.ADMIN_PASSWORD || randomBytes(9).toString("base64url");
+  await storage.createUser({
+    username: "admin",
+    passwordHash: await hashPassword(password),
+    role: "admin",
+    staffId: null,
+  });
+
+  if (!process.env.ADMIN_PASSWORD) {
+    console.warn(
+      `WARNING: created admin account "admin" with the generated password ${password}. ` +
+        "It is only shown this once - change it after logging in, or set ADMIN_PASSWORD."
+    );
+  }
+}
+
+// Session cookies, the local strategy and the login/logout/current-user routes.
+// Every /api route registered after this requires a logged-in user. Returns the
+// session middleware so other entry points (the WebSocket upgrade) can read the cookie.
+export function setupAuth(app: Express): RequestHandler {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET environment variable is not set");
+  }
+
+  const sessionParser = session({
+    secret: sessionSecret || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  });
+
+  app.set("trust proxy", 1);
+  app.use(sessionParser);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        const { passwordHash: _, ...publicUser } = user;
+        return done(null, publicUser);
+      } catch (error) {
+        return done(error);
+      }
+    })
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUserById(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const parseResult = loginRequestSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json({
+        error: "Invalid request",
+        details: parseResult.error.errors
+      });
+    }
+
+    passport.authenticate("local", (err: unknown, user: Express.User | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Incorrect username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.json({ success: true });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not logged in" });
+    }
+    res.json(req.user);
+  });
+
+  app.use("/api", requireAuth);
+
+  return sessionParser;
+}
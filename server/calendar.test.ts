@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { RosterShift, RosterVersion, StaffMember } from "@shared/schema";
+import { buildStaffCalendar } from "./calendar";
+
+function makeShift(date: string, assigned: StaffMember | null): RosterShift {
+  return {
+    id: `shift-${date}`,
+    slotKey: `${date}-day`,
+    date,
+    weekday: "Mon",
+    shiftType: "Day",
+    position: 1,
+    shiftLabel: "Day 12h",
+    hours: 12,
+    startsAt: `${date}T08:00:00.000Z`,
+    endsAt: `${date}T20:00:00.000Z`,
+    breakMinutes: 0,
+    timezone: "Europe/London",
+    publicHoliday: null,
+    assigned,
+    allowedStaff: ["Ashley", "Peninah"],
+    revision: 0,
+  };
+}
+
+function makeVersion(rosterId: string, version: number, shifts: RosterShift[]): RosterVersion {
+  return {
+    id: `${rosterId}-v${version}`,
+    rosterId,
+    version,
+    name: `${rosterId} roster`,
+    startDate: "2026-11-02",
+    endDate: "2026-11-08",
+    weeks: 1,
+    shifts,
+    note: null,
+    publishedBy: "admin",
+    publishedAt: `2026-10-${10 + version}T09:00:00.000Z`,
+  };
+}
+
+// The VEVENT blocks of a feed, keyed by UID
+function eventsOf(feed: string): Map<string, string> {
+  const events = new Map<string, string>();
+  for (const block of feed.split("BEGIN:VEVENT").slice(1)) {
+    const unfolded = block.replace(/\r\n /g, "");
+    events.set(/UID:(.*)\r\n/.exec(unfolded)![1], unfolded);
+  }
+  return events;
+}
+
+describe("buildStaffCalendar", () => {
+  it("keeps each location's roster to its own versions", () => {
+    // Ashley works at two sites; site B's roster has been republished more often
+    const feed = buildStaffCalendar("Ashley", [
+      makeVersion("siteA", 1, [makeShift("2026-11-03", "Ashley"), makeShift("2026-11-04", "Ashley")]),
+      makeVersion("siteA", 2, [makeShift("2026-11-03", "Peninah"), makeShift("2026-11-04", "Ashley")]),
+      makeVersion("siteB", 1, [makeShift("2026-11-05", "Ashley")]),
+      makeVersion("siteB", 2, [makeShift("2026-11-05", "Ashley")]),
+      makeVersion("siteB", 3, [makeShift("2026-11-05", "Ashley"), makeShift("2026-11-06", "Ashley")]),
+    ]);
+    const events = eventsOf(feed);
+
+    expect(Array.from(events.keys()).sort()).toEqual([
+      "siteA-2026-11-03-day-Ashley@roster",
+      "siteA-2026-11-04-day-Ashley@roster",
+      "siteB-2026-11-05-day-Ashley@roster",
+      "siteB-2026-11-06-day-Ashley@roster",
+    ]);
+    const live = events.get("siteA-2026-11-04-day-Ashley@roster")!;
+    expect(live).toContain("STATUS:CONFIRMED");
+    expect(live).toContain("SEQUENCE:2");
+    expect(live).toContain("siteA roster (version 2)");
+
+    // Only a shift Ashley lost on site A's own roster is cancelled
+    const dropped = events.get("siteA-2026-11-03-day-Ashley@roster")!;
+    expect(dropped).toContain("STATUS:CANCELLED");
+    expect(dropped).toContain("SEQUENCE:2");
+    expect(events.get("siteB-2026-11-05-day-Ashley@roster")).toContain("SEQUENCE:3");
+    expect(events.get("siteB-2026-11-06-day-Ashley@roster")).toContain("STATUS:CONFIRMED");
+
+    // Stamped with the most recent publish across both rosters
+    expect(feed).toContain("DTSTAMP:20261013T090000Z");
+  });
+});
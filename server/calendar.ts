@@ -0,0 +1,124 @@
+import type { RosterShift, RosterVersion, StaffMember } from "@shared/schema";
+
+// Calendar apps refetch a subscription on their own schedule; this asks for hourly
+const REFRESH_INTERVAL = "PT1H";
+
+interface CalendarEvent {
+  uid: string;
+  shift: RosterShift;
+  // The roster's latest version, which the event belongs to whether kept or cancelled
+  version: RosterVersion;
+  cancelled: boolean;
+}
+
+// RFC 5545 TEXT escaping
+function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Content lines longer than 75 octets continue on the next line after a space
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > 75) {
+      parts.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n");
+}
+
+function utcDateTime(iso: string): string {
+  return `${new Date(iso).toISOString().replace(/[-:]/g, "").slice(0, 15)}Z`;
+}
+
+// The same slot keeps its UID across versions, so a republished shift replaces the old event
+function eventUid(rosterId: string, slotKey: string, staffMember: StaffMember): string {
+  return `${rosterId}-${slotKey}-${encodeURIComponent(staffMember)}@roster`;
+}
+
+// One roster's events for a staff member: their shifts on its latest published version,
+// plus a cancellation for each slot they held in an earlier version and no longer do
+function rosterEvents(staffMember: StaffMember, versions: RosterVersion[]): CalendarEvent[] {
+  const sorted = [...versions].sort((a, b) => a.version - b.version);
+  const latest = sorted[sorted.length - 1];
+  const events: CalendarEvent[] = [];
+
+  const current = new Set<string>();
+  for (const shift of latest.shifts) {
+    if (shift.assigned !== staffMember) continue;
+    current.add(shift.slotKey);
+    events.push({ uid: eventUid(latest.rosterId, shift.slotKey, staffMember), shift, version: latest, cancelled: false });
+  }
+
+  const cancelled = new Map<string, RosterShift>();
+  for (const version of sorted.slice(0, -1)) {
+    for (const shift of version.shifts) {
+      if (shift.assigned === staffMember && !current.has(shift.slotKey)) cancelled.set(shift.slotKey, shift);
+    }
+  }
+  for (const [slotKey, shift] of Array.from(cancelled.entries())) {
+    events.push({ uid: eventUid(latest.rosterId, slotKey, staffMember), shift, version: latest, cancelled: true });
+  }
+  return events;
+}
+
+// A staff member's shifts across the published versions of every roster given, one
+// roster at a time so each is only measured against its own history. A roster's version
+// number is the SEQUENCE, so every republish supersedes what calendars already have.
+export function buildStaffCalendar(staffMember: StaffMember, versions: RosterVersion[]): string {
+  const byRoster = new Map<string, RosterVersion[]>();
+  for (const version of versions) {
+    const list = byRoster.get(version.rosterId);
+    if (list) list.push(version);
+    else byRoster.set(version.rosterId, [version]);
+  }
+  const events = Array.from(byRoster.values()).flatMap((list) => rosterEvents(staffMember, list));
+
+  const latestPublishedAt = versions.reduce<string | null>(
+    (latest, v) => (latest === null || v.publishedAt > latest ? v.publishedAt : latest),
+    null
+  );
+  const stamp = utcDateTime(latestPublishedAt ?? new Date().toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Healthcare Staff Roster//Shifts//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`${staffMember}'s shifts`)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+
+  for (const event of events.sort((a, b) => a.shift.date.localeCompare(b.shift.date))) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `SEQUENCE:${event.version.version}`,
+      // Shifts carry real instants, so calendars show them in each reader's own zone
+      `DTSTART:${utcDateTime(event.shift.startsAt)}`,
+      `DTEND:${utcDateTime(event.shift.endsAt)}`,
+      `SUMMARY:${escapeText(`${event.shift.shiftType} shift${event.cancelled ? " (cancelled)" : ""}`)}`,
+      `DESCRIPTION:${escapeText(
+        event.cancelled
+          ? `You are no longer on this shift in ${event.version.name} (version ${event.version.version})`
+          : `${event.shift.hours}h on ${event.version.name} (version ${event.version.version})`
+      )}`,
+      `STATUS:${event.cancelled ? "CANCELLED" : "CONFIRMED"}`,
+      "TRANSP:OPAQUE",
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
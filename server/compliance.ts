@@ -0,0 +1,240 @@
+import { addDays, format, parseISO } from "date-fns";
+import type {
+  ComplianceRules,
+  ComplianceViolation,
+  Roster,
+  RosterShift,
+  StaffMember,
+} from "@shared/schema";
+import { DEFAULT_TIMEZONE } from "@shared/schema";
+import { getShiftWindow, toZonedDateTime, zonedTimeToUtc } from "@shared/shift-times";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Night time runs from 23:00 to 06:00 local time; a shift with at least three hours in it is night work
+const NIGHT_START = "23:00";
+const NIGHT_END = "06:00";
+const MIN_NIGHT_WORK_HOURS = 3;
+
+type CheckedRoster = Pick<Roster, "startDate" | "weeks" | "shifts">;
+
+interface WorkedShift {
+  shift: RosterShift;
+  start: number;
+  end: number;
+  isNight: boolean;
+}
+
+function hoursLabel(ms: number): string {
+  return `${Math.round((Math.max(0, ms) / HOUR_MS) * 10) / 10}h`;
+}
+
+function shiftDate(date: string, days: number): string {
+  return format(addDays(parseISO(date), days), "yyyy-MM-dd");
+}
+
+function nightWorkHours(shift: RosterShift, start: number, end: number): number {
+  let total = 0;
+  // The night beginning the evening before the shift can overlap its start
+  for (let day = -1; shiftDate(shift.date, day) <= toZonedDateTime(new Date(end), shift.timezone).date; day++) {
+    const nightStart = zonedTimeToUtc(shiftDate(shift.date, day), NIGHT_START, shift.timezone).getTime();
+    const nightEnd = zonedTimeToUtc(shiftDate(shift.date, day + 1), NIGHT_END, shift.timezone).getTime();
+    total += Math.max(0, Math.min(end, nightEnd) - Math.max(start, nightStart));
+  }
+  return total / HOUR_MS;
+}
+
+function isNextDay(previous: string, next: string): boolean {
+  return format(addDays(parseISO(previous), 1), "yyyy-MM-dd") === next;
+}
+
+// Runs of shifts on consecutive calendar days
+function consecutiveRuns(worked: WorkedShift[]): WorkedShift[][] {
+  const runs: WorkedShift[][] = [];
+  for (const item of worked) {
+    const run = runs[runs.length - 1];
+    const last = run?.[run.length - 1];
+    if (last && (last.shift.date === item.shift.date || isNextDay(last.shift.date, item.shift.date))) {
+      run.push(item);
+    } else {
+      runs.push([item]);
+    }
+  }
+  return runs;
+}
+
+function countDays(run: WorkedShift[]): string[] {
+  return Array.from(new Set(run.map((item) => item.shift.date)));
+}
+
+// Check every staff member's shifts in a roster against the working-time rules.
+// Weekly limits use the roster's own weeks, and a roster shorter than the reference
+// period is averaged over its own length since nothing is known about the weeks around it.
+export function checkRosterCompliance(roster: CheckedRoster, rules: ComplianceRules): ComplianceViolation[] {
+  // Weeks run midnight to midnight on the roster's local clock, so one spanning a DST change is an hour short or long
+  const timezone = roster.shifts[0]?.timezone ?? DEFAULT_TIMEZONE;
+  const weekDate = (week: number) => shiftDate(roster.startDate, week * 7);
+  const weekStart = (week: number) => zonedTimeToUtc(weekDate(week), "00:00", timezone).getTime();
+
+  const byStaff = new Map<StaffMember, WorkedShift[]>();
+  for (const shift of roster.shifts) {
+    if (!shift.assigned) continue;
+    const { start, end } = getShiftWindow(shift);
+    const worked = byStaff.get(shift.assigned) ?? [];
+    worked.push({ shift, start, end, isNight: nightWorkHours(shift, start, end) >= MIN_NIGHT_WORK_HOURS });
+    byStaff.set(shift.assigned, worked);
+  }
+
+  const violations: ComplianceViolation[] = [];
+
+  byStaff.forEach((worked, staffMember) => {
+    worked.sort((a, b) => a.start - b.start);
+    const inWeeks = (fromWeek: number, toWeek: number) =>
+      worked.filter((item) => item.start >= weekStart(fromWeek) && item.start < weekStart(toWeek));
+
+    if (rules.maxAvgWeeklyHours !== null) {
+      const max = rules.maxAvgWeeklyHours;
+      const period = Math.min(rules.referenceWeeks, roster.weeks);
+      // Only the first period over the limit is reported so overlapping periods don't repeat it
+      for (let week = 0; week + period <= roster.weeks; week++) {
+        const inPeriod = inWeeks(week, week + period);
+        const average = inPeriod.reduce((sum, item) => sum + item.shift.hours, 0) / period;
+        if (average > max) {
+          violations.push({
+            rule: "max_avg_weekly_hours",
+            staffMember,
+            date: weekDate(week),
+            shiftIds: inPeriod.map((item) => item.shift.id),
+            message: `${staffMember} averages ${Math.round(average * 10) / 10}h a week over ${period} week(s) from ${weekDate(week)} (maximum ${max}h)`,
+          });
+          break;
+        }
+      }
+    }
+
+    if (rules.minDailyRestHours !== null) {
+      const min = rules.minDailyRestHours;
+      for (let i = 1; i < worked.length; i++) {
+        const prev = worked[i - 1];
+        const next = worked[i];
+        const rest = next.start - prev.end;
+        if (rest < min * HOUR_MS) {
+          violations.push({
+            rule: "min_daily_rest",
+            staffMember,
+            date: next.shift.date,
+            shiftIds: [prev.shift.id, next.shift.id],
+            message: `${staffMember} has ${hoursLabel(rest)} rest between the ${prev.shift.date} ${prev.shift.shiftType} and ${next.shift.date} ${next.shift.shiftType} shifts (minimum ${min}h)`,
+          });
+        }
+      }
+    }
+
+    for (let week = 0; week < roster.weeks; week++) {
+      const from = weekStart(week);
+      const to = weekStart(week + 1);
+
+      if (rules.minWeeklyRestHours !== null) {
+        const min = rules.minWeeklyRestHours;
+        const overlapping = worked.filter((item) => item.end > from && item.start < to);
+        if (overlapping.length > 0) {
+          // Longest stretch of the week with no shift in it
+          let longest = 0;
+          let restStart = from;
+          for (const item of overlapping) {
+            longest = Math.max(longest, item.start - restStart);
+            restStart = Math.max(restStart, item.end);
+          }
+          longest = Math.max(longest, to - restStart);
+          if (longest < min * HOUR_MS) {
+            violations.push({
+              rule: "min_weekly_rest",
+              staffMember,
+              date: weekDate(week),
+              shiftIds: overlapping.map((item) => item.shift.id),
+              message: `${staffMember}'s longest rest in the week of ${weekDate(week)} is ${hoursLabel(longest)} (minimum ${min}h)`,
+            });
+          }
+        }
+      }
+
+      if (rules.maxNightShiftsPerWeek !== null) {
+        const max = rules.maxNightShiftsPerWeek;
+        const nights = inWeeks(week, week + 1).filter((item) => item.isNight);
+        if (nights.length > max) {
+          violations.push({
+            rule: "max_night_shifts_per_week",
+            staffMember,
+            date: weekDate(week),
+            shiftIds: nights.map((item) => item.shift.id),
+            message: `${staffMember} works ${nights.length} night shifts in the week of ${weekDate(week)} (maximum ${max})`,
+          });
+        }
+      }
+    }
+
+    if (rules.maxConsecutiveShifts !== null) {
+      const max = rules.maxConsecutiveShifts;
+      for (const run of consecutiveRuns(worked)) {
+        const days = countDays(run);
+        if (days.length > max) {
+          violations.push({
+            rule: "max_consecutive_shifts",
+            staffMember,
+            date: days[max],
+            shiftIds: run.map((item) => item.shift.id),
+            message: `${staffMember} works ${days.length} days in a row from ${days[0]} (maximum ${max})`,
+          });
+        }
+      }
+    }
+
+    if (rules.maxConsecutiveNights !== null) {
+      const max = rules.maxConsecutiveNights;
+      for (const run of consecutiveRuns(worked.filter((item) => item.isNight))) {
+        const days = countDays(run);
+        if (days.length > max) {
+          violations.push({
+            rule: "max_consecutive_nights",
+            staffMember,
+            date: days[max],
+            shiftIds: run.map((item) => item.shift.id),
+            message: `${staffMember} works ${days.length} nights in a row from ${days[0]} (maximum ${max})`,
+          });
+        }
+      }
+    }
+  });
+
+  return violations.sort((a, b) => a.date.localeCompare(b.date) || a.staffMember.localeCompare(b.staffMember));
+}
+
+// Violations that assigning a shift to someone would take part in
+export function findAssignmentViolations(
+  roster: CheckedRoster,
+  rules: ComplianceRules,
+  shiftId: string,
+  assigned: StaffMember
+): ComplianceViolation[] {
+  const shifts = roster.shifts.map((shift) => (shift.id === shiftId ? { ...shift, assigned } : shift));
+  return checkRosterCompliance({ ...roster, shifts }, rules).filter(
+    (violation) => violation.staffMember === assigned && violation.shiftIds.includes(shiftId)
+  );
+}
+
+// Violations that moving several shifts at once would add to the roster. A rule already
+// broken for the same person from the same date doesn't count again, so a trade that
+// eases an existing breach isn't refused because of it.
+export function findNewViolations(
+  roster: CheckedRoster,
+  rules: ComplianceRules,
+  changes: Pick<RosterShift, "id" | "assigned">[]
+): ComplianceViolation[] {
+  const key = (violation: ComplianceViolation) => `${violation.rule}|${violation.staffMember}|${violation.date}`;
+  const existing = new Set(checkRosterCompliance(roster, rules).map(key));
+  const shifts = roster.shifts.map((shift) => {
+    const change = changes.find((c) => c.id === shift.id);
+    return change ? { ...shift, assigned: change.assigned } : shift;
+  });
+  return checkRosterCompliance({ ...roster, shifts }, rules).filter((violation) => !existing.has(key(violation)));
+}
@@ -0,0 +1,44 @@
+import type { Location, RosterShift, StaffMember } from "@shared/schema";
+import { getShiftWindow } from "@shared/shift-times";
+import { storage } from "./storage";
+import { getPublishedView } from "./published-roster";
+
+// A shift on another location's live roster
+export interface ShiftElsewhere {
+  shift: RosterShift;
+  location: Location;
+}
+
+// Assigned shifts on the live rosters of every location but this one, as published: a
+// manager's unpublished edits there commit nobody yet. Staff who work at several sites
+// can only be in one place at a time.
+export async function getShiftsElsewhere(locationId: string): Promise<ShiftElsewhere[]> {
+  const elsewhere: ShiftElsewhere[] = [];
+  for (const location of await storage.getLocations()) {
+    if (location.id === locationId) continue;
+    const live = await getPublishedView(await storage.getActiveRoster(location.id));
+    for (const shift of live?.shifts ?? []) {
+      if (shift.assigned) elsewhere.push({ shift, location });
+    }
+  }
+  return elsewhere;
+}
+
+// The shift elsewhere that overlaps this one for the given person, if any
+export function findOverlapElsewhere(
+  staffMember: StaffMember,
+  shift: RosterShift,
+  elsewhere: ShiftElsewhere[]
+): ShiftElsewhere | undefined {
+  const window = getShiftWindow(shift);
+  return elsewhere.find(({ shift: other }) => {
+    if (other.assigned !== staffMember) return false;
+    const otherWindow = getShiftWindow(other);
+    return otherWindow.start < window.end && window.start < otherWindow.end;
+  });
+}
+
+// "Ashley is working the Day shift on 2026-10-19 at Riverside"
+export function describeOverlap(staffMember: StaffMember, { shift, location }: ShiftElsewhere): string {
+  return `${staffMember} is working the ${shift.shiftType} shift on ${shift.date} at ${location.name}`;
+}
@@ -1,15 +1,29 @@
 import ExcelJS from "exceljs";
-import type { Roster, RosterShift, StaffMember } from "@shared/schema";
+import type { Roster, RosterShift, Staff, StaffMember } from "@shared/schema";
+import { STAFF_COLOR_VALUES, FALLBACK_STAFF_COLOR } from "@shared/schema";
+import { toZonedDateTime } from "@shared/shift-times";
 
-// Staff colors matching the frontend
-const staffColors: Record<StaffMember, { argb: string; fontColor: string }> = {
-  Joflix: { argb: "FFFB923C", fontColor: "FFFFFFFF" },   // Orange
-  Peninah: { argb: "FFF9A8D4", fontColor: "FF831843" },  // Pink
-  Ashley: { argb: "FF60A5FA", fontColor: "FFFFFFFF" },   // Blue
-  Locum: { argb: "FF9CA3AF", fontColor: "FFFFFFFF" },    // Gray
-};
+// Staff colors matching the frontend, looked up from the staff directory
+function getStaffColor(staffName: StaffMember, directory: Staff[]): { argb: string; fontColor: string } {
+  const member = directory.find((s) => s.name === staffName);
+  const values = STAFF_COLOR_VALUES[member?.color ?? FALLBACK_STAFF_COLOR];
+  return { argb: values.argb, fontColor: values.fontArgb };
+}
+
+// Local clock times in the shift's zone; an end on a later day is marked "(+1)"
+function shiftClockTimes(shift: RosterShift): { start: string; end: string } {
+  const start = toZonedDateTime(shift.startsAt, shift.timezone);
+  const end = toZonedDateTime(shift.endsAt, shift.timezone);
+  return { start: start.time, end: end.date > shift.date ? `${end.time} (+1)` : end.time };
+}
 
-export async function generateExcelRoster(roster: Roster): Promise<Buffer> {
+// "Day 12h (2/3)" for the second of three people on a shift
+function placeLabel(shift: RosterShift, shifts: RosterShift[]): string {
+  const places = shifts.filter((s) => s.date === shift.date && s.shiftType === shift.shiftType).length;
+  return places > 1 ? `${shift.shiftLabel} (${shift.position}/${places})` : shift.shiftLabel;
+}
+
+export async function generateExcelRoster(roster: Roster, directory: Staff[]): Promise<Buffer> {
   const workbook = new ExcelJS.Workbook();
   workbook.creator = "Staff Roster Manager";
   workbook.created = new Date();
@@ -22,7 +36,11 @@ export async function generateExcelRoster(roster: Roster): Promise<Buffer> {
   worksheet.columns = [
     { header: "Date", key: "date", width: 15 },
     { header: "Weekday", key: "weekday", width: 10 },
-    { header: "Shift", key: "shift", width: 12 },
+    { header: "Public holiday", key: "holiday", width: 18 },
+    { header: "Shift", key: "shift", width: 16 },
+    { header: "Start", key: "start", width: 9 },
+    { header: "End", key: "end", width: 11 },
+    { header: "Break (min)", key: "break", width: 11 },
     { header: "Assigned", key: "assigned", width: 15 },
     { header: "Hours", key: "hours", width: 8 },
   ];
@@ -39,18 +57,24 @@ export async function generateExcelRoster(roster: Roster): Promise<Buffer> {
   headerRow.height = 24;
 
   // Add data rows
+  const assignedColumn = worksheet.getColumn("assigned").number;
   roster.shifts.forEach((shift, index) => {
+    const times = shiftClockTimes(shift);
     const row = worksheet.addRow({
       date: shift.date,
       weekday: shift.weekday,
-      shift: shift.shiftLabel,
+      holiday: shift.publicHoliday ?? "",
+      shift: placeLabel(shift, roster.shifts),
+      start: times.start,
+      end: times.end,
+      break: shift.breakMinutes,
       assigned: shift.assigned || "Unassigned",
       hours: shift.hours,
     });
 
     // Apply staff color to assigned cell
     if (shift.assigned) {
-      const color = staffColors[shift.assigned];
+      const color = getStaffColor(shift.assigned, directory);
       const assignedCell = row.getCell("assigned");
       assignedCell.fill = {
         type: "pattern",
@@ -70,14 +94,25 @@ export async function generateExcelRoster(roster: Roster): Promise<Buffer> {
       };
     }
 
+    if (shift.publicHoliday) {
+      const holidayCell = row.getCell("holiday");
+      holidayCell.fill = {
+        type: "pattern",
+        pattern: "solid",
+        fgColor: { argb: "FFFFE4E6" },
+      };
+      holidayCell.font = { color: { argb: "FF9F1239" } };
+    }
+
     // Hours cell alignment
     row.getCell("hours").alignment = { horizontal: "right" };
-    row.getCell("hours").numFmt = "0";
+    row.getCell("hours").numFmt = Number.isInteger(shift.hours) ? "0" : "0.00";
+    row.getCell("break").alignment = { horizontal: "right" };
 
     // Alternate row colors
     if (index % 2 === 1) {
       row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
-        if (colNumber !== 4) { // Skip assigned cell (already colored)
+        if (colNumber !== assignedColumn) { // Skip assigned cell (already colored)
           if (!cell.fill || (cell.fill as ExcelJS.FillPattern).pattern === undefined) {
             cell.fill = {
               type: "pattern",
@@ -93,10 +128,6 @@ export async function generateExcelRoster(roster: Roster): Promise<Buffer> {
     row.height = 22;
   });
 
-  // Add data validation for assigned column
-  const assignedColumn = worksheet.getColumn("assigned");
-  const staffList = '"Ashley,Peninah,Joflix,Locum"';
-  
   // Add borders to all cells
   worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
     row.eachCell({ includeEmpty: true }, (cell) => {
@@ -115,25 +146,34 @@ export async function generateExcelRoster(roster: Roster): Promise<Buffer> {
   worksheet.getCell(`A${summaryStartRow}`).value = "Staff Hours Summary";
   worksheet.getCell(`A${summaryStartRow}`).font = { bold: true, size: 12 };
   
-  // Calculate hours per staff
-  const hoursPerStaff = new Map<StaffMember, number>();
-  (["Ashley", "Peninah", "Joflix", "Locum"] as StaffMember[]).forEach((s) => hoursPerStaff.set(s, 0));
+  // Calculate hours per staff - active staff at this location plus anyone (e.g. archived) on this roster.
+  // Public holiday hours are part of the total and also shown on their own.
+  const hoursPerStaff = new Map<StaffMember, { hours: number; holidayHours: number }>();
+  directory
+    .filter((s) => s.isActive && s.locationIds.includes(roster.locationId))
+    .forEach((s) => hoursPerStaff.set(s.name, { hours: 0, holidayHours: 0 }));
   
   roster.shifts.forEach((shift) => {
     if (shift.assigned) {
-      const current = hoursPerStaff.get(shift.assigned) || 0;
-      hoursPerStaff.set(shift.assigned, current + shift.hours);
+      const current = hoursPerStaff.get(shift.assigned) ?? { hours: 0, holidayHours: 0 };
+      hoursPerStaff.set(shift.assigned, {
+        hours: current.hours + shift.hours,
+        holidayHours: current.holidayHours + (shift.publicHoliday ? shift.hours : 0),
+      });
     }
   });
 
   let summaryRow = summaryStartRow + 1;
-  hoursPerStaff.forEach((hours, staff) => {
+  hoursPerStaff.forEach(({ hours, holidayHours }, staff) => {
     const row = worksheet.getRow(summaryRow);
     row.getCell(1).value = staff;
-    row.getCell(2).value = `${hours} hours`;
+    row.getCell(2).value = `${Math.round(hours * 100) / 100} hours`;
+    if (holidayHours > 0) {
+      row.getCell(3).value = `${Math.round(holidayHours * 100) / 100} on public holidays`;
+    }
     
     const staffCell = row.getCell(1);
-    const color = staffColors[staff];
+    const color = getStaffColor(staff, directory);
     staffCell.fill = {
       type: "pattern",
       pattern: "solid",
@@ -0,0 +1,116 @@
+import type { Server } from "http";
+import type { Notification, NotificationChannel, NotificationDelivery } from "@shared/schema";
+import { channelsFor } from "@shared/notifications";
+import { storage, type DeliveryTarget } from "./storage";
+import { renderNotification } from "./notification-templates";
+import {
+  createEmailTransport,
+  createWebhookTransport,
+  type NotificationTransport,
+} from "./notification-transports";
+
+export interface NotificationDispatcher {
+  // Channels with a working transport on this server
+  availableChannels: NotificationChannel[];
+  // Queue a new notification for the recipient's channels and start sending
+  dispatch(notification: Notification): Promise<void>;
+  // Send everything that is due, e.g. after a delivery was retried by hand
+  processDue(): Promise<void>;
+}
+
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 30_000;
+const POLL_MS = 15_000;
+const BATCH_SIZE = 50;
+
+// 30s, 1m, 2m, 4m between attempts
+function backoff(attempts: number): number {
+  return BASE_BACKOFF_MS * 2 ** (attempts - 1);
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Delivers notifications outside the app. Every notification gets a delivery per channel
+// the recipient has turned on; failures are retried with exponential backoff from the
+// delivery log, so pending deliveries survive a restart.
+export function startNotificationDispatcher(httpServer: Server): NotificationDispatcher {
+  const transports = new Map<NotificationChannel, NotificationTransport>();
+  for (const transport of [createEmailTransport(), createWebhookTransport()]) {
+    if (transport) transports.set(transport.channel, transport);
+  }
+  let running = false;
+
+  async function dispatch(notification: Notification) {
+    const member = (await storage.getStaff()).find((s) => s.name === notification.staffMember);
+    if (!member) return;
+
+    const prefs = await storage.getNotificationPreferences(member.id);
+    const destinations: Record<NotificationChannel, string | null> = {
+      email: prefs.email,
+      webhook: prefs.webhookUrl,
+    };
+    const targets: DeliveryTarget[] = [];
+    for (const channel of channelsFor(prefs.channels, notification.type)) {
+      const destination = destinations[channel];
+      if (destination && transports.has(channel)) targets.push({ channel, destination });
+    }
+    if (targets.length === 0) return;
+
+    await storage.createNotificationDeliveries(notification, targets);
+    void processDue();
+  }
+
+  async function attempt(delivery: NotificationDelivery) {
+    try {
+      const transport = transports.get(delivery.channel);
+      if (!transport) throw new Error(`No ${delivery.channel} transport is configured`);
+      const notification = await storage.getNotificationById(delivery.notificationId);
+      if (!notification) throw new Error("The notification no longer exists");
+
+      await transport.send(delivery.destination, notification, renderNotification(notification));
+      await storage.recordDeliveryAttempt(delivery.id, { status: "sent", error: null, nextAttemptAt: null });
+    } catch (err) {
+      const attempts = delivery.attempts + 1;
+      const gaveUp = attempts >= MAX_ATTEMPTS;
+      await storage.recordDeliveryAttempt(delivery.id, {
+        status: gaveUp ? "failed" : "pending",
+        error: errorMessage(err),
+        nextAttemptAt: gaveUp ? null : new Date(Date.now() + backoff(attempts)),
+      });
+      if (gaveUp) {
+        console.error(`Giving up on ${delivery.channel} delivery ${delivery.id} to ${delivery.destination}:`, err);
+      }
+    }
+  }
+
+  async function processDue() {
+    if (running) return;
+    running = true;
+    try {
+      let due = await storage.getDueNotificationDeliveries(new Date(), BATCH_SIZE);
+      while (due.length > 0) {
+        for (const delivery of due) {
+          await attempt(delivery);
+        }
+        due = await storage.getDueNotificationDeliveries(new Date(), BATCH_SIZE);
+      }
+    } catch (err) {
+      console.error("Error processing notification deliveries:", err);
+    } finally {
+      running = false;
+    }
+  }
+
+  const poller = setInterval(() => void processDue(), POLL_MS);
+  poller.unref();
+  httpServer.on("close", () => clearInterval(poller));
+  void processDue();
+
+  return {
+    availableChannels: Array.from(transports.keys()),
+    dispatch,
+    processDue,
+  };
+}
@@ -0,0 +1,58 @@
+import type { Notification, NotificationType } from "@shared/schema";
+import { notificationPath } from "@shared/notifications";
+
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  html: string;
+  // Absolute link into the app, when APP_URL is set
+  url: string | null;
+}
+
+interface Template {
+  heading: string;
+  action: string;
+}
+
+const TEMPLATES: Record<NotificationType, Template> = {
+  shift_assigned: { heading: "You have a new shift", action: "View the shift" },
+  shift_changed: { heading: "Your shifts have changed", action: "View the roster" },
+  roster_update: { heading: "There is news about a roster you are on", action: "View your shifts" },
+  swap_request: { heading: "A shift swap needs your attention", action: "Review the swap" },
+  swap_response: { heading: "There is news on your shift swap", action: "View the swap" },
+  open_shift: { heading: "Open shift update", action: "See open shifts" },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// The email and webhook body for a notification, laid out per type
+export function renderNotification(notification: Notification): RenderedNotification {
+  const template = TEMPLATES[notification.type];
+  const appUrl = process.env.APP_URL?.replace(/\/+$/, "");
+  const url = appUrl ? `${appUrl}${notificationPath(notification)}` : null;
+
+  const text = [
+    `Hi ${notification.staffMember},`,
+    "",
+    template.heading + ".",
+    "",
+    notification.message,
+    ...(url ? ["", `${template.action}: ${url}`] : []),
+  ].join("\n");
+
+  const html = [
+    `<p>Hi ${escapeHtml(notification.staffMember)},</p>`,
+    `<p><strong>${escapeHtml(template.heading)}.</strong></p>`,
+    `<p>${escapeHtml(notification.message)}</p>`,
+    ...(url ? [`<p><a href="${escapeHtml(url)}">${escapeHtml(template.action)}</a></p>`] : []),
+  ].join("\n");
+
+  return { subject: `[Roster] ${notification.title}`, text, html, url };
+}
@@ -0,0 +1,137 @@
+import { createHmac } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIPv4 } from "net";
+import nodemailer from "nodemailer";
+import type { Notification, NotificationChannel } from "@shared/schema";
+import type { RenderedNotification } from "./notification-templates";
+
+// Sends one rendered notification to one destination; throws when delivery fails
+export interface NotificationTransport {
+  channel: NotificationChannel;
+  send(destination: string, notification: Notification, rendered: RenderedNotification): Promise<void>;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Webhooks are sent from the server, so they must not reach it or the network around it:
+// loopback, private, link-local (where cloud metadata lives), shared, multicast and reserved addresses
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+// BlockList checks an IPv4 address written as IPv6 (::ffff:127.0.0.1) against the IPv4 rules
+function isBlockedAddress(address: string): boolean {
+  return blockedAddresses.check(address, isIPv4(address) ? "ipv4" : "ipv6");
+}
+
+// Why a webhook URL can't be sent to, or null if it can. Every address the host resolves
+// to is checked, so a public name pointing at a private address is refused too.
+export async function checkWebhookUrl(destination: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(destination);
+  } catch {
+    return "Webhook URL is not a valid URL";
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return "Webhook URL must use http or https";
+  }
+  const host = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `Webhook host ${host} could not be found`;
+  }
+  if (addresses.some(({ address }) => isBlockedAddress(address))) {
+    return `Webhook host ${host} is on a local or private network`;
+  }
+  return null;
+}
+
+// SMTP via nodemailer, configured from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER,
+// SMTP_PASS and MAIL_FROM. Without SMTP_HOST there is no email channel. A local mail
+// catcher works as the SMTP server in development.
+export function createEmailTransport(): NotificationTransport | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+
+  const secure = process.env.SMTP_SECURE === "true";
+  const transporter = nodemailer.createTransport({
+    host,
+    port: parseInt(process.env.SMTP_PORT || (secure ? "465" : "587"), 10),
+    secure,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+  const from = process.env.MAIL_FROM || "Roster <roster@localhost>";
+
+  return {
+    channel: "email",
+    async send(destination, _notification, rendered) {
+      await transporter.sendMail({
+        from,
+        to: destination,
+        subject: rendered.subject,
+        text: rendered.text,
+        html: rendered.html,
+      });
+    },
+  };
+}
+
+// POSTs the notification as JSON. With WEBHOOK_SECRET set, the body is signed with
+// HMAC-SHA256 in the X-Roster-Signature header so the receiver can check where it came from.
+export function createWebhookTransport(): NotificationTransport {
+  const secret = process.env.WEBHOOK_SECRET;
+
+  return {
+    channel: "webhook",
+    async send(destination, notification, rendered) {
+      const body = JSON.stringify({
+        event: "notification",
+        notification,
+        subject: rendered.subject,
+        text: rendered.text,
+        url: rendered.url,
+      });
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (secret) {
+        headers["X-Roster-Signature"] = `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+      }
+
+      // Checked at send time as well as when saved, since what a name resolves to can change
+      const blocked = await checkWebhookUrl(destination);
+      if (blocked) throw new Error(blocked);
+
+      // A redirect is a failure rather than followed, so it can't lead somewhere unchecked
+      const response = await fetch(destination, {
+        method: "POST",
+        headers,
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status} ${response.statusText}`.trim());
+      }
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import type {
+  ComplianceViolation,
+  OpenShift,
+  OpenShiftAwardRule,
+  OpenShiftClaim,
+  OpenShiftErrorCode,
+  Roster,
+  RosterShift,
+  Staff,
+  StaffMember,
+} from "@shared/schema";
+import { findApprovedLeave } from "@shared/availability";
+import { storage } from "./storage";
+import { findAssignmentViolations } from "./compliance";
+import { hasStarted } from "./swap-validation";
+import { describeOverlap, findOverlapElsewhere, getShiftsElsewhere } from "./cross-site";
+import { getLiveShift } from "./published-roster";
+
+// A reason to refuse an open shift action, sent to the client as { error, code, violations? }
+export interface OpenShiftProblem {
+  status: number;
+  code: OpenShiftErrorCode;
+  error: string;
+  violations?: ComplianceViolation[];
+}
+
+function problem(status: number, code: OpenShiftErrorCode, error: string): OpenShiftProblem {
+  return { status, code, error };
+}
+
+function isLocum(name: StaffMember | null, staffList: Staff[]): boolean {
+  return staffList.some((s) => s.name === name && s.role === "Locum");
+}
+
+// Shifts nobody permanent holds: unassigned, or covered by a Locum
+export function needsCover(shift: RosterShift, staffList: Staff[]): boolean {
+  return !shift.assigned || isLocum(shift.assigned, staffList);
+}
+
+// Shifts can only be posted from the published roster, before they start, while they need
+// cover. Like swaps, postings go by the live version (getLiveShift), not the draft.
+export async function validatePosting(shift: RosterShift, roster: Roster): Promise<OpenShiftProblem | null> {
+  if (roster.status !== "published") {
+    return problem(409, "roster_not_live", "Open shifts can only be posted from the published roster");
+  }
+  if (hasStarted(shift)) {
+    return problem(400, "shift_started", `The ${shift.date} ${shift.shiftType} shift has already started`);
+  }
+  if (!needsCover(shift, await storage.getStaff())) {
+    return problem(409, "already_filled", `The ${shift.date} ${shift.shiftType} shift is already covered by ${shift.assigned}`);
+  }
+  const open = await storage.getOpenShifts("open");
+  if (open.some((posting) => posting.shiftId === shift.id)) {
+    return problem(409, "already_posted", `The ${shift.date} ${shift.shiftType} shift is already posted`);
+  }
+  return null;
+}
+
+// Whether a staff member may take an open shift, on the live roster (getLiveRoster). Checked
+// when they claim it and again when it is awarded, since leave or the roster may have
+// changed in between.
+export async function validateClaimant(
+  posting: OpenShift,
+  roster: Roster,
+  staffMember: StaffMember
+): Promise<OpenShiftProblem | null> {
+  if (posting.status !== "open") {
+    return problem(409, "not_open", `This open shift has already been ${posting.status}`);
+  }
+  const shift = roster.shifts.find((s) => s.id === posting.shiftId);
+  if (!shift) {
+    return problem(409, "not_open", "The shift is no longer on the roster");
+  }
+  if (hasStarted(shift)) {
+    return problem(409, "shift_started", `The ${shift.date} ${shift.shiftType} shift has already started`);
+  }
+
+  const staffList = await storage.getStaff();
+  if (isLocum(staffMember, staffList)) {
+    return problem(400, "locum", "Open shifts are for permanent staff");
+  }
+  if (!staffList.some((s) => s.name === staffMember && s.isActive) || !shift.allowedStaff.includes(staffMember)) {
+    return problem(400, "not_allowed", `${staffMember} is not allowed to work the ${shift.date} ${shift.shiftType} shift`);
+  }
+  const approvedLeave = await storage.getUnavailability({ staffMember, status: "approved" });
+  if (findApprovedLeave(approvedLeave, staffMember, shift.date)) {
+    return problem(400, "on_leave", `${staffMember} is on approved leave on ${shift.date}`);
+  }
+  const overlap = findOverlapElsewhere(staffMember, shift, await getShiftsElsewhere(roster.locationId));
+  if (overlap) {
+    return problem(400, "double_booked", describeOverlap(staffMember, overlap));
+  }
+
+  // Same as a manager assigning the shift directly
+  const rules = await storage.getComplianceRules();
+  if (rules.blockViolations) {
+    const violations = findAssignmentViolations(roster, rules, shift.id, staffMember);
+    if (violations.length > 0) {
+      return { status: 409, code: "compliance_violation", error: violations[0].message, violations };
+    }
+  }
+  return null;
+}
+
+// Pending claims in the order the rule would award them
+export function rankClaims(posting: OpenShift, roster: Roster, rule: OpenShiftAwardRule): OpenShiftClaim[] {
+  const hours = (name: StaffMember) =>
+    roster.shifts.filter((s) => s.assigned === name).reduce((sum, s) => sum + s.hours, 0);
+  const byClaimTime = (a: OpenShiftClaim, b: OpenShiftClaim) => a.createdAt.localeCompare(b.createdAt);
+
+  const pending = posting.claims.filter((c) => c.status === "pending");
+  return rule === "fewest_hours"
+    ? pending.sort((a, b) => hours(a.staffMember) - hours(b.staffMember) || byClaimTime(a, b))
+    : pending.sort(byClaimTime);
+}
+
+// The first claimant under the rule who can still take the shift
+export async function pickClaimant(
+  posting: OpenShift,
+  roster: Roster,
+  rule: OpenShiftAwardRule
+): Promise<StaffMember | null> {
+  for (const claim of rankClaims(posting, roster, rule)) {
+    if (!(await validateClaimant(posting, roster, claim.staffMember))) {
+      return claim.staffMember;
+    }
+  }
+  return null;
+}
+
+// Close open postings whose shift has started (expired) or been filled some other way
+// since it was posted (cancelled). Only the live roster counts: a draft edit to the shift
+// leaves the posting open until it is published.
+export async function closeLapsedOpenShifts(): Promise<OpenShift[]> {
+  const now = Date.now();
+  const started: string[] = [];
+  const filled: string[] = [];
+  for (const posting of await storage.getOpenShifts("open")) {
+    const shift = (await getLiveShift(posting.shiftId))?.shift;
+    if (!shift) continue;
+    if (hasStarted(shift, now)) {
+      started.push(posting.id);
+    } else if (shift.assigned !== posting.previousAssigned) {
+      filled.push(posting.id);
+    }
+  }
+  return [
+    ...(await storage.closeOpenShifts(started, "expired")),
+    ...(await storage.closeOpenShifts(filled, "cancelled")),
+  ];
+}
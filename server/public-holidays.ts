@@ -0,0 +1,133 @@
+import { addDays, format, isValid, parse } from "date-fns";
+
+// A holiday read from an imported calendar, before it is given a location
+export interface ParsedHoliday {
+  date: string; // yyyy-MM-dd
+  name: string;
+}
+
+export interface ParsedHolidays {
+  holidays: ParsedHoliday[];
+  errors: string[];
+}
+
+// Longest run of days one imported event may cover, so a stray DTEND can't flood the calendar
+const MAX_EVENT_DAYS = 14;
+
+function toIsoDate(value: string, pattern: string): string | null {
+  const date = parse(value, pattern, new Date());
+  return isValid(date) && format(date, pattern) === value ? format(date, "yyyy-MM-dd") : null;
+}
+
+// RFC 5545 TEXT unescaping
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? " " : char)).trim();
+}
+
+// DTSTART:20261225, DTSTART;VALUE=DATE:20261225 or a date-time, of which only the date counts
+function icsDate(value: string): string | null {
+  const match = /^(\d{8})(T\d{6}Z?)?$/.exec(value.trim());
+  return match ? toIsoDate(match[1], "yyyyMMdd") : null;
+}
+
+// Every VEVENT in an iCalendar file is a holiday on each day from DTSTART up to, but not
+// including, DTEND. Government and calendar-app exports both look like this.
+export function parseIcsHolidays(content: string): ParsedHolidays {
+  const holidays: ParsedHoliday[] = [];
+  const errors: string[] = [];
+  // Folded content lines continue after a leading space or tab
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  let event: Record<string, string> | null = null;
+  let eventNumber = 0;
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+      eventNumber++;
+      continue;
+    }
+    if (line === "END:VEVENT" && event) {
+      const start = event.DTSTART ? icsDate(event.DTSTART) : null;
+      const name = unescapeText(event.SUMMARY ?? "").slice(0, 100);
+      if (!start) {
+        errors.push(`Event ${eventNumber}${name ? ` (${name})` : ""} has no start date`);
+      } else if (!name) {
+        errors.push(`Event ${eventNumber} on ${start} has no name`);
+      } else {
+        const end = event.DTEND ? icsDate(event.DTEND) : null;
+        let day = start;
+        let count = 0;
+        do {
+          holidays.push({ date: day, name });
+          day = format(addDays(new Date(`${day}T00:00:00`), 1), "yyyy-MM-dd");
+          count++;
+        } while (end && day < end && count < MAX_EVENT_DAYS);
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    // Parameters such as ;VALUE=DATE or ;LANGUAGE=en-GB don't change what the property means here
+    const property = line.slice(0, colon).split(";")[0].toUpperCase();
+    if (!(property in event)) event[property] = line.slice(colon + 1);
+  }
+
+  if (eventNumber === 0) errors.push("No events found in the calendar");
+  return { holidays, errors };
+}
+
+// Splits one CSV row, honouring double-quoted fields with "" escapes
+function splitCsvRow(row: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields.map((f) => f.trim());
+}
+
+// One holiday per row as date,name. Dates are yyyy-MM-dd or dd/MM/yyyy; a header row is skipped.
+export function parseCsvHolidays(content: string): ParsedHolidays {
+  const holidays: ParsedHoliday[] = [];
+  const errors: string[] = [];
+  const rows = content.split(/\r?\n/);
+
+  rows.forEach((row, index) => {
+    if (!row.trim()) return;
+    const [rawDate = "", name = ""] = splitCsvRow(row);
+    const date = toIsoDate(rawDate, "yyyy-MM-dd") ?? toIsoDate(rawDate, "dd/MM/yyyy");
+    if (!date) {
+      if (index > 0 || /\d/.test(rawDate)) errors.push(`Row ${index + 1}: "${rawDate}" is not a date`);
+      return;
+    }
+    if (!name) {
+      errors.push(`Row ${index + 1}: ${date} has no name`);
+      return;
+    }
+    holidays.push({ date, name: name.slice(0, 100) });
+  });
+
+  return { holidays, errors };
+}
@@ -0,0 +1,30 @@
+import type { Roster, RosterShift } from "@shared/schema";
+import { storage } from "./storage";
+
+export type LiveShift = RosterShift & { rosterId: string; locationId: string };
+
+// What staff see of a roster: its latest published version, never the draft
+export async function getPublishedView(roster: Roster | null): Promise<Roster | null> {
+  if (!roster || roster.status !== "published" || !roster.version) return null;
+  const version = await storage.getRosterVersion(roster.id, roster.version);
+  if (!version) return null;
+  return { ...roster, name: version.name, shifts: version.shifts, updatedAt: version.publishedAt };
+}
+
+// A roster as its swaps and open shifts are decided on: the published version when there
+// is one, so a manager's unpublished edits don't come into it, and otherwise the roster as
+// it is, for the checks to turn away as not live
+export async function getLiveRoster(rosterId: string): Promise<Roster | null> {
+  const roster = await storage.getRosterById(rosterId);
+  return (await getPublishedView(roster)) ?? roster;
+}
+
+// A shift as it stands on its live roster (see getLiveRoster). A shift only in the draft
+// so far is not found.
+export async function getLiveShift(shiftId: string): Promise<{ shift: LiveShift; roster: Roster } | null> {
+  const draftShift = await storage.getShiftById(shiftId);
+  const roster = draftShift ? await getLiveRoster(draftShift.rosterId) : null;
+  const shift = roster?.shifts.find((s) => s.id === shiftId);
+  if (!shift || !roster) return null;
+  return { shift: { ...shift, rosterId: roster.id, locationId: roster.locationId }, roster };
+}
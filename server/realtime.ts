@@ -0,0 +1,158 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  clientEventSchema,
+  REALTIME_PATH,
+  type RosterViewer,
+  type ServerEvent,
+} from "@shared/realtime";
+import type { StaffMember, User } from "@shared/schema";
+import { storage } from "./storage";
+import { isManager } from "./auth";
+
+// Who an event goes to. A list of names means those staff members and every manager.
+export type Audience = "everyone" | "managers" | StaffMember[];
+
+export interface Realtime {
+  publish(event: ServerEvent, audience: Audience): void;
+}
+
+interface Connection {
+  socket: WebSocket;
+  user: User;
+  alive: boolean;
+  rosterId: string | null;
+  editing: boolean;
+}
+
+const HEARTBEAT_MS = 30_000;
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// The logged-in user behind an upgrade request, read from the same session cookie the API uses
+function authenticate(sessionParser: RequestHandler, req: IncomingMessage): Promise<User | null> {
+  return new Promise((resolve) => {
+    sessionParser(req as Request, {} as Response, async (err?: unknown) => {
+      const session = (req as Request).session as { passport?: { user?: string } } | undefined;
+      const userId = session?.passport?.user;
+      if (err || !userId) return resolve(null);
+      try {
+        resolve(await storage.getUserById(userId));
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+}
+
+// A WebSocket channel on the app's HTTP server. Clients authenticate with their session
+// cookie; routes publish events after each change, and clients report the roster they
+// have open so everyone on it can see who else is there.
+export function setupRealtime(httpServer: Server, sessionParser: RequestHandler): Realtime {
+  const wss = new WebSocketServer({ noServer: true });
+  const connections = new Set<Connection>();
+
+  function send(connection: Connection, event: ServerEvent) {
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(JSON.stringify(event));
+    }
+  }
+
+  function publish(event: ServerEvent, audience: Audience) {
+    for (const connection of Array.from(connections)) {
+      const { user } = connection;
+      const included =
+        audience === "everyone" ||
+        isManager(user) ||
+        (Array.isArray(audience) && !!user.staffName && audience.includes(user.staffName));
+      if (included) send(connection, event);
+    }
+  }
+
+  // One entry per user, editing if any of their tabs is
+  function viewersOf(rosterId: string): RosterViewer[] {
+    const viewers = new Map<string, RosterViewer>();
+    for (const { user, rosterId: viewing, editing } of Array.from(connections)) {
+      if (viewing !== rosterId) continue;
+      const existing = viewers.get(user.id);
+      viewers.set(user.id, {
+        userId: user.id,
+        username: user.username,
+        editing: editing || !!existing?.editing,
+      });
+    }
+    return Array.from(viewers.values());
+  }
+
+  function announcePresence(rosterId: string | null) {
+    if (!rosterId) return;
+    const event: ServerEvent = { type: "presence", rosterId, viewers: viewersOf(rosterId) };
+    for (const connection of Array.from(connections)) {
+      if (connection.rosterId === rosterId) send(connection, event);
+    }
+  }
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== REALTIME_PATH) return;
+
+    const user = await authenticate(sessionParser, req);
+    if (!user) return reject(socket, "401 Unauthorized");
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const connection: Connection = { socket: ws, user, alive: true, rosterId: null, editing: false };
+      connections.add(connection);
+
+      ws.on("pong", () => {
+        connection.alive = true;
+      });
+
+      ws.on("message", (data) => {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(data.toString());
+        } catch {
+          return;
+        }
+        const result = clientEventSchema.safeParse(parsed);
+        if (!result.success) return;
+
+        const left = connection.rosterId;
+        connection.rosterId = result.data.rosterId;
+        connection.editing = result.data.rosterId !== null && result.data.editing;
+        if (left !== connection.rosterId) announcePresence(left);
+        announcePresence(connection.rosterId);
+      });
+
+      ws.on("close", () => {
+        connections.delete(connection);
+        announcePresence(connection.rosterId);
+      });
+    });
+  });
+
+  // Drop connections that stopped answering pings, e.g. a laptop that went to sleep
+  const heartbeat = setInterval(() => {
+    for (const connection of Array.from(connections)) {
+      if (!connection.alive) {
+        connection.socket.terminate();
+        continue;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    }
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  httpServer.on("close", () => {
+    clearInterval(heartbeat);
+    wss.close();
+  });
+
+  return { publish };
+}
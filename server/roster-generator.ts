@@ -1,83 +1,45 @@
-import { format, addDays, getDay, startOfWeek, parseISO } from "date-fns";
-import type { RosterShift, StaffMember } from "@shared/schema";
+import { format, addDays, startOfWeek, parseISO } from "date-fns";
+import type {
+  PublicHoliday,
+  RosterShift,
+  ShiftLayout,
+  ShiftRule,
+  ShiftTemplate,
+  ShiftType,
+  StaffMember,
+  Weekday,
+} from "@shared/schema";
+import { evaluateShiftRules } from "@shared/rule-engine";
+import { formatHours, shiftTimesOn } from "@shared/shift-times";
+import { randomUUID } from "crypto";
 
-// Get allowed staff for a specific shift
-function getAllowedStaff(date: Date, shiftType: "Day" | "Night" | "24h"): StaffMember[] {
-  const dayOfWeek = getDay(date); // 0=Sun, 1=Mon, 2=Tue, 3=Wed, 4=Thu, 5=Fri, 6=Sat
-  
-  // Saturday Day: Only Joflix
-  if (dayOfWeek === 6 && shiftType === "Day") {
-    return ["Joflix"];
-  }
-  
-  // Saturday Night: Ashley, Peninah, Locum (no Joflix)
-  if (dayOfWeek === 6 && shiftType === "Night") {
-    return ["Ashley", "Peninah", "Locum"];
-  }
-  
-  // Sunday: Ashley, Peninah, Locum (no Joflix)
-  if (dayOfWeek === 0) {
-    return ["Ashley", "Peninah", "Locum"];
-  }
-  
-  // Weekdays: All staff
-  return ["Ashley", "Peninah", "Joflix", "Locum"];
+// "Day 12h", "Night 12h"; a type already named after its length ("24h") keeps its name
+function shiftLabel(shiftType: ShiftType, hours: number): string {
+  return shiftType === formatHours(hours) ? shiftType : `${shiftType} ${formatHours(hours)}`;
 }
 
-// Get default assignment based on rules
-function getDefaultAssignment(date: Date, shiftType: "Day" | "Night" | "24h", weekIndex: number): StaffMember | null {
-  const dayOfWeek = getDay(date); // 0=Sun, 6=Sat
-  
-  // Saturday Day: Always Joflix
-  if (dayOfWeek === 6 && shiftType === "Day") {
-    return "Joflix";
-  }
-  
-  // Saturday Night: Alternate Ashley/Peninah, use Locum after week 3
-  if (dayOfWeek === 6 && shiftType === "Night") {
-    if (weekIndex >= 3) return "Locum";
-    return weekIndex % 2 === 0 ? "Ashley" : "Peninah";
-  }
-  
-  // Sunday Day: Alternate Ashley/Peninah
-  if (dayOfWeek === 0 && shiftType === "Day") {
-    return weekIndex % 2 === 0 ? "Ashley" : "Peninah";
-  }
-  
-  // Sunday Night: Alternate Peninah/Ashley (opposite of day)
-  if (dayOfWeek === 0 && shiftType === "Night") {
-    return weekIndex % 2 === 0 ? "Peninah" : "Ashley";
-  }
-  
-  // Weekdays
-  if (dayOfWeek === 1) return "Ashley";     // Monday
-  if (dayOfWeek === 2) return "Peninah";    // Tuesday
-  if (dayOfWeek === 3) return "Joflix";     // Wednesday (48h block start)
-  if (dayOfWeek === 4) return "Joflix";     // Thursday (48h block end)
-  if (dayOfWeek === 5) {                    // Friday
-    return weekIndex >= 3 ? "Locum" : "Peninah";
-  }
-  
-  return null;
-}
-
-// Get shift hours
-function getShiftHours(dayOfWeek: number, shiftType: "Day" | "Night" | "24h"): number {
-  // Weekdays are 24h shifts
-  if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-    return 24;
-  }
-  
-  // Weekend shifts - 12h each
-  if (shiftType === "Day") return 12;
-  if (shiftType === "Night") return 12;
-  
-  return 24;
+// Part of a slot key, so "Long Day" and "long-day" are the same type
+export function shiftTypeSlug(shiftType: ShiftType): string {
+  return shiftType.trim().toLowerCase().replace(/[\s-]+/g, "-");
 }
 
-// Generate roster shifts for a given start date and number of weeks
-export function generateRosterShifts(startDateStr: string, weeks: number): RosterShift[] {
+// Generate roster shifts for a given start date and number of weeks. Each weekday gets the
+// shift types its layout lists, in order, and each type a shift per person it needs, taking
+// its start, end, break and time zone from the type's template. Public holidays run the
+// holiday layout when one is set, and their shifts are marked with the holiday's name.
+export function generateRosterShifts(
+  startDateStr: string,
+  weeks: number,
+  activeStaff: StaffMember[],
+  rules: ShiftRule[],
+  templates: ShiftTemplate[],
+  layout: ShiftLayout,
+  holidays: PublicHoliday[] = []
+): RosterShift[] {
   const shifts: RosterShift[] = [];
+  // Numbered through the whole calendar, not just this roster, so rotations pick up where the last roster left off
+  const holidayDates = Array.from(new Set(holidays.map((h) => h.date))).sort();
+  const holidayNames = new Map(holidays.map((h) => [h.date, h.name]));
   const startDate = parseISO(startDateStr);
   const totalDays = weeks * 7;
   
@@ -86,60 +48,44 @@ export function generateRosterShifts(startDateStr: string, weeks: number): Roste
   
   for (let i = 0; i < totalDays; i++) {
     const date = addDays(adjustedStart, i);
-    const dayOfWeek = getDay(date);
     const weekIndex = Math.floor(i / 7);
     const dateStr = format(date, "yyyy-MM-dd");
-    const weekday = format(date, "EEE");
+    const weekday = format(date, "EEE") as Weekday;
+    const publicHoliday = holidayNames.get(dateStr) ?? null;
+    const holidayIndex = publicHoliday ? holidayDates.indexOf(dateStr) : undefined;
+    const dayLayout = publicHoliday && layout.Holiday ? layout.Holiday : layout[weekday];
     
-    // Weekend shifts (Saturday & Sunday)
-    if (dayOfWeek === 6 || dayOfWeek === 0) {
-      // Day shift
-      const dayHours = getShiftHours(dayOfWeek, "Day");
-      const dayAllowed = getAllowedStaff(date, "Day");
-      const dayAssigned = getDefaultAssignment(date, "Day", weekIndex);
-      
-      shifts.push({
-        id: `${dateStr}-day`,
-        date: dateStr,
-        weekday,
-        shiftType: "Day",
-        shiftLabel: `Day ${dayHours}h`,
-        hours: dayHours,
-        assigned: dayAssigned,
-        allowedStaff: dayAllowed,
-      });
-      
-      // Night shift
-      const nightHours = getShiftHours(dayOfWeek, "Night");
-      const nightAllowed = getAllowedStaff(date, "Night");
-      const nightAssigned = getDefaultAssignment(date, "Night", weekIndex);
-      
-      shifts.push({
-        id: `${dateStr}-night`,
-        date: dateStr,
-        weekday,
-        shiftType: "Night",
-        shiftLabel: `Night ${nightHours}h`,
-        hours: nightHours,
-        assigned: nightAssigned,
-        allowedStaff: nightAllowed,
-      });
-    } else {
-      // Weekday 24h shift
-      const hours = getShiftHours(dayOfWeek, "24h");
-      const allowed = getAllowedStaff(date, "24h");
-      const assigned = getDefaultAssignment(date, "24h", weekIndex);
-      
-      shifts.push({
-        id: `${dateStr}-24h`,
-        date: dateStr,
-        weekday,
-        shiftType: "24h",
-        shiftLabel: "24h",
-        hours,
-        assigned,
-        allowedStaff: allowed,
-      });
+    for (const shiftType of dayLayout) {
+      const template = templates.find((t) => t.shiftType === shiftType);
+      if (!template) continue;
+      const times = shiftTimesOn(dateStr, template);
+      const slotAssigned: StaffMember[] = [];
+
+      for (let position = 1; position <= template.headcount; position++) {
+        const { allowedStaff, defaultAssignment } = evaluateShiftRules(
+          rules,
+          { weekday, shiftType, weekIndex, position, publicHoliday: !!publicHoliday, holidayIndex },
+          activeStaff
+        );
+        // Nobody fills two places on the same shift
+        const assigned = defaultAssignment && !slotAssigned.includes(defaultAssignment) ? defaultAssignment : null;
+        if (assigned) slotAssigned.push(assigned);
+
+        shifts.push({
+          id: randomUUID(),
+          slotKey: `${dateStr}-${shiftTypeSlug(shiftType)}${position > 1 ? `#${position}` : ""}`,
+          date: dateStr,
+          weekday,
+          shiftType,
+          position,
+          shiftLabel: shiftLabel(shiftType, times.hours),
+          ...times,
+          publicHoliday,
+          assigned,
+          allowedStaff,
+          revision: 0,
+        });
+      }
     }
   }
   
@@ -0,0 +1,39 @@
+import { format, parseISO } from "date-fns";
+import type { RosterShift, StaffMember } from "@shared/schema";
+
+// Digests name at most this many shifts per list before summarising the rest
+const DIGEST_LIST_LIMIT = 8;
+
+// "Night shift on Tue 4 Nov"
+export function describeShift(shift: Pick<RosterShift, "date" | "shiftType">): string {
+  return `${shift.shiftType} shift on ${format(parseISO(shift.date), "EEE d MMM")}`;
+}
+
+// "Day on Mon 3 Nov, Night on Wed 5 Nov and 2 more", in date order
+export function listShifts(shifts: RosterShift[]): string {
+  const sorted = [...shifts].sort((a, b) => a.date.localeCompare(b.date) || a.shiftType.localeCompare(b.shiftType));
+  const named = sorted
+    .slice(0, DIGEST_LIST_LIMIT)
+    .map((shift) => `${shift.shiftType} on ${format(parseISO(shift.date), "EEE d MMM")}`);
+  const rest = sorted.length - named.length;
+  return rest > 0 ? `${named.join(", ")} and ${rest} more` : named.join(", ");
+}
+
+// Assigned shifts grouped by who holds them
+export function shiftsByStaff(shifts: RosterShift[]): Map<StaffMember, RosterShift[]> {
+  const byStaff = new Map<StaffMember, RosterShift[]>();
+  for (const shift of shifts) {
+    if (!shift.assigned) continue;
+    byStaff.set(shift.assigned, [...(byStaff.get(shift.assigned) ?? []), shift]);
+  }
+  return byStaff;
+}
+
+// "3 shifts from Mon 3 Nov to Sun 16 Nov"
+export function summarizeShifts(shifts: RosterShift[]): string {
+  const dates = shifts.map((shift) => shift.date).sort();
+  const from = format(parseISO(dates[0]), "EEE d MMM");
+  const to = format(parseISO(dates[dates.length - 1]), "EEE d MMM");
+  const count = `${shifts.length} shift${shifts.length === 1 ? "" : "s"}`;
+  return from === to ? `${count} on ${from}` : `${count} from ${from} to ${to}`;
+}
@@ -0,0 +1,317 @@
+import type {
+  RosterShift,
+  SolverOptions,
+  SolverReport,
+  SolverScore,
+  Staff,
+  StaffMember,
+  UnmetConstraint,
+} from "@shared/schema";
+import { getShiftWindow, type ShiftWindow } from "@shared/shift-times";
+
+// Penalty per broken hard constraint; large enough that any feasible
+// assignment always beats an infeasible one
+const HARD_PENALTY = 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Generation waits on the search, so it stops here even if maxIterations isn't reached
+const SOLVER_TIME_LIMIT_MS = 3000;
+
+export interface SolverResult {
+  shifts: RosterShift[];
+  report: SolverReport;
+}
+
+// Small seeded PRNG so a given seed always produces the same roster
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function isOnLeave(staffName: StaffMember, date: string, options: SolverOptions): boolean {
+  return options.leave.some((l) => l.staff === staffName && l.startDate <= date && date <= l.endDate);
+}
+
+function isWorkingElsewhere(staffName: StaffMember, window: ShiftWindow, commitments: RosterShift[]): boolean {
+  return commitments.some((c) => {
+    if (c.assigned !== staffName) return false;
+    const other = getShiftWindow(c);
+    return other.start < window.end && window.start < other.end;
+  });
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length);
+}
+
+export class RosterProblem {
+  readonly windows: ShiftWindow[];
+  readonly candidates: StaffMember[][];
+  readonly permanentStaff: StaffMember[];
+  readonly locumStaff: Set<StaffMember>;
+  readonly preferredDays: Map<StaffMember, Set<string>>;
+
+  constructor(
+    readonly shifts: RosterShift[],
+    directory: Staff[],
+    readonly options: SolverOptions,
+    commitments: RosterShift[]
+  ) {
+    this.windows = shifts.map(getShiftWindow);
+    // Allowed staff, leave and shifts at other locations are enforced by never offering a blocked candidate
+    this.candidates = shifts.map((shift, i) =>
+      shift.allowedStaff.filter(
+        (name) => !isOnLeave(name, shift.date, options) && !isWorkingElsewhere(name, this.windows[i], commitments)
+      )
+    );
+
+    const active = directory.filter((s) => s.isActive);
+    this.locumStaff = new Set(active.filter((s) => s.role === "Locum").map((s) => s.name));
+    this.permanentStaff = active.filter((s) => s.role !== "Locum").map((s) => s.name);
+    this.preferredDays = new Map(options.preferredDays.map((p) => [p.staff, new Set<string>(p.weekdays)]));
+  }
+
+  // Order of one person's shifts: by start time, then by index for shifts starting together
+  compareShifts(a: number, b: number): number {
+    return this.windows[a].start - this.windows[b].start || a - b;
+  }
+
+  // Whether someone working shift a and then shift b gets too little rest in between
+  tooLittleRest(a: number, b: number): boolean {
+    return this.windows[b].start - this.windows[a].end < this.options.minRestHours * HOUR_MS;
+  }
+
+  // Pairs of shift indexes worked by the same person with too little rest between them
+  restViolations(assignment: (StaffMember | null)[]): [number, number][] {
+    const byStaff = new Map<StaffMember, number[]>();
+    assignment.forEach((name, i) => {
+      if (!name) return;
+      const indexes = byStaff.get(name);
+      if (indexes) indexes.push(i);
+      else byStaff.set(name, [i]);
+    });
+
+    const violations: [number, number][] = [];
+    byStaff.forEach((indexes) => {
+      indexes.sort((a, b) => this.compareShifts(a, b));
+      for (let k = 1; k < indexes.length; k++) {
+        if (this.tooLittleRest(indexes[k - 1], indexes[k])) {
+          violations.push([indexes[k - 1], indexes[k]]);
+        }
+      }
+    });
+    return violations;
+  }
+}
+
+// One assignment with its running totals, kept up to date as shifts change hands, so a
+// search step costs only the shifts it moves rather than a rescore of the whole roster
+export class RosterState {
+  readonly assignment: (StaffMember | null)[] = [];
+  private readonly hours: Map<StaffMember, number>;
+  // Public holiday hours are balanced on their own, so nobody works every bank holiday
+  private readonly holidayHours: Map<StaffMember, number>;
+  // Each person's shift indexes, in the order they work them
+  private readonly shiftsByStaff = new Map<StaffMember, number[]>();
+  private locumShiftCount = 0;
+  private preferenceMisses = 0;
+  private uncovered = 0;
+  private restViolations = 0;
+
+  constructor(private readonly problem: RosterProblem, assignment: (StaffMember | null)[]) {
+    this.hours = new Map(problem.permanentStaff.map((name) => [name, 0]));
+    this.holidayHours = new Map(problem.permanentStaff.map((name) => [name, 0]));
+    assignment.forEach((name, i) => {
+      this.assignment.push(name);
+      this.tally(i, name, 1);
+    });
+  }
+
+  assign(i: number, name: StaffMember | null) {
+    this.tally(i, this.assignment[i], -1);
+    this.assignment[i] = name;
+    this.tally(i, name, 1);
+  }
+
+  // Adds (sign 1) or takes away (sign -1) what shift i worked by name contributes
+  private tally(i: number, name: StaffMember | null, sign: 1 | -1) {
+    const { problem } = this;
+    const shift = problem.shifts[i];
+    if (!name) {
+      if (problem.candidates[i].length > 0) this.uncovered += sign;
+      return;
+    }
+    if (this.hours.has(name)) this.hours.set(name, this.hours.get(name)! + sign * shift.hours);
+    if (this.holidayHours.has(name) && shift.publicHoliday) {
+      this.holidayHours.set(name, this.holidayHours.get(name)! + sign * shift.hours);
+    }
+    if (problem.locumStaff.has(name)) this.locumShiftCount += sign;
+    const preferred = problem.preferredDays.get(name);
+    if (preferred && !preferred.has(shift.weekday)) this.preferenceMisses += sign;
+
+    // Rest only depends on the shifts either side of this one in the person's own order
+    let indexes = this.shiftsByStaff.get(name);
+    if (!indexes) {
+      indexes = [];
+      this.shiftsByStaff.set(name, indexes);
+    }
+    let at = 0;
+    let high = indexes.length;
+    while (at < high) {
+      const mid = (at + high) >> 1;
+      if (problem.compareShifts(indexes[mid], i) < 0) at = mid + 1;
+      else high = mid;
+    }
+    const prev = at > 0 ? indexes[at - 1] : undefined;
+    const next = indexes[sign === 1 ? at : at + 1];
+    let change = 0;
+    if (prev !== undefined && next !== undefined && problem.tooLittleRest(prev, next)) change--;
+    if (prev !== undefined && problem.tooLittleRest(prev, i)) change++;
+    if (next !== undefined && problem.tooLittleRest(i, next)) change++;
+    this.restViolations += sign * change;
+    if (sign === 1) indexes.splice(at, 0, i);
+    else indexes.splice(at, 1);
+  }
+
+  score(): {
+    score: SolverScore;
+    hoursStdDev: number;
+    holidayHoursStdDev: number;
+    locumShiftCount: number;
+    preferenceMisses: number;
+  } {
+    const { weights } = this.problem.options;
+    const hoursStdDev = standardDeviation(Array.from(this.hours.values()));
+    const holidayHoursStdDev = standardDeviation(Array.from(this.holidayHours.values()));
+
+    const score: SolverScore = {
+      hoursBalance: weights.equalHours * hoursStdDev,
+      holidayBalance: weights.equalHolidayHours * holidayHoursStdDev,
+      locumShifts: weights.locumShifts * this.locumShiftCount,
+      preferredDays: weights.preferredDays * this.preferenceMisses,
+      hardViolations: HARD_PENALTY * (this.restViolations + this.uncovered),
+      total: 0,
+    };
+    score.total = score.hoursBalance + score.holidayBalance + score.locumShifts + score.preferredDays + score.hardViolations;
+
+    const { locumShiftCount, preferenceMisses } = this;
+    return { score, hoursStdDev, holidayHoursStdDev, locumShiftCount, preferenceMisses };
+  }
+}
+
+// Fill a roster by local search: start from the rule defaults (or the first
+// feasible candidate), then anneal over single reassignments and pairwise swaps.
+// Commitments are shifts the same staff already hold on other rosters. A run that
+// hits the time limit keeps the best roster found so far.
+export function solveRoster(
+  shifts: RosterShift[],
+  directory: Staff[],
+  options: SolverOptions,
+  commitments: RosterShift[] = []
+): SolverResult {
+  const problem = new RosterProblem(shifts, directory, options, commitments);
+  const random = mulberry32(options.seed ?? 1);
+
+  const state = new RosterState(problem, shifts.map((shift, i) => {
+    const candidates = problem.candidates[i];
+    if (shift.assigned && candidates.includes(shift.assigned)) return shift.assigned;
+    return candidates[0] ?? null;
+  }));
+  let currentScore = state.score().score.total;
+  let best = state.assignment.slice();
+  let bestScore = currentScore;
+
+  const movable = shifts.map((_, i) => i).filter((i) => problem.candidates[i].length > 1);
+  const startTemperature = 10;
+  const deadline = Date.now() + SOLVER_TIME_LIMIT_MS;
+  let iterations = 0;
+
+  if (movable.length > 0) {
+    for (; iterations < options.maxIterations; iterations++) {
+      if (iterations % 1000 === 0 && Date.now() > deadline) break;
+      const temperature = startTemperature * Math.pow(0.001, iterations / options.maxIterations);
+      const i = movable[Math.floor(random() * movable.length)];
+      const moves: [number, StaffMember | null][] = [];
+
+      if (random() < 0.5) {
+        // Reassign one shift to another eligible person
+        const candidates = problem.candidates[i];
+        moves.push([i, candidates[Math.floor(random() * candidates.length)]]);
+      } else {
+        // Swap two people, if each may work the other's shift
+        const j = movable[Math.floor(random() * movable.length)];
+        const a = state.assignment[i];
+        const b = state.assignment[j];
+        if (i === j || a === b || !a || !b) continue;
+        if (!problem.candidates[i].includes(b) || !problem.candidates[j].includes(a)) continue;
+        moves.push([i, b], [j, a]);
+      }
+
+      const undo = moves.map(([k]) => [k, state.assignment[k]] as const).reverse();
+      for (const [k, name] of moves) state.assign(k, name);
+      const nextScore = state.score().score.total;
+      const delta = nextScore - currentScore;
+      if (delta <= 0 || random() < Math.exp(-delta / temperature)) {
+        currentScore = nextScore;
+        if (currentScore < bestScore) {
+          best = state.assignment.slice();
+          bestScore = currentScore;
+        }
+      } else {
+        for (const [k, name] of undo) state.assign(k, name);
+      }
+    }
+  }
+
+  const solvedShifts = shifts.map((shift, i) => ({ ...shift, assigned: best[i] }));
+  const { score, hoursStdDev, holidayHoursStdDev, locumShiftCount, preferenceMisses } = new RosterState(problem, best).score();
+
+  const unmet: UnmetConstraint[] = [];
+  solvedShifts.forEach((shift, i) => {
+    if (!shift.assigned) {
+      unmet.push({
+        constraint: "coverage",
+        shiftId: shift.id,
+        date: shift.date,
+        shiftType: shift.shiftType,
+        staff: null,
+        message: problem.candidates[i].length === 0
+          ? "Nobody eligible is available for this shift"
+          : "Shift left unassigned",
+      });
+    }
+  });
+  problem.restViolations(best).forEach(([prev, next]) => {
+    const shift = solvedShifts[next];
+    unmet.push({
+      constraint: "minimum_rest",
+      shiftId: shift.id,
+      date: shift.date,
+      shiftType: shift.shiftType,
+      staff: shift.assigned,
+      message: `${shift.assigned} has less than ${options.minRestHours}h rest after the ${solvedShifts[prev].date} ${solvedShifts[prev].shiftType} shift`,
+    });
+  });
+
+  return {
+    shifts: solvedShifts,
+    report: {
+      score,
+      unmet,
+      iterations,
+      hoursStdDev: Math.round(hoursStdDev * 10) / 10,
+      holidayHoursStdDev: Math.round(holidayHoursStdDev * 10) / 10,
+      locumShiftCount,
+      preferenceMisses,
+    },
+  };
+}
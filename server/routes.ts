@@ -1,63 +1,1871 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { generateRosterShifts } from "./roster-generator";
+import { storage, StorageConflictError } from "./storage";
+import { generateRosterShifts, shiftTypeSlug } from "./roster-generator";
+import { solveRoster } from "./roster-solver";
 import { generateExcelRoster } from "./excel-export";
+import { checkRosterCompliance, findAssignmentViolations } from "./compliance";
+import { expireStartedSwapRequests, validateSwap, type SwapProblem } from "./swap-validation";
+import {
+  closeLapsedOpenShifts,
+  pickClaimant,
+  validateClaimant,
+  validatePosting,
+  type OpenShiftProblem,
+} from "./open-shifts";
+import { setupAuth, seedAdminUser, hashPassword, requireRole, isManager } from "./auth";
+import { buildStaffCalendar } from "./calendar";
+import { setupRealtime } from "./realtime";
+import { describeShift, listShifts, shiftsByStaff, summarizeShifts } from "./roster-notifications";
+import { describeOverlap, findOverlapElsewhere, getShiftsElsewhere } from "./cross-site";
+import { parseCsvHolidays, parseIcsHolidays } from "./public-holidays";
+import { startNotificationDispatcher } from "./notification-dispatcher";
+import { checkWebhookUrl } from "./notification-transports";
+import { getLiveRoster, getLiveShift, getPublishedView } from "./published-roster";
 import { 
   generateRosterRequestSchema, 
   updateShiftRequestSchema,
   createSwapRequestSchema,
   respondSwapRequestSchema,
-  STAFF_MEMBERS,
-  type StaffMember
+  createLocationRequestSchema,
+  updateLocationRequestSchema,
+  createPublicHolidayRequestSchema,
+  importPublicHolidaysRequestSchema,
+  createStaffRequestSchema,
+  updateStaffRequestSchema,
+  createShiftRuleRequestSchema,
+  updateShiftRuleRequestSchema,
+  createUserRequestSchema,
+  updateUserRequestSchema,
+  createUnavailabilityRequestSchema,
+  respondUnavailabilityRequestSchema,
+  auditQuerySchema,
+  publishRosterRequestSchema,
+  updateRosterStatusRequestSchema,
+  rosterVersionRefSchema,
+  rosterVersionDiffQuerySchema,
+  updateComplianceRulesRequestSchema,
+  createShiftTemplateRequestSchema,
+  updateShiftTemplateRequestSchema,
+  updateShiftLayoutRequestSchema,
+  postOpenShiftRequestSchema,
+  claimOpenShiftRequestSchema,
+  awardOpenShiftRequestSchema,
+  updateNotificationPreferencesRequestSchema,
+  notificationDeliveryQuerySchema,
+  OPEN_SHIFT_STATUSES,
+  UNAVAILABILITY_STATUSES,
+  WEEKDAYS,
+  DEFAULT_LOCATION_ID,
+  DEFAULT_LOCATION_NAME,
+  DEFAULT_STAFF,
+  DEFAULT_SHIFT_RULES,
+  DEFAULT_SHIFT_TEMPLATES,
+  DEFAULT_SHIFT_LAYOUT,
+  MANAGER_ROLES,
+  type AuditAction,
+  type AuditEvent,
+  type CalendarFeedResponse,
+  type ComplianceReport,
+  type NotificationType,
+  type OpenShift,
+  type OpenShiftStatus,
+  type SwapRequestWithDetails,
+  type SwapStatus,
+  type GenerateRosterResponse,
+  type ImportPublicHolidaysResponse,
+  type RestoreRosterVersionResponse,
+  type ShiftConflictResponse,
+  type Roster,
+  type RosterShift,
+  type RosterVersionDiff,
+  type RosterVersion,
+  type RosterVersionRef,
+  type ShiftType,
+  type SolverReport,
+  type StaffMember,
+  type UnavailabilityStatus
 } from "@shared/schema";
-import { randomUUID } from "crypto";
+import { findApprovedLeave } from "@shared/availability";
+import { diffRosterShifts } from "@shared/roster-diff";
+import { canTransition, findCoverageGaps, isRosterEditable, ROSTER_STATUS_LABELS } from "@shared/roster-lifecycle";
+import { swapStage } from "@shared/swap-workflow";
+import { randomBytes, randomUUID } from "crypto";
 import { format, addDays } from "date-fns";
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  // Get current active roster
+  await storage.migrate();
+
+  // Seed the default location on first start; everything from before there were locations belongs to it
+  if (!(await storage.getLocationById(DEFAULT_LOCATION_ID))) {
+    await storage.createLocation({ name: DEFAULT_LOCATION_NAME }, DEFAULT_LOCATION_ID);
+  }
+
+  // Seed the staff directory on first start so existing rosters keep resolving
+  const existingStaff = await storage.getStaff();
+  if (existingStaff.length === 0) {
+    for (const member of DEFAULT_STAFF) {
+      await storage.createStaff({ ...member, locationIds: [DEFAULT_LOCATION_ID] });
+    }
+  }
+
+  // Seed the shift types and weekly layout on first start with the original fixed pattern.
+  // Databases that only stored edited times get the other default types too.
+  const existingLayout = await storage.getShiftLayout();
+  if (WEEKDAYS.every((day) => existingLayout[day].length === 0)) {
+    const existingTypes = await storage.getShiftTemplates();
+    for (const template of DEFAULT_SHIFT_TEMPLATES) {
+      if (!existingTypes.some((t) => t.shiftType === template.shiftType)) {
+        await storage.createShiftTemplate(template);
+      }
+    }
+    await storage.updateShiftLayout(DEFAULT_SHIFT_LAYOUT);
+  }
+
+  // Seed the shift rules on first start with the original fixed rota
+  const existingRules = await storage.getShiftRules();
+  if (existingRules.length === 0) {
+    for (const rule of DEFAULT_SHIFT_RULES) {
+      await storage.createShiftRule({ ...rule, locationId: null, publicHolidays: "include", isActive: true });
+    }
+  }
+
+  await seedAdminUser();
+
+  // ============== Calendar Feed Routes ==============
+
+  // iCalendar feed of a staff member's shifts on the live roster. Calendar apps cannot log
+  // in, so this is registered ahead of the session check and authenticated by the token in
+  // the URL instead: the staff member's own, or any manager's.
+  app.get("/api/calendar/:staff.ics", async (req, res) => {
+    try {
+      const token = typeof req.query.token === "string" ? req.query.token : "";
+      const owner = token ? await storage.getUserByCalendarToken(token) : null;
+      if (!owner) {
+        return res.status(401).json({ error: "Invalid calendar token" });
+      }
+      const staffMember = req.params.staff;
+      if (!isManager(owner) && owner.staffName !== staffMember) {
+        return res.status(403).json({ error: "This token is for another staff member's calendar" });
+      }
+      const staffList = await storage.getStaff();
+      if (!staffList.some((s) => s.name === staffMember)) {
+        return res.status(404).json({ error: "Staff member not found" });
+      }
+
+      // Every location's live roster, for staff who work at more than one
+      const versions: RosterVersion[] = [];
+      for (const location of await storage.getLocations()) {
+        const active = await storage.getActiveRoster(location.id);
+        for (let version = 1; active && version <= (active.version ?? 0); version++) {
+          const snapshot = await storage.getRosterVersion(active.id, version);
+          if (snapshot) versions.push(snapshot);
+        }
+      }
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `inline; filename="${encodeURIComponent(staffMember)}.ics"`);
+      res.send(buildStaffCalendar(staffMember, versions));
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      res.status(500).json({ error: "Failed to build calendar feed" });
+    }
+  });
+
+  const realtime = setupRealtime(httpServer, setupAuth(app));
+  const dispatcher = startNotificationDispatcher(httpServer);
+
+  const requireManager = requireRole(...MANAGER_ROLES);
+
+  // Append an audit event attributed to the logged-in user
+  async function audit(req: Request, event: Omit<AuditEvent, "id" | "createdAt" | "actorId" | "actorName">) {
+    await storage.recordAuditEvent({
+      ...event,
+      actorId: req.user!.id,
+      actorName: req.user!.username,
+    });
+  }
+
+  // Store a notification, push it to the recipient's open sessions and queue it for
+  // their email and webhook channels. Delivery problems never fail the request.
+  // A notification about a shift belongs to the location of its roster.
+  async function notify(
+    staffMember: StaffMember,
+    type: NotificationType,
+    title: string,
+    message: string,
+    shiftId?: string,
+    swapId?: string,
+    locationId?: string
+  ) {
+    const location = locationId ?? (shiftId ? (await storage.getShiftById(shiftId))?.locationId : undefined);
+    const notification = await storage.createNotification(staffMember, type, title, message, shiftId, swapId, location);
+    realtime.publish({ type: "notification", notification }, [staffMember]);
+    try {
+      await dispatcher.dispatch(notification);
+    } catch (error) {
+      console.error("Error queueing notification delivery:", error);
+    }
+  }
+
+  // Names referenced by a rule must exist in the staff directory
+  async function findUnknownStaff(names: StaffMember[]): Promise<StaffMember[]> {
+    const staffList = await storage.getStaff();
+    return names.filter((name) => !staffList.some((s) => s.name === name));
+  }
+
+  async function findUnknownLocations(ids: string[]): Promise<string[]> {
+    const locations = await storage.getLocations();
+    return ids.filter((id) => !locations.some((l) => l.id === id));
+  }
+
+  // The location a request is about, from ?locationId=; the default location when not given
+  function requestedLocationId(req: Request): string {
+    return typeof req.query.locationId === "string" ? req.query.locationId : DEFAULT_LOCATION_ID;
+  }
+
+  async function findUnknownShiftTypes(names: ShiftType[]): Promise<ShiftType[]> {
+    const templates = await storage.getShiftTemplates();
+    return Array.from(new Set(names.filter((name) => !templates.some((t) => t.shiftType === name))));
+  }
+
+  // ============== User Account Routes ==============
+
+  // List login accounts
+  app.get("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  // Create a login account, optionally linked to a staff record
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const parseResult = createUserRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const { username, password, role, staffId } = parseResult.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: `Username ${username} is already taken` });
+      }
+      if (staffId && !(await storage.getStaffById(staffId))) {
+        return res.status(400).json({ error: "Unknown staff record" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        passwordHash: await hashPassword(password),
+        role,
+        staffId,
+      });
+      res.json(user);
+    } catch (error) {
+      console.error("Error creating user:", error);
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  // Change an account's role, staff link or password
+  app.patch("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const parseResult = updateUserRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const { password, role, staffId } = parseResult.data;
+      if (req.params.id === req.user!.id && role && role !== "admin") {
+        return res.status(400).json({ error: "You cannot remove your own admin role" });
+      }
+      if (staffId && !(await storage.getStaffById(staffId))) {
+        return res.status(400).json({ error: "Unknown staff record" });
+      }
+
+      const user = await storage.updateUser(req.params.id, {
+        role,
+        staffId,
+        passwordHash: password ? await hashPassword(password) : undefined,
+      });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(user);
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  // The logged-in user's calendar feed, creating its token on first use (or a new one on reset,
+  // which stops the old URL working)
+  async function sendCalendarFeed(req: Request, res: Response, reset: boolean) {
+    const staffMember = req.user!.staffName;
+    if (!staffMember) {
+      return res.status(400).json({ error: "Your account is not linked to a staff record" });
+    }
+
+    let token = reset ? null : await storage.getCalendarToken(req.user!.id);
+    if (!token) {
+      token = randomBytes(24).toString("base64url");
+      await storage.setCalendarToken(req.user!.id, token);
+    }
+    const body: CalendarFeedResponse = {
+      staffMember,
+      path: `/api/calendar/${encodeURIComponent(staffMember)}.ics?${new URLSearchParams({ token })}`,
+    };
+    res.json(body);
+  }
+
+  app.get("/api/calendar/feed", async (req, res) => {
+    try {
+      await sendCalendarFeed(req, res, false);
+    } catch (error) {
+      console.error("Error fetching calendar feed:", error);
+      res.status(500).json({ error: "Failed to fetch calendar feed" });
+    }
+  });
+
+  app.post("/api/calendar/feed/reset", async (req, res) => {
+    try {
+      await sendCalendarFeed(req, res, true);
+    } catch (error) {
+      console.error("Error resetting calendar feed:", error);
+      res.status(500).json({ error: "Failed to reset calendar feed" });
+    }
+  });
+
+  // ============== Location Routes ==============
+
+  // All locations, including archived ones
+  app.get("/api/locations", async (req, res) => {
+    try {
+      const locations = await storage.getLocations();
+      res.json(locations);
+    } catch (error) {
+      console.error("Error fetching locations:", error);
+      res.status(500).json({ error: "Failed to fetch locations" });
+    }
+  });
+
+  // Add a location
+  app.post("/api/locations", requireManager, async (req, res) => {
+    try {
+      const parseResult = createLocationRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const { name } = parseResult.data;
+      const locations = await storage.getLocations();
+      if (locations.some((l) => l.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(409).json({ error: `A location named ${name} already exists` });
+      }
+
+      const location = await storage.createLocation(parseResult.data);
+      await audit(req, {
+        action: "location_created",
+        rosterId: null,
+        shiftId: null,
+        swapRequestId: null,
+        before: null,
+        after: location,
+      });
+      res.status(201).json(location);
+    } catch (error) {
+      console.error("Error creating location:", error);
+      res.status(500).json({ error: "Failed to create location" });
+    }
+  });
+
+  // Rename or archive a location. Archived locations keep their rosters but no new ones are generated.
+  app.patch("/api/locations/:id", requireManager, async (req, res) => {
+    try {
+      const parseResult = updateLocationRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const updates = parseResult.data;
+      const locations = await storage.getLocations();
+      const before = locations.find((l) => l.id === req.params.id);
+      if (!before) {
+        return res.status(404).json({ error: "Location not found" });
+      }
+      if (updates.isActive === false && before.id === DEFAULT_LOCATION_ID) {
+        return res.status(400).json({ error: "The default location cannot be archived" });
+      }
+      const name = updates.name;
+      if (name && locations.some((l) => l.id !== before.id && l.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(409).json({ error: `A location named ${name} already exists` });
+      }
+
+      const location = await storage.updateLocation(before.id, updates);
+      await audit(req, {
+        action: "location_updated",
+        rosterId: null,
+        shiftId: null,
+        swapRequestId: null,
+        before,
+        after: location,
+      });
+      res.json(location);
+    } catch (error) {
+      console.error("Error updating location:", error);
+      res.status(500).json({ error: "Failed to update location" });
+    }
+  });
+
+  // ============== Public Holiday Routes ==============
+
+  // The holiday calendar; with ?locationId= only the holidays that apply at that location
+  app.get("/api/public-holidays", async (req, res) => {
+    try {
+      const locationId = typeof req.query.locationId === "string" ? req.query.locationId : undefined;
+      res.json(await storage.getPublicHolidays(locationId));
+    } catch (error) {
+      console.error("Error fetching public holidays:", error);
+      res.status(500).json({ error: "Failed to fetch public holidays" });
+    }
+  });
+
+  // Add one holiday, for every location or just one
+  app.post("/api/public-holidays", requireManager, async (req, res) => {
+    try {
+      const parseResult = createPublicHolidayRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const holiday = parseResult.data;
+      if (holiday.locationId !== null && !(await storage.getLocations()).some((l) => l.id === holiday.locationId)) {
+        return res.status(400).json({ error: `Unknown location ${holiday.locationId}` });
+      }
+      const existing = (await storage.getPublicHolidays()).find(
+        (h) => h.date === holiday.date && h.locationId === holiday.locationId
+      );
+      if (existing) {
+        return res.status(409).json({ error: `${holiday.date} is already ${existing.name}` });
+      }
+
+      const [created] = await storage.createPublicHolidays([holiday]);
+      await audit(req, {
+        action: "public_holiday_created",
+        rosterId: null,
+        shiftId: null,
+        swapRequestId: null,
+        before: null,
+        after: created,
+      });
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error creating public holiday:", error);
+      res.status(500).json({ error: "Failed to create public holiday" });
+    }
+  });
+
+  // Import an ICS or CSV calendar. Dates already in the calendar for the same location are
+  // skipped, so importing next year's file over this year's only adds what is new.
+  app.post("/api/public-holidays/import", requireManager, async (req, res) => {
+    try {
+      const parseResult = importPublicHolidaysRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const { format: fileFormat, content, locationId } = parseResult.data;
+      if (locationId !== null && !(await storage.getLocations()).some((l) => l.id === locationId)) {
+        return res.status(400).json({ error: `Unknown location ${locationId}` });
+      }
+
+      const parsed = fileFormat === "ics" ? parseIcsHolidays(content) : parseCsvHolidays(content);
+      if (parsed.holidays.length === 0) {
+        return res.status(400).json({ error: "No holidays found in the file", details: parsed.errors });
+      }
+
+      const taken = new Set(
+        (await storage.getPublicHolidays())
+          .filter((h) => h.locationId === locationId)
+          .map((h) => h.date)
+      );
+      const toCreate = parsed.holidays
+        .filter((h) => {
+          if (taken.has(h.date)) return false;
+          taken.add(h.date);
+          return true;
+        })
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+      const imported = await storage.createPublicHolidays(toCreate.map((h) => ({ ...h, locationId })));
+      if (imported.length > 0) {
+        await audit(req, {
+          action: "public_holidays_imported",
+          rosterId: null,
+          shiftId: null,
+          swapRequestId: null,
+          before: null,
+          after: { locationId, count: imported.length, from: imported[0].date, to: imported[imported.length - 1].date },
+        });
+      }
+      const response: ImportPublicHolidaysResponse = {
+        imported,
+        skipped: parsed.holidays.length - imported.length,
+        errors: parsed.errors,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Error importing public holidays:", error);
+      res.status(500).json({ error: "Failed to import public holidays" });
+    }
+  });
+
+  // Remove a holiday. Rosters already generated keep their holiday shifts.
+  app.delete("/api/public-holidays/:id", requireManager, async (req, res) => {
+    try {
+      const before = (await storage.getPublicHolidays()).find((h) => h.id === req.params.id);
+      if (!before) {
+        return res.status(404).json({ error: "Public holiday not found" });
+      }
+
+      await storage.deletePublicHoliday(before.id);
+      await audit(req, {
+        action: "public_holiday_deleted",
+        rosterId: null,
+        shiftId: null,
+        swapRequestId: null,
+        before,
+        after: null,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting public holiday:", error);
+      res.status(500).json({ error: "Failed to delete public holiday" });
+    }
+  });
+
+  // ============== Staff Directory Routes ==============
+
+  // Get all staff, including archived members
+  app.get("/api/staff", async (req, res) => {
+    try {
+      const staffList = await storage.getStaff();
+      res.json(staffList);
+    } catch (error) {
+      console.error("Error fetching staff:", error);
+      res.status(500).json({ error: "Failed to fetch staff" });
+    }
+  });
+
+  // Add a staff member
+  app.post("/api/staff", requireManager, async (req, res) => {
+    try {
+      const parseResult = createStaffRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const staffList = await storage.getStaff();
+      const name = parseResult.data.name;
+      if (staffList.some((s) => s.name.toLowerCase() === name.toLowerCase())) {
+        return res.status(409).json({ error: `A staff member named ${name} already exists` });
+      }
+      const unknownLocations = await findUnknownLocations(parseResult.data.locationIds);
+      if (unknownLocations.length > 0) {
+        return res.status(400).json({ error: `Unknown locations: ${unknownLocations.join(", ")}` });
+      }
+
+      const member = await storage.createStaff(parseResult.data);
+      res.json(member);
+    } catch (error) {
+      console.error("Error creating staff member:", error);
+      res.status(500).json({ error: "Failed to create staff member" });
+    }
+  });
+
+  // Update a staff member (role, colour, hours, locations or active flag)
+  app.patch("/api/staff/:id", requireManager, async (req, res) => {
+    try {
+      const parseResult = updateStaffRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+      const unknownLocations = await findUnknownLocations(parseResult.data.locationIds ?? []);
+      if (unknownLocations.length > 0) {
+        return res.status(400).json({ error: `Unknown locations: ${unknownLocations.join(", ")}` });
+      }
+
+      const member = await storage.updateStaff(req.params.id, parseResult.data);
+      if (!member) {
+        return res.status(404).json({ error: "Staff member not found" });
+      }
+      res.json(member);
+    } catch (error) {
+      console.error("Error updating staff member:", error);
+      res.status(500).json({ error: "Failed to update staff member" });
+    }
+  });
+
+  // Archive a staff member - they are kept for historical rosters
+  app.delete("/api/staff/:id", requireManager, async (req, res) => {
+    try {
+      const member = await storage.updateStaff(req.params.id, { isActive: false });
+      if (!member) {
+        return res.status(404).json({ error: "Staff member not found" });
+      }
+      res.json(member);
+    } catch (error) {
+      console.error("Error archiving staff member:", error);
+      res.status(500).json({ error: "Failed to archive staff member" });
+    }
+  });
+
+  // ============== Leave Routes ==============
+
+  // List leave, optionally filtered by staff member and status
+  app.get("/api/unavailability", async (req, res) => {
+    try {
+      const staffMember = req.query.staff as StaffMember | undefined;
+      const status = req.query.status as UnavailabilityStatus | undefined;
+      if (status && !UNAVAILABILITY_STATUSES.includes(status)) {
+        return res.status(400).json({ error: `Unknown status ${status}` });
+      }
+      const entries = await storage.getUnavailability({ staffMember, status });
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching leave:", error);
+      res.status(500).json({ error: "Failed to fetch leave" });
+    }
+  });
+
+  // Request leave - it only blocks assignments once approved
+  app.post("/api/unavailability", async (req, res) => {
+    try {
+      const parseResult = createUnavailabilityRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      if (!isManager(req.user) && parseResult.data.staffMember !== req.user!.staffName) {
+        return res.status(403).json({ error: "You can only request leave for yourself" });
+      }
+
+      const unknown = await findUnknownStaff([parseResult.data.staffMember]);
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown staff member ${unknown[0]}` });
+      }
+
+      const entry = await storage.createUnavailability(parseResult.data);
+      res.json(entry);
+    } catch (error) {
+      console.error("Error requesting leave:", error);
+      res.status(500).json({ error: "Failed to request leave" });
+    }
+  });
+
+  // Approve or reject a leave request
+  app.post("/api/unavailability/:id/respond", requireManager, async (req, res) => {
+    try {
+      const parseResult = respondUnavailabilityRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const entry = await storage.respondToUnavailability(req.params.id, parseResult.data.status);
+      if (!entry) {
+        return res.status(404).json({ error: "Leave request not found" });
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error("Error responding to leave request:", error);
+      res.status(500).json({ error: "Failed to respond to leave request" });
+    }
+  });
+
+  // Cancel a leave request - staff may only withdraw their own pending requests
+  app.delete("/api/unavailability/:id", async (req, res) => {
+    try {
+      if (!isManager(req.user)) {
+        const own = await storage.getUnavailability({ staffMember: req.user!.staffName ?? undefined, status: "pending" });
+        if (!req.user!.staffName || !own.some((entry) => entry.id === req.params.id)) {
+          return res.status(403).json({ error: "You can only withdraw your own pending leave requests" });
+        }
+      }
+
+      const deleted = await storage.deleteUnavailability(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Leave request not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error cancelling leave request:", error);
+      res.status(500).json({ error: "Failed to cancel leave request" });
+    }
+  });
+
+  // ============== Shift Rule Routes ==============
+
+  // Get all shift rules in evaluation order
+  app.get("/api/rules", async (req, res) => {
+    try {
+      const rules = await storage.getShiftRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching rules:", error);
+      res.status(500).json({ error: "Failed to fetch rules" });
+    }
+  });
+
+  // Create a shift rule
+  app.post("/api/rules", requireManager, async (req, res) => {
+    try {
+      const parseResult = createShiftRuleRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const rule = parseResult.data;
+      const unknown = await findUnknownStaff([...(rule.allowedStaff ?? []), ...rule.rotation]);
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown staff: ${unknown.join(", ")}` });
+      }
+      const unknownTypes = await findUnknownShiftTypes(rule.shiftTypes);
+      if (unknownTypes.length > 0) {
+        return res.status(400).json({ error: `Unknown shift types: ${unknownTypes.join(", ")}` });
+      }
+      if (rule.locationId && (await findUnknownLocations([rule.locationId])).length > 0) {
+        return res.status(400).json({ error: `Unknown location ${rule.locationId}` });
+      }
+
+      const created = await storage.createShiftRule(rule);
+      res.json(created);
+    } catch (error) {
+      console.error("Error creating rule:", error);
+      res.status(500).json({ error: "Failed to create rule" });
+    }
+  });
+
+  // Update a shift rule
+  app.patch("/api/rules/:id", requireManager, async (req, res) => {
+    try {
+      const parseResult = updateShiftRuleRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const updates = parseResult.data;
+      const unknown = await findUnknownStaff([...(updates.allowedStaff ?? []), ...(updates.rotation ?? [])]);
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown staff: ${unknown.join(", ")}` });
+      }
+      const unknownTypes = await findUnknownShiftTypes(updates.shiftTypes ?? []);
+      if (unknownTypes.length > 0) {
+        return res.status(400).json({ error: `Unknown shift types: ${unknownTypes.join(", ")}` });
+      }
+      if (updates.locationId && (await findUnknownLocations([updates.locationId])).length > 0) {
+        return res.status(400).json({ error: `Unknown location ${updates.locationId}` });
+      }
+
+      const existing = (await storage.getShiftRules()).find((r) => r.id === req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+      const fromWeek = updates.fromWeek !== undefined ? updates.fromWeek : existing.fromWeek;
+      const toWeek = updates.toWeek !== undefined ? updates.toWeek : existing.toWeek;
+      if (fromWeek !== null && toWeek !== null && fromWeek > toWeek) {
+        return res.status(400).json({ error: "fromWeek must not be after toWeek" });
+      }
+
+      const updated = await storage.updateShiftRule(req.params.id, updates);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating rule:", error);
+      res.status(500).json({ error: "Failed to update rule" });
+    }
+  });
+
+  // Delete a shift rule
+  app.delete("/api/rules/:id", requireManager, async (req, res) => {
+    try {
+      const deleted = await storage.deleteShiftRule(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Rule not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting rule:", error);
+      res.status(500).json({ error: "Failed to delete rule" });
+    }
+  });
+
+  // ============== Shift Type Routes ==============
+
+  // Shift types with their times and headcount; rosters generated afterwards use them
+  app.get("/api/shift-templates", async (req, res) => {
+    try {
+      res.json(await storage.getShiftTemplates());
+    } catch (error) {
+      console.error("Error fetching shift templates:", error);
+      res.status(500).json({ error: "Failed to fetch shift templates" });
+    }
+  });
+
+  app.post("/api/shift-templates", requireManager, async (req, res) => {
+    try {
+      const parseResult = createShiftTemplateRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      // Slot keys are built from the type, so names must differ by more than case or spacing
+      const template = parseResult.data;
+      const existing = await storage.getShiftTemplates();
+      const clash = existing.find((t) => shiftTypeSlug(t.shiftType) === shiftTypeSlug(template.shiftType));
+      if (clash) {
+        return res.status(409).json({ error: `A shift type called ${clash.shiftType} already exists` });
+      }
+
+      const created = await storage.createShiftTemplate(template);
+      await audit(req, {
+        action: "shift_type_created",
+        rosterId: null,
+        shiftId: null,
+        swapRequestId: null,
+        before: null,
+        after: created,
+      });
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error creating shift type:", error);
+      res.status(500).json({ error: "Failed to create shift type" });
+    }
+  });
+
+  app.patch("/api/shift-templates/:shiftType", requireManager, async (req, res) => {
+    try {
+      const parseResult = updateShiftTemplateRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const shiftType = req.params.shiftType;
+      const before = (await storage.getShiftTemplates()).find((t) => t.shiftType === shiftType);
+      const updated = await storage.updateShiftTemplate(shiftType, parseResult.data);
+      if (!before || !updated) {
+        return res.status(404).json({ error: `Unknown shift type ${shiftType}` });
+      }
+      await audit(req, {
+        action: "shift_template_updated",
+        rosterId: null,
+        shiftId: null,
+        swapRequestId: null,
+        before,
+        after: updated,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating shift template:", error);
+      res.status(500).json({ error: "Failed to update shift template" });
+    }
+  });
+
+  // A type still in the weekly or holiday layout or named by a rule can't go; existing rosters keep their shifts
+  app.delete("/api/shift-templates/:shiftType", requireManager, async (req, res) => {
+    try {
+      const shiftType = req.params.shiftType;
+      const before = (await storage.getShiftTemplates()).find((t) => t.shiftType === shiftType);
+      if (!before) {
+        return res.status(404).json({ error: `Unknown shift type ${shiftType}` });
+      }
+      const layout = await storage.getShiftLayout();
+      const days: string[] = WEEKDAYS.filter((day) => layout[day].includes(shiftType));
+      if (layout.Holiday?.includes(shiftType)) days.push("public holidays");
+      if (days.length > 0) {
+        return res.status(409).json({ error: `${shiftType} still runs on ${days.join(", ")}` });
+      }
+      const rules = (await storage.getShiftRules()).filter((rule) => rule.shiftTypes.includes(shiftType));
+      if (rules.length > 0) {
+        return res.status(409).json({ error: `${shiftType} is used by the rule "${rules[0].name}"` });
+      }
+
+      await storage.deleteShiftTemplate(shiftType);
+      await audit(req, {
+        action: "shift_type_deleted",
+        rosterId: null,
+        shiftId: null,
+        swapRequestId: null,
+        before,
+        after: null,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting shift type:", error);
+      res.status(500).json({ error: "Failed to delete shift type" });
+    }
+  });
+
+  // Which shift types run on each weekday
+  app.get("/api/shift-layout", async (req, res) => {
+    try {
+      res.json(await storage.getShiftLayout());
+    } catch (error) {
+      console.error("Error fetching shift layout:", error);
+      res.status(500).json({ error: "Failed to fetch shift layout" });
+    }
+  });
+
+  app.put("/api/shift-layout", requireManager, async (req, res) => {
+    try {
+      const parseResult = updateShiftLayoutRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const layout = parseResult.data;
+      const unknown = await findUnknownShiftTypes([...WEEKDAYS.flatMap((day) => layout[day]), ...(layout.Holiday ?? [])]);
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown shift types: ${unknown.join(", ")}` });
+      }
+
+      const before = await storage.getShiftLayout();
+      const updated = await storage.updateShiftLayout(layout);
+      await audit(req, {
+        action: "shift_layout_updated",
+        rosterId: null,
+        shiftId: null,
+        swapRequestId: null,
+        before,
+        after: updated,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating shift layout:", error);
+      res.status(500).json({ error: "Failed to update shift layout" });
+    }
+  });
+
+  // ============== Roster Routes ==============
+
+  // Get the active roster of a location (?locationId=, the default location otherwise)
   app.get("/api/roster", async (req, res) => {
     try {
-      const roster = await storage.getActiveRoster();
-      res.json(roster);
+      const roster = await storage.getActiveRoster(requestedLocationId(req));
+      res.json(isManager(req.user) ? roster : await getPublishedView(roster));
+    } catch (error) {
+      console.error("Error fetching roster:", error);
+      res.status(500).json({ error: "Failed to fetch roster" });
+    }
+  });
+
+  // Get all rosters (for history), optionally only those of one location
+  app.get("/api/rosters", async (req, res) => {
+    try {
+      const locationId = typeof req.query.locationId === "string" ? req.query.locationId : undefined;
+      const rosters = await storage.getAllRosters(locationId);
+      res.json(isManager(req.user) ? rosters : rosters.filter((r) => r.status === "published"));
+    } catch (error) {
+      console.error("Error fetching rosters:", error);
+      res.status(500).json({ error: "Failed to fetch rosters" });
+    }
+  });
+
+  // Get roster by ID
+  app.get("/api/roster/:id", async (req, res) => {
+    try {
+      const found = await storage.getRosterById(req.params.id);
+      const roster = isManager(req.user) ? found : await getPublishedView(found);
+      if (!roster) {
+        return res.status(404).json({ error: "Roster not found" });
+      }
+      res.json(roster);
+    } catch (error) {
+      console.error("Error fetching roster:", error);
+      res.status(500).json({ error: "Failed to fetch roster" });
+    }
+  });
+
+  // Generate new roster
+  app.post("/api/roster/generate", requireManager, async (req, res) => {
+    try {
+      const parseResult = generateRosterRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const { locationId, startDate, weeks, name, mode, solver } = parseResult.data;
+      const locations = await storage.getLocations();
+      const location = locations.find((l) => l.id === locationId);
+      if (!location) {
+        return res.status(404).json({ error: "Location not found" });
+      }
+      if (!location.isActive) {
+        return res.status(400).json({ error: `${location.name} is archived` });
+      }
+
+      // Only staff who work at the location, and the rules for it or for every location
+      const staffList = (await storage.getStaff()).filter((s) => s.locationIds.includes(locationId));
+      const activeStaff = staffList
+        .filter((s) => s.isActive)
+        .map((s) => s.name);
+      const rules = (await storage.getShiftRules()).filter((r) => r.locationId === null || r.locationId === locationId);
+      const templates = await storage.getShiftTemplates();
+      const layout = await storage.getShiftLayout();
+      const holidays = await storage.getPublicHolidays(locationId);
+      const approvedLeave = await storage.getUnavailability({ status: "approved" });
+      const elsewhere = await getShiftsElsewhere(locationId);
+
+      // Nobody is defaulted onto a shift that falls in their approved leave or while
+      // they are working at another location
+      let shifts = generateRosterShifts(startDate, weeks, activeStaff, rules, templates, layout, holidays).map((shift) =>
+        shift.assigned &&
+        (findApprovedLeave(approvedLeave, shift.assigned, shift.date) || findOverlapElsewhere(shift.assigned, shift, elsewhere))
+          ? { ...shift, assigned: null }
+          : shift
+      );
+
+      // In solver mode the rule defaults are only a starting point
+      let solverReport: SolverReport | undefined;
+      if (mode === "solver") {
+        const leave = [
+          ...solver.leave,
+          ...approvedLeave.map((l) => ({ staff: l.staffMember, startDate: l.startDate, endDate: l.endDate })),
+        ];
+        const result = solveRoster(shifts, staffList, { ...solver, leave }, elsewhere.map((e) => e.shift));
+        shifts = result.shifts;
+        solverReport = result.report;
+      }
+      
+      // Calculate end date
+      const startDateObj = new Date(startDate);
+      const endDateObj = addDays(startDateObj, weeks * 7 - 1);
+      const endDate = format(endDateObj, "yyyy-MM-dd");
+      
+      // Generate roster name if not provided, saying where once there is more than one location
+      const period = `${format(startDateObj, "MMM d")} - ${format(endDateObj, "MMM d, yyyy")}`;
+      const rosterName = name || (locations.length > 1 ? `${location.name} ${period}` : `Roster ${period}`);
+      
+      const roster = await storage.saveRoster({
+        id: randomUUID(),
+        name: rosterName,
+        locationId,
+        startDate,
+        endDate,
+        weeks,
+        shifts,
+        version: 0,
+        isActive: false,
+      });
+
+      await audit(req, {
+        action: "roster_generated",
+        rosterId: roster.id,
+        shiftId: null,
+        swapRequestId: null,
+        before: null,
+        after: { name: roster.name, locationId, startDate, endDate, weeks, mode, shiftCount: roster.shifts.length },
+      });
+      realtime.publish({ type: "roster_changed", rosterId: roster.id }, "managers");
+
+      const response: GenerateRosterResponse = { ...roster, solverReport };
+      res.json(response);
+    } catch (error) {
+      console.error("Error generating roster:", error);
+      res.status(500).json({ error: "Failed to generate roster" });
+    }
+  });
+
+  // One roster_update notification to each person holding shifts in the given list
+  async function notifyStaffOn(
+    shifts: RosterShift[],
+    locationId: string,
+    title: string,
+    message: (theirs: RosterShift[]) => string
+  ) {
+    for (const [staff, theirs] of Array.from(shiftsByStaff(shifts).entries())) {
+      await notify(staff, "roster_update", title, message(theirs), undefined, undefined, locationId);
+    }
+  }
+
+  // Set active roster
+  app.post("/api/roster/:id/activate", requireManager, async (req, res) => {
+    try {
+      const roster = await storage.getRosterById(req.params.id);
+      if (!roster) {
+        return res.status(404).json({ error: "Roster not found" });
+      }
+      // Staff read the latest published version, so there must be one
+      if (!roster.version) {
+        return res.status(409).json({ error: "Publish this roster before making it live" });
+      }
+
+      const previous = await storage.getActiveRoster(roster.locationId);
+      await storage.setActiveRoster(req.params.id);
+      const live = previous?.id !== roster.id ? await storage.getRosterVersion(roster.id, roster.version) : null;
+      if (live) {
+        await notifyStaffOn(
+          live.shifts,
+          roster.locationId,
+          "Live Roster Changed",
+          (shifts) => `${roster.name} is now the live roster. You have ${summarizeShifts(shifts)} on it.`
+        );
+      }
+      await audit(req, {
+        action: "roster_activated",
+        rosterId: roster.id,
+        shiftId: null,
+        swapRequestId: null,
+        before: { activeRosterId: previous?.id ?? null, activeRosterName: previous?.name ?? null },
+        after: { activeRosterId: roster.id, activeRosterName: roster.name },
+      });
+      realtime.publish({ type: "roster_changed", rosterId: roster.id }, "everyone");
+      res.json({ ...roster, isActive: true, status: "published" });
+    } catch (error) {
+      console.error("Error activating roster:", error);
+      res.status(500).json({ error: "Failed to activate roster" });
+    }
+  });
+
+  // Delete roster
+  app.delete("/api/roster/:id", requireManager, async (req, res) => {
+    try {
+      const roster = await storage.getRosterById(req.params.id);
+      if (!roster) {
+        return res.status(404).json({ error: "Roster not found" });
+      }
+
+      // Staff only ever saw the published version, so only a roster that had one concerns them
+      const lastPublished = roster.version ? await storage.getRosterVersion(roster.id, roster.version) : null;
+      await storage.deleteRoster(req.params.id);
+      if (lastPublished) {
+        await notifyStaffOn(
+          lastPublished.shifts,
+          roster.locationId,
+          "Roster Deleted",
+          (shifts) => `${roster.name} has been deleted, and with it your ${summarizeShifts(shifts)}.`
+        );
+      }
+      await audit(req, {
+        action: "roster_deleted",
+        rosterId: roster.id,
+        shiftId: null,
+        swapRequestId: null,
+        before: {
+          name: roster.name,
+          startDate: roster.startDate,
+          endDate: roster.endDate,
+          isActive: !!roster.isActive,
+          shiftCount: roster.shifts.length,
+        },
+        after: null,
+      });
+      realtime.publish({ type: "roster_changed", rosterId: roster.id }, "everyone");
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting roster:", error);
+      res.status(500).json({ error: "Failed to delete roster" });
+    }
+  });
+
+  // The shift as it is now and who last changed it, for an edit made against an older revision
+  async function sendShiftConflict(res: Response, shift: RosterShift) {
+    const [lastChange] = await storage.getAuditEvents({ shiftId: shift.id, limit: 1 });
+    const body: ShiftConflictResponse = {
+      error: `This shift has been changed${lastChange ? ` by ${lastChange.actorName}` : ""} since you loaded it`,
+      code: "revision_conflict",
+      shift,
+      changedBy: lastChange?.actorName ?? null,
+      changedAt: lastChange?.createdAt ?? null,
+    };
+    return res.status(409).json(body);
+  }
+
+  // Update shift assignment. The edit carries the shift revision it was made against and is
+  // refused with the current shift if anyone has changed it since.
+  app.patch("/api/roster/shift", requireManager, async (req, res) => {
+    try {
+      const parseResult = updateShiftRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const { shiftId, assigned, revision } = parseResult.data;
+
+      const shift = await storage.getShiftById(shiftId);
+      if (!shift) {
+        return res.status(404).json({ error: "Shift not found" });
+      }
+      if (shift.revision !== revision) {
+        return sendShiftConflict(res, shift);
+      }
+
+      const roster = await storage.getRosterById(shift.rosterId);
+      if (roster && !isRosterEditable(roster.status ?? "draft")) {
+        return res.status(409).json({
+          error: `Shifts cannot be edited while the roster is ${ROSTER_STATUS_LABELS[roster.status ?? "draft"].toLowerCase()}`,
+        });
+      }
+
+      // Each place on a shift that needs several people goes to someone different
+      const otherPlace = assigned && roster?.shifts.find(
+        (s) => s.id !== shiftId && s.date === shift.date && s.shiftType === shift.shiftType && s.assigned === assigned
+      );
+      if (otherPlace) {
+        return res.status(400).json({ error: `${assigned} already works this ${shift.shiftType} shift` });
+      }
+
+      if (assigned) {
+        const approvedLeave = await storage.getUnavailability({ staffMember: assigned, status: "approved" });
+        const leave = findApprovedLeave(approvedLeave, assigned, shift.date);
+        if (leave) {
+          return res.status(400).json({
+            error: `${assigned} is on approved ${leave.type} leave from ${leave.startDate} to ${leave.endDate}`,
+          });
+        }
+        const overlap = findOverlapElsewhere(assigned, shift, await getShiftsElsewhere(shift.locationId));
+        if (overlap) {
+          return res.status(400).json({ error: describeOverlap(assigned, overlap), code: "double_booked" });
+        }
+      }
+
+      // Working-time rules only stop the assignment when the manager has switched blocking on
+      if (assigned && roster) {
+        const rules = await storage.getComplianceRules();
+        const violations = rules.blockViolations ? findAssignmentViolations(roster, rules, shiftId, assigned) : [];
+        if (violations.length > 0) {
+          return res.status(409).json({
+            error: violations[0].message,
+            code: "compliance_violation",
+            violations,
+          });
+        }
+      }
+
+      const updatedShift = await storage.updateShift(shiftId, assigned, revision);
+      
+      if (!updatedShift) {
+        return res.status(404).json({ error: "Shift not found" });
+      }
+
+      if (shift.assigned !== updatedShift.assigned) {
+        await audit(req, {
+          action: "shift_updated",
+          rosterId: shift.rosterId,
+          shiftId,
+          swapRequestId: null,
+          before: { assigned: shift.assigned },
+          after: { assigned: updatedShift.assigned },
+        });
+      }
+      realtime.publish({ type: "shift_updated", rosterId: shift.rosterId, shift: updatedShift }, "managers");
+
+      res.json(updatedShift);
+    } catch (error) {
+      console.error("Error updating shift:", error);
+      if (error instanceof StorageConflictError && error.code === "not_allowed") {
+        return res.status(400).json({ error: error.message });
+      }
+      // Lost a race with another edit between the check above and the write
+      if (error instanceof StorageConflictError && error.code === "revision_conflict") {
+        const current = await storage.getShiftById(req.body.shiftId);
+        if (current) return sendShiftConflict(res, current);
+      }
+      res.status(500).json({ error: "Failed to update shift" });
+    }
+  });
+
+  // Export roster to Excel
+  app.post("/api/roster/export", async (req, res) => {
+    try {
+      const active = await storage.getActiveRoster(requestedLocationId(req));
+      const roster = isManager(req.user) ? active : await getPublishedView(active);
+      
+      if (!roster) {
+        return res.status(404).json({ error: "No roster to export" });
+      }
+
+      const staffList = await storage.getStaff();
+      const buffer = await generateExcelRoster(roster, staffList);
+      
+      res.setHeader(
+        "Content-Type",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      );
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename=roster_${roster.startDate}.xlsx`
+      );
+      res.send(buffer);
     } catch (error) {
-      console.error("Error fetching roster:", error);
-      res.status(500).json({ error: "Failed to fetch roster" });
+      console.error("Error exporting roster:", error);
+      res.status(500).json({ error: "Failed to export roster" });
     }
   });
 
-  // Get all rosters (for history)
-  app.get("/api/rosters", async (req, res) => {
+  // ============== Roster Version Routes ==============
+
+  // Shifts of a published version, or the roster's current draft
+  async function getVersionShifts(roster: Roster, ref: RosterVersionRef): Promise<RosterShift[] | null> {
+    if (ref === "draft") return roster.shifts;
+    const version = await storage.getRosterVersion(roster.id, ref);
+    return version ? version.shifts : null;
+  }
+
+  // Tell staff about a newly published version. On the first version everyone rostered
+  // hears how many shifts they have; afterwards only those whose shifts changed hear
+  // about it, one notification per change or a single digest when there are several.
+  async function notifyPublished(published: RosterVersion, previous: RosterVersion | null, locationId: string) {
+    if (!previous) {
+      await notifyStaffOn(
+        published.shifts,
+        locationId,
+        "Roster Published",
+        (shifts) => `${published.name} has been published. You have ${summarizeShifts(shifts)}.`
+      );
+      return;
+    }
+
+    const changes = new Map<StaffMember, { added: RosterShift[]; removed: RosterShift[] }>();
+    const changesFor = (staff: StaffMember) => {
+      if (!changes.has(staff)) changes.set(staff, { added: [], removed: [] });
+      return changes.get(staff)!;
+    };
+    const previousBySlot = new Map(previous.shifts.map((shift) => [shift.slotKey, shift]));
+    const publishedBySlot = new Map(published.shifts.map((shift) => [shift.slotKey, shift]));
+
+    for (const diff of diffRosterShifts(previous.shifts, published.shifts)) {
+      if (!diff.isDifferent) continue;
+      if (diff.leftAssigned) changesFor(diff.leftAssigned).removed.push(previousBySlot.get(diff.slotKey)!);
+      if (diff.rightAssigned) changesFor(diff.rightAssigned).added.push(publishedBySlot.get(diff.slotKey)!);
+    }
+
+    const where = `(${published.name}, version ${published.version})`;
+    for (const [staff, { added, removed }] of Array.from(changes.entries())) {
+      if (added.length + removed.length > 1) {
+        const parts = [`Version ${published.version} of ${published.name} changes ${added.length + removed.length} of your shifts.`];
+        if (added.length > 0) parts.push(`Added: ${listShifts(added)}.`);
+        if (removed.length > 0) parts.push(`Removed: ${listShifts(removed)}.`);
+        await notify(staff, "shift_changed", "Roster Updated", parts.join(" "), undefined, undefined, locationId);
+      } else if (added.length === 1) {
+        await notify(
+          staff,
+          "shift_assigned",
+          "Shift Assigned",
+          `You have been put on the ${describeShift(added[0])} ${where}`,
+          added[0].id
+        );
+      } else {
+        await notify(
+          staff,
+          "shift_changed",
+          "Shift Removed",
+          `You have been taken off the ${describeShift(removed[0])} ${where}`,
+          publishedBySlot.get(removed[0].slotKey)?.id
+        );
+      }
+    }
+  }
+
+  // Publish the draft as the next numbered version and make it the live roster
+  app.post("/api/roster/:id/publish", requireManager, async (req, res) => {
+    try {
+      const parseResult = publishRosterRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const roster = await storage.getRosterById(req.params.id);
+      if (!roster) {
+        return res.status(404).json({ error: "Roster not found" });
+      }
+
+      const status = roster.status ?? "draft";
+      if (!canTransition(status, "published")) {
+        return res.status(409).json({ error: "An archived roster must be reopened as a draft before publishing" });
+      }
+
+      const { note, override } = parseResult.data;
+      const gaps = findCoverageGaps(roster.shifts);
+      if (gaps.length > 0 && !override) {
+        return res.status(409).json({
+          error: `${gaps.length} shift${gaps.length === 1 ? " has" : "s have"} no one assigned`,
+          code: "coverage_gaps",
+          gaps,
+        });
+      }
+
+      const previous = roster.version ? await storage.getRosterVersion(roster.id, roster.version) : null;
+
+      // Nothing to publish if the live roster still matches its latest version
+      if (status === "published" && previous && !diffRosterShifts(previous.shifts, roster.shifts).some((d) => d.isDifferent)) {
+        return res.status(409).json({ error: `No changes since version ${roster.version}`, code: "no_changes" });
+      }
+
+      const published = await storage.publishRoster(roster.id, req.user!.username, note);
+      if (!published) {
+        return res.status(404).json({ error: "Roster not found" });
+      }
+
+      await audit(req, {
+        action: "roster_published",
+        rosterId: roster.id,
+        shiftId: null,
+        swapRequestId: null,
+        before: { version: roster.version ?? 0, status },
+        after: { version: published.version, status: "published", note: published.note, unfilledShifts: gaps.length },
+      });
+      await notifyPublished(published, previous, roster.locationId);
+      realtime.publish({ type: "roster_changed", rosterId: roster.id }, "everyone");
+
+      res.json(published);
+    } catch (error) {
+      console.error("Error publishing roster:", error);
+      res.status(500).json({ error: "Failed to publish roster" });
+    }
+  });
+
+  // Move a roster between draft, under review and archived
+  app.post("/api/roster/:id/status", requireManager, async (req, res) => {
     try {
-      const rosters = await storage.getAllRosters();
-      res.json(rosters);
+      const parseResult = updateRosterStatusRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const roster = await storage.getRosterById(req.params.id);
+      if (!roster) {
+        return res.status(404).json({ error: "Roster not found" });
+      }
+
+      const from = roster.status ?? "draft";
+      const to = parseResult.data.status;
+      if (!canTransition(from, to)) {
+        return res.status(409).json({
+          error: `Cannot move a roster from ${ROSTER_STATUS_LABELS[from].toLowerCase()} to ${ROSTER_STATUS_LABELS[to].toLowerCase()}`,
+        });
+      }
+
+      await storage.setRosterStatus(roster.id, to);
+      await audit(req, {
+        action: "roster_status_changed",
+        rosterId: roster.id,
+        shiftId: null,
+        swapRequestId: null,
+        before: { status: from },
+        after: { status: to },
+      });
+      realtime.publish({ type: "roster_changed", rosterId: roster.id }, "everyone");
+      res.json({ ...roster, status: to, isActive: false });
     } catch (error) {
-      console.error("Error fetching rosters:", error);
-      res.status(500).json({ error: "Failed to fetch rosters" });
+      console.error("Error updating roster status:", error);
+      res.status(500).json({ error: "Failed to update roster status" });
     }
   });
 
-  // Get roster by ID
-  app.get("/api/roster/:id", async (req, res) => {
+  // List published versions, newest first
+  app.get("/api/roster/:id/versions", requireManager, async (req, res) => {
+    try {
+      const roster = await storage.getRosterById(req.params.id);
+      if (!roster) {
+        return res.status(404).json({ error: "Roster not found" });
+      }
+
+      const versions = await storage.getRosterVersions(roster.id);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching roster versions:", error);
+      res.status(500).json({ error: "Failed to fetch roster versions" });
+    }
+  });
+
+  // Compare two versions of the same roster (?from=1&to=draft)
+  app.get("/api/roster/:id/versions/diff", requireManager, async (req, res) => {
+    try {
+      const parseResult = rosterVersionDiffQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const roster = await storage.getRosterById(req.params.id);
+      if (!roster) {
+        return res.status(404).json({ error: "Roster not found" });
+      }
+
+      const { from, to } = parseResult.data;
+      const fromShifts = await getVersionShifts(roster, from);
+      const toShifts = await getVersionShifts(roster, to);
+      if (!fromShifts || !toShifts) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+
+      const diffs = diffRosterShifts(fromShifts, toShifts);
+      const response: RosterVersionDiff = {
+        rosterId: roster.id,
+        from,
+        to,
+        changedCount: diffs.filter((d) => d.isDifferent).length,
+        shifts: diffs,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("Error comparing roster versions:", error);
+      res.status(500).json({ error: "Failed to compare roster versions" });
+    }
+  });
+
+  // Get a published version with its shifts
+  app.get("/api/roster/:id/versions/:version", requireManager, async (req, res) => {
+    try {
+      const parseResult = rosterVersionRefSchema.safeParse(req.params.version);
+      if (!parseResult.success || parseResult.data === "draft") {
+        return res.status(400).json({ error: "Invalid version number" });
+      }
+
+      const version = await storage.getRosterVersion(req.params.id, parseResult.data);
+      if (!version) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+      res.json(version);
+    } catch (error) {
+      console.error("Error fetching roster version:", error);
+      res.status(500).json({ error: "Failed to fetch roster version" });
+    }
+  });
+
+  // Copy a published version's assignments back into the draft
+  app.post("/api/roster/:id/versions/:version/restore", requireManager, async (req, res) => {
+    try {
+      const parseResult = rosterVersionRefSchema.safeParse(req.params.version);
+      if (!parseResult.success || parseResult.data === "draft") {
+        return res.status(400).json({ error: "Invalid version number" });
+      }
+
+      const draft = await storage.getRosterById(req.params.id);
+      if (draft && !isRosterEditable(draft.status ?? "draft")) {
+        return res.status(409).json({
+          error: `Versions cannot be restored while the roster is ${ROSTER_STATUS_LABELS[draft.status ?? "draft"].toLowerCase()}`,
+        });
+      }
+
+      const version = await storage.getRosterVersion(req.params.id, parseResult.data);
+      if (!version) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+
+      // As when generating, nobody is put back onto a shift inside their approved leave
+      const approvedLeave = await storage.getUnavailability({ status: "approved" });
+      const clearedForLeave = version.shifts.filter(
+        (shift) => shift.assigned && findApprovedLeave(approvedLeave, shift.assigned, shift.date)
+      );
+      const assignments = version.shifts.map((shift) => ({
+        slotKey: shift.slotKey,
+        assigned: clearedForLeave.includes(shift) ? null : shift.assigned,
+      }));
+
+      const roster = await storage.restoreShiftAssignments(version.rosterId, assignments);
+      if (!roster) {
+        return res.status(404).json({ error: "Roster not found" });
+      }
+
+      await audit(req, {
+        action: "roster_restored",
+        rosterId: roster.id,
+        shiftId: null,
+        swapRequestId: null,
+        before: null,
+        after: { restoredVersion: version.version, clearedForLeave: clearedForLeave.length },
+      });
+      realtime.publish({ type: "roster_changed", rosterId: roster.id }, "managers");
+
+      const response: RestoreRosterVersionResponse = { ...roster, clearedForLeave };
+      res.json(response);
+    } catch (error) {
+      console.error("Error restoring roster version:", error);
+      res.status(500).json({ error: "Failed to restore roster version" });
+    }
+  });
+
+  // ============== Compliance Routes ==============
+
+  // Working-time rules rosters are checked against
+  app.get("/api/compliance/rules", async (req, res) => {
+    try {
+      res.json(await storage.getComplianceRules());
+    } catch (error) {
+      console.error("Error fetching compliance rules:", error);
+      res.status(500).json({ error: "Failed to fetch compliance rules" });
+    }
+  });
+
+  app.patch("/api/compliance/rules", requireManager, async (req, res) => {
+    try {
+      const parseResult = updateComplianceRulesRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const before = await storage.getComplianceRules();
+      const updated = await storage.updateComplianceRules(parseResult.data);
+      await audit(req, {
+        action: "compliance_rules_updated",
+        rosterId: null,
+        shiftId: null,
+        swapRequestId: null,
+        before,
+        after: updated,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating compliance rules:", error);
+      res.status(500).json({ error: "Failed to update compliance rules" });
+    }
+  });
+
+  // Check a roster's current assignments against the working-time rules
+  app.get("/api/roster/:id/compliance", requireManager, async (req, res) => {
+    try {
+      const roster = await storage.getRosterById(req.params.id);
+      if (!roster) {
+        return res.status(404).json({ error: "Roster not found" });
+      }
+
+      const rules = await storage.getComplianceRules();
+      const report: ComplianceReport = {
+        rosterId: roster.id,
+        rules,
+        violations: checkRosterCompliance(roster, rules),
+      };
+      res.json(report);
+    } catch (error) {
+      console.error("Error checking roster compliance:", error);
+      res.status(500).json({ error: "Failed to check roster compliance" });
+    }
+  });
+
+  // ============== Swap Request Routes ==============
+
+  // Notify managers linked to a staff record, skipping names already told. When the
+  // notification is about a shift, only managers who work at its location hear about it.
+  async function notifyManagers(skip: StaffMember[], type: NotificationType, title: string, message: string, shiftId?: string, swapId?: string) {
+    const users = await storage.getUsers();
+    const locationId = shiftId ? (await storage.getShiftById(shiftId))?.locationId : undefined;
+    const staffList = await storage.getStaff();
+    const worksThere = (staffId: string | null) =>
+      !locationId || !!staffList.find((s) => s.id === staffId)?.locationIds.includes(locationId);
+    const names = new Set(
+      users
+        .filter((u) => MANAGER_ROLES.includes(u.role) && u.staffName && !skip.includes(u.staffName) && worksThere(u.staffId))
+        .map((u) => u.staffName!)
+    );
+    for (const name of Array.from(names)) {
+      await notify(name, type, title, message, shiftId, swapId);
+    }
+  }
+
+  // Tell both people in a swap and the managers that it moved on; an approval also changes the roster
+  async function publishSwap(swap: SwapRequestWithDetails) {
+    realtime.publish({ type: "swap_changed", swapId: swap.id }, [swap.fromStaff, swap.toStaff]);
+    if (swap.status === "approved") {
+      const shift = await storage.getShiftById(swap.shiftId);
+      if (shift) realtime.publish({ type: "roster_changed", rosterId: shift.rosterId }, "everyone");
+    }
+  }
+
+  // Expire requests whose shift has started and let the requester know
+  async function expireSwapRequests() {
+    for (const expired of await expireStartedSwapRequests()) {
+      await publishSwap(expired);
+      await notify(
+        expired.fromStaff,
+        "swap_response",
+        "Swap Request Expired",
+        `Your swap request for ${expired.shiftDate} expired because the shift has started`,
+        expired.shiftId,
+        expired.id
+      );
+    }
+  }
+
+  function sendSwapProblem(res: Response, problem: SwapProblem) {
+    const { status, ...body } = problem;
+    return res.status(status).json(body);
+  }
+
+  // "The trade of Alice's 2026-11-02 Day shift for Bob's 2026-11-07 Night shift", for notifications
+  function describeSwap(swap: SwapRequestWithDetails): string {
+    return swap.type === "trade"
+      ? `The trade of ${swap.fromStaff}'s ${swap.shiftDate} ${swap.shiftType} shift for ${swap.toStaff}'s ${swap.counterShiftDate} ${swap.counterShiftType} shift`
+      : `The handover of ${swap.fromStaff}'s ${swap.shiftDate} ${swap.shiftType} shift to ${swap.toStaff}`;
+  }
+
+  // One event per shift in the swap, so a trade shows in both shifts' history
+  async function auditSwap(req: Request, action: AuditAction, swap: SwapRequestWithDetails, fromStatus: SwapStatus) {
+    const shift = await storage.getShiftById(swap.shiftId);
+    const moves: [string, StaffMember, StaffMember][] = [[swap.shiftId, swap.fromStaff, swap.toStaff]];
+    if (swap.counterShiftId) moves.push([swap.counterShiftId, swap.toStaff, swap.fromStaff]);
+    for (const [shiftId, holder, taker] of moves) {
+      await audit(req, {
+        action,
+        rosterId: shift?.rosterId ?? null,
+        shiftId,
+        swapRequestId: swap.id,
+        before: { status: fromStatus, assigned: holder },
+        after: { status: swap.status, assigned: swap.status === "approved" ? taker : holder },
+      });
+    }
+  }
+  
+  // Create swap request
+  app.post("/api/swap-requests", async (req, res) => {
+    try {
+      const parseResult = createSwapRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const { type, shiftId, counterShiftId, fromStaff, toStaff, reason } = parseResult.data;
+      if (!isManager(req.user) && fromStaff !== req.user!.staffName) {
+        return res.status(403).json({ error: "You can only request swaps for your own shifts" });
+      }
+
+      const found = await getLiveShift(shiftId);
+      const counterFound = counterShiftId ? await getLiveShift(counterShiftId) : null;
+      if (!found || (counterShiftId && !counterFound)) {
+        return res.status(404).json({ error: "Shift not found" });
+      }
+
+      // Staff never see drafts, so swaps (and their notifications) only concern the live roster
+      const { shift, roster } = found;
+      const counterShift = counterFound?.shift ?? null;
+      const problem = await validateSwap({ type, shift, counterShift, fromStaff, toStaff }, roster, "request");
+      if (problem) {
+        return sendSwapProblem(res, problem);
+      }
+
+      const swapRequest = await storage.createSwapRequest(shiftId, fromStaff, toStaff, reason, counterShiftId);
+      await publishSwap(swapRequest);
+      
+      // Create notification for the target staff member
+      if (swapRequest.type === "trade") {
+        const message = `${fromStaff} offers their ${swapRequest.shiftDate} ${swapRequest.shiftType} shift for your ${swapRequest.counterShiftDate} ${swapRequest.counterShiftType} shift`;
+        await notify(toStaff, "swap_request", "Shift Trade Request", message, shiftId, swapRequest.id);
+        await notifyManagers([fromStaff, toStaff], "swap_request", "Shift Trade Requested", message, shiftId, swapRequest.id);
+      } else {
+        await notify(
+          toStaff,
+          "swap_request",
+          "Shift Swap Request",
+          `${fromStaff} has requested to swap their shift with you on ${swapRequest.shiftDate}`,
+          shiftId,
+          swapRequest.id
+        );
+      }
+
+      res.json(swapRequest);
+    } catch (error) {
+      console.error("Error creating swap request:", error);
+      res.status(500).json({ error: "Failed to create swap request" });
+    }
+  });
+
+  // Get swap requests
+  app.get("/api/swap-requests", async (req, res) => {
     try {
-      const roster = await storage.getRosterById(req.params.id);
-      if (!roster) {
-        return res.status(404).json({ error: "Roster not found" });
+      await expireSwapRequests();
+      const status = req.query.status as SwapStatus | undefined;
+      const swapRequests = await storage.getSwapRequests(status);
+      
+      // Staff only see swaps they are part of
+      if (!isManager(req.user)) {
+        const name = req.user!.staffName;
+        return res.json(swapRequests.filter((r) => r.fromStaff === name || r.toStaff === name));
       }
-      res.json(roster);
+      res.json(swapRequests);
     } catch (error) {
-      console.error("Error fetching roster:", error);
-      res.status(500).json({ error: "Failed to fetch roster" });
+      console.error("Error fetching swap requests:", error);
+      res.status(500).json({ error: "Failed to fetch swap requests" });
     }
   });
 
-  // Generate new roster
-  app.post("/api/roster/generate", async (req, res) => {
+  // Respond to swap request
+  app.post("/api/swap-requests/:id/respond", async (req, res) => {
     try {
-      const parseResult = generateRosterRequestSchema.safeParse(req.body);
+      const parseResult = respondSwapRequestSchema.safeParse({
+        requestId: req.params.id,
+        ...req.body
+      });
       if (!parseResult.success) {
         return res.status(400).json({ 
           error: "Invalid request", 
@@ -65,62 +1873,219 @@ export async function registerRoutes(
         });
       }
 
-      const { startDate, weeks, name } = parseResult.data;
-      const shifts = generateRosterShifts(startDate, weeks);
-      
-      // Calculate end date
-      const startDateObj = new Date(startDate);
-      const endDateObj = addDays(startDateObj, weeks * 7 - 1);
-      const endDate = format(endDateObj, "yyyy-MM-dd");
-      
-      // Generate roster name if not provided
-      const rosterName = name || `Roster ${format(startDateObj, "MMM d")} - ${format(endDateObj, "MMM d, yyyy")}`;
+      const { requestId, status } = parseResult.data;
+
+      await expireSwapRequests();
+      const request = (await storage.getSwapRequests()).find((r) => r.id === requestId);
+      if (!request) {
+        return res.status(404).json({ error: "Swap request not found" });
+      }
+      const stage = swapStage(request.status);
+      if (!stage) {
+        return sendSwapProblem(res, {
+          status: 409,
+          code: request.status === "expired" ? "expired" : "already_responded",
+          error: `Swap request has already been ${request.status}`,
+        });
+      }
+      // The colleague being asked answers first (a manager may answer for them), then a manager signs it off
+      if (stage === "colleague" && !isManager(req.user) && request.toStaff !== req.user!.staffName) {
+        return res.status(403).json({ error: "You can only respond to swaps offered to you" });
+      }
+      if (stage === "manager" && !isManager(req.user)) {
+        return res.status(403).json({ error: "This swap is waiting for a manager's approval" });
+      }
+
+      // Accepting re-runs the request checks against the published roster as it is now, at
+      // both stages; a manager's unpublished edits don't come into it
+      if (status === "approved") {
+        const found = await getLiveShift(request.shiftId);
+        const counterFound = request.counterShiftId ? await getLiveShift(request.counterShiftId) : null;
+        if (!found) {
+          return res.status(404).json({ error: "Shift not found" });
+        }
+        const { shift, roster } = found;
+        const counterShift = counterFound?.shift ?? null;
+        const problem = await validateSwap(
+          { type: request.type, shift, counterShift, fromStaff: request.fromStaff, toStaff: request.toStaff },
+          roster,
+          "approval"
+        );
+        if (problem) {
+          return sendSwapProblem(res, problem);
+        }
+      }
+
+      const swapRequest = await storage.respondToSwapRequest(requestId, stage, status, req.user!.username);
       
-      const roster = await storage.saveRoster({
-        id: randomUUID(),
-        name: rosterName,
-        startDate,
-        endDate,
-        weeks,
-        shifts,
-        version: 1,
-        isActive: true,
-      });
+      if (!swapRequest) {
+        return res.status(404).json({ error: "Swap request not found" });
+      }
 
-      res.json(roster);
+      const action: AuditAction =
+        swapRequest.status === "pending_manager" ? "swap_accepted"
+        : swapRequest.status === "approved" ? "swap_approved"
+        : "swap_rejected";
+      await auditSwap(req, action, swapRequest, request.status);
+      await publishSwap(swapRequest);
+
+      const summary = describeSwap(swapRequest);
+      const { fromStaff, toStaff } = swapRequest;
+      const decidedBy = stage === "colleague" && req.user!.staffName === toStaff ? toStaff : "a manager";
+      if (swapRequest.status === "pending_manager") {
+        await notify(
+          fromStaff,
+          "swap_response",
+          "Swap Accepted",
+          `Your swap request for ${swapRequest.shiftDate} was accepted by ${decidedBy} and now needs a manager's approval`,
+          swapRequest.shiftId,
+          swapRequest.id
+        );
+        await notifyManagers(
+          [fromStaff],
+          "swap_request",
+          "Swap Awaiting Approval",
+          `${summary} has been agreed and needs your approval`,
+          swapRequest.shiftId,
+          swapRequest.id
+        );
+        return res.json(swapRequest);
+      }
+
+      // The outcome goes to both people in the swap, except whoever made the decision
+      const title = `${swapRequest.type === "trade" ? "Shift Trade" : "Swap Request"} ${status === "approved" ? "Approved" : "Rejected"}`;
+      const message = `${summary} has been ${swapRequest.status} by ${decidedBy}`;
+      for (const name of [fromStaff, toStaff]) {
+        if (name === req.user!.staffName) continue;
+        await notify(name, "swap_response", title, message, swapRequest.shiftId, swapRequest.id);
+      }
+
+      res.json(swapRequest);
     } catch (error) {
-      console.error("Error generating roster:", error);
-      res.status(500).json({ error: "Failed to generate roster" });
+      console.error("Error responding to swap request:", error);
+      // Lost a race with another response, or with an edit to one of the shifts
+      if (error instanceof StorageConflictError) {
+        return res.status(409).json({ error: error.message, code: error.code });
+      }
+      res.status(500).json({ error: "Failed to respond to swap request" });
     }
   });
 
-  // Set active roster
-  app.post("/api/roster/:id/activate", async (req, res) => {
+  // Cancel (before the colleague answers) or withdraw (while awaiting a manager) a swap request
+  app.post("/api/swap-requests/:id/cancel", async (req, res) => {
     try {
-      await storage.setActiveRoster(req.params.id);
-      const roster = await storage.getRosterById(req.params.id);
-      res.json(roster);
+      await expireSwapRequests();
+      const request = (await storage.getSwapRequests()).find((r) => r.id === req.params.id);
+      if (!request) {
+        return res.status(404).json({ error: "Swap request not found" });
+      }
+      // Managers may call off a request they raised on someone's behalf
+      if (!isManager(req.user) && request.fromStaff !== req.user!.staffName) {
+        return res.status(403).json({ error: "You can only cancel your own swap requests" });
+      }
+      const stage = swapStage(request.status);
+      if (!stage) {
+        return sendSwapProblem(res, {
+          status: 409,
+          code: request.status === "expired" ? "expired" : "already_responded",
+          error: `Swap request has already been ${request.status}`,
+        });
+      }
+
+      const swapRequest = await storage.withdrawSwapRequest(request.id, stage);
+      if (!swapRequest) {
+        return res.status(404).json({ error: "Swap request not found" });
+      }
+
+      await auditSwap(req, "swap_cancelled", swapRequest, request.status);
+      await publishSwap(swapRequest);
+
+      const message = `${describeSwap(swapRequest)} has been ${swapRequest.status} by ${swapRequest.fromStaff}`;
+      if (swapRequest.toStaff !== req.user!.staffName) {
+        await notify(
+          swapRequest.toStaff,
+          "swap_response",
+          "Swap Request Cancelled",
+          message,
+          swapRequest.shiftId,
+          swapRequest.id
+        );
+      }
+      // Managers only need to know once the request had reached them
+      if (stage === "manager") {
+        await notifyManagers(
+          [swapRequest.fromStaff, swapRequest.toStaff],
+          "swap_response",
+          "Swap Request Withdrawn",
+          message,
+          swapRequest.shiftId,
+          swapRequest.id
+        );
+      }
+
+      res.json(swapRequest);
     } catch (error) {
-      console.error("Error activating roster:", error);
-      res.status(500).json({ error: "Failed to activate roster" });
+      console.error("Error cancelling swap request:", error);
+      if (error instanceof StorageConflictError) {
+        return res.status(409).json({ error: error.message, code: error.code });
+      }
+      res.status(500).json({ error: "Failed to cancel swap request" });
     }
   });
 
-  // Delete roster
-  app.delete("/api/roster/:id", async (req, res) => {
+  // ============== Open Shift Routes ==============
+
+  // Close postings whose shift has started or been filled elsewhere, and tell anyone who claimed them
+  async function closeLapsedPostings() {
+    for (const posting of await closeLapsedOpenShifts()) {
+      const reason = posting.status === "expired" ? "the shift has started" : "the shift has been filled";
+      for (const claim of posting.claims) {
+        await notify(
+          claim.staffMember,
+          "open_shift",
+          "Open Shift Closed",
+          `The open ${posting.shiftDate} ${posting.shiftType} shift you claimed was closed because ${reason}`,
+          posting.shiftId
+        );
+      }
+    }
+  }
+
+  function sendOpenShiftProblem(res: Response, problem: OpenShiftProblem) {
+    const { status, ...body } = problem;
+    return res.status(status).json(body);
+  }
+
+  // List postings, newest first. Staff see the ones they could take or have claimed,
+  // with only their own claim.
+  app.get("/api/open-shifts", async (req, res) => {
     try {
-      await storage.deleteRoster(req.params.id);
-      res.json({ success: true });
+      const status = req.query.status as OpenShiftStatus | undefined;
+      if (status && !OPEN_SHIFT_STATUSES.includes(status)) {
+        return res.status(400).json({ error: "Invalid status" });
+      }
+
+      await closeLapsedPostings();
+      const postings = await storage.getOpenShifts(status);
+      if (isManager(req.user)) {
+        return res.json(postings);
+      }
+
+      const name = req.user!.staffName;
+      const visible: OpenShift[] = postings
+        .map((p) => ({ ...p, claims: p.claims.filter((c) => c.staffMember === name) }))
+        .filter((p) => p.claims.length > 0 || (p.status === "open" && !!name && p.allowedStaff.includes(name)));
+      res.json(visible);
     } catch (error) {
-      console.error("Error deleting roster:", error);
-      res.status(500).json({ error: "Failed to delete roster" });
+      console.error("Error fetching open shifts:", error);
+      res.status(500).json({ error: "Failed to fetch open shifts" });
     }
   });
 
-  // Update shift assignment
-  app.patch("/api/roster/shift", async (req, res) => {
+  // Post an unassigned or Locum shift for permanent staff to claim
+  app.post("/api/open-shifts", requireManager, async (req, res) => {
     try {
-      const parseResult = updateShiftRequestSchema.safeParse(req.body);
+      const parseResult = postOpenShiftRequestSchema.safeParse(req.body);
       if (!parseResult.success) {
         return res.status(400).json({ 
           error: "Invalid request", 
@@ -128,55 +2093,55 @@ export async function registerRoutes(
         });
       }
 
-      const { shiftId, assigned } = parseResult.data;
-      const updatedShift = await storage.updateShift(shiftId, assigned);
-      
-      if (!updatedShift) {
+      const { shiftId, note } = parseResult.data;
+      const found = await getLiveShift(shiftId);
+      if (!found) {
         return res.status(404).json({ error: "Shift not found" });
       }
+      const { shift, roster } = found;
 
-      res.json(updatedShift);
-    } catch (error) {
-      console.error("Error updating shift:", error);
-      if (error instanceof Error && error.message.includes("not allowed")) {
-        return res.status(400).json({ error: error.message });
+      await closeLapsedPostings();
+      const problem = await validatePosting(shift, roster);
+      if (problem) {
+        return sendOpenShiftProblem(res, problem);
       }
-      res.status(500).json({ error: "Failed to update shift" });
-    }
-  });
 
-  // Export roster to Excel
-  app.post("/api/roster/export", async (req, res) => {
-    try {
-      const roster = await storage.getActiveRoster();
-      
-      if (!roster) {
-        return res.status(404).json({ error: "No roster to export" });
-      }
+      const posting = await storage.createOpenShift(shiftId, shift.assigned, req.user!.username, note);
+      await audit(req, {
+        action: "open_shift_posted",
+        rosterId: roster.id,
+        shiftId,
+        swapRequestId: null,
+        before: { assigned: shift.assigned },
+        after: { status: posting.status, note: posting.note },
+      });
 
-      const buffer = await generateExcelRoster(roster);
-      
-      res.setHeader(
-        "Content-Type",
-        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
-      );
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename=roster_${roster.startDate}.xlsx`
+      // Let everyone who could take it know
+      const staffList = await storage.getStaff();
+      const eligible = staffList.filter(
+        (s) => s.isActive && s.role !== "Locum" && shift.allowedStaff.includes(s.name)
       );
-      res.send(buffer);
+      for (const member of eligible) {
+        await notify(
+          member.name,
+          "open_shift",
+          "Open Shift Available",
+          `The ${shift.weekday} ${shift.date} ${shift.shiftType} shift is open to claim${note ? `: ${note}` : ""}`,
+          shiftId
+        );
+      }
+
+      res.json(posting);
     } catch (error) {
-      console.error("Error exporting roster:", error);
-      res.status(500).json({ error: "Failed to export roster" });
+      console.error("Error posting open shift:", error);
+      res.status(500).json({ error: "Failed to post open shift" });
     }
   });
 
-  // ============== Swap Request Routes ==============
-  
-  // Create swap request
-  app.post("/api/swap-requests", async (req, res) => {
+  // Claim (bid for) an open shift for yourself, with an optional note
+  app.post("/api/open-shifts/:id/claims", async (req, res) => {
     try {
-      const parseResult = createSwapRequestSchema.safeParse(req.body);
+      const parseResult = claimOpenShiftRequestSchema.safeParse(req.body ?? {});
       if (!parseResult.success) {
         return res.status(400).json({ 
           error: "Invalid request", 
@@ -184,45 +2149,70 @@ export async function registerRoutes(
         });
       }
 
-      const { shiftId, fromStaff, toStaff, reason } = parseResult.data;
-      const swapRequest = await storage.createSwapRequest(shiftId, fromStaff, toStaff, reason);
-      
-      // Create notification for the target staff member
-      await storage.createNotification(
-        toStaff,
-        "swap_request",
-        "Shift Swap Request",
-        `${fromStaff} has requested to swap their shift with you on ${swapRequest.shiftDate}`,
-        shiftId,
-        swapRequest.id
+      const staffMember = req.user!.staffName;
+      if (!staffMember) {
+        return res.status(403).json({ error: "Your account is not linked to a staff record" });
+      }
+
+      await closeLapsedPostings();
+      const posting = await storage.getOpenShiftById(req.params.id);
+      const roster = posting ? await getLiveRoster(posting.rosterId) : null;
+      if (!posting || !roster) {
+        return res.status(404).json({ error: "Open shift not found" });
+      }
+      if (posting.claims.some((c) => c.staffMember === staffMember)) {
+        return sendOpenShiftProblem(res, {
+          status: 409,
+          code: "already_claimed",
+          error: "You have already claimed this shift",
+        });
+      }
+      const problem = await validateClaimant(posting, roster, staffMember);
+      if (problem) {
+        return sendOpenShiftProblem(res, problem);
+      }
+
+      const claim = await storage.claimOpenShift(posting.id, staffMember, parseResult.data.note);
+      await notifyManagers(
+        [staffMember],
+        "open_shift",
+        "Open Shift Claimed",
+        `${staffMember} has claimed the open ${posting.shiftDate} ${posting.shiftType} shift`,
+        posting.shiftId
       );
 
-      res.json(swapRequest);
+      res.json(claim);
     } catch (error) {
-      console.error("Error creating swap request:", error);
-      res.status(500).json({ error: "Failed to create swap request" });
+      console.error("Error claiming open shift:", error);
+      if (error instanceof StorageConflictError) {
+        return res.status(409).json({ error: error.message, code: error.code });
+      }
+      res.status(500).json({ error: "Failed to claim open shift" });
     }
   });
 
-  // Get swap requests
-  app.get("/api/swap-requests", async (req, res) => {
+  // Withdraw your own claim while the posting is still open
+  app.delete("/api/open-shifts/:id/claims", async (req, res) => {
     try {
-      const status = req.query.status as "pending" | "approved" | "rejected" | undefined;
-      const swapRequests = await storage.getSwapRequests(status);
-      res.json(swapRequests);
+      const staffMember = req.user!.staffName;
+      if (!staffMember) {
+        return res.status(403).json({ error: "Your account is not linked to a staff record" });
+      }
+      const withdrawn = await storage.withdrawOpenShiftClaim(req.params.id, staffMember);
+      if (!withdrawn) {
+        return res.status(404).json({ error: "Claim not found" });
+      }
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error fetching swap requests:", error);
-      res.status(500).json({ error: "Failed to fetch swap requests" });
+      console.error("Error withdrawing open shift claim:", error);
+      res.status(500).json({ error: "Failed to withdraw claim" });
     }
   });
 
-  // Respond to swap request
-  app.post("/api/swap-requests/:id/respond", async (req, res) => {
+  // Award to a named claimant, or to the first eligible claimant under a fairness rule
+  app.post("/api/open-shifts/:id/award", requireManager, async (req, res) => {
     try {
-      const parseResult = respondSwapRequestSchema.safeParse({
-        requestId: req.params.id,
-        ...req.body
-      });
+      const parseResult = awardOpenShiftRequestSchema.safeParse(req.body ?? {});
       if (!parseResult.success) {
         return res.status(400).json({ 
           error: "Invalid request", 
@@ -230,27 +2220,144 @@ export async function registerRoutes(
         });
       }
 
-      const { requestId, status } = parseResult.data;
-      const swapRequest = await storage.respondToSwapRequest(requestId, status);
-      
-      if (!swapRequest) {
-        return res.status(404).json({ error: "Swap request not found" });
+      await closeLapsedPostings();
+      const posting = await storage.getOpenShiftById(req.params.id);
+      const roster = posting ? await getLiveRoster(posting.rosterId) : null;
+      if (!posting || !roster) {
+        return res.status(404).json({ error: "Open shift not found" });
+      }
+      if (posting.status !== "open") {
+        return sendOpenShiftProblem(res, {
+          status: 409,
+          code: "not_open",
+          error: `This open shift has already been ${posting.status}`,
+        });
       }
 
-      // Create notification for the requesting staff member
-      await storage.createNotification(
-        swapRequest.fromStaff,
-        "swap_response",
-        `Swap Request ${status === "approved" ? "Approved" : "Rejected"}`,
-        `Your swap request for ${swapRequest.shiftDate} has been ${status}`,
-        swapRequest.shiftId,
-        swapRequest.id
-      );
+      const { staffMember, rule } = parseResult.data;
+      let winner: StaffMember | null;
+      if (staffMember) {
+        if (!posting.claims.some((c) => c.staffMember === staffMember && c.status === "pending")) {
+          return sendOpenShiftProblem(res, {
+            status: 400,
+            code: "no_claim",
+            error: `${staffMember} has not claimed this shift`,
+          });
+        }
+        const problem = await validateClaimant(posting, roster, staffMember);
+        if (problem) {
+          return sendOpenShiftProblem(res, problem);
+        }
+        winner = staffMember;
+      } else {
+        winner = await pickClaimant(posting, roster, rule);
+        if (!winner) {
+          return sendOpenShiftProblem(res, {
+            status: 409,
+            code: "no_eligible_claimants",
+            error: "Nobody who claimed this shift can currently take it",
+          });
+        }
+      }
 
-      res.json(swapRequest);
+      const awarded = await storage.awardOpenShift(posting.id, winner, req.user!.username, staffMember ? "manual" : rule);
+      if (!awarded) {
+        return res.status(404).json({ error: "Open shift not found" });
+      }
+
+      await audit(req, {
+        action: "open_shift_awarded",
+        rosterId: roster.id,
+        shiftId: awarded.shiftId,
+        swapRequestId: null,
+        before: { assigned: awarded.previousAssigned },
+        after: { assigned: winner, awardMethod: awarded.awardMethod, claims: awarded.claims.length },
+      });
+      realtime.publish({ type: "roster_changed", rosterId: roster.id }, "everyone");
+
+      const shiftLabel = `${awarded.weekday} ${awarded.shiftDate} ${awarded.shiftType} shift`;
+      for (const claim of awarded.claims) {
+        const won = claim.staffMember === winner;
+        await notify(
+          claim.staffMember,
+          "open_shift",
+          won ? "Open Shift Awarded" : "Open Shift Filled",
+          won
+            ? `You have been given the open ${shiftLabel}`
+            : `The open ${shiftLabel} you claimed has been given to ${winner}`,
+          awarded.shiftId
+        );
+      }
+
+      res.json(awarded);
     } catch (error) {
-      console.error("Error responding to swap request:", error);
-      res.status(500).json({ error: "Failed to respond to swap request" });
+      console.error("Error awarding open shift:", error);
+      if (error instanceof StorageConflictError) {
+        return res.status(409).json({ error: error.message, code: error.code });
+      }
+      res.status(500).json({ error: "Failed to award open shift" });
+    }
+  });
+
+  // Take a posting down without awarding it
+  app.post("/api/open-shifts/:id/cancel", requireManager, async (req, res) => {
+    try {
+      const posting = await storage.getOpenShiftById(req.params.id);
+      if (!posting) {
+        return res.status(404).json({ error: "Open shift not found" });
+      }
+      const [cancelled] = await storage.closeOpenShifts([posting.id], "cancelled");
+      if (!cancelled) {
+        return sendOpenShiftProblem(res, {
+          status: 409,
+          code: "not_open",
+          error: `This open shift has already been ${posting.status}`,
+        });
+      }
+
+      await audit(req, {
+        action: "open_shift_cancelled",
+        rosterId: cancelled.rosterId,
+        shiftId: cancelled.shiftId,
+        swapRequestId: null,
+        before: { status: "open" },
+        after: { status: cancelled.status },
+      });
+      for (const claim of cancelled.claims) {
+        await notify(
+          claim.staffMember,
+          "open_shift",
+          "Open Shift Withdrawn",
+          `The open ${cancelled.shiftDate} ${cancelled.shiftType} shift you claimed is no longer available`,
+          cancelled.shiftId
+        );
+      }
+
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelling open shift:", error);
+      res.status(500).json({ error: "Failed to cancel open shift" });
+    }
+  });
+
+  // ============== Audit Routes ==============
+
+  // Audit trail, newest first. Filters: rosterId, shiftId, actor, action, from, to, limit
+  app.get("/api/audit", requireManager, async (req, res) => {
+    try {
+      const parseResult = auditQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const events = await storage.getAuditEvents(parseResult.data);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching audit events:", error);
+      res.status(500).json({ error: "Failed to fetch audit events" });
     }
   });
 
@@ -259,8 +2366,17 @@ export async function registerRoutes(
   // Get notifications
   app.get("/api/notifications", async (req, res) => {
     try {
-      const staffMember = req.query.staff as StaffMember | undefined;
+      let staffMember = req.query.staff as StaffMember | undefined;
       const unreadOnly = req.query.unreadOnly === "true";
+
+      // Staff can only read their own notifications
+      if (!isManager(req.user)) {
+        const ownName = req.user!.staffName;
+        if (!ownName || (staffMember && staffMember !== ownName)) {
+          return res.status(403).json({ error: "You can only read your own notifications" });
+        }
+        staffMember = ownName;
+      }
       
       const notifications = await storage.getNotifications(staffMember, unreadOnly);
       res.json(notifications);
@@ -273,6 +2389,14 @@ export async function registerRoutes(
   // Mark notification as read
   app.post("/api/notifications/:id/read", async (req, res) => {
     try {
+      const notification = await storage.getNotificationById(req.params.id);
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      if (!isManager(req.user) && notification.staffMember !== req.user!.staffName) {
+        return res.status(403).json({ error: "You can only read your own notifications" });
+      }
+
       await storage.markNotificationRead(req.params.id);
       res.json({ success: true });
     } catch (error) {
@@ -285,9 +2409,13 @@ export async function registerRoutes(
   app.post("/api/notifications/mark-all-read", async (req, res) => {
     try {
       const { staffMember } = req.body;
-      if (!staffMember || !STAFF_MEMBERS.includes(staffMember)) {
+      const staffList = await storage.getStaff();
+      if (!staffMember || !staffList.some((s) => s.name === staffMember)) {
         return res.status(400).json({ error: "Invalid staff member" });
       }
+      if (!isManager(req.user) && staffMember !== req.user!.staffName) {
+        return res.status(403).json({ error: "You can only read your own notifications" });
+      }
       
       await storage.markAllNotificationsRead(staffMember);
       res.json({ success: true });
@@ -297,5 +2425,95 @@ export async function registerRoutes(
     }
   });
 
+  // Delivery settings for a staff member: their own, or anyone's for a manager
+  async function canManagePreferences(req: Request, res: Response): Promise<boolean> {
+    const member = await storage.getStaffById(req.params.id);
+    if (!member) {
+      res.status(404).json({ error: "Staff member not found" });
+      return false;
+    }
+    if (!isManager(req.user) && req.user!.staffId !== member.id) {
+      res.status(403).json({ error: "You can only change your own notification settings" });
+      return false;
+    }
+    return true;
+  }
+
+  app.get("/api/staff/:id/notification-preferences", async (req, res) => {
+    try {
+      if (!(await canManagePreferences(req, res))) return;
+
+      const prefs = await storage.getNotificationPreferences(req.params.id);
+      res.json({ ...prefs, availableChannels: dispatcher.availableChannels });
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ error: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.patch("/api/staff/:id/notification-preferences", async (req, res) => {
+    try {
+      const parseResult = updateNotificationPreferencesRequestSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+      if (!(await canManagePreferences(req, res))) return;
+
+      // The server posts to webhooks itself, so only managers choose where they go
+      const { webhookUrl } = parseResult.data;
+      if (webhookUrl !== undefined && !isManager(req.user)) {
+        return res.status(403).json({ error: "Only a manager can set a webhook URL" });
+      }
+      const blocked = webhookUrl ? await checkWebhookUrl(webhookUrl) : null;
+      if (blocked) {
+        return res.status(400).json({ error: blocked });
+      }
+
+      const prefs = await storage.updateNotificationPreferences(req.params.id, parseResult.data);
+      res.json({ ...prefs, availableChannels: dispatcher.availableChannels });
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ error: "Failed to update notification preferences" });
+    }
+  });
+
+  // Delivery log, newest first. Filters: status, staffMember, limit
+  app.get("/api/notification-deliveries", requireManager, async (req, res) => {
+    try {
+      const parseResult = notificationDeliveryQuerySchema.safeParse(req.query);
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          error: "Invalid request", 
+          details: parseResult.error.errors 
+        });
+      }
+
+      const deliveries = await storage.getNotificationDeliveries(parseResult.data);
+      res.json(deliveries);
+    } catch (error) {
+      console.error("Error fetching notification deliveries:", error);
+      res.status(500).json({ error: "Failed to fetch notification deliveries" });
+    }
+  });
+
+  // Send a failed delivery again, with a fresh set of attempts
+  app.post("/api/notification-deliveries/:id/retry", requireManager, async (req, res) => {
+    try {
+      const delivery = await storage.retryNotificationDelivery(req.params.id);
+      if (!delivery) {
+        return res.status(409).json({ error: "Only failed deliveries can be retried" });
+      }
+
+      void dispatcher.processDue();
+      res.json(delivery);
+    } catch (error) {
+      console.error("Error retrying notification delivery:", error);
+      res.status(500).json({ error: "Failed to retry notification delivery" });
+    }
+  });
+
   return httpServer;
 }
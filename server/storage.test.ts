@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { PGlite } from "@electric-sql/pglite";
+import type { Roster, RosterShift, StaffMember } from "@shared/schema";
+import { DEFAULT_LOCATION_ID } from "@shared/schema";
+import { createTestStorage } from "./test-db";
+import { StorageConflictError, type DatabaseStorage } from "./storage";
+
+function makeShift(id: string, date: string, assigned: StaffMember | null): RosterShift {
+  return {
+    id,
+    slotKey: `${date}-day`,
+    date,
+    weekday: "Mon",
+    shiftType: "Day",
+    position: 1,
+    shiftLabel: "Day 12h",
+    hours: 12,
+    startsAt: `${date}T08:00:00.000Z`,
+    endsAt: `${date}T20:00:00.000Z`,
+    breakMinutes: 0,
+    timezone: "Europe/London",
+    publicHoliday: null,
+    assigned,
+    allowedStaff: ["Ashley", "Peninah", "Joflix"],
+    revision: 0,
+  };
+}
+
+function makeRoster(name: string, shifts: RosterShift[]): Omit<Roster, "id"> {
+  return {
+    name,
+    locationId: DEFAULT_LOCATION_ID,
+    startDate: "2026-11-02",
+    endDate: "2026-11-08",
+    weeks: 1,
+    shifts,
+  };
+}
+
+describe("DatabaseStorage transactions", () => {
+  let storage: DatabaseStorage;
+  let client: PGlite;
+
+  beforeEach(async () => {
+    ({ storage, client } = await createTestStorage());
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("saves nothing of a roster whose shifts fail to insert", async () => {
+    // Two shifts with the same id break the primary key after the roster row is written
+    const roster = makeRoster("Broken", [
+      makeShift("shift-1", "2026-11-02", "Ashley"),
+      makeShift("shift-1", "2026-11-03", "Peninah"),
+    ]);
+
+    await expect(storage.saveRoster(roster)).rejects.toThrow();
+    expect(await storage.getAllRosters()).toHaveLength(0);
+  });
+
+  it("leaves the live roster published when activating another fails part-way", async () => {
+    const first = await storage.saveRoster(makeRoster("First", [makeShift("a-1", "2026-11-02", "Ashley")]));
+    const second = await storage.saveRoster(makeRoster("Second", [makeShift("b-1", "2026-11-02", "Peninah")]));
+    await storage.setActiveRoster(first.id);
+
+    // Archiving the first roster succeeds; publishing the second then fails
+    await client.exec(`
+      CREATE FUNCTION refuse_publish() RETURNS trigger AS $$
+      BEGIN
+        IF NEW.id = '${second.id}' AND NEW.status = 'published' THEN
+          RAISE EXCEPTION 'publish refused';
+        END IF;
+        RETURN NEW;
+      END;
+      $$ LANGUAGE plpgsql;
+      CREATE TRIGGER refuse_publish BEFORE UPDATE ON rosters FOR EACH ROW EXECUTE FUNCTION refuse_publish();
+    `);
+
+    await expect(storage.setActiveRoster(second.id)).rejects.toThrow("publish refused");
+    expect((await storage.getRosterById(first.id))?.status).toBe("published");
+    expect((await storage.getRosterById(second.id))?.status).toBe("draft");
+    expect((await storage.getActiveRoster(DEFAULT_LOCATION_ID))?.id).toBe(first.id);
+  });
+
+  it("rolls a trade back when the counter shift has been reassigned", async () => {
+    const roster = await storage.saveRoster(makeRoster("Trade", [
+      makeShift("t-1", "2026-11-02", "Ashley"),
+      makeShift("t-2", "2026-11-03", "Peninah"),
+    ]));
+    await storage.setActiveRoster(roster.id);
+    const trade = await storage.createSwapRequest("t-1", "Ashley", "Peninah", undefined, "t-2");
+    await storage.respondToSwapRequest(trade.id, "colleague", "approved", "peninah");
+
+    // The counter shift moves on after the colleague agreed
+    await storage.updateShift("t-2", "Joflix", 0);
+
+    const approval = storage.respondToSwapRequest(trade.id, "manager", "approved", "admin");
+    await expect(approval).rejects.toBeInstanceOf(StorageConflictError);
+    await expect(approval).rejects.toMatchObject({ code: "stale" });
+
+    // The first shift was handed over inside the transaction; none of it stuck
+    expect((await storage.getShiftById("t-1"))?.assigned).toBe("Ashley");
+    expect((await storage.getShiftById("t-1"))?.revision).toBe(0);
+    const [request] = await storage.getSwapRequests();
+    expect(request.status).toBe("pending_manager");
+    expect(request.managerActedBy).toBeNull();
+  });
+
+  it("lets exactly one of two concurrent approvals through", async () => {
+    const roster = await storage.saveRoster(makeRoster("Handover", [makeShift("h-1", "2026-11-02", "Ashley")]));
+    await storage.setActiveRoster(roster.id);
+    const handover = await storage.createSwapRequest("h-1", "Ashley", "Peninah");
+    await storage.respondToSwapRequest(handover.id, "colleague", "approved", "peninah");
+
+    const results = await Promise.allSettled([
+      storage.respondToSwapRequest(handover.id, "manager", "approved", "admin"),
+      storage.respondToSwapRequest(handover.id, "manager", "approved", "manager"),
+    ]);
+
+    const fulfilled = results.filter((r) => r.status === "fulfilled");
+    const rejected = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+    expect(fulfilled).toHaveLength(1);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toBeInstanceOf(StorageConflictError);
+    expect(rejected[0].reason.code).toBe("already_responded");
+
+    // The shift moved once
+    const shift = await storage.getShiftById("h-1");
+    expect(shift?.assigned).toBe("Peninah");
+    expect(shift?.revision).toBe(1);
+  });
+
+  it("publishes an approved swap as the roster's next version", async () => {
+    const roster = await storage.saveRoster(makeRoster("Published", [
+      makeShift("p-1", "2026-11-02", "Ashley"),
+      makeShift("p-2", "2026-11-03", "Joflix"),
+    ]));
+    await storage.publishRoster(roster.id, "admin");
+    const handover = await storage.createSwapRequest("p-1", "Ashley", "Peninah");
+    await storage.respondToSwapRequest(handover.id, "colleague", "approved", "peninah");
+
+    // A manager's unpublished edit to another shift neither blocks the swap nor goes live with it
+    await storage.updateShift("p-2", "Ashley", 0);
+    await storage.respondToSwapRequest(handover.id, "manager", "approved", "admin");
+
+    expect((await storage.getRosterById(roster.id))?.version).toBe(2);
+    const live = await storage.getRosterVersion(roster.id, 2);
+    expect(live?.publishedBy).toBe("admin");
+    expect(live?.shifts.find((s) => s.id === "p-1")?.assigned).toBe("Peninah");
+    expect(live?.shifts.find((s) => s.id === "p-2")?.assigned).toBe("Joflix");
+    expect((await storage.getShiftById("p-1"))?.assigned).toBe("Peninah");
+    expect((await storage.getShiftById("p-2"))?.assigned).toBe("Ashley");
+  });
+
+  it("checks a swap on a published roster against the live version, not the draft", async () => {
+    const roster = await storage.saveRoster(makeRoster("Edited", [makeShift("e-1", "2026-11-02", "Ashley")]));
+    await storage.publishRoster(roster.id, "admin");
+    const handover = await storage.createSwapRequest("e-1", "Ashley", "Peninah");
+    await storage.respondToSwapRequest(handover.id, "colleague", "approved", "peninah");
+
+    // The draft gives the shift to someone else, but Ashley still holds it on the live roster
+    await storage.updateShift("e-1", "Joflix", 0);
+    await storage.respondToSwapRequest(handover.id, "manager", "approved", "admin");
+
+    expect((await storage.getRosterVersion(roster.id, 2))?.shifts[0].assigned).toBe("Peninah");
+    expect((await storage.getShiftById("e-1"))?.assigned).toBe("Joflix");
+
+    // Once the live roster has moved on, a swap made against the old one is stale
+    const second = await storage.createSwapRequest("e-1", "Ashley", "Joflix");
+    await storage.respondToSwapRequest(second.id, "colleague", "approved", "joflix");
+    const approval = storage.respondToSwapRequest(second.id, "manager", "approved", "admin");
+    await expect(approval).rejects.toMatchObject({ code: "stale" });
+    expect((await storage.getRosterById(roster.id))?.version).toBe(2);
+  });
+
+  it("publishes an awarded open shift as the roster's next version", async () => {
+    const roster = await storage.saveRoster(makeRoster("Cover", [
+      makeShift("o-1", "2026-11-02", null),
+      makeShift("o-2", "2026-11-03", "Joflix"),
+    ]));
+    await storage.publishRoster(roster.id, "admin");
+    const posting = await storage.createOpenShift("o-1", null, "admin");
+    await storage.claimOpenShift(posting.id, "Ashley");
+
+    // A manager trying out an assignment in the draft neither blocks the award nor goes live with it
+    await storage.updateShift("o-1", "Peninah", 0);
+    await storage.updateShift("o-2", "Ashley", 0);
+    const awarded = await storage.awardOpenShift(posting.id, "Ashley", "admin", "manual");
+
+    expect(awarded?.status).toBe("awarded");
+    expect((await storage.getRosterById(roster.id))?.version).toBe(2);
+    const live = await storage.getRosterVersion(roster.id, 2);
+    expect(live?.publishedBy).toBe("admin");
+    expect(live?.shifts.find((s) => s.id === "o-1")?.assigned).toBe("Ashley");
+    expect(live?.shifts.find((s) => s.id === "o-2")?.assigned).toBe("Joflix");
+    expect((await storage.getShiftById("o-1"))?.assigned).toBe("Peninah");
+    expect((await storage.getShiftById("o-2"))?.assigned).toBe("Ashley");
+  });
+});
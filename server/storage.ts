@@ -1,64 +1,1062 @@
-import { eq, desc } from "drizzle-orm";
+import { eq, ne, desc, and, or, gte, lt, lte, inArray, isNull, sql } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
 import { createDb } from "./db";
 import { 
+  users,
+  locations,
+  staff,
+  shiftRules,
+  publicHolidays,
   rosters, 
   shifts, 
+  rosterVersions,
   swapRequests, 
+  unavailability,
+  auditEvents,
   notifications,
+  notificationPreferences,
+  notificationDeliveries,
+  openShifts,
+  openShiftClaims,
+  complianceSettings,
+  shiftTemplates,
+  shiftLayouts,
+  DEFAULT_COMPLIANCE_RULES,
+  DEFAULT_LOCATION_ID,
+  DEFAULT_TIMEZONE,
+  HOLIDAY_LAYOUT_KEY,
+  WEEKDAYS,
+  OPEN_SWAP_STATUSES,
   type Roster, 
   type RosterShift, 
   type StaffMember,
   type RosterSummary,
   type SwapRequestWithDetails,
+  type SwapStatus,
   type Notification,
   type DbShift,
-  STAFF_MEMBERS
+  type DbSwapRequest,
+  type DbOpenShift,
+  type DbOpenShiftClaim,
+  type OpenShift,
+  type OpenShiftClaim,
+  type OpenShiftStatus,
+  type DbRoster,
+  type DbRosterVersion,
+  type RosterVersion,
+  type RosterVersionSummary,
+  type RosterStatus,
+  type DbLocation,
+  type DbStaff,
+  type DbUser,
+  type DbNotification,
+  type DbNotificationPreferences,
+  type DbNotificationDelivery,
+  type NotificationPreferences,
+  type NotificationDelivery,
+  type NotificationDeliveryQuery,
+  type NotificationChannel,
+  type DeliveryStatus,
+  type UpdateNotificationPreferencesRequest,
+  type DbAuditEvent,
+  type AuditEvent,
+  type AuditQuery,
+  type User,
+  type UserRole,
+  type DbUnavailability,
+  type Unavailability,
+  type UnavailabilityStatus,
+  type CreateUnavailabilityRequest,
+  type DbShiftRule,
+  type DbPublicHoliday,
+  type PublicHoliday,
+  type CreatePublicHolidayRequest,
+  type PublicHolidayRuleMode,
+  type Staff,
+  type Location,
+  type CreateLocationRequest,
+  type UpdateLocationRequest,
+  type ShiftRule,
+  type CreateShiftRuleRequest,
+  type UpdateShiftRuleRequest,
+  type CreateStaffRequest,
+  type UpdateStaffRequest,
+  type ComplianceRules,
+  type DbComplianceSettings,
+  type DbShiftTemplate,
+  type CreateShiftTemplateRequest,
+  type ShiftLayout,
+  type ShiftTemplate,
+  type ShiftType,
+  type UpdateShiftTemplateRequest,
+  type Weekday,
+  type UpdateComplianceRulesRequest
 } from "@shared/schema";
+import { zonedTimeToUtc } from "@shared/shift-times";
+import { isSwapOpen, nextSwapStatus, withdrawnSwapStatus, type SwapStage } from "@shared/swap-workflow";
 import { randomUUID } from "crypto";
 
+export type Database = ReturnType<typeof createDb>;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
 export interface IStorage {
+  sessionStore: session.Store;
+
+  // Bring existing data up to the current schema
+  migrate(): Promise<void>;
+
+  // User account operations
+  getUsers(): Promise<User[]>;
+  getUserById(id: string): Promise<User | null>;
+  getUserByUsername(username: string): Promise<(User & { passwordHash: string }) | null>;
+  createUser(user: { username: string; passwordHash: string; role: UserRole; staffId: string | null }): Promise<User>;
+  updateUser(id: string, updates: { passwordHash?: string; role?: UserRole; staffId?: string | null }): Promise<User | null>;
+  getCalendarToken(userId: string): Promise<string | null>;
+  setCalendarToken(userId: string, token: string): Promise<void>;
+  getUserByCalendarToken(token: string): Promise<User | null>;
+
+  // Location operations - archived locations keep their rosters
+  getLocations(): Promise<Location[]>;
+  getLocationById(id: string): Promise<Location | null>;
+  // The id is only given when seeding the default location
+  createLocation(location: CreateLocationRequest, id?: string): Promise<Location>;
+  updateLocation(id: string, updates: UpdateLocationRequest): Promise<Location | null>;
+
+  // Staff directory operations
+  getStaff(): Promise<Staff[]>;
+  getStaffById(id: string): Promise<Staff | null>;
+  createStaff(member: CreateStaffRequest): Promise<Staff>;
+  updateStaff(id: string, updates: UpdateStaffRequest): Promise<Staff | null>;
+
+  // Shift rule operations
+  getShiftRules(): Promise<ShiftRule[]>;
+  createShiftRule(rule: CreateShiftRuleRequest): Promise<ShiftRule>;
+  updateShiftRule(id: string, updates: UpdateShiftRuleRequest): Promise<ShiftRule | null>;
+  deleteShiftRule(id: string): Promise<boolean>;
+
+  // Public holiday operations. With a location, the holidays for it and for every location.
+  getPublicHolidays(locationId?: string): Promise<PublicHoliday[]>;
+  createPublicHolidays(holidays: CreatePublicHolidayRequest[]): Promise<PublicHoliday[]>;
+  deletePublicHoliday(id: string): Promise<boolean>;
+
   // Roster operations
-  getActiveRoster(): Promise<Roster | null>;
+  getActiveRoster(locationId: string): Promise<Roster | null>;
   getRosterById(id: string): Promise<Roster | null>;
-  getAllRosters(): Promise<RosterSummary[]>;
+  getShiftById(shiftId: string): Promise<(RosterShift & { rosterId: string; locationId: string }) | null>;
+  getAllRosters(locationId?: string): Promise<RosterSummary[]>;
   saveRoster(roster: Omit<Roster, "id"> & { id?: string }): Promise<Roster>;
-  updateShift(shiftId: string, assigned: StaffMember | null): Promise<RosterShift | null>;
+  updateShift(shiftId: string, assigned: StaffMember | null, revision: number): Promise<RosterShift | null>;
+  // Publishes the roster as the live one at its location and archives whichever roster was live there before
   setActiveRoster(rosterId: string): Promise<void>;
+  setRosterStatus(rosterId: string, status: Exclude<RosterStatus, "published">): Promise<void>;
   deleteRoster(rosterId: string): Promise<void>;
+
+  // Roster version operations - published versions are never modified.
+  // publishRoster snapshots the draft as the next version and makes the roster the live one.
+  publishRoster(rosterId: string, publishedBy: string, note?: string): Promise<RosterVersion | null>;
+  getRosterVersions(rosterId: string): Promise<RosterVersionSummary[]>;
+  getRosterVersion(rosterId: string, version: number): Promise<RosterVersion | null>;
+  restoreShiftAssignments(rosterId: string, assignments: Pick<RosterShift, "slotKey" | "assigned">[]): Promise<Roster | null>;
   
   // Swap request operations
-  createSwapRequest(shiftId: string, fromStaff: StaffMember, toStaff: StaffMember, reason?: string): Promise<SwapRequestWithDetails>;
-  getSwapRequests(status?: "pending" | "approved" | "rejected"): Promise<SwapRequestWithDetails[]>;
-  respondToSwapRequest(requestId: string, status: "approved" | "rejected"): Promise<SwapRequestWithDetails | null>;
+  // Passing counterShiftId makes the request a trade
+  createSwapRequest(shiftId: string, fromStaff: StaffMember, toStaff: StaffMember, reason?: string, counterShiftId?: string): Promise<SwapRequestWithDetails>;
+  getSwapRequests(status?: SwapStatus): Promise<SwapRequestWithDetails[]>;
+  // Answers the stage the request is waiting on; it fails if the request has moved on.
+  // Manager approval moves the shift (both shifts for a trade) and fails if either has
+  // been reassigned since the request was made.
+  respondToSwapRequest(
+    requestId: string,
+    stage: SwapStage,
+    decision: "approved" | "rejected",
+    actedBy: string
+  ): Promise<SwapRequestWithDetails | null>;
+  // The requester calling off a request still waiting on the given stage
+  withdrawSwapRequest(requestId: string, stage: SwapStage): Promise<SwapRequestWithDetails | null>;
+  // Marks the given requests expired if they are still open, returning those that were
+  expireSwapRequests(requestIds: string[]): Promise<SwapRequestWithDetails[]>;
+  
+  // Open shift marketplace
+  createOpenShift(shiftId: string, previousAssigned: StaffMember | null, postedBy: string, note?: string): Promise<OpenShift>;
+  getOpenShifts(status?: OpenShiftStatus): Promise<OpenShift[]>;
+  getOpenShiftById(id: string): Promise<OpenShift | null>;
+  // One claim per staff member, and only while the posting is open
+  claimOpenShift(openShiftId: string, staffMember: StaffMember, note?: string): Promise<OpenShiftClaim>;
+  withdrawOpenShiftClaim(openShiftId: string, staffMember: StaffMember): Promise<boolean>;
+  // Assigns the shift to the claimant and closes the posting, marking the other claims not_awarded.
+  // On a published roster the award goes live as its next version. Fails if the posting has
+  // closed or the shift has been reassigned since it was posted.
+  awardOpenShift(
+    openShiftId: string,
+    staffMember: StaffMember,
+    awardedBy: string,
+    method: NonNullable<OpenShift["awardMethod"]>
+  ): Promise<OpenShift | null>;
+  // Closes the given postings if they are still open, returning those that were
+  closeOpenShifts(openShiftIds: string[], status: "cancelled" | "expired"): Promise<OpenShift[]>;
+  
+  // Leave / unavailability operations
+  createUnavailability(request: CreateUnavailabilityRequest): Promise<Unavailability>;
+  getUnavailability(filters?: { staffMember?: StaffMember; status?: UnavailabilityStatus }): Promise<Unavailability[]>;
+  respondToUnavailability(id: string, status: "approved" | "rejected"): Promise<Unavailability | null>;
+  deleteUnavailability(id: string): Promise<boolean>;
+  
+  // Audit trail operations (append-only)
+  recordAuditEvent(event: Omit<AuditEvent, "id" | "createdAt">): Promise<AuditEvent>;
+  getAuditEvents(query: AuditQuery): Promise<AuditEvent[]>;
+
+  // Working-time compliance rules (defaults until first saved)
+  getComplianceRules(): Promise<ComplianceRules>;
+  updateComplianceRules(updates: UpdateComplianceRulesRequest): Promise<ComplianceRules>;
+
+  // Shift types with their times and headcount, and the types each weekday runs;
+  // only rosters generated afterwards pick up changes
+  getShiftTemplates(): Promise<ShiftTemplate[]>;
+  createShiftTemplate(template: CreateShiftTemplateRequest): Promise<ShiftTemplate>;
+  updateShiftTemplate(shiftType: ShiftType, updates: UpdateShiftTemplateRequest): Promise<ShiftTemplate | null>;
+  deleteShiftTemplate(shiftType: ShiftType): Promise<boolean>;
+  getShiftLayout(): Promise<ShiftLayout>;
+  updateShiftLayout(layout: ShiftLayout): Promise<ShiftLayout>;
   
   // Notification operations
-  createNotification(staffMember: StaffMember, type: string, title: string, message: string, relatedShiftId?: string, relatedSwapId?: string): Promise<Notification>;
+  createNotification(staffMember: StaffMember, type: string, title: string, message: string, relatedShiftId?: string, relatedSwapId?: string, locationId?: string): Promise<Notification>;
   getNotifications(staffMember?: StaffMember, unreadOnly?: boolean): Promise<Notification[]>;
+  getNotificationById(notificationId: string): Promise<Notification | null>;
   markNotificationRead(notificationId: string): Promise<void>;
   markAllNotificationsRead(staffMember: StaffMember): Promise<void>;
+
+  // Delivery outside the app (defaults to in-app only until first saved)
+  getNotificationPreferences(staffId: string): Promise<NotificationPreferences>;
+  updateNotificationPreferences(staffId: string, updates: UpdateNotificationPreferencesRequest): Promise<NotificationPreferences>;
+  // Queued as pending and due straight away
+  createNotificationDeliveries(notification: Notification, targets: DeliveryTarget[]): Promise<NotificationDelivery[]>;
+  getNotificationDeliveries(query: NotificationDeliveryQuery): Promise<NotificationDelivery[]>;
+  getDueNotificationDeliveries(now: Date, limit: number): Promise<NotificationDelivery[]>;
+  // Counts one attempt; pending outcomes carry the time of the next one
+  recordDeliveryAttempt(deliveryId: string, outcome: DeliveryOutcome): Promise<NotificationDelivery | null>;
+  // Only a failed delivery can be retried; it starts again with a full set of attempts
+  retryNotificationDelivery(deliveryId: string): Promise<NotificationDelivery | null>;
+}
+
+export interface DeliveryTarget {
+  channel: NotificationChannel;
+  destination: string;
+}
+
+export interface DeliveryOutcome {
+  status: DeliveryStatus;
+  error: string | null;
+  nextAttemptAt: Date | null;
+}
+
+function dbUserToUser(dbUser: DbUser, staffName: StaffMember | null): User {
+  return {
+    id: dbUser.id,
+    username: dbUser.username,
+    role: dbUser.role as UserRole,
+    staffId: dbUser.staffId,
+    staffName,
+    createdAt: dbUser.createdAt.toISOString(),
+  };
+}
+
+function dbLocationToLocation(location: DbLocation): Location {
+  return {
+    id: location.id,
+    name: location.name,
+    isActive: location.isActive,
+    createdAt: location.createdAt.toISOString(),
+    updatedAt: location.updatedAt.toISOString(),
+  };
+}
+
+function dbStaffToStaff(dbStaff: DbStaff): Staff {
+  return {
+    id: dbStaff.id,
+    name: dbStaff.name,
+    role: dbStaff.role,
+    color: dbStaff.color as Staff["color"],
+    contractedHours: dbStaff.contractedHours,
+    locationIds: dbStaff.locationIds,
+    isActive: dbStaff.isActive,
+    createdAt: dbStaff.createdAt.toISOString(),
+    updatedAt: dbStaff.updatedAt.toISOString(),
+  };
+}
+
+function dbShiftRuleToShiftRule(dbRule: DbShiftRule): ShiftRule {
+  return {
+    id: dbRule.id,
+    name: dbRule.name,
+    priority: dbRule.priority,
+    weekdays: dbRule.weekdays,
+    shiftTypes: dbRule.shiftTypes,
+    allowedStaff: dbRule.allowedStaff ?? null,
+    rotation: dbRule.rotation,
+    fromWeek: dbRule.fromWeek,
+    toWeek: dbRule.toWeek,
+    locationId: dbRule.locationId,
+    publicHolidays: dbRule.publicHolidays as PublicHolidayRuleMode,
+    isActive: dbRule.isActive,
+    createdAt: dbRule.createdAt.toISOString(),
+    updatedAt: dbRule.updatedAt.toISOString(),
+  };
+}
+
+function dbPublicHolidayToPublicHoliday(holiday: DbPublicHoliday): PublicHoliday {
+  return {
+    id: holiday.id,
+    date: holiday.date,
+    name: holiday.name,
+    locationId: holiday.locationId,
+    createdAt: holiday.createdAt.toISOString(),
+  };
+}
+
+function dbUnavailabilityToUnavailability(entry: DbUnavailability): Unavailability {
+  return {
+    id: entry.id,
+    staffMember: entry.staffMember,
+    startDate: entry.startDate,
+    endDate: entry.endDate,
+    type: entry.type as Unavailability["type"],
+    status: entry.status as Unavailability["status"],
+    reason: entry.reason,
+    createdAt: entry.createdAt.toISOString(),
+    respondedAt: entry.respondedAt?.toISOString() || null,
+  };
+}
+
+function dbAuditEventToAuditEvent(event: DbAuditEvent): AuditEvent {
+  return {
+    id: event.id,
+    action: event.action as AuditEvent["action"],
+    rosterId: event.rosterId,
+    shiftId: event.shiftId,
+    swapRequestId: event.swapRequestId,
+    actorId: event.actorId,
+    actorName: event.actorName,
+    before: event.before ?? null,
+    after: event.after ?? null,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+function dbComplianceSettingsToRules(row: DbComplianceSettings): ComplianceRules {
+  return {
+    maxAvgWeeklyHours: row.maxAvgWeeklyHours,
+    referenceWeeks: row.referenceWeeks,
+    minDailyRestHours: row.minDailyRestHours,
+    minWeeklyRestHours: row.minWeeklyRestHours,
+    maxConsecutiveShifts: row.maxConsecutiveShifts,
+    maxConsecutiveNights: row.maxConsecutiveNights,
+    maxNightShiftsPerWeek: row.maxNightShiftsPerWeek,
+    blockViolations: row.blockViolations,
+  };
+}
+
+// Exclusive upper bound for an inclusive yyyy-MM-dd "to" filter
+function endOfDayExclusive(date: string): Date {
+  const end = new Date(`${date}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+  return end;
+}
+
+function dbNotificationToNotification(n: DbNotification): Notification {
+  return {
+    id: n.id,
+    staffMember: n.staffMember as StaffMember,
+    type: n.type as Notification["type"],
+    title: n.title,
+    message: n.message,
+    read: n.read,
+    createdAt: n.createdAt.toISOString(),
+    relatedShiftId: n.relatedShiftId,
+    relatedSwapId: n.relatedSwapId,
+    locationId: n.locationId,
+  };
+}
+
+function defaultNotificationPreferences(staffId: string): NotificationPreferences {
+  return { staffId, email: null, webhookUrl: null, channels: {}, updatedAt: null };
+}
+
+function dbNotificationPreferencesToPreferences(row: DbNotificationPreferences): NotificationPreferences {
+  return {
+    staffId: row.staffId,
+    email: row.email,
+    webhookUrl: row.webhookUrl,
+    channels: row.channels ?? {},
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function dbDeliveryToDelivery(
+  row: DbNotificationDelivery,
+  notification: Pick<DbNotification, "type" | "title">
+): NotificationDelivery {
+  return {
+    id: row.id,
+    notificationId: row.notificationId,
+    notificationType: notification.type as NotificationDelivery["notificationType"],
+    notificationTitle: notification.title,
+    staffMember: row.staffMember as StaffMember,
+    channel: row.channel as NotificationChannel,
+    destination: row.destination,
+    status: row.status as DeliveryStatus,
+    attempts: row.attempts,
+    lastError: row.lastError,
+    nextAttemptAt: row.nextAttemptAt?.toISOString() ?? null,
+    sentAt: row.sentAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
 }
 
 function dbShiftToRosterShift(dbShift: DbShift): RosterShift {
   return {
     id: dbShift.id,
+    slotKey: dbShift.slotKey,
     date: dbShift.date,
     weekday: dbShift.weekday,
-    shiftType: dbShift.shiftType as RosterShift["shiftType"],
+    shiftType: dbShift.shiftType,
+    position: dbShift.position,
     shiftLabel: dbShift.shiftLabel,
     hours: dbShift.hours,
+    startsAt: dbShift.startsAt.toISOString(),
+    endsAt: dbShift.endsAt.toISOString(),
+    breakMinutes: dbShift.breakMinutes,
+    timezone: dbShift.timezone,
+    publicHoliday: dbShift.publicHoliday,
     assigned: dbShift.assigned as StaffMember | null,
     allowedStaff: dbShift.allowedStaff as StaffMember[],
+    revision: dbShift.revision,
+  };
+}
+
+function dbOpenShiftClaimToClaim(claim: DbOpenShiftClaim): OpenShiftClaim {
+  return {
+    id: claim.id,
+    staffMember: claim.staffMember as StaffMember,
+    note: claim.note,
+    status: claim.status as OpenShiftClaim["status"],
+    createdAt: claim.createdAt.toISOString(),
+  };
+}
+
+function dbOpenShiftToOpenShift(posting: DbOpenShift, shift: DbShift, claims: DbOpenShiftClaim[]): OpenShift {
+  return {
+    id: posting.id,
+    shiftId: posting.shiftId,
+    rosterId: shift.rosterId,
+    shiftDate: shift.date,
+    shiftType: shift.shiftType,
+    weekday: shift.weekday,
+    hours: shift.hours,
+    allowedStaff: shift.allowedStaff as StaffMember[],
+    previousAssigned: posting.previousAssigned as StaffMember | null,
+    status: posting.status as OpenShiftStatus,
+    note: posting.note,
+    postedBy: posting.postedBy,
+    awardedTo: posting.awardedTo as StaffMember | null,
+    awardedBy: posting.awardedBy,
+    awardMethod: posting.awardMethod as OpenShift["awardMethod"],
+    claims: claims
+      .slice()
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(dbOpenShiftClaimToClaim),
+    createdAt: posting.createdAt.toISOString(),
+    closedAt: posting.closedAt?.toISOString() ?? null,
+  };
+}
+
+export type StorageConflictCode =
+  | "already_responded"
+  | "stale"
+  | "not_allowed"
+  | "revision_conflict"
+  | "not_open"
+  | "already_claimed";
+
+// A write refused because what it was made against has moved on, such as a swap another
+// response got to first. Routes answer these with their code rather than a 500.
+export class StorageConflictError extends Error {
+  constructor(readonly code: StorageConflictCode, message: string) {
+    super(message);
+    this.name = "StorageConflictError";
+  }
+}
+
+// Why a swap request that has moved on can no longer be answered at the stage asked for
+function swapAlreadyAnswered(status: string): StorageConflictError {
+  return new StorageConflictError(
+    "already_responded",
+    status === "pending_manager"
+      ? "Swap request has already been accepted by the colleague"
+      : `Swap request has already been ${status}`
+  );
+}
+
+function dbSwapRequestToSwapRequest(req: DbSwapRequest, shift?: DbShift, counterShift?: DbShift): SwapRequestWithDetails {
+  return {
+    id: req.id,
+    type: req.type as SwapRequestWithDetails["type"],
+    shiftId: req.shiftId,
+    shiftDate: shift?.date || "",
+    shiftType: shift?.shiftType || "",
+    counterShiftId: req.counterShiftId,
+    counterShiftDate: counterShift?.date ?? null,
+    counterShiftType: counterShift?.shiftType ?? null,
+    fromStaff: req.fromStaff as StaffMember,
+    toStaff: req.toStaff as StaffMember,
+    status: req.status as SwapStatus,
+    stale: isSwapOpen(req.status as SwapStatus) && (
+      shift?.assigned !== req.fromStaff || (!!req.counterShiftId && counterShift?.assigned !== req.toStaff)
+    ),
+    reason: req.reason,
+    colleagueActedBy: req.colleagueActedBy,
+    colleagueActedAt: req.colleagueActedAt?.toISOString() ?? null,
+    managerActedBy: req.managerActedBy,
+    managerActedAt: req.managerActedAt?.toISOString() ?? null,
+    createdAt: req.createdAt.toISOString(),
+    respondedAt: req.respondedAt?.toISOString() || null,
+  };
+}
+
+function dbRosterToRoster(roster: DbRoster, rosterShifts: DbShift[]): Roster {
+  return {
+    id: roster.id,
+    name: roster.name,
+    locationId: roster.locationId,
+    startDate: roster.startDate,
+    endDate: roster.endDate,
+    weeks: roster.weeks,
+    shifts: rosterShifts.map(dbShiftToRosterShift),
+    createdAt: roster.createdAt.toISOString(),
+    updatedAt: roster.updatedAt.toISOString(),
+    isActive: roster.isActive,
+    version: roster.version,
+    status: roster.status as RosterStatus,
+  };
+}
+
+// Snapshots are never rewritten, so fields added to shifts since are filled in on read.
+// Shifts published before templates existed ran 08:00 (20:00 for nights) for their hours
+// in the default zone, before headcounts every slot had one person, and before the
+// holiday calendar no shift was on a public holiday.
+function withLegacyShiftFields(shift: RosterShift): RosterShift {
+  const withPosition = { ...shift, position: shift.position ?? 1, publicHoliday: shift.publicHoliday ?? null };
+  if (shift.startsAt) return withPosition;
+  const startsAt = zonedTimeToUtc(shift.date, shift.shiftType === "Night" ? "20:00" : "08:00", DEFAULT_TIMEZONE);
+  return {
+    ...withPosition,
+    startsAt: startsAt.toISOString(),
+    endsAt: new Date(startsAt.getTime() + shift.hours * 60 * 60 * 1000).toISOString(),
+    breakMinutes: 0,
+    timezone: DEFAULT_TIMEZONE,
   };
 }
 
+function dbShiftTemplateToTemplate(row: DbShiftTemplate): ShiftTemplate {
+  return {
+    shiftType: row.shiftType as ShiftType,
+    startTime: row.startTime,
+    endTime: row.endTime,
+    breakMinutes: row.breakMinutes,
+    timezone: row.timezone,
+    crossesMidnight: row.crossesMidnight,
+    headcount: row.headcount,
+    sortOrder: row.sortOrder,
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function sortShiftTemplates(templates: ShiftTemplate[]): ShiftTemplate[] {
+  return templates.slice().sort((a, b) => a.sortOrder - b.sortOrder || a.shiftType.localeCompare(b.shiftType));
+}
+
+// Weekdays without a row run no shifts
+function emptyShiftLayout(): ShiftLayout {
+  return { ...Object.fromEntries(WEEKDAYS.map((day) => [day, []])), Holiday: null } as unknown as ShiftLayout;
+}
+
+function dbRosterVersionToRosterVersion(v: DbRosterVersion): RosterVersion {
+  return {
+    id: v.id,
+    rosterId: v.rosterId,
+    version: v.version,
+    name: v.name,
+    startDate: v.startDate,
+    endDate: v.endDate,
+    weeks: v.weeks,
+    shifts: v.shifts.map(withLegacyShiftFields),
+    note: v.note,
+    publishedBy: v.publishedBy,
+    publishedAt: v.publishedAt.toISOString(),
+  };
+}
+
+function toVersionSummary(v: RosterVersion): RosterVersionSummary {
+  const { shifts: versionShifts, ...summary } = v;
+  return { ...summary, shiftCount: versionShifts.length };
+}
+
+// Snapshot of a draft roster as its next published version
+function snapshotRoster(roster: Roster, publishedBy: string, note?: string): RosterVersion {
+  return {
+    id: randomUUID(),
+    rosterId: roster.id,
+    version: (roster.version ?? 0) + 1,
+    name: roster.name,
+    startDate: roster.startDate,
+    endDate: roster.endDate,
+    weeks: roster.weeks,
+    shifts: roster.shifts.map((shift) => ({ ...shift, allowedStaff: [...shift.allowedStaff] })),
+    note: note || null,
+    publishedBy,
+    publishedAt: new Date().toISOString(),
+  };
+}
+
+// A shift changing hands: from whoever holds it now (null when empty) to its new holder
+interface Reassignment {
+  shiftId: string;
+  from: StaffMember | null;
+  to: StaffMember;
+  // Why it can't go ahead once the shift is no longer held by `from`
+  stale: string;
+}
+
+// The shifts with each reassignment made. Throws if any shift has changed hands since.
+function reassign(rosterShifts: RosterShift[], moves: Reassignment[]): RosterShift[] {
+  for (const move of moves) {
+    const shift = rosterShifts.find((s) => s.id === move.shiftId);
+    if (!shift || shift.assigned !== move.from) {
+      throw new StorageConflictError("stale", move.stale);
+    }
+  }
+  return followReassignments(rosterShifts, moves);
+}
+
+// The shifts with each reassignment made wherever the shift is still held by `from`
+function followReassignments(rosterShifts: RosterShift[], moves: Reassignment[]): RosterShift[] {
+  return rosterShifts.map((shift) => {
+    const move = moves.find((m) => m.shiftId === shift.id && m.from === shift.assigned);
+    return move ? { ...shift, assigned: move.to, revision: shift.revision + 1 } : shift;
+  });
+}
+
+// Hands the shift in an approved swap over, and for a trade takes the counter shift back
+function swapReassignments(swap: Pick<DbSwapRequest, "shiftId" | "counterShiftId" | "fromStaff" | "toStaff">): Reassignment[] {
+  const moves: Reassignment[] = [{
+    shiftId: swap.shiftId,
+    from: swap.fromStaff,
+    to: swap.toStaff,
+    stale: `${swap.fromStaff} no longer holds the shift in this swap request`,
+  }];
+  if (swap.counterShiftId) {
+    moves.push({
+      shiftId: swap.counterShiftId,
+      from: swap.toStaff,
+      to: swap.fromStaff,
+      stale: `${swap.toStaff} no longer holds the shift offered in return`,
+    });
+  }
+  return moves;
+}
+
+// Staff only ever see published versions, so a change made for them on a published roster
+// (an approved swap or an awarded open shift) goes live straight away as the next version:
+// the one they acted on, with the change made
+function snapshotReassignment(
+  roster: Roster,
+  published: RosterVersion,
+  moves: Reassignment[],
+  publishedBy: string,
+  note: string
+): RosterVersion {
+  const { name, startDate, endDate, weeks } = published;
+  return snapshotRoster(
+    { ...roster, name, startDate, endDate, weeks, shifts: reassign(published.shifts, moves) },
+    publishedBy,
+    note
+  );
+}
+
 export class DatabaseStorage implements IStorage {
-  private db = createDb();
+  sessionStore: session.Store;
 
-  async getActiveRoster(): Promise<Roster | null> {
+  // Tests pass in their own database and session store
+  constructor(private db: Database = createDb(), sessionStore?: session.Store) {
+    this.sessionStore = sessionStore ?? new PostgresSessionStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+    });
+  }
+
+  async migrate(): Promise<void> {
+    // Shifts used to be keyed globally by "<date>-<type>", so overlapping rosters
+    // collided. Legacy rows keep their (already unique) id and it becomes their slot key.
+    await this.db.execute(sql`ALTER TABLE shifts ADD COLUMN IF NOT EXISTS slot_key text`);
+    await this.db.execute(sql`UPDATE shifts SET slot_key = id WHERE slot_key IS NULL`);
+    await this.db.execute(sql`ALTER TABLE shifts ALTER COLUMN slot_key SET NOT NULL`);
+    await this.db.execute(
+      sql`CREATE UNIQUE INDEX IF NOT EXISTS shifts_roster_slot_idx ON shifts (roster_id, slot_key)`
+    );
+
+    // Swaps used to be answered in one step, so requests left pending still await the colleague
+    await this.db.execute(sql`UPDATE swap_requests SET status = 'pending_colleague' WHERE status = 'pending'`);
+
+    // Shifts only had a type and an hour count. They ran from 08:00 (20:00 for nights) in
+    // the default zone, which is what the default templates say too.
+    await this.db.execute(sql`
+      ALTER TABLE shifts
+        ADD COLUMN IF NOT EXISTS starts_at timestamp,
+        ADD COLUMN IF NOT EXISTS ends_at timestamp,
+        ADD COLUMN IF NOT EXISTS break_minutes integer NOT NULL DEFAULT 0,
+        ADD COLUMN IF NOT EXISTS timezone text,
+        ALTER COLUMN hours TYPE real
+    `);
+    await this.db.execute(sql`
+      UPDATE shifts SET
+        starts_at = ((date::date + (CASE WHEN shift_type = 'Night' THEN time '20:00' ELSE time '08:00' END))
+          AT TIME ZONE ${DEFAULT_TIMEZONE}) AT TIME ZONE 'UTC',
+        timezone = ${DEFAULT_TIMEZONE}
+      WHERE starts_at IS NULL
+    `);
+    await this.db.execute(sql`UPDATE shifts SET ends_at = starts_at + hours * interval '1 hour' WHERE ends_at IS NULL`);
+    await this.db.execute(sql`
+      ALTER TABLE shifts
+        ALTER COLUMN starts_at SET NOT NULL,
+        ALTER COLUMN ends_at SET NOT NULL,
+        ALTER COLUMN timezone SET NOT NULL
+    `);
+
+    // Every slot had one person before shift types had a headcount
+    await this.db.execute(sql`ALTER TABLE shifts ADD COLUMN IF NOT EXISTS position integer NOT NULL DEFAULT 1`);
+    await this.db.execute(sql`
+      ALTER TABLE IF EXISTS shift_templates
+        ADD COLUMN IF NOT EXISTS headcount integer NOT NULL DEFAULT 1,
+        ADD COLUMN IF NOT EXISTS sort_order integer NOT NULL DEFAULT 0
+    `);
+
+    // Everything belonged to the one home before there were locations. Notifications about
+    // a shift take the location of its roster. DDL can't take bind parameters, so the
+    // defaults are written in as literals.
+    const defaultLocationId = sql.raw(`'${DEFAULT_LOCATION_ID}'`);
+    const defaultLocationIds = sql.raw(`'${JSON.stringify([DEFAULT_LOCATION_ID])}'::jsonb`);
+    await this.db.execute(sql`ALTER TABLE rosters ADD COLUMN IF NOT EXISTS location_id text NOT NULL DEFAULT ${defaultLocationId}`);
+    await this.db.execute(sql`
+      ALTER TABLE staff ADD COLUMN IF NOT EXISTS location_ids jsonb NOT NULL DEFAULT ${defaultLocationIds}
+    `);
+    await this.db.execute(sql`ALTER TABLE shift_rules ADD COLUMN IF NOT EXISTS location_id text`);
+    await this.db.execute(sql`ALTER TABLE notifications ADD COLUMN IF NOT EXISTS location_id text`);
+    await this.db.execute(sql`
+      UPDATE notifications SET location_id = r.location_id
+      FROM shifts s JOIN rosters r ON r.id = s.roster_id
+      WHERE notifications.related_shift_id = s.id AND notifications.location_id IS NULL
+    `);
+
+    // Rules written before the holiday calendar apply on holidays like any other day
+    await this.db.execute(sql`ALTER TABLE shift_rules ADD COLUMN IF NOT EXISTS public_holidays text NOT NULL DEFAULT 'include'`);
+    await this.db.execute(sql`ALTER TABLE shifts ADD COLUMN IF NOT EXISTS public_holiday text`);
+
+    // Rosters were always saved as version 1 without a snapshot. Once roster_versions
+    // exists (after db:push), those become unpublished drafts.
+    const result = await this.db.execute(sql`
+      SELECT
+        to_regclass('public.roster_versions') AS versions_table,
+        EXISTS (
+          SELECT 1 FROM information_schema.columns WHERE table_name = 'rosters' AND column_name = 'status'
+        ) AS has_status
+    `);
+    const { versions_table: versionsTable, has_status: hasStatus } = result.rows[0] ?? {};
+    if (versionsTable) {
+      await this.db.execute(sql`
+        UPDATE rosters SET version = 0
+        WHERE version > 0 AND NOT EXISTS (SELECT 1 FROM roster_versions v WHERE v.roster_id = rosters.id)
+      `);
+    }
+
+    // Before statuses existed the active roster was what everyone saw, so it becomes the
+    // published roster (with a first version for staff to read) and the rest stay drafts.
+    if (versionsTable && hasStatus) {
+      const legacyActive = await this.db
+        .select()
+        .from(rosters)
+        .where(and(eq(rosters.isActive, true), eq(rosters.status, "draft")));
+      for (const roster of legacyActive) {
+        if (roster.version === 0) {
+          await this.publishRoster(roster.id, "system", "Published automatically when roster statuses were introduced");
+        } else {
+          await this.setActiveRoster(roster.id);
+        }
+      }
+    }
+  }
+
+  // User account operations
+  async getUsers(): Promise<User[]> {
+    const rows = await this.db
+      .select({ user: users, staffName: staff.name })
+      .from(users)
+      .leftJoin(staff, eq(users.staffId, staff.id))
+      .orderBy(users.username);
+
+    return rows.map((row) => dbUserToUser(row.user, row.staffName));
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    const [row] = await this.db
+      .select({ user: users, staffName: staff.name })
+      .from(users)
+      .leftJoin(staff, eq(users.staffId, staff.id))
+      .where(eq(users.id, id))
+      .limit(1);
+    
+    return row ? dbUserToUser(row.user, row.staffName) : null;
+  }
+
+  async getUserByUsername(username: string): Promise<(User & { passwordHash: string }) | null> {
+    const [row] = await this.db
+      .select({ user: users, staffName: staff.name })
+      .from(users)
+      .leftJoin(staff, eq(users.staffId, staff.id))
+      .where(eq(users.username, username))
+      .limit(1);
+    
+    return row ? { ...dbUserToUser(row.user, row.staffName), passwordHash: row.user.passwordHash } : null;
+  }
+
+  async createUser(user: { username: string; passwordHash: string; role: UserRole; staffId: string | null }): Promise<User> {
+    const userId = randomUUID();
+    
+    await this.db.insert(users).values({
+      id: userId,
+      username: user.username,
+      passwordHash: user.passwordHash,
+      role: user.role,
+      staffId: user.staffId,
+    });
+    
+    return this.getUserById(userId) as Promise<User>;
+  }
+
+  async updateUser(id: string, updates: { passwordHash?: string; role?: UserRole; staffId?: string | null }): Promise<User | null> {
+    const updated = await this.db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    
+    return updated.length > 0 ? this.getUserById(id) : null;
+  }
+
+  async getCalendarToken(userId: string): Promise<string | null> {
+    const [row] = await this.db
+      .select({ calendarToken: users.calendarToken })
+      .from(users)
+      .where(eq(users.id, userId));
+    
+    return row?.calendarToken ?? null;
+  }
+
+  async setCalendarToken(userId: string, token: string): Promise<void> {
+    await this.db
+      .update(users)
+      .set({ calendarToken: token })
+      .where(eq(users.id, userId));
+  }
+
+  async getUserByCalendarToken(token: string): Promise<User | null> {
+    const [row] = await this.db
+      .select({ user: users, staffName: staff.name })
+      .from(users)
+      .leftJoin(staff, eq(users.staffId, staff.id))
+      .where(eq(users.calendarToken, token))
+      .limit(1);
+    
+    return row ? dbUserToUser(row.user, row.staffName) : null;
+  }
+
+  // Location operations
+  async getLocations(): Promise<Location[]> {
+    const rows = await this.db
+      .select()
+      .from(locations)
+      .orderBy(locations.createdAt);
+    
+    return rows.map(dbLocationToLocation);
+  }
+
+  async getLocationById(id: string): Promise<Location | null> {
+    const [location] = await this.db
+      .select()
+      .from(locations)
+      .where(eq(locations.id, id))
+      .limit(1);
+    
+    return location ? dbLocationToLocation(location) : null;
+  }
+
+  async createLocation(location: CreateLocationRequest, id?: string): Promise<Location> {
+    const now = new Date();
+    const [created] = await this.db
+      .insert(locations)
+      .values({ id: id ?? randomUUID(), name: location.name, isActive: true, createdAt: now, updatedAt: now })
+      .returning();
+    
+    return dbLocationToLocation(created);
+  }
+
+  async updateLocation(id: string, updates: UpdateLocationRequest): Promise<Location | null> {
+    const [updated] = await this.db
+      .update(locations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(locations.id, id))
+      .returning();
+    
+    return updated ? dbLocationToLocation(updated) : null;
+  }
+
+  // Staff directory operations
+  async getStaff(): Promise<Staff[]> {
+    const rows = await this.db
+      .select()
+      .from(staff)
+      .orderBy(staff.createdAt);
+    
+    return rows.map(dbStaffToStaff);
+  }
+
+  async getStaffById(id: string): Promise<Staff | null> {
+    const [member] = await this.db
+      .select()
+      .from(staff)
+      .where(eq(staff.id, id))
+      .limit(1);
+    
+    return member ? dbStaffToStaff(member) : null;
+  }
+
+  async createStaff(member: CreateStaffRequest): Promise<Staff> {
+    const staffId = randomUUID();
+    const now = new Date();
+    
+    await this.db.insert(staff).values({
+      id: staffId,
+      name: member.name,
+      role: member.role,
+      color: member.color,
+      contractedHours: member.contractedHours,
+      locationIds: member.locationIds,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+    
+    return this.getStaffById(staffId) as Promise<Staff>;
+  }
+
+  async updateStaff(id: string, updates: UpdateStaffRequest): Promise<Staff | null> {
+    const existing = await this.getStaffById(id);
+    if (!existing) return null;
+    
+    await this.db
+      .update(staff)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(staff.id, id));
+    
+    return this.getStaffById(id);
+  }
+
+  // Shift rule operations
+  async getShiftRules(): Promise<ShiftRule[]> {
+    const rows = await this.db
+      .select()
+      .from(shiftRules)
+      .orderBy(shiftRules.priority, shiftRules.createdAt);
+    
+    return rows.map(dbShiftRuleToShiftRule);
+  }
+
+  async createShiftRule(rule: CreateShiftRuleRequest): Promise<ShiftRule> {
+    const ruleId = randomUUID();
+    const now = new Date();
+    
+    const [created] = await this.db
+      .insert(shiftRules)
+      .values({
+        id: ruleId,
+        ...rule,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    
+    return dbShiftRuleToShiftRule(created);
+  }
+
+  async updateShiftRule(id: string, updates: UpdateShiftRuleRequest): Promise<ShiftRule | null> {
+    const [updated] = await this.db
+      .update(shiftRules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(shiftRules.id, id))
+      .returning();
+    
+    return updated ? dbShiftRuleToShiftRule(updated) : null;
+  }
+
+  async deleteShiftRule(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(shiftRules)
+      .where(eq(shiftRules.id, id))
+      .returning();
+    
+    return deleted.length > 0;
+  }
+
+  // Public holiday operations
+  async getPublicHolidays(locationId?: string): Promise<PublicHoliday[]> {
+    const rows = await this.db
+      .select()
+      .from(publicHolidays)
+      .where(locationId ? or(isNull(publicHolidays.locationId), eq(publicHolidays.locationId, locationId)) : undefined)
+      .orderBy(publicHolidays.date);
+    
+    return rows.map(dbPublicHolidayToPublicHoliday);
+  }
+
+  async createPublicHolidays(holidays: CreatePublicHolidayRequest[]): Promise<PublicHoliday[]> {
+    if (holidays.length === 0) return [];
+    const now = new Date();
+    const created = await this.db
+      .insert(publicHolidays)
+      .values(holidays.map((holiday) => ({ id: randomUUID(), ...holiday, createdAt: now })))
+      .returning();
+    
+    return created.map(dbPublicHolidayToPublicHoliday);
+  }
+
+  async deletePublicHoliday(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(publicHolidays)
+      .where(eq(publicHolidays.id, id))
+      .returning();
+    
+    return deleted.length > 0;
+  }
+
+
+  async getActiveRoster(locationId: string): Promise<Roster | null> {
     const [activeRoster] = await this.db
       .select()
       .from(rosters)
-      .where(eq(rosters.isActive, true))
+      .where(and(eq(rosters.isActive, true), eq(rosters.locationId, locationId)))
       .limit(1);
     
     if (!activeRoster) return null;
@@ -80,24 +1078,25 @@ export class DatabaseStorage implements IStorage {
       .from(shifts)
       .where(eq(shifts.rosterId, id));
     
-    return {
-      id: roster.id,
-      name: roster.name,
-      startDate: roster.startDate,
-      endDate: roster.endDate,
-      weeks: roster.weeks,
-      shifts: rosterShifts.map(dbShiftToRosterShift),
-      createdAt: roster.createdAt.toISOString(),
-      updatedAt: roster.updatedAt.toISOString(),
-      isActive: roster.isActive,
-      version: roster.version,
-    };
+    return dbRosterToRoster(roster, rosterShifts);
+  }
+
+  async getShiftById(shiftId: string): Promise<(RosterShift & { rosterId: string; locationId: string }) | null> {
+    const [row] = await this.db
+      .select({ shift: shifts, locationId: rosters.locationId })
+      .from(shifts)
+      .innerJoin(rosters, eq(shifts.rosterId, rosters.id))
+      .where(eq(shifts.id, shiftId))
+      .limit(1);
+    
+    return row ? { ...dbShiftToRosterShift(row.shift), rosterId: row.shift.rosterId, locationId: row.locationId } : null;
   }
 
-  async getAllRosters(): Promise<RosterSummary[]> {
+  async getAllRosters(locationId?: string): Promise<RosterSummary[]> {
     const allRosters = await this.db
       .select()
       .from(rosters)
+      .where(locationId ? eq(rosters.locationId, locationId) : undefined)
       .orderBy(desc(rosters.createdAt));
     
     const summaries: RosterSummary[] = [];
@@ -111,12 +1110,14 @@ export class DatabaseStorage implements IStorage {
       summaries.push({
         id: roster.id,
         name: roster.name,
+        locationId: roster.locationId,
         startDate: roster.startDate,
         endDate: roster.endDate,
         weeks: roster.weeks,
         createdAt: roster.createdAt.toISOString(),
         isActive: roster.isActive,
         version: roster.version,
+        status: roster.status as RosterStatus,
         shiftCount: shiftCount.length,
       });
     }
@@ -128,43 +1129,52 @@ export class DatabaseStorage implements IStorage {
     const rosterId = roster.id || randomUUID();
     const now = new Date();
     
-    // Deactivate all existing rosters
-    await this.db.update(rosters).set({ isActive: false });
-    
-    // Insert the new roster
-    await this.db.insert(rosters).values({
-      id: rosterId,
-      name: roster.name,
-      startDate: roster.startDate,
-      endDate: roster.endDate,
-      weeks: roster.weeks,
-      createdAt: now,
-      updatedAt: now,
-      isActive: true,
-      version: roster.version || 1,
-    });
-    
-    // Insert all shifts
-    if (roster.shifts.length > 0) {
-      await this.db.insert(shifts).values(
-        roster.shifts.map((shift) => ({
-          id: shift.id,
-          rosterId: rosterId,
-          date: shift.date,
-          weekday: shift.weekday,
-          shiftType: shift.shiftType,
-          shiftLabel: shift.shiftLabel,
-          hours: shift.hours,
-          assigned: shift.assigned,
-          allowedStaff: shift.allowedStaff,
-        }))
-      );
-    }
+    // The roster and its shifts are saved together or not at all
+    await this.db.transaction(async (tx) => {
+      // New rosters always start as a draft; they only go live when published
+      await tx.insert(rosters).values({
+        id: rosterId,
+        name: roster.name,
+        locationId: roster.locationId,
+        startDate: roster.startDate,
+        endDate: roster.endDate,
+        weeks: roster.weeks,
+        createdAt: now,
+        updatedAt: now,
+        isActive: false,
+        version: roster.version ?? 0,
+        status: "draft",
+      });
+      
+      if (roster.shifts.length > 0) {
+        await tx.insert(shifts).values(
+          roster.shifts.map((shift) => ({
+            id: shift.id,
+            rosterId: rosterId,
+            slotKey: shift.slotKey,
+            date: shift.date,
+            weekday: shift.weekday,
+            shiftType: shift.shiftType,
+            position: shift.position,
+            shiftLabel: shift.shiftLabel,
+            hours: shift.hours,
+            startsAt: new Date(shift.startsAt),
+            endsAt: new Date(shift.endsAt),
+            breakMinutes: shift.breakMinutes,
+            timezone: shift.timezone,
+            publicHoliday: shift.publicHoliday,
+            assigned: shift.assigned,
+            allowedStaff: shift.allowedStaff,
+            revision: shift.revision,
+          }))
+        );
+      }
+    });
     
     return this.getRosterById(rosterId) as Promise<Roster>;
   }
 
-  async updateShift(shiftId: string, assigned: StaffMember | null): Promise<RosterShift | null> {
+  async updateShift(shiftId: string, assigned: StaffMember | null, revision: number): Promise<RosterShift | null> {
     // Get the current shift
     const [shift] = await this.db
       .select()
@@ -177,14 +1187,18 @@ export class DatabaseStorage implements IStorage {
     // Validate that the assigned staff is allowed for this shift
     const allowedStaff = shift.allowedStaff as StaffMember[];
     if (assigned !== null && !allowedStaff.includes(assigned)) {
-      throw new Error(`Staff member ${assigned} is not allowed for this shift`);
+      throw new StorageConflictError("not_allowed", `Staff member ${assigned} is not allowed for this shift`);
     }
     
-    // Update the shift
-    await this.db
+    // Only write over the revision the edit was made against, so of two concurrent edits one fails
+    const [updatedShift] = await this.db
       .update(shifts)
-      .set({ assigned })
-      .where(eq(shifts.id, shiftId));
+      .set({ assigned, revision: sql`${shifts.revision} + 1` })
+      .where(and(eq(shifts.id, shiftId), eq(shifts.revision, revision)))
+      .returning();
+    if (!updatedShift) {
+      throw new StorageConflictError("revision_conflict", `The shift has been changed since revision ${revision}`);
+    }
     
     // Update the roster's updatedAt
     await this.db
@@ -192,24 +1206,96 @@ export class DatabaseStorage implements IStorage {
       .set({ updatedAt: new Date() })
       .where(eq(rosters.id, shift.rosterId));
     
-    // Get updated shift
-    const [updatedShift] = await this.db
-      .select()
-      .from(shifts)
-      .where(eq(shifts.id, shiftId))
-      .limit(1);
-    
     return dbShiftToRosterShift(updatedShift);
   }
 
   async setActiveRoster(rosterId: string): Promise<void> {
-    // Deactivate all rosters
-    await this.db.update(rosters).set({ isActive: false });
+    await this.db.transaction(async (tx) => {
+      await this.activateRoster(tx, rosterId);
+    });
+  }
+
+  // Archive the roster that was live at the same location until now and publish the specified one.
+  // Always called inside a transaction so a location never has zero or two live rosters.
+  // Makes reassignments inside the caller's transaction. On a published roster they are
+  // made on the live version, which is published as the next one, and the draft follows
+  // wherever it still agrees. On any other roster each shift must still be held in the draft.
+  private async reassignShifts(tx: Transaction, moves: Reassignment[], publishedBy: string, note: string): Promise<void> {
+    const [{ rosterId }] = await tx
+      .select({ rosterId: shifts.rosterId })
+      .from(shifts)
+      .where(eq(shifts.id, moves[0].shiftId));
+    // Locked like a publish, so the two can't take the same version number
+    const [roster] = await tx
+      .select()
+      .from(rosters)
+      .where(eq(rosters.id, rosterId))
+      .for("update");
+    const [published] = roster.status === "published" && roster.version
+      ? await tx
+          .select()
+          .from(rosterVersions)
+          .where(and(eq(rosterVersions.rosterId, rosterId), eq(rosterVersions.version, roster.version)))
+      : [];
+    if (published) {
+      const snapshot = snapshotReassignment(
+        dbRosterToRoster(roster, []),
+        dbRosterVersionToRosterVersion(published),
+        moves,
+        publishedBy,
+        note
+      );
+      await tx.insert(rosterVersions).values({
+        ...snapshot,
+        publishedAt: new Date(snapshot.publishedAt),
+      });
+      await tx
+        .update(rosters)
+        .set({ version: snapshot.version })
+        .where(eq(rosters.id, rosterId));
+    }
+
+    for (const move of moves) {
+      const [updated] = await tx
+        .update(shifts)
+        .set({ assigned: move.to, revision: sql`${shifts.revision} + 1` })
+        .where(and(
+          eq(shifts.id, move.shiftId),
+          move.from === null ? isNull(shifts.assigned) : eq(shifts.assigned, move.from)
+        ))
+        .returning();
+      if (!updated && !published) {
+        throw new StorageConflictError("stale", move.stale);
+      }
+    }
+    await tx
+      .update(rosters)
+      .set({ updatedAt: new Date() })
+      .where(eq(rosters.id, rosterId));
+  }
+
+  private async activateRoster(tx: Transaction, rosterId: string): Promise<void> {
+    const [roster] = await tx
+      .select({ locationId: rosters.locationId })
+      .from(rosters)
+      .where(eq(rosters.id, rosterId));
+    if (!roster) return;
+
+    await tx
+      .update(rosters)
+      .set({ isActive: false, status: "archived" })
+      .where(and(eq(rosters.status, "published"), eq(rosters.locationId, roster.locationId), ne(rosters.id, rosterId)));
     
-    // Activate the specified roster
+    await tx
+      .update(rosters)
+      .set({ isActive: true, status: "published" })
+      .where(eq(rosters.id, rosterId));
+  }
+
+  async setRosterStatus(rosterId: string, status: Exclude<RosterStatus, "published">): Promise<void> {
     await this.db
       .update(rosters)
-      .set({ isActive: true })
+      .set({ isActive: false, status })
       .where(eq(rosters.id, rosterId));
   }
 
@@ -218,16 +1304,90 @@ export class DatabaseStorage implements IStorage {
     await this.db.delete(rosters).where(eq(rosters.id, rosterId));
   }
 
+  // Roster version operations
+  async publishRoster(rosterId: string, publishedBy: string, note?: string): Promise<RosterVersion | null> {
+    return this.db.transaction(async (tx) => {
+      // Lock the roster so concurrent publishes can't take the same version number
+      const [roster] = await tx
+        .select()
+        .from(rosters)
+        .where(eq(rosters.id, rosterId))
+        .for("update");
+      if (!roster) return null;
+
+      const rosterShifts = await tx
+        .select()
+        .from(shifts)
+        .where(eq(shifts.rosterId, rosterId));
+
+      const snapshot = snapshotRoster(dbRosterToRoster(roster, rosterShifts), publishedBy, note);
+      await tx.insert(rosterVersions).values({
+        ...snapshot,
+        publishedAt: new Date(snapshot.publishedAt),
+      });
+      await tx
+        .update(rosters)
+        .set({ version: snapshot.version })
+        .where(eq(rosters.id, rosterId));
+      await this.activateRoster(tx, rosterId);
+
+      return snapshot;
+    });
+  }
+
+  async getRosterVersions(rosterId: string): Promise<RosterVersionSummary[]> {
+    const versions = await this.db
+      .select()
+      .from(rosterVersions)
+      .where(eq(rosterVersions.rosterId, rosterId))
+      .orderBy(desc(rosterVersions.version));
+
+    return versions.map((v) => toVersionSummary(dbRosterVersionToRosterVersion(v)));
+  }
+
+  async getRosterVersion(rosterId: string, version: number): Promise<RosterVersion | null> {
+    const [found] = await this.db
+      .select()
+      .from(rosterVersions)
+      .where(and(eq(rosterVersions.rosterId, rosterId), eq(rosterVersions.version, version)))
+      .limit(1);
+
+    return found ? dbRosterVersionToRosterVersion(found) : null;
+  }
+
+  async restoreShiftAssignments(rosterId: string, assignments: Pick<RosterShift, "slotKey" | "assigned">[]): Promise<Roster | null> {
+    const restored = await this.db.transaction(async (tx) => {
+      const [roster] = await tx
+        .update(rosters)
+        .set({ updatedAt: new Date() })
+        .where(eq(rosters.id, rosterId))
+        .returning();
+      if (!roster) return false;
+
+      for (const { slotKey, assigned } of assignments) {
+        await tx
+          .update(shifts)
+          .set({ assigned, revision: sql`${shifts.revision} + 1` })
+          .where(and(
+            eq(shifts.rosterId, rosterId),
+            eq(shifts.slotKey, slotKey),
+            sql`${shifts.assigned} is distinct from ${assigned}`
+          ));
+      }
+      return true;
+    });
+
+    return restored ? this.getRosterById(rosterId) : null;
+  }
+
   // Swap request operations
   async createSwapRequest(
     shiftId: string, 
     fromStaff: StaffMember, 
     toStaff: StaffMember, 
-    reason?: string
+    reason?: string,
+    counterShiftId?: string
   ): Promise<SwapRequestWithDetails> {
-    const requestId = randomUUID();
-    
-    // Get shift details
     const [shift] = await this.db
       .select()
       .from(shifts)
@@ -237,36 +1397,34 @@ export class DatabaseStorage implements IStorage {
     if (!shift) {
       throw new Error("Shift not found");
     }
+
+    let counterShift: DbShift | undefined;
+    if (counterShiftId) {
+      [counterShift] = await this.db
+        .select()
+        .from(shifts)
+        .where(eq(shifts.id, counterShiftId))
+        .limit(1);
+      if (!counterShift) {
+        throw new Error("Shift not found");
+      }
+    }
     
-    await this.db.insert(swapRequests).values({
-      id: requestId,
+    const [created] = await this.db.insert(swapRequests).values({
+      id: randomUUID(),
+      type: counterShiftId ? "trade" : "handover",
       shiftId,
+      counterShiftId: counterShiftId ?? null,
       fromStaff,
       toStaff,
-      status: "pending",
+      status: "pending_colleague",
       reason: reason || null,
-    });
+    }).returning();
     
-    return {
-      id: requestId,
-      shiftId,
-      shiftDate: shift.date,
-      shiftType: shift.shiftType,
-      fromStaff,
-      toStaff,
-      status: "pending",
-      reason: reason || null,
-      createdAt: new Date().toISOString(),
-      respondedAt: null,
-    };
+    return dbSwapRequestToSwapRequest(created, shift, counterShift);
   }
 
-  async getSwapRequests(status?: "pending" | "approved" | "rejected"): Promise<SwapRequestWithDetails[]> {
-    let query = this.db
-      .select()
-      .from(swapRequests)
-      .orderBy(desc(swapRequests.createdAt));
-    
+  async getSwapRequests(status?: SwapStatus): Promise<SwapRequestWithDetails[]> {
     const requests = status 
       ? await this.db.select().from(swapRequests).where(eq(swapRequests.status, status)).orderBy(desc(swapRequests.createdAt))
       : await this.db.select().from(swapRequests).orderBy(desc(swapRequests.createdAt));
@@ -279,188 +1437,926 @@ export class DatabaseStorage implements IStorage {
         .from(shifts)
         .where(eq(shifts.id, req.shiftId))
         .limit(1);
+      const [counterShift] = req.counterShiftId
+        ? await this.db.select().from(shifts).where(eq(shifts.id, req.counterShiftId)).limit(1)
+        : [];
       
       if (shift) {
-        result.push({
-          id: req.id,
-          shiftId: req.shiftId,
-          shiftDate: shift.date,
-          shiftType: shift.shiftType,
-          fromStaff: req.fromStaff as StaffMember,
-          toStaff: req.toStaff as StaffMember,
-          status: req.status as "pending" | "approved" | "rejected",
-          reason: req.reason,
-          createdAt: req.createdAt.toISOString(),
-          respondedAt: req.respondedAt?.toISOString() || null,
-        });
+        result.push(dbSwapRequestToSwapRequest(req, shift, counterShift));
       }
     }
     
     return result;
   }
 
-  async respondToSwapRequest(requestId: string, status: "approved" | "rejected"): Promise<SwapRequestWithDetails | null> {
+  async respondToSwapRequest(
+    requestId: string,
+    stage: SwapStage,
+    decision: "approved" | "rejected",
+    actedBy: string
+  ): Promise<SwapRequestWithDetails | null> {
+    const now = new Date();
+    const status = nextSwapStatus(stage, decision);
+    
+    const result = await this.db.transaction(async (tx) => {
+      // Only a request waiting on this stage can be answered; the status check in the WHERE
+      // clause means that of two concurrent responses exactly one updates the row
+      const [request] = await tx
+        .update(swapRequests)
+        .set({
+          status,
+          ...(stage === "colleague"
+            ? { colleagueActedBy: actedBy, colleagueActedAt: now }
+            : { managerActedBy: actedBy, managerActedAt: now }),
+          respondedAt: isSwapOpen(status) ? null : now,
+        })
+        .where(and(eq(swapRequests.id, requestId), eq(swapRequests.status, `pending_${stage}`)))
+        .returning();
+      
+      if (!request) {
+        const [existing] = await tx
+          .select()
+          .from(swapRequests)
+          .where(eq(swapRequests.id, requestId))
+          .limit(1);
+        if (!existing) return null;
+        throw swapAlreadyAnswered(existing.status);
+      }
+      
+      if (status === "approved") {
+        await this.reassignShifts(
+          tx,
+          swapReassignments(request),
+          actedBy,
+          `Swap approved: ${request.fromStaff} and ${request.toStaff}`
+        );
+      }
+      
+      const [shift] = await tx
+        .select()
+        .from(shifts)
+        .where(eq(shifts.id, request.shiftId))
+        .limit(1);
+      const [counterShift] = request.counterShiftId
+        ? await tx.select().from(shifts).where(eq(shifts.id, request.counterShiftId)).limit(1)
+        : [];
+      
+      return { request, shift, counterShift };
+    });
+    
+    if (!result) return null;
+    return dbSwapRequestToSwapRequest(result.request, result.shift, result.counterShift);
+  }
+
+  async withdrawSwapRequest(requestId: string, stage: SwapStage): Promise<SwapRequestWithDetails | null> {
     const [request] = await this.db
+      .update(swapRequests)
+      .set({ status: withdrawnSwapStatus(stage), respondedAt: new Date() })
+      .where(and(eq(swapRequests.id, requestId), eq(swapRequests.status, `pending_${stage}`)))
+      .returning();
+    
+    if (!request) {
+      const [existing] = await this.db
+        .select()
+        .from(swapRequests)
+        .where(eq(swapRequests.id, requestId))
+        .limit(1);
+      if (!existing) return null;
+      throw swapAlreadyAnswered(existing.status);
+    }
+    
+    const [shift] = await this.db.select().from(shifts).where(eq(shifts.id, request.shiftId)).limit(1);
+    const [counterShift] = request.counterShiftId
+      ? await this.db.select().from(shifts).where(eq(shifts.id, request.counterShiftId)).limit(1)
+      : [];
+    return dbSwapRequestToSwapRequest(request, shift, counterShift);
+  }
+
+  async expireSwapRequests(requestIds: string[]): Promise<SwapRequestWithDetails[]> {
+    if (requestIds.length === 0) return [];
+    
+    const expired = await this.db
+      .update(swapRequests)
+      .set({ status: "expired", respondedAt: new Date() })
+      .where(and(inArray(swapRequests.id, requestIds), inArray(swapRequests.status, OPEN_SWAP_STATUSES)))
+      .returning();
+    
+    const result: SwapRequestWithDetails[] = [];
+    for (const req of expired) {
+      const [shift] = await this.db.select().from(shifts).where(eq(shifts.id, req.shiftId)).limit(1);
+      const [counterShift] = req.counterShiftId
+        ? await this.db.select().from(shifts).where(eq(shifts.id, req.counterShiftId)).limit(1)
+        : [];
+      result.push(dbSwapRequestToSwapRequest(req, shift, counterShift));
+    }
+    return result;
+  }
+
+  // Open shift marketplace
+  private async loadOpenShifts(postings: DbOpenShift[], db: Database | Transaction = this.db): Promise<OpenShift[]> {
+    if (postings.length === 0) return [];
+    const postingShifts = await db
+      .select()
+      .from(shifts)
+      .where(inArray(shifts.id, postings.map((p) => p.shiftId)));
+    const claims = await db
+      .select()
+      .from(openShiftClaims)
+      .where(inArray(openShiftClaims.openShiftId, postings.map((p) => p.id)));
+    
+    const result: OpenShift[] = [];
+    for (const posting of postings) {
+      const shift = postingShifts.find((s) => s.id === posting.shiftId);
+      if (shift) {
+        result.push(dbOpenShiftToOpenShift(posting, shift, claims.filter((c) => c.openShiftId === posting.id)));
+      }
+    }
+    return result;
+  }
+
+  async createOpenShift(
+    shiftId: string,
+    previousAssigned: StaffMember | null,
+    postedBy: string,
+    note?: string
+  ): Promise<OpenShift> {
+    const [created] = await this.db.insert(openShifts).values({
+      id: randomUUID(),
+      shiftId,
+      previousAssigned,
+      status: "open",
+      note: note || null,
+      postedBy,
+    }).returning();
+    
+    const [posting] = await this.loadOpenShifts([created]);
+    return posting;
+  }
+
+  async getOpenShifts(status?: OpenShiftStatus): Promise<OpenShift[]> {
+    const postings = status
+      ? await this.db.select().from(openShifts).where(eq(openShifts.status, status)).orderBy(desc(openShifts.createdAt))
+      : await this.db.select().from(openShifts).orderBy(desc(openShifts.createdAt));
+    return this.loadOpenShifts(postings);
+  }
+
+  async getOpenShiftById(id: string): Promise<OpenShift | null> {
+    const [posting] = await this.db.select().from(openShifts).where(eq(openShifts.id, id)).limit(1);
+    if (!posting) return null;
+    const [loaded] = await this.loadOpenShifts([posting]);
+    return loaded ?? null;
+  }
+
+  async claimOpenShift(openShiftId: string, staffMember: StaffMember, note?: string): Promise<OpenShiftClaim> {
+    return await this.db.transaction(async (tx) => {
+      // Locking the posting keeps a claim from landing after it has been awarded
+      const [posting] = await tx
+        .select()
+        .from(openShifts)
+        .where(eq(openShifts.id, openShiftId))
+        .for("update");
+      if (!posting) {
+        throw new Error("Open shift not found");
+      }
+      if (posting.status !== "open") {
+        throw new StorageConflictError("not_open", `Open shift has already been ${posting.status}`);
+      }
+      
+      const [created] = await tx
+        .insert(openShiftClaims)
+        .values({ id: randomUUID(), openShiftId, staffMember, note: note || null, status: "pending" })
+        .onConflictDoNothing()
+        .returning();
+      if (!created) {
+        throw new StorageConflictError("already_claimed", `${staffMember} has already claimed this shift`);
+      }
+      return dbOpenShiftClaimToClaim(created);
+    });
+  }
+
+  async withdrawOpenShiftClaim(openShiftId: string, staffMember: StaffMember): Promise<boolean> {
+    const deleted = await this.db
+      .delete(openShiftClaims)
+      .where(and(
+        eq(openShiftClaims.openShiftId, openShiftId),
+        eq(openShiftClaims.staffMember, staffMember),
+        eq(openShiftClaims.status, "pending")
+      ))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async awardOpenShift(
+    openShiftId: string,
+    staffMember: StaffMember,
+    awardedBy: string,
+    method: NonNullable<OpenShift["awardMethod"]>
+  ): Promise<OpenShift | null> {
+    const now = new Date();
+    
+    return await this.db.transaction(async (tx) => {
+      const [posting] = await tx
+        .update(openShifts)
+        .set({ status: "awarded", awardedTo: staffMember, awardedBy, awardMethod: method, closedAt: now })
+        .where(and(eq(openShifts.id, openShiftId), eq(openShifts.status, "open")))
+        .returning();
+      
+      if (!posting) {
+        const [existing] = await tx.select().from(openShifts).where(eq(openShifts.id, openShiftId)).limit(1);
+        if (!existing) return null;
+        throw new StorageConflictError("not_open", `Open shift has already been ${existing.status}`);
+      }
+      
+      // Only fill the shift if nobody has assigned it since it was posted; otherwise
+      // throwing rolls the award back
+      await this.reassignShifts(
+        tx,
+        [{
+          shiftId: posting.shiftId,
+          from: posting.previousAssigned,
+          to: staffMember,
+          stale: "The shift has been reassigned since it was posted",
+        }],
+        awardedBy,
+        `Open shift awarded to ${staffMember}`
+      );
+      
+      await tx
+        .update(openShiftClaims)
+        .set({ status: "awarded" })
+        .where(and(eq(openShiftClaims.openShiftId, openShiftId), eq(openShiftClaims.staffMember, staffMember)));
+      await tx
+        .update(openShiftClaims)
+        .set({ status: "not_awarded" })
+        .where(and(
+          eq(openShiftClaims.openShiftId, openShiftId),
+          ne(openShiftClaims.staffMember, staffMember),
+          eq(openShiftClaims.status, "pending")
+        ));
+      
+      const [awarded] = await this.loadOpenShifts([posting], tx);
+      return awarded;
+    });
+  }
+
+  async closeOpenShifts(openShiftIds: string[], status: "cancelled" | "expired"): Promise<OpenShift[]> {
+    if (openShiftIds.length === 0) return [];
+    
+    return await this.db.transaction(async (tx) => {
+      const closed = await tx
+        .update(openShifts)
+        .set({ status, closedAt: new Date() })
+        .where(and(inArray(openShifts.id, openShiftIds), eq(openShifts.status, "open")))
+        .returning();
+      if (closed.length === 0) return [];
+      
+      await tx
+        .update(openShiftClaims)
+        .set({ status: "not_awarded" })
+        .where(and(
+          inArray(openShiftClaims.openShiftId, closed.map((p) => p.id)),
+          eq(openShiftClaims.status, "pending")
+        ));
+      return this.loadOpenShifts(closed, tx);
+    });
+  }
+
+  // Leave / unavailability operations
+  async createUnavailability(request: CreateUnavailabilityRequest): Promise<Unavailability> {
+    const [created] = await this.db
+      .insert(unavailability)
+      .values({
+        id: randomUUID(),
+        staffMember: request.staffMember,
+        startDate: request.startDate,
+        endDate: request.endDate,
+        type: request.type,
+        status: "pending",
+        reason: request.reason || null,
+      })
+      .returning();
+    
+    return dbUnavailabilityToUnavailability(created);
+  }
+
+  async getUnavailability(filters: { staffMember?: StaffMember; status?: UnavailabilityStatus } = {}): Promise<Unavailability[]> {
+    const conditions = [];
+    if (filters.staffMember) conditions.push(eq(unavailability.staffMember, filters.staffMember));
+    if (filters.status) conditions.push(eq(unavailability.status, filters.status));
+    
+    const rows = await this.db
+      .select()
+      .from(unavailability)
+      .where(and(...conditions))
+      .orderBy(unavailability.startDate);
+    
+    return rows.map(dbUnavailabilityToUnavailability);
+  }
+
+  async respondToUnavailability(id: string, status: "approved" | "rejected"): Promise<Unavailability | null> {
+    const [updated] = await this.db
+      .update(unavailability)
+      .set({ status, respondedAt: new Date() })
+      .where(eq(unavailability.id, id))
+      .returning();
+    
+    return updated ? dbUnavailabilityToUnavailability(updated) : null;
+  }
+
+  async deleteUnavailability(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(unavailability)
+      .where(eq(unavailability.id, id))
+      .returning();
+    
+    return deleted.length > 0;
+  }
+
+  // Audit trail operations
+  async recordAuditEvent(event: Omit<AuditEvent, "id" | "createdAt">): Promise<AuditEvent> {
+    const [created] = await this.db
+      .insert(auditEvents)
+      .values({ id: randomUUID(), ...event })
+      .returning();
+    
+    return dbAuditEventToAuditEvent(created);
+  }
+
+  async getAuditEvents(query: AuditQuery): Promise<AuditEvent[]> {
+    const conditions = [];
+    if (query.rosterId) conditions.push(eq(auditEvents.rosterId, query.rosterId));
+    if (query.shiftId) conditions.push(eq(auditEvents.shiftId, query.shiftId));
+    if (query.actor) conditions.push(eq(auditEvents.actorName, query.actor));
+    if (query.action) conditions.push(eq(auditEvents.action, query.action));
+    if (query.from) conditions.push(gte(auditEvents.createdAt, new Date(`${query.from}T00:00:00Z`)));
+    if (query.to) conditions.push(lt(auditEvents.createdAt, endOfDayExclusive(query.to)));
+    
+    const rows = await this.db
       .select()
-      .from(swapRequests)
-      .where(eq(swapRequests.id, requestId))
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(query.limit);
+    
+    return rows.map(dbAuditEventToAuditEvent);
+  }
+
+  // Compliance rule operations
+  async getComplianceRules(): Promise<ComplianceRules> {
+    const [row] = await this.db
+      .select()
+      .from(complianceSettings)
+      .where(eq(complianceSettings.id, "default"));
+    
+    return row ? dbComplianceSettingsToRules(row) : { ...DEFAULT_COMPLIANCE_RULES };
+  }
+
+  async updateComplianceRules(updates: UpdateComplianceRulesRequest): Promise<ComplianceRules> {
+    const rules = { ...(await this.getComplianceRules()), ...updates };
+    const [row] = await this.db
+      .insert(complianceSettings)
+      .values({ id: "default", ...rules })
+      .onConflictDoUpdate({ target: complianceSettings.id, set: { ...rules, updatedAt: new Date() } })
+      .returning();
+    
+    return dbComplianceSettingsToRules(row);
+  }
+
+  // Shift type operations
+  async getShiftTemplates(): Promise<ShiftTemplate[]> {
+    const rows = await this.db
+      .select()
+      .from(shiftTemplates)
+      .orderBy(shiftTemplates.sortOrder, shiftTemplates.shiftType);
+    
+    return rows.map(dbShiftTemplateToTemplate);
+  }
+
+  async createShiftTemplate(template: CreateShiftTemplateRequest): Promise<ShiftTemplate> {
+    const [last] = await this.db
+      .select({ sortOrder: shiftTemplates.sortOrder })
+      .from(shiftTemplates)
+      .orderBy(desc(shiftTemplates.sortOrder))
       .limit(1);
+    const [row] = await this.db
+      .insert(shiftTemplates)
+      .values({ ...template, sortOrder: (last?.sortOrder ?? -1) + 1, updatedAt: new Date() })
+      .returning();
+    
+    return dbShiftTemplateToTemplate(row);
+  }
+
+  async updateShiftTemplate(shiftType: ShiftType, updates: UpdateShiftTemplateRequest): Promise<ShiftTemplate | null> {
+    const [row] = await this.db
+      .update(shiftTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(shiftTemplates.shiftType, shiftType))
+      .returning();
+    
+    return row ? dbShiftTemplateToTemplate(row) : null;
+  }
+
+  async deleteShiftTemplate(shiftType: ShiftType): Promise<boolean> {
+    const deleted = await this.db
+      .delete(shiftTemplates)
+      .where(eq(shiftTemplates.shiftType, shiftType))
+      .returning();
     
-    if (!request) return null;
+    return deleted.length > 0;
+  }
+
+  async getShiftLayout(): Promise<ShiftLayout> {
+    const layout = emptyShiftLayout();
+    const rows = await this.db.select().from(shiftLayouts);
+    for (const row of rows) {
+      if (WEEKDAYS.includes(row.weekday as Weekday)) layout[row.weekday as Weekday] = row.shiftTypes;
+      if (row.weekday === HOLIDAY_LAYOUT_KEY) layout.Holiday = row.shiftTypes;
+    }
     
+    return layout;
+  }
+
+  async updateShiftLayout(layout: ShiftLayout): Promise<ShiftLayout> {
     const now = new Date();
+    await this.db.transaction(async (tx) => {
+      for (const weekday of WEEKDAYS) {
+        await tx
+          .insert(shiftLayouts)
+          .values({ weekday, shiftTypes: layout[weekday], updatedAt: now })
+          .onConflictDoUpdate({ target: shiftLayouts.weekday, set: { shiftTypes: layout[weekday], updatedAt: now } });
+      }
+      // No holiday row means holidays run their weekday's shifts
+      if (layout.Holiday) {
+        await tx
+          .insert(shiftLayouts)
+          .values({ weekday: HOLIDAY_LAYOUT_KEY, shiftTypes: layout.Holiday, updatedAt: now })
+          .onConflictDoUpdate({ target: shiftLayouts.weekday, set: { shiftTypes: layout.Holiday, updatedAt: now } });
+      } else {
+        await tx.delete(shiftLayouts).where(eq(shiftLayouts.weekday, HOLIDAY_LAYOUT_KEY));
+      }
+    });
     
-    await this.db
-      .update(swapRequests)
-      .set({ status, respondedAt: now })
-      .where(eq(swapRequests.id, requestId));
+    return this.getShiftLayout();
+  }
+
+  // Notification operations
+  async createNotification(
+    staffMember: StaffMember,
+    type: string,
+    title: string,
+    message: string,
+    relatedShiftId?: string,
+    relatedSwapId?: string,
+    locationId?: string
+  ): Promise<Notification> {
+    const notificationId = randomUUID();
     
-    // If approved, update the shift assignment
-    if (status === "approved") {
-      await this.db
-        .update(shifts)
-        .set({ assigned: request.toStaff })
-        .where(eq(shifts.id, request.shiftId));
+    await this.db.insert(notifications).values({
+      id: notificationId,
+      staffMember,
+      type,
+      title,
+      message,
+      read: false,
+      relatedShiftId: relatedShiftId || null,
+      relatedSwapId: relatedSwapId || null,
+      locationId: locationId || null,
+    });
+    
+    return {
+      id: notificationId,
+      staffMember,
+      type: type as Notification["type"],
+      title,
+      message,
+      read: false,
+      createdAt: new Date().toISOString(),
+      relatedShiftId: relatedShiftId || null,
+      relatedSwapId: relatedSwapId || null,
+      locationId: locationId || null,
+    };
+  }
+
+  async getNotifications(staffMember?: StaffMember, unreadOnly?: boolean): Promise<Notification[]> {
+    let result;
+    
+    if (staffMember && unreadOnly) {
+      result = await this.db
+        .select()
+        .from(notifications)
+        .where(eq(notifications.staffMember, staffMember))
+        .orderBy(desc(notifications.createdAt));
+      result = result.filter(n => !n.read);
+    } else if (staffMember) {
+      result = await this.db
+        .select()
+        .from(notifications)
+        .where(eq(notifications.staffMember, staffMember))
+        .orderBy(desc(notifications.createdAt));
+    } else if (unreadOnly) {
+      result = await this.db
+        .select()
+        .from(notifications)
+        .where(eq(notifications.read, false))
+        .orderBy(desc(notifications.createdAt));
+    } else {
+      result = await this.db
+        .select()
+        .from(notifications)
+        .orderBy(desc(notifications.createdAt));
     }
     
-    const [shift] = await this.db
+    return result.map(dbNotificationToNotification);
+  }
+
+  async getNotificationById(notificationId: string): Promise<Notification | null> {
+    const [notification] = await this.db
       .select()
-      .from(shifts)
-      .where(eq(shifts.id, request.shiftId))
+      .from(notifications)
+      .where(eq(notifications.id, notificationId))
       .limit(1);
     
-    return {
-      id: request.id,
-      shiftId: request.shiftId,
-      shiftDate: shift?.date || "",
-      shiftType: shift?.shiftType || "",
-      fromStaff: request.fromStaff as StaffMember,
-      toStaff: request.toStaff as StaffMember,
-      status,
-      reason: request.reason,
-      createdAt: request.createdAt.toISOString(),
-      respondedAt: now.toISOString(),
+    return notification ? dbNotificationToNotification(notification) : null;
+  }
+
+  async markNotificationRead(notificationId: string): Promise<void> {
+    await this.db
+      .update(notifications)
+      .set({ read: true })
+      .where(eq(notifications.id, notificationId));
+  }
+
+  async markAllNotificationsRead(staffMember: StaffMember): Promise<void> {
+    await this.db
+      .update(notifications)
+      .set({ read: true })
+      .where(eq(notifications.staffMember, staffMember));
+  }
+  // Notification delivery operations
+  async getNotificationPreferences(staffId: string): Promise<NotificationPreferences> {
+    const [row] = await this.db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.staffId, staffId));
+    
+    return row ? dbNotificationPreferencesToPreferences(row) : defaultNotificationPreferences(staffId);
+  }
+
+  async updateNotificationPreferences(
+    staffId: string,
+    updates: UpdateNotificationPreferencesRequest
+  ): Promise<NotificationPreferences> {
+    const { email, webhookUrl, channels } = { ...(await this.getNotificationPreferences(staffId)), ...updates };
+    const values = { email, webhookUrl, channels, updatedAt: new Date() };
+    const [row] = await this.db
+      .insert(notificationPreferences)
+      .values({ staffId, ...values })
+      .onConflictDoUpdate({ target: notificationPreferences.staffId, set: values })
+      .returning();
+    
+    return dbNotificationPreferencesToPreferences(row);
+  }
+
+  async createNotificationDeliveries(notification: Notification, targets: DeliveryTarget[]): Promise<NotificationDelivery[]> {
+    if (targets.length === 0) return [];
+    const now = new Date();
+    const rows = await this.db
+      .insert(notificationDeliveries)
+      .values(
+        targets.map((target) => ({
+          id: randomUUID(),
+          notificationId: notification.id,
+          staffMember: notification.staffMember,
+          channel: target.channel,
+          destination: target.destination,
+          nextAttemptAt: now,
+        }))
+      )
+      .returning();
+    
+    return rows.map((row) => dbDeliveryToDelivery(row, notification));
+  }
+
+  private async selectDeliveries(where: ReturnType<typeof and>, limit: number): Promise<NotificationDelivery[]> {
+    const rows = await this.db
+      .select({
+        delivery: notificationDeliveries,
+        notification: { type: notifications.type, title: notifications.title },
+      })
+      .from(notificationDeliveries)
+      .innerJoin(notifications, eq(notificationDeliveries.notificationId, notifications.id))
+      .where(where)
+      .orderBy(desc(notificationDeliveries.createdAt))
+      .limit(limit);
+    
+    return rows.map((row) => dbDeliveryToDelivery(row.delivery, row.notification));
+  }
+
+  async getNotificationDeliveries(query: NotificationDeliveryQuery): Promise<NotificationDelivery[]> {
+    const conditions = [];
+    if (query.status) conditions.push(eq(notificationDeliveries.status, query.status));
+    if (query.staffMember) conditions.push(eq(notificationDeliveries.staffMember, query.staffMember));
+    
+    return this.selectDeliveries(and(...conditions), query.limit);
+  }
+
+  async getDueNotificationDeliveries(now: Date, limit: number): Promise<NotificationDelivery[]> {
+    return this.selectDeliveries(
+      and(eq(notificationDeliveries.status, "pending"), lte(notificationDeliveries.nextAttemptAt, now)),
+      limit
+    );
+  }
+
+  async recordDeliveryAttempt(deliveryId: string, outcome: DeliveryOutcome): Promise<NotificationDelivery | null> {
+    const [updated] = await this.db
+      .update(notificationDeliveries)
+      .set({
+        status: outcome.status,
+        attempts: sql`${notificationDeliveries.attempts} + 1`,
+        lastError: outcome.error,
+        nextAttemptAt: outcome.nextAttemptAt,
+        sentAt: outcome.status === "sent" ? new Date() : null,
+      })
+      .where(eq(notificationDeliveries.id, deliveryId))
+      .returning();
+    if (!updated) return null;
+    
+    const notification = await this.getNotificationById(updated.notificationId);
+    return notification ? dbDeliveryToDelivery(updated, notification) : null;
+  }
+
+  async retryNotificationDelivery(deliveryId: string): Promise<NotificationDelivery | null> {
+    const [updated] = await this.db
+      .update(notificationDeliveries)
+      .set({ status: "pending", attempts: 0, lastError: null, nextAttemptAt: new Date() })
+      .where(and(eq(notificationDeliveries.id, deliveryId), eq(notificationDeliveries.status, "failed")))
+      .returning();
+    if (!updated) return null;
+    
+    const notification = await this.getNotificationById(updated.notificationId);
+    return notification ? dbDeliveryToDelivery(updated, notification) : null;
+  }
+}
+
+class InMemoryStorage implements IStorage {
+  sessionStore: session.Store = new MemoryStore({
+    checkPeriod: 86400000, // prune expired sessions daily
+  });
+  private users: DbUser[] = [];
+  private locations: Location[] = [];
+  private publicHolidays: PublicHoliday[] = [];
+  private staff: Staff[] = [];
+  private shiftRules: ShiftRule[] = [];
+  private rosters: Roster[] = [];
+  private rosterVersions: RosterVersion[] = [];
+  private swapRequests: SwapRequestWithDetails[] = [];
+  private unavailability: Unavailability[] = [];
+  private auditEvents: AuditEvent[] = [];
+  private notifications: Notification[] = [];
+  private notificationPreferences = new Map<string, NotificationPreferences>();
+  private notificationDeliveries: NotificationDelivery[] = [];
+  private openShifts: OpenShift[] = [];
+  private complianceRules: ComplianceRules = { ...DEFAULT_COMPLIANCE_RULES };
+  private shiftTemplates: ShiftTemplate[] = [];
+  private shiftLayout = emptyShiftLayout();
+
+  async migrate(): Promise<void> {
+    // Nothing persists between restarts
+  }
+
+  // As in the database: on a published roster reassignments are made on the live version,
+  // published as the next one, and the draft follows wherever it still agrees
+  private reassignShifts(moves: Reassignment[], publishedBy: string, note: string) {
+    const roster = this.rosters.find((r) => r.shifts.some((s) => s.id === moves[0].shiftId));
+    if (!roster) {
+      throw new StorageConflictError("stale", moves[0].stale);
+    }
+    const published = roster.status === "published" && roster.version
+      ? this.rosterVersions.find((v) => v.rosterId === roster.id && v.version === roster.version)
+      : undefined;
+    if (published) {
+      const snapshot = snapshotReassignment(roster, published, moves, publishedBy, note);
+      this.rosterVersions.push(snapshot);
+      roster.version = snapshot.version;
+      roster.shifts = followReassignments(roster.shifts, moves);
+    } else {
+      roster.shifts = reassign(roster.shifts, moves);
+    }
+    roster.updatedAt = new Date().toISOString();
+  }
+
+  private findShift(shiftId: string): RosterShift | undefined {
+    for (const roster of this.rosters) {
+      const shift = roster.shifts.find((s) => s.id === shiftId);
+      if (shift) return shift;
+    }
+    return undefined;
+  }
+
+  private toUser(dbUser: DbUser): User {
+    const member = dbUser.staffId ? this.staff.find((s) => s.id === dbUser.staffId) : undefined;
+    return dbUserToUser(dbUser, member?.name ?? null);
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.users
+      .map((u) => this.toUser(u))
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    const dbUser = this.users.find((u) => u.id === id);
+    return dbUser ? this.toUser(dbUser) : null;
+  }
+
+  async getUserByUsername(username: string): Promise<(User & { passwordHash: string }) | null> {
+    const dbUser = this.users.find((u) => u.username === username);
+    return dbUser ? { ...this.toUser(dbUser), passwordHash: dbUser.passwordHash } : null;
+  }
+
+  async createUser(user: { username: string; passwordHash: string; role: UserRole; staffId: string | null }): Promise<User> {
+    if (this.users.some((u) => u.username === user.username)) {
+      throw new Error(`Username ${user.username} is already taken`);
+    }
+    const dbUser: DbUser = { id: randomUUID(), ...user, calendarToken: null, createdAt: new Date() };
+    this.users.push(dbUser);
+    return this.toUser(dbUser);
+  }
+
+  async updateUser(id: string, updates: { passwordHash?: string; role?: UserRole; staffId?: string | null }): Promise<User | null> {
+    const idx = this.users.findIndex((u) => u.id === id);
+    if (idx === -1) return null;
+
+    this.users[idx] = { ...this.users[idx], ...updates };
+    return this.toUser(this.users[idx]);
+  }
+
+  async getCalendarToken(userId: string): Promise<string | null> {
+    return this.users.find((u) => u.id === userId)?.calendarToken ?? null;
+  }
+
+  async setCalendarToken(userId: string, token: string): Promise<void> {
+    const dbUser = this.users.find((u) => u.id === userId);
+    if (dbUser) dbUser.calendarToken = token;
+  }
+
+  async getUserByCalendarToken(token: string): Promise<User | null> {
+    const dbUser = this.users.find((u) => u.calendarToken === token);
+    return dbUser ? this.toUser(dbUser) : null;
+  }
+
+  async getLocations(): Promise<Location[]> {
+    return this.locations.slice();
+  }
+
+  async getLocationById(id: string): Promise<Location | null> {
+    return this.locations.find((l) => l.id === id) ?? null;
+  }
+
+  async createLocation(location: CreateLocationRequest, id?: string): Promise<Location> {
+    if (this.locations.some((l) => l.name === location.name)) {
+      throw new Error(`Location ${location.name} already exists`);
+    }
+    const now = new Date().toISOString();
+    const created: Location = { id: id ?? randomUUID(), name: location.name, isActive: true, createdAt: now, updatedAt: now };
+    this.locations.push(created);
+    return created;
+  }
+
+  async updateLocation(id: string, updates: UpdateLocationRequest): Promise<Location | null> {
+    const idx = this.locations.findIndex((l) => l.id === id);
+    if (idx === -1) return null;
+
+    this.locations[idx] = { ...this.locations[idx], ...updates, updatedAt: new Date().toISOString() };
+    return this.locations[idx];
+  }
+
+  async getStaff(): Promise<Staff[]> {
+    return this.staff.slice();
+  }
+
+  async getStaffById(id: string): Promise<Staff | null> {
+    return this.staff.find((s) => s.id === id) ?? null;
+  }
+
+  async createStaff(member: CreateStaffRequest): Promise<Staff> {
+    const now = new Date().toISOString();
+    const created: Staff = {
+      id: randomUUID(),
+      name: member.name,
+      role: member.role,
+      color: member.color,
+      contractedHours: member.contractedHours,
+      locationIds: member.locationIds,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
     };
+    this.staff.push(created);
+    return created;
   }
 
-  // Notification operations
-  async createNotification(
-    staffMember: StaffMember,
-    type: string,
-    title: string,
-    message: string,
-    relatedShiftId?: string,
-    relatedSwapId?: string
-  ): Promise<Notification> {
-    const notificationId = randomUUID();
-    
-    await this.db.insert(notifications).values({
-      id: notificationId,
-      staffMember,
-      type,
-      title,
-      message,
-      read: false,
-      relatedShiftId: relatedShiftId || null,
-      relatedSwapId: relatedSwapId || null,
-    });
-    
-    return {
-      id: notificationId,
-      staffMember,
-      type: type as Notification["type"],
-      title,
-      message,
-      read: false,
-      createdAt: new Date().toISOString(),
-      relatedShiftId: relatedShiftId || null,
-      relatedSwapId: relatedSwapId || null,
+  async updateStaff(id: string, updates: UpdateStaffRequest): Promise<Staff | null> {
+    const idx = this.staff.findIndex((s) => s.id === id);
+    if (idx === -1) return null;
+
+    const updated: Staff = {
+      ...this.staff[idx],
+      ...updates,
+      updatedAt: new Date().toISOString(),
     };
+    this.staff[idx] = updated;
+    return updated;
   }
 
-  async getNotifications(staffMember?: StaffMember, unreadOnly?: boolean): Promise<Notification[]> {
-    let result;
-    
-    if (staffMember && unreadOnly) {
-      result = await this.db
-        .select()
-        .from(notifications)
-        .where(eq(notifications.staffMember, staffMember))
-        .orderBy(desc(notifications.createdAt));
-      result = result.filter(n => !n.read);
-    } else if (staffMember) {
-      result = await this.db
-        .select()
-        .from(notifications)
-        .where(eq(notifications.staffMember, staffMember))
-        .orderBy(desc(notifications.createdAt));
-    } else if (unreadOnly) {
-      result = await this.db
-        .select()
-        .from(notifications)
-        .where(eq(notifications.read, false))
-        .orderBy(desc(notifications.createdAt));
-    } else {
-      result = await this.db
-        .select()
-        .from(notifications)
-        .orderBy(desc(notifications.createdAt));
-    }
-    
-    return result.map(n => ({
-      id: n.id,
-      staffMember: n.staffMember as StaffMember,
-      type: n.type as Notification["type"],
-      title: n.title,
-      message: n.message,
-      read: n.read,
-      createdAt: n.createdAt.toISOString(),
-      relatedShiftId: n.relatedShiftId,
-      relatedSwapId: n.relatedSwapId,
-    }));
+  async getShiftRules(): Promise<ShiftRule[]> {
+    return this.shiftRules
+      .slice()
+      .sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt));
   }
 
-  async markNotificationRead(notificationId: string): Promise<void> {
-    await this.db
-      .update(notifications)
-      .set({ read: true })
-      .where(eq(notifications.id, notificationId));
+  async createShiftRule(rule: CreateShiftRuleRequest): Promise<ShiftRule> {
+    const now = new Date().toISOString();
+    const created: ShiftRule = {
+      id: randomUUID(),
+      ...rule,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.shiftRules.push(created);
+    return created;
   }
 
-  async markAllNotificationsRead(staffMember: StaffMember): Promise<void> {
-    await this.db
-      .update(notifications)
-      .set({ read: true })
-      .where(eq(notifications.staffMember, staffMember));
+  async updateShiftRule(id: string, updates: UpdateShiftRuleRequest): Promise<ShiftRule | null> {
+    const idx = this.shiftRules.findIndex((r) => r.id === id);
+    if (idx === -1) return null;
+
+    const updated: ShiftRule = {
+      ...this.shiftRules[idx],
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    this.shiftRules[idx] = updated;
+    return updated;
+  }
+
+  async deleteShiftRule(id: string): Promise<boolean> {
+    const before = this.shiftRules.length;
+    this.shiftRules = this.shiftRules.filter((r) => r.id !== id);
+    return this.shiftRules.length < before;
+  }
+
+  async getPublicHolidays(locationId?: string): Promise<PublicHoliday[]> {
+    return this.publicHolidays
+      .filter((h) => !locationId || h.locationId === null || h.locationId === locationId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async createPublicHolidays(holidays: CreatePublicHolidayRequest[]): Promise<PublicHoliday[]> {
+    const now = new Date().toISOString();
+    const created = holidays.map((holiday) => ({ id: randomUUID(), ...holiday, createdAt: now }));
+    this.publicHolidays.push(...created);
+    return created;
+  }
+
+  async deletePublicHoliday(id: string): Promise<boolean> {
+    const before = this.publicHolidays.length;
+    this.publicHolidays = this.publicHolidays.filter((h) => h.id !== id);
+    return this.publicHolidays.length < before;
   }
-}
 
-class InMemoryStorage implements IStorage {
-  private rosters: Roster[] = [];
-  private swapRequests: SwapRequestWithDetails[] = [];
-  private notifications: Notification[] = [];
 
-  async getActiveRoster(): Promise<Roster | null> {
-    return this.rosters.find((r) => r.isActive) ?? null;
+  async getActiveRoster(locationId: string): Promise<Roster | null> {
+    return this.rosters.find((r) => r.isActive && r.locationId === locationId) ?? null;
   }
 
   async getRosterById(id: string): Promise<Roster | null> {
     return this.rosters.find((r) => r.id === id) ?? null;
   }
 
-  async getAllRosters(): Promise<RosterSummary[]> {
+  async getShiftById(shiftId: string): Promise<(RosterShift & { rosterId: string; locationId: string }) | null> {
+    for (const roster of this.rosters) {
+      const shift = roster.shifts.find((s) => s.id === shiftId);
+      if (shift) return { ...shift, rosterId: roster.id, locationId: roster.locationId };
+    }
+    return null;
+  }
+
+  async getAllRosters(locationId?: string): Promise<RosterSummary[]> {
     return this.rosters
-      .slice()
+      .filter((r) => !locationId || r.locationId === locationId)
       .sort((a, b) => (a.createdAt && b.createdAt ? (a.createdAt < b.createdAt ? 1 : -1) : 0))
       .map((r) => ({
         id: r.id,
         name: r.name,
+        locationId: r.locationId,
         startDate: r.startDate,
         endDate: r.endDate,
         weeks: r.weeks,
         createdAt: r.createdAt ?? new Date().toISOString(),
         isActive: !!r.isActive,
-        version: r.version ?? 1,
+        version: r.version ?? 0,
+        status: r.status ?? "draft",
         shiftCount: r.shifts.length,
       }));
   }
@@ -469,16 +2365,15 @@ class InMemoryStorage implements IStorage {
     const id = roster.id || randomUUID();
     const now = new Date().toISOString();
 
-    // Deactivate all existing rosters
-    this.rosters = this.rosters.map((r) => ({ ...r, isActive: false }));
-
+    // New rosters always start as a draft; they only go live when published
     const newRoster: Roster = {
       ...roster,
       id,
       createdAt: now,
       updatedAt: now,
-      isActive: true,
-      version: roster.version ?? 1,
+      isActive: false,
+      version: roster.version ?? 0,
+      status: "draft",
     };
 
     // Remove any previous roster with same id, then add new
@@ -488,16 +2383,20 @@ class InMemoryStorage implements IStorage {
     return newRoster;
   }
 
-  async updateShift(shiftId: string, assigned: StaffMember | null): Promise<RosterShift | null> {
+  async updateShift(shiftId: string, assigned: StaffMember | null, revision: number): Promise<RosterShift | null> {
     for (const roster of this.rosters) {
       const shiftIndex = roster.shifts.findIndex((s) => s.id === shiftId);
       if (shiftIndex !== -1) {
         const shift = roster.shifts[shiftIndex];
         if (assigned !== null && !shift.allowedStaff.includes(assigned)) {
-          throw new Error(`Staff member ${assigned} is not allowed for this shift`);
+          throw new StorageConflictError("not_allowed", `Staff member ${assigned} is not allowed for this shift`);
+        }
+
+        if (shift.revision !== revision) {
+          throw new StorageConflictError("revision_conflict", `The shift has been changed since revision ${revision}`);
         }
 
-        const updatedShift: RosterShift = { ...shift, assigned };
+        const updatedShift: RosterShift = { ...shift, assigned, revision: shift.revision + 1 };
         roster.shifts[shiftIndex] = updatedShift;
         roster.updatedAt = new Date().toISOString();
         return updatedShift;
@@ -507,32 +2406,69 @@ class InMemoryStorage implements IStorage {
   }
 
   async setActiveRoster(rosterId: string): Promise<void> {
-    this.rosters = this.rosters.map((r) => ({
-      ...r,
-      isActive: r.id === rosterId,
-    }));
+    const locationId = this.rosters.find((r) => r.id === rosterId)?.locationId;
+    this.rosters = this.rosters.map((r) => {
+      if (r.id === rosterId) return { ...r, isActive: true, status: "published" };
+      if (r.status === "published" && r.locationId === locationId) return { ...r, isActive: false, status: "archived" };
+      return r;
+    });
+  }
+
+  async setRosterStatus(rosterId: string, status: Exclude<RosterStatus, "published">): Promise<void> {
+    this.rosters = this.rosters.map((r) => (r.id === rosterId ? { ...r, isActive: false, status } : r));
   }
 
   async deleteRoster(rosterId: string): Promise<void> {
     this.rosters = this.rosters.filter((r) => r.id !== rosterId);
+    this.rosterVersions = this.rosterVersions.filter((v) => v.rosterId !== rosterId);
+  }
+
+  async publishRoster(rosterId: string, publishedBy: string, note?: string): Promise<RosterVersion | null> {
+    const roster = this.rosters.find((r) => r.id === rosterId);
+    if (!roster) return null;
+
+    const snapshot = snapshotRoster(roster, publishedBy, note);
+    this.rosterVersions.push(snapshot);
+    roster.version = snapshot.version;
+    await this.setActiveRoster(rosterId);
+    return snapshot;
+  }
+
+  async getRosterVersions(rosterId: string): Promise<RosterVersionSummary[]> {
+    return this.rosterVersions
+      .filter((v) => v.rosterId === rosterId)
+      .sort((a, b) => b.version - a.version)
+      .map(toVersionSummary);
+  }
+
+  async getRosterVersion(rosterId: string, version: number): Promise<RosterVersion | null> {
+    return this.rosterVersions.find((v) => v.rosterId === rosterId && v.version === version) ?? null;
+  }
+
+  async restoreShiftAssignments(rosterId: string, assignments: Pick<RosterShift, "slotKey" | "assigned">[]): Promise<Roster | null> {
+    const roster = this.rosters.find((r) => r.id === rosterId);
+    if (!roster) return null;
+
+    const bySlot = new Map(assignments.map((a) => [a.slotKey, a.assigned]));
+    roster.shifts = roster.shifts.map((shift) =>
+      bySlot.has(shift.slotKey) && bySlot.get(shift.slotKey) !== shift.assigned
+        ? { ...shift, assigned: bySlot.get(shift.slotKey) ?? null, revision: shift.revision + 1 }
+        : shift
+    );
+    roster.updatedAt = new Date().toISOString();
+    return roster;
   }
 
   async createSwapRequest(
     shiftId: string,
     fromStaff: StaffMember,
     toStaff: StaffMember,
-    reason?: string
+    reason?: string,
+    counterShiftId?: string
   ): Promise<SwapRequestWithDetails> {
-    // Find shift
-    let foundShift: RosterShift | undefined;
-    for (const roster of this.rosters) {
-      const shift = roster.shifts.find((s) => s.id === shiftId);
-      if (shift) {
-        foundShift = shift;
-        break;
-      }
-    }
-    if (!foundShift) {
+    const foundShift = this.findShift(shiftId);
+    const counterShift = counterShiftId ? this.findShift(counterShiftId) : undefined;
+    if (!foundShift || (counterShiftId && !counterShift)) {
       throw new Error("Shift not found");
     }
 
@@ -540,13 +2476,22 @@ class InMemoryStorage implements IStorage {
     const now = new Date().toISOString();
     const req: SwapRequestWithDetails = {
       id,
+      type: counterShift ? "trade" : "handover",
       shiftId,
       shiftDate: foundShift.date,
       shiftType: foundShift.shiftType,
+      counterShiftId: counterShift?.id ?? null,
+      counterShiftDate: counterShift?.date ?? null,
+      counterShiftType: counterShift?.shiftType ?? null,
       fromStaff,
       toStaff,
-      status: "pending",
+      status: "pending_colleague",
+      stale: false,
       reason: reason ?? null,
+      colleagueActedBy: null,
+      colleagueActedAt: null,
+      managerActedBy: null,
+      managerActedAt: null,
       createdAt: now,
       respondedAt: null,
     };
@@ -554,45 +2499,323 @@ class InMemoryStorage implements IStorage {
     return req;
   }
 
-  async getSwapRequests(status?: "pending" | "approved" | "rejected"): Promise<SwapRequestWithDetails[]> {
-    let result = this.swapRequests.slice();
+  async getSwapRequests(status?: SwapStatus): Promise<SwapRequestWithDetails[]> {
+    let result = this.swapRequests.map((r) => this.withStale(r));
     if (status) {
       result = result.filter((r) => r.status === status);
     }
     return result.sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
   }
 
-  async respondToSwapRequest(requestId: string, status: "approved" | "rejected"): Promise<SwapRequestWithDetails | null> {
+  private withStale(req: SwapRequestWithDetails): SwapRequestWithDetails {
+    const stale = isSwapOpen(req.status) && (
+      this.findShift(req.shiftId)?.assigned !== req.fromStaff ||
+      (!!req.counterShiftId && this.findShift(req.counterShiftId)?.assigned !== req.toStaff)
+    );
+    return { ...req, stale };
+  }
+
+  async respondToSwapRequest(
+    requestId: string,
+    stage: SwapStage,
+    decision: "approved" | "rejected",
+    actedBy: string
+  ): Promise<SwapRequestWithDetails | null> {
     const idx = this.swapRequests.findIndex((r) => r.id === requestId);
     if (idx === -1) return null;
 
     const now = new Date().toISOString();
     const req = this.swapRequests[idx];
-    const updated: SwapRequestWithDetails = { ...req, status, respondedAt: now };
+    if (req.status !== `pending_${stage}`) {
+      throw swapAlreadyAnswered(req.status);
+    }
+    const status = nextSwapStatus(stage, decision);
+    if (status === "approved") {
+      this.reassignShifts(swapReassignments(req), actedBy, `Swap approved: ${req.fromStaff} and ${req.toStaff}`);
+    }
+    const updated: SwapRequestWithDetails = {
+      ...req,
+      status,
+      ...(stage === "colleague"
+        ? { colleagueActedBy: actedBy, colleagueActedAt: now }
+        : { managerActedBy: actedBy, managerActedAt: now }),
+      respondedAt: isSwapOpen(status) ? null : now,
+    };
     this.swapRequests[idx] = updated;
 
-    if (status === "approved") {
-      // Update shift assignment
-      for (const roster of this.rosters) {
-        const shift = roster.shifts.find((s) => s.id === req.shiftId);
-        if (shift) {
-          shift.assigned = req.toStaff;
-          roster.updatedAt = now;
-          break;
-        }
-      }
+    return this.withStale(updated);
+  }
+
+  async withdrawSwapRequest(requestId: string, stage: SwapStage): Promise<SwapRequestWithDetails | null> {
+    const idx = this.swapRequests.findIndex((r) => r.id === requestId);
+    if (idx === -1) return null;
+
+    const req = this.swapRequests[idx];
+    if (req.status !== `pending_${stage}`) {
+      throw swapAlreadyAnswered(req.status);
+    }
+    const updated: SwapRequestWithDetails = {
+      ...req,
+      status: withdrawnSwapStatus(stage),
+      stale: false,
+      respondedAt: new Date().toISOString(),
+    };
+    this.swapRequests[idx] = updated;
+    return updated;
+  }
+
+  async expireSwapRequests(requestIds: string[]): Promise<SwapRequestWithDetails[]> {
+    const now = new Date().toISOString();
+    const expired: SwapRequestWithDetails[] = [];
+    this.swapRequests = this.swapRequests.map((r) => {
+      if (!isSwapOpen(r.status) || !requestIds.includes(r.id)) return r;
+      const updated: SwapRequestWithDetails = { ...r, status: "expired", stale: false, respondedAt: now };
+      expired.push(updated);
+      return updated;
+    });
+    return expired;
+  }
+
+  async createOpenShift(
+    shiftId: string,
+    previousAssigned: StaffMember | null,
+    postedBy: string,
+    note?: string
+  ): Promise<OpenShift> {
+    const shift = await this.getShiftById(shiftId);
+    if (!shift) {
+      throw new Error("Shift not found");
+    }
+    const posting: OpenShift = {
+      id: randomUUID(),
+      shiftId,
+      rosterId: shift.rosterId,
+      shiftDate: shift.date,
+      shiftType: shift.shiftType,
+      weekday: shift.weekday,
+      hours: shift.hours,
+      allowedStaff: shift.allowedStaff,
+      previousAssigned,
+      status: "open",
+      note: note || null,
+      postedBy,
+      awardedTo: null,
+      awardedBy: null,
+      awardMethod: null,
+      claims: [],
+      createdAt: new Date().toISOString(),
+      closedAt: null,
+    };
+    this.openShifts.push(posting);
+    return posting;
+  }
+
+  async getOpenShifts(status?: OpenShiftStatus): Promise<OpenShift[]> {
+    return this.openShifts
+      .filter((p) => !status || p.status === status)
+      .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+  }
+
+  async getOpenShiftById(id: string): Promise<OpenShift | null> {
+    return this.openShifts.find((p) => p.id === id) ?? null;
+  }
+
+  async claimOpenShift(openShiftId: string, staffMember: StaffMember, note?: string): Promise<OpenShiftClaim> {
+    const posting = this.openShifts.find((p) => p.id === openShiftId);
+    if (!posting) {
+      throw new Error("Open shift not found");
+    }
+    if (posting.status !== "open") {
+      throw new StorageConflictError("not_open", `Open shift has already been ${posting.status}`);
+    }
+    if (posting.claims.some((c) => c.staffMember === staffMember)) {
+      throw new StorageConflictError("already_claimed", `${staffMember} has already claimed this shift`);
+    }
+    const claim: OpenShiftClaim = {
+      id: randomUUID(),
+      staffMember,
+      note: note || null,
+      status: "pending",
+      createdAt: new Date().toISOString(),
+    };
+    posting.claims.push(claim);
+    return claim;
+  }
+
+  async withdrawOpenShiftClaim(openShiftId: string, staffMember: StaffMember): Promise<boolean> {
+    const posting = this.openShifts.find((p) => p.id === openShiftId);
+    const claims = posting?.claims.filter((c) => !(c.staffMember === staffMember && c.status === "pending"));
+    if (!posting || !claims || claims.length === posting.claims.length) return false;
+    posting.claims = claims;
+    return true;
+  }
+
+  async awardOpenShift(
+    openShiftId: string,
+    staffMember: StaffMember,
+    awardedBy: string,
+    method: NonNullable<OpenShift["awardMethod"]>
+  ): Promise<OpenShift | null> {
+    const posting = this.openShifts.find((p) => p.id === openShiftId);
+    if (!posting) return null;
+    if (posting.status !== "open") {
+      throw new StorageConflictError("not_open", `Open shift has already been ${posting.status}`);
+    }
+    this.reassignShifts(
+      [{
+        shiftId: posting.shiftId,
+        from: posting.previousAssigned,
+        to: staffMember,
+        stale: "The shift has been reassigned since it was posted",
+      }],
+      awardedBy,
+      `Open shift awarded to ${staffMember}`
+    );
+
+    const now = new Date().toISOString();
+    Object.assign(posting, {
+      status: "awarded",
+      awardedTo: staffMember,
+      awardedBy,
+      awardMethod: method,
+      closedAt: now,
+      claims: posting.claims.map((c) => ({
+        ...c,
+        status: c.staffMember === staffMember ? "awarded" : c.status === "pending" ? "not_awarded" : c.status,
+      })),
+    });
+    return posting;
+  }
+
+  async closeOpenShifts(openShiftIds: string[], status: "cancelled" | "expired"): Promise<OpenShift[]> {
+    const now = new Date().toISOString();
+    const closed: OpenShift[] = [];
+    for (const posting of this.openShifts) {
+      if (posting.status !== "open" || !openShiftIds.includes(posting.id)) continue;
+      posting.status = status;
+      posting.closedAt = now;
+      posting.claims = posting.claims.map((c) => (c.status === "pending" ? { ...c, status: "not_awarded" } : c));
+      closed.push(posting);
     }
+    return closed;
+  }
+
+  async createUnavailability(request: CreateUnavailabilityRequest): Promise<Unavailability> {
+    const entry: Unavailability = {
+      id: randomUUID(),
+      staffMember: request.staffMember,
+      startDate: request.startDate,
+      endDate: request.endDate,
+      type: request.type,
+      status: "pending",
+      reason: request.reason ?? null,
+      createdAt: new Date().toISOString(),
+      respondedAt: null,
+    };
+    this.unavailability.push(entry);
+    return entry;
+  }
+
+  async getUnavailability(filters: { staffMember?: StaffMember; status?: UnavailabilityStatus } = {}): Promise<Unavailability[]> {
+    return this.unavailability
+      .filter((u) => !filters.staffMember || u.staffMember === filters.staffMember)
+      .filter((u) => !filters.status || u.status === filters.status)
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  }
+
+  async respondToUnavailability(id: string, status: "approved" | "rejected"): Promise<Unavailability | null> {
+    const idx = this.unavailability.findIndex((u) => u.id === id);
+    if (idx === -1) return null;
 
+    const updated: Unavailability = {
+      ...this.unavailability[idx],
+      status,
+      respondedAt: new Date().toISOString(),
+    };
+    this.unavailability[idx] = updated;
     return updated;
   }
 
+  async deleteUnavailability(id: string): Promise<boolean> {
+    const before = this.unavailability.length;
+    this.unavailability = this.unavailability.filter((u) => u.id !== id);
+    return this.unavailability.length < before;
+  }
+
+  async recordAuditEvent(event: Omit<AuditEvent, "id" | "createdAt">): Promise<AuditEvent> {
+    const created: AuditEvent = { id: randomUUID(), ...event, createdAt: new Date().toISOString() };
+    this.auditEvents.push(created);
+    return created;
+  }
+
+  async getAuditEvents(query: AuditQuery): Promise<AuditEvent[]> {
+    const from = query.from ? new Date(`${query.from}T00:00:00Z`).toISOString() : undefined;
+    const to = query.to ? endOfDayExclusive(query.to).toISOString() : undefined;
+    // Newest first; events are appended in chronological order
+    return this.auditEvents
+      .slice()
+      .reverse()
+      .filter((e) => !query.rosterId || e.rosterId === query.rosterId)
+      .filter((e) => !query.shiftId || e.shiftId === query.shiftId)
+      .filter((e) => !query.actor || e.actorName === query.actor)
+      .filter((e) => !query.action || e.action === query.action)
+      .filter((e) => (!from || e.createdAt >= from) && (!to || e.createdAt < to))
+      .slice(0, query.limit);
+  }
+
+  async getComplianceRules(): Promise<ComplianceRules> {
+    return { ...this.complianceRules };
+  }
+
+  async updateComplianceRules(updates: UpdateComplianceRulesRequest): Promise<ComplianceRules> {
+    this.complianceRules = { ...this.complianceRules, ...updates };
+    return { ...this.complianceRules };
+  }
+
+  async getShiftTemplates(): Promise<ShiftTemplate[]> {
+    return sortShiftTemplates(this.shiftTemplates);
+  }
+
+  async createShiftTemplate(template: CreateShiftTemplateRequest): Promise<ShiftTemplate> {
+    const created: ShiftTemplate = {
+      ...template,
+      sortOrder: Math.max(-1, ...this.shiftTemplates.map((t) => t.sortOrder)) + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    this.shiftTemplates.push(created);
+    return { ...created };
+  }
+
+  async updateShiftTemplate(shiftType: ShiftType, updates: UpdateShiftTemplateRequest): Promise<ShiftTemplate | null> {
+    const idx = this.shiftTemplates.findIndex((t) => t.shiftType === shiftType);
+    if (idx === -1) return null;
+    this.shiftTemplates[idx] = { ...this.shiftTemplates[idx], ...updates, updatedAt: new Date().toISOString() };
+    return { ...this.shiftTemplates[idx] };
+  }
+
+  async deleteShiftTemplate(shiftType: ShiftType): Promise<boolean> {
+    const before = this.shiftTemplates.length;
+    this.shiftTemplates = this.shiftTemplates.filter((t) => t.shiftType !== shiftType);
+    return this.shiftTemplates.length < before;
+  }
+
+  async getShiftLayout(): Promise<ShiftLayout> {
+    return { ...this.shiftLayout };
+  }
+
+  async updateShiftLayout(layout: ShiftLayout): Promise<ShiftLayout> {
+    this.shiftLayout = { ...layout };
+    return { ...this.shiftLayout };
+  }
+
   async createNotification(
     staffMember: StaffMember,
     type: string,
     title: string,
     message: string,
     relatedShiftId?: string,
-    relatedSwapId?: string
+    relatedSwapId?: string,
+    locationId?: string
   ): Promise<Notification> {
     const id = randomUUID();
     const now = new Date().toISOString();
@@ -606,6 +2829,7 @@ class InMemoryStorage implements IStorage {
       createdAt: now,
       relatedShiftId: relatedShiftId ?? null,
       relatedSwapId: relatedSwapId ?? null,
+      locationId: locationId ?? null,
     };
     this.notifications.push(notification);
     return notification;
@@ -624,6 +2848,10 @@ class InMemoryStorage implements IStorage {
     return result.sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
   }
 
+  async getNotificationById(notificationId: string): Promise<Notification | null> {
+    return this.notifications.find((n) => n.id === notificationId) ?? null;
+  }
+
   async markNotificationRead(notificationId: string): Promise<void> {
     this.notifications = this.notifications.map((n) =>
       n.id === notificationId ? { ...n, read: true } : n
@@ -635,6 +2863,83 @@ class InMemoryStorage implements IStorage {
       n.staffMember === staffMember ? { ...n, read: true } : n
     );
   }
+  async getNotificationPreferences(staffId: string): Promise<NotificationPreferences> {
+    const prefs = this.notificationPreferences.get(staffId);
+    return prefs ? { ...prefs } : defaultNotificationPreferences(staffId);
+  }
+
+  async updateNotificationPreferences(
+    staffId: string,
+    updates: UpdateNotificationPreferencesRequest
+  ): Promise<NotificationPreferences> {
+    const prefs: NotificationPreferences = {
+      ...(await this.getNotificationPreferences(staffId)),
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    };
+    this.notificationPreferences.set(staffId, prefs);
+    return { ...prefs };
+  }
+
+  async createNotificationDeliveries(notification: Notification, targets: DeliveryTarget[]): Promise<NotificationDelivery[]> {
+    const now = new Date().toISOString();
+    const created = targets.map((target): NotificationDelivery => ({
+      id: randomUUID(),
+      notificationId: notification.id,
+      notificationType: notification.type,
+      notificationTitle: notification.title,
+      staffMember: notification.staffMember,
+      channel: target.channel,
+      destination: target.destination,
+      status: "pending",
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: now,
+      sentAt: null,
+      createdAt: now,
+    }));
+    this.notificationDeliveries.push(...created);
+    return created.map((d) => ({ ...d }));
+  }
+
+  async getNotificationDeliveries(query: NotificationDeliveryQuery): Promise<NotificationDelivery[]> {
+    return this.notificationDeliveries
+      .filter((d) => !query.status || d.status === query.status)
+      .filter((d) => !query.staffMember || d.staffMember === query.staffMember)
+      .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1))
+      .slice(0, query.limit)
+      .map((d) => ({ ...d }));
+  }
+
+  async getDueNotificationDeliveries(now: Date, limit: number): Promise<NotificationDelivery[]> {
+    return this.notificationDeliveries
+      .filter((d) => d.status === "pending" && d.nextAttemptAt !== null && new Date(d.nextAttemptAt) <= now)
+      .slice(0, limit)
+      .map((d) => ({ ...d }));
+  }
+
+  async recordDeliveryAttempt(deliveryId: string, outcome: DeliveryOutcome): Promise<NotificationDelivery | null> {
+    const delivery = this.notificationDeliveries.find((d) => d.id === deliveryId);
+    if (!delivery) return null;
+
+    delivery.status = outcome.status;
+    delivery.attempts += 1;
+    delivery.lastError = outcome.error;
+    delivery.nextAttemptAt = outcome.nextAttemptAt?.toISOString() ?? null;
+    delivery.sentAt = outcome.status === "sent" ? new Date().toISOString() : null;
+    return { ...delivery };
+  }
+
+  async retryNotificationDelivery(deliveryId: string): Promise<NotificationDelivery | null> {
+    const delivery = this.notificationDeliveries.find((d) => d.id === deliveryId && d.status === "failed");
+    if (!delivery) return null;
+
+    delivery.status = "pending";
+    delivery.attempts = 0;
+    delivery.lastError = null;
+    delivery.nextAttemptAt = new Date().toISOString();
+    return { ...delivery };
+  }
 }
 
 export const storage: IStorage = process.env.DATABASE_URL
@@ -0,0 +1,152 @@
+import type {
+  ComplianceViolation,
+  Roster,
+  RosterShift,
+  StaffMember,
+  SwapErrorCode,
+  SwapRequestWithDetails,
+  SwapType,
+} from "@shared/schema";
+import { findApprovedLeave } from "@shared/availability";
+import { getShiftWindow } from "@shared/shift-times";
+import { isSwapOpen } from "@shared/swap-workflow";
+import { storage } from "./storage";
+import { findAssignmentViolations, findNewViolations } from "./compliance";
+import { describeOverlap, findOverlapElsewhere, getShiftsElsewhere } from "./cross-site";
+
+// A reason to refuse a swap, sent to the client as { error, code, violations? }
+export interface SwapProblem {
+  status: number;
+  code: SwapErrorCode;
+  error: string;
+  violations?: ComplianceViolation[];
+}
+
+export interface SwapToCheck {
+  type: SwapType;
+  shift: RosterShift & { rosterId: string };
+  counterShift: (RosterShift & { rosterId: string }) | null;
+  fromStaff: StaffMember;
+  toStaff: StaffMember;
+}
+
+function problem(status: number, code: SwapErrorCode, error: string): SwapProblem {
+  return { status, code, error };
+}
+
+export function hasStarted(shift: RosterShift, now = Date.now()): boolean {
+  return getShiftWindow(shift).start <= now;
+}
+
+// Everything that must hold for a swap to go ahead. It runs when the swap is requested
+// and again at each acceptance, since the roster may have moved on in between; at
+// approval a reassigned shift makes the request stale and a started shift has expired it.
+export async function validateSwap(
+  swap: SwapToCheck,
+  roster: Roster,
+  stage: "request" | "approval"
+): Promise<SwapProblem | null> {
+  const { type, shift, counterShift, fromStaff, toStaff } = swap;
+  const moves: [StaffMember, RosterShift][] = [[toStaff, shift]];
+  if (counterShift) moves.push([fromStaff, counterShift]);
+
+  if (roster.status !== "published") {
+    return problem(409, "roster_not_live", "Swaps can only be made on the published roster");
+  }
+  if (fromStaff === toStaff) {
+    return problem(400, "same_staff", "A shift cannot be swapped with its own holder");
+  }
+
+  const staffList = await storage.getStaff();
+  if (!staffList.some((s) => s.name === fromStaff)) {
+    return problem(400, "unknown_staff", `Unknown staff member ${fromStaff}`);
+  }
+  if (!staffList.some((s) => s.name === toStaff && s.isActive)) {
+    return problem(400, "unknown_staff", `${toStaff} is not an active staff member`);
+  }
+
+  if (type === "trade") {
+    if (!counterShift || counterShift.rosterId !== shift.rosterId || counterShift.id === shift.id) {
+      return problem(400, "invalid_trade", "A trade needs a different shift from the same roster in return");
+    }
+  }
+
+  for (const [, target] of moves) {
+    if (hasStarted(target)) {
+      return stage === "request"
+        ? problem(400, "shift_started", `The ${target.date} ${target.shiftType} shift has already started`)
+        : problem(409, "expired", `The ${target.date} ${target.shiftType} shift has already started, so this request has expired`);
+    }
+  }
+
+  if (shift.assigned !== fromStaff || (counterShift && counterShift.assigned !== toStaff)) {
+    const holder = shift.assigned !== fromStaff ? fromStaff : toStaff;
+    const target = shift.assigned !== fromStaff ? shift : counterShift!;
+    return stage === "request"
+      ? problem(400, "not_assigned", `${holder} is not assigned to the ${target.date} ${target.shiftType} shift`)
+      : problem(409, "stale", `${holder} no longer holds the ${target.date} ${target.shiftType} shift, so this request is out of date`);
+  }
+
+  for (const [name, target] of moves) {
+    if (!target.allowedStaff.includes(name)) {
+      return problem(400, "not_allowed", `${name} is not allowed to work the ${target.date} ${target.shiftType} shift`);
+    }
+    const approvedLeave = await storage.getUnavailability({ staffMember: name, status: "approved" });
+    if (findApprovedLeave(approvedLeave, name, target.date)) {
+      return problem(400, "on_leave", `${name} is on approved leave on ${target.date}`);
+    }
+  }
+
+  const elsewhere = await getShiftsElsewhere(roster.locationId);
+  for (const [name, target] of moves) {
+    const overlap = findOverlapElsewhere(name, target, elsewhere);
+    if (overlap) {
+      return problem(400, "double_booked", describeOverlap(name, overlap));
+    }
+  }
+
+  if (stage === "request") {
+    const open = (await storage.getSwapRequests()).filter((r) => isSwapOpen(r.status));
+    const shiftIds = moves.map(([, target]) => target.id);
+    const duplicate = open.find((r) =>
+      [r.shiftId, r.counterShiftId].some((id) => id !== null && shiftIds.includes(id))
+    );
+    if (duplicate) {
+      return problem(409, "duplicate_request", `There is already an open swap request for the ${duplicate.shiftDate} shift`);
+    }
+  }
+
+  // A trade is always checked in full because it changes two people's hours at once;
+  // a handover follows the same blocking setting as a manager's own edits
+  const rules = await storage.getComplianceRules();
+  const violations = counterShift
+    ? findNewViolations(roster, rules, [
+        { id: shift.id, assigned: toStaff },
+        { id: counterShift.id, assigned: fromStaff },
+      ])
+    : rules.blockViolations
+      ? findAssignmentViolations(roster, rules, shift.id, toStaff)
+      : [];
+  if (violations.length > 0) {
+    return { status: 409, code: "compliance_violation", error: violations[0].message, violations };
+  }
+
+  return null;
+}
+
+// Expire open requests whose shift, or the shift offered in return, has started
+export async function expireStartedSwapRequests(): Promise<SwapRequestWithDetails[]> {
+  const now = Date.now();
+  const due: string[] = [];
+  for (const request of await storage.getSwapRequests()) {
+    if (!isSwapOpen(request.status)) continue;
+    for (const shiftId of [request.shiftId, request.counterShiftId]) {
+      const shift = shiftId ? await storage.getShiftById(shiftId) : null;
+      if (shift && hasStarted(shift, now)) {
+        due.push(request.id);
+        break;
+      }
+    }
+  }
+  return storage.expireSwapRequests(due);
+}
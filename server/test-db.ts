@@ -0,0 +1,29 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { createRequire } from "module";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import * as schema from "@shared/schema";
+import { DatabaseStorage, type Database } from "./storage";
+
+const MemoryStore = createMemoryStore(session);
+
+// The ESM build of drizzle-kit's API can't load its own CommonJS dependencies
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)(
+  "drizzle-kit/api"
+) as typeof import("drizzle-kit/api");
+
+// DatabaseStorage on an in-process Postgres with the schema pushed and migrate() run, as
+// db:push and a first start would leave a real database. `client` runs raw SQL.
+export async function createTestStorage(): Promise<{ storage: DatabaseStorage; client: PGlite }> {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+
+  const db = drizzle(client, { schema }) as unknown as Database;
+  const storage = new DatabaseStorage(db, new MemoryStore({ checkPeriod: 86400000 }));
+  await storage.migrate();
+  return { storage, client };
+}
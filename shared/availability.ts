@@ -0,0 +1,20 @@
+import type { StaffMember, Unavailability } from "./schema";
+
+// Approved leave covering a date (yyyy-MM-dd), if any
+export function findApprovedLeave(
+  entries: Unavailability[],
+  staffMember: StaffMember,
+  date: string
+): Unavailability | undefined {
+  return entries.find(
+    (entry) =>
+      entry.status === "approved" &&
+      entry.staffMember === staffMember &&
+      entry.startDate <= date &&
+      date <= entry.endDate
+  );
+}
+
+export function isOnApprovedLeave(entries: Unavailability[], staffMember: StaffMember, date: string): boolean {
+  return findApprovedLeave(entries, staffMember, date) !== undefined;
+}
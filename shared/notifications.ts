@@ -0,0 +1,21 @@
+import {
+  NOTIFICATION_CHANNELS,
+  type Notification,
+  type NotificationChannel,
+  type NotificationChannelMap,
+  type NotificationType,
+} from "./schema";
+
+// Where a notification leads in the app: the swap it is about, the open shifts board,
+// or the shift on the roster
+export function notificationPath(notification: Notification): string {
+  if (notification.relatedSwapId) return `/swaps?swap=${notification.relatedSwapId}`;
+  if (notification.type === "open_shift") return "/open-shifts";
+  if (notification.relatedShiftId) return `/?shift=${notification.relatedShiftId}`;
+  return "/";
+}
+
+// The channels a type is sent through; types nobody has set go everywhere
+export function channelsFor(channels: NotificationChannelMap, type: NotificationType): NotificationChannel[] {
+  return channels[type] ?? [...NOTIFICATION_CHANNELS];
+}
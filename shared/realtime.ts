@@ -0,0 +1,35 @@
+import { z } from "zod";
+import type { Notification, RosterShift } from "./schema";
+
+// The WebSocket endpoint on the app's own HTTP server (Vite's HMR socket lives on /vite-hmr)
+export const REALTIME_PATH = "/ws";
+
+// Someone with a roster open; editing when they have it open to change shifts
+export interface RosterViewer {
+  userId: string;
+  username: string;
+  editing: boolean;
+}
+
+// Pushed by the server. Events only say what changed; anything a client
+// cannot patch in place it refetches through the normal API.
+export type ServerEvent =
+  // A manager edited one shift of a roster's draft (managers only)
+  | { type: "shift_updated"; rosterId: string; shift: RosterShift }
+  // A roster was generated, activated, published, restored, deleted or changed by a swap or award
+  | { type: "roster_changed"; rosterId: string }
+  // A swap request was created, answered, withdrawn or expired
+  | { type: "swap_changed"; swapId: string }
+  // A new notification for the recipient (managers receive everyone's)
+  | { type: "notification"; notification: Notification }
+  // Everyone currently looking at a roster
+  | { type: "presence"; rosterId: string; viewers: RosterViewer[] };
+
+// Sent by the client: the roster it has open, or null when it leaves
+export const clientEventSchema = z.object({
+  type: z.literal("presence"),
+  rosterId: z.string().nullable(),
+  editing: z.boolean(),
+});
+
+export type ClientEvent = z.infer<typeof clientEventSchema>;
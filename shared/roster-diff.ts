@@ -0,0 +1,30 @@
+import type { RosterShift, ShiftDiff } from "./schema";
+
+// Pair up two sets of shifts by slot and compare who is assigned, sorted by date, shift type and position
+export function diffRosterShifts(left: RosterShift[], right: RosterShift[]): ShiftDiff[] {
+  const leftBySlot = new Map(left.map((shift) => [shift.slotKey, shift]));
+  const rightBySlot = new Map(right.map((shift) => [shift.slotKey, shift]));
+  const slotKeys = new Set([...Array.from(leftBySlot.keys()), ...Array.from(rightBySlot.keys())]);
+
+  const results: ShiftDiff[] = [];
+  slotKeys.forEach((slotKey) => {
+    const leftShift = leftBySlot.get(slotKey);
+    const rightShift = rightBySlot.get(slotKey);
+    const shift = (leftShift || rightShift)!;
+    const leftAssigned = leftShift?.assigned || null;
+    const rightAssigned = rightShift?.assigned || null;
+
+    results.push({
+      slotKey,
+      date: shift.date,
+      weekday: shift.weekday,
+      shiftType: shift.shiftType,
+      position: shift.position,
+      leftAssigned,
+      rightAssigned,
+      isDifferent: leftAssigned !== rightAssigned,
+    });
+  });
+
+  return results.sort((a, b) => a.date.localeCompare(b.date) || a.shiftType.localeCompare(b.shiftType) || a.position - b.position);
+}
@@ -0,0 +1,31 @@
+import type { RosterShift, RosterStatus } from "./schema";
+
+// Allowed status changes. Publishing again from "published" takes a new version of the draft edits.
+export const ROSTER_STATUS_TRANSITIONS: Record<RosterStatus, RosterStatus[]> = {
+  draft: ["under_review", "published", "archived"],
+  under_review: ["draft", "published", "archived"],
+  published: ["published", "archived"],
+  archived: ["draft"],
+};
+
+export const ROSTER_STATUS_LABELS: Record<RosterStatus, string> = {
+  draft: "Draft",
+  under_review: "Under review",
+  published: "Published",
+  archived: "Archived",
+};
+
+export function canTransition(from: RosterStatus, to: RosterStatus): boolean {
+  return ROSTER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Shift assignments can change while drafting, and on a published roster (as the next version).
+// Rosters under review are frozen, and archived rosters must be reopened first.
+export function isRosterEditable(status: RosterStatus): boolean {
+  return status === "draft" || status === "published";
+}
+
+// Shifts nobody is assigned to - these block publishing unless overridden
+export function findCoverageGaps(shifts: RosterShift[]): RosterShift[] {
+  return shifts.filter((shift) => !shift.assigned);
+}
@@ -0,0 +1,77 @@
+import type { ShiftRule, ShiftType, StaffMember, Weekday } from "./schema";
+
+// The slot a rule is evaluated against
+export interface ShiftRuleContext {
+  weekday: Weekday;
+  shiftType: ShiftType;
+  weekIndex: number; // 0-based week within the roster
+  position?: number; // 1-based, for shift types that need more than one person
+  publicHoliday?: boolean;
+  // 0-based place of the day in the holiday calendar, so holiday rotations carry on across rosters
+  holidayIndex?: number;
+}
+
+export interface ShiftRuleResult {
+  allowedStaff: StaffMember[];
+  defaultAssignment: StaffMember | null;
+  matchedRuleIds: string[];
+}
+
+// Check whether a rule applies to a slot. Empty shiftTypes match every shift type,
+// and fromWeek/toWeek are 1-based inclusive week numbers. A holidays-only rule matches a
+// public holiday whichever weekday it falls on.
+export function ruleMatches(rule: ShiftRule, context: ShiftRuleContext): boolean {
+  if (!rule.isActive) return false;
+  const holiday = context.publicHoliday ?? false;
+  if (rule.publicHolidays === "only" && !holiday) return false;
+  if (rule.publicHolidays === "exclude" && holiday) return false;
+  if (rule.publicHolidays !== "only" && !rule.weekdays.includes(context.weekday)) return false;
+  if (rule.shiftTypes.length > 0 && !rule.shiftTypes.includes(context.shiftType)) return false;
+
+  const weekNumber = context.weekIndex + 1;
+  if (rule.fromWeek !== null && weekNumber < rule.fromWeek) return false;
+  if (rule.toWeek !== null && weekNumber > rule.toWeek) return false;
+
+  return true;
+}
+
+// Rules are evaluated lowest priority number first; ties keep their creation order
+export function sortRules(rules: ShiftRule[]): ShiftRule[] {
+  return rules
+    .slice()
+    .sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt));
+}
+
+// Work out who may work a slot and who it defaults to.
+// The first matching rule with an allowedStaff list decides eligibility (otherwise all
+// active staff are eligible), and the first matching rule with a rotation picks the
+// default by cycling through it week by week, or holiday by holiday for a holidays-only
+// rule. Further positions of the same slot take the next names in the rotation. Inactive
+// staff are always excluded.
+export function evaluateShiftRules(
+  rules: ShiftRule[],
+  context: ShiftRuleContext,
+  activeStaff: StaffMember[]
+): ShiftRuleResult {
+  const matched = sortRules(rules).filter((rule) => ruleMatches(rule, context));
+
+  const eligibilityRule = matched.find((rule) => rule.allowedStaff !== null);
+  const allowedStaff = eligibilityRule
+    ? activeStaff.filter((staff) => eligibilityRule.allowedStaff!.includes(staff))
+    : activeStaff.slice();
+
+  let defaultAssignment: StaffMember | null = null;
+  const rotationRule = matched.find((rule) => rule.rotation.length > 0);
+  if (rotationRule) {
+    const step = rotationRule.publicHolidays === "only" ? context.holidayIndex ?? 0 : context.weekIndex;
+    const offset = step + (context.position ?? 1) - 1;
+    const candidate = rotationRule.rotation[offset % rotationRule.rotation.length];
+    defaultAssignment = allowedStaff.includes(candidate) ? candidate : null;
+  }
+
+  return {
+    allowedStaff,
+    defaultAssignment,
+    matchedRuleIds: matched.map((rule) => rule.id),
+  };
+}
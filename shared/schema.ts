@@ -1,118 +1,664 @@
 import { z } from "zod";
-import { pgTable, text, integer, timestamp, jsonb, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, integer, real, timestamp, jsonb, boolean, uniqueIndex } from "drizzle-orm/pg-core";
+import { isValidTimeZone } from "./shift-times";
 import { createInsertSchema } from "drizzle-zod";
 
-// Staff members with their associated colors
-export const STAFF_MEMBERS = ["Ashley", "Peninah", "Joflix", "Locum"] as const;
-export type StaffMember = typeof STAFF_MEMBERS[number];
+// Staff members are identified by name; the directory lives in the staff table
+export type StaffMember = string;
+export const staffNameSchema = z.string().min(1);
 
-// Staff color mapping
-export const STAFF_COLORS: Record<StaffMember, { bg: string; text: string; darkBg: string; darkText: string }> = {
-  Joflix: { bg: "bg-orange-400", text: "text-white", darkBg: "dark:bg-orange-500", darkText: "dark:text-white" },
-  Peninah: { bg: "bg-pink-300", text: "text-pink-900", darkBg: "dark:bg-pink-400", darkText: "dark:text-pink-950" },
-  Ashley: { bg: "bg-blue-400", text: "text-white", darkBg: "dark:bg-blue-500", darkText: "dark:text-white" },
-  Locum: { bg: "bg-gray-400", text: "text-white", darkBg: "dark:bg-gray-500", darkText: "dark:text-white" },
+// Colours that can be given to a staff member
+export const STAFF_COLOR_KEYS = ["orange", "pink", "blue", "gray", "green", "purple", "teal", "red"] as const;
+export type StaffColor = typeof STAFF_COLOR_KEYS[number];
+
+// Hex and Excel (ARGB) values for each staff colour, used outside of Tailwind
+export const STAFF_COLOR_VALUES: Record<StaffColor, { hex: string; argb: string; fontArgb: string }> = {
+  orange: { hex: "#FB923C", argb: "FFFB923C", fontArgb: "FFFFFFFF" },
+  pink: { hex: "#F9A8D4", argb: "FFF9A8D4", fontArgb: "FF831843" },
+  blue: { hex: "#60A5FA", argb: "FF60A5FA", fontArgb: "FFFFFFFF" },
+  gray: { hex: "#9CA3AF", argb: "FF9CA3AF", fontArgb: "FFFFFFFF" },
+  green: { hex: "#4ADE80", argb: "FF4ADE80", fontArgb: "FF14532D" },
+  purple: { hex: "#C084FC", argb: "FFC084FC", fontArgb: "FFFFFFFF" },
+  teal: { hex: "#2DD4BF", argb: "FF2DD4BF", fontArgb: "FF134E4A" },
+  red: { hex: "#F87171", argb: "FFF87171", fontArgb: "FFFFFFFF" },
 };
 
-// Shift types
-export const SHIFT_TYPES = ["Day", "Night", "24h"] as const;
-export type ShiftType = typeof SHIFT_TYPES[number];
+// Colour used for names that are not in the staff directory
+export const FALLBACK_STAFF_COLOR: StaffColor = "gray";
+
+// Staff seeded into an empty directory on first start
+export const DEFAULT_STAFF: { name: string; role: string; color: StaffColor; contractedHours: number }[] = [
+  { name: "Ashley", role: "Carer", color: "blue", contractedHours: 48 },
+  { name: "Peninah", role: "Carer", color: "pink", contractedHours: 48 },
+  { name: "Joflix", role: "Carer", color: "orange", contractedHours: 48 },
+  { name: "Locum", role: "Locum", color: "gray", contractedHours: 0 },
+];
+
+// Sites or units rosters are drawn up for. Everything from before there were several
+// belongs to the default location, which is seeded on first start and cannot be archived.
+export const DEFAULT_LOCATION_ID = "default";
+export const DEFAULT_LOCATION_NAME = "Main site";
+
+// Shift types are defined by managers (see shiftTemplates); Day, Night and 24h are seeded
+export type ShiftType = string;
+
+export const shiftTypeNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(30)
+  .regex(/^[A-Za-z0-9][A-Za-z0-9 -]*$/, "Use letters, numbers, spaces and hyphens");
 
 // Day of week
 export const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"] as const;
 export type Weekday = typeof WEEKDAYS[number];
 
+// How a shift rule treats public holidays: also on them, only on them, or never on them
+export const PUBLIC_HOLIDAY_RULE_MODES = ["include", "only", "exclude"] as const;
+export type PublicHolidayRuleMode = typeof PUBLIC_HOLIDAY_RULE_MODES[number];
+
+// Leave and unavailability
+export const UNAVAILABILITY_TYPES = ["holiday", "sickness", "training", "other"] as const;
+export type UnavailabilityType = typeof UNAVAILABILITY_TYPES[number];
+
+export const UNAVAILABILITY_STATUSES = ["pending", "approved", "rejected"] as const;
+export type UnavailabilityStatus = typeof UNAVAILABILITY_STATUSES[number];
+
+// A handover gives a shift away; a trade also takes one of the colleague's shifts in return
+export const SWAP_TYPES = ["handover", "trade"] as const;
+export type SwapType = typeof SWAP_TYPES[number];
+
+// A swap is accepted by the colleague, then authorised by a manager. The requester can cancel
+// it while it awaits the colleague or withdraw it while it awaits a manager, and open requests
+// expire once their shift has started.
+export const SWAP_STATUSES = [
+  "pending_colleague",
+  "pending_manager",
+  "approved",
+  "rejected",
+  "cancelled",
+  "withdrawn",
+  "expired",
+] as const;
+export type SwapStatus = typeof SWAP_STATUSES[number];
+
+export const OPEN_SWAP_STATUSES: SwapStatus[] = ["pending_colleague", "pending_manager"];
+
+// Why a swap request was refused, returned as `code` alongside the error message
+export const SWAP_ERROR_CODES = [
+  "unknown_staff",
+  "same_staff",
+  "roster_not_live",
+  "invalid_trade",
+  "not_assigned",
+  "not_allowed",
+  "on_leave",
+  "double_booked",
+  "shift_started",
+  "duplicate_request",
+  "compliance_violation",
+  "stale",
+  "expired",
+  "already_responded",
+] as const;
+export type SwapErrorCode = typeof SWAP_ERROR_CODES[number];
+
+// Open shift marketplace. A posting stays open until a manager awards it to one of the
+// staff who claimed it, takes it down, or the shift starts.
+export const OPEN_SHIFT_STATUSES = ["open", "awarded", "cancelled", "expired"] as const;
+export type OpenShiftStatus = typeof OPEN_SHIFT_STATUSES[number];
+
+export const OPEN_SHIFT_CLAIM_STATUSES = ["pending", "awarded", "not_awarded"] as const;
+export type OpenShiftClaimStatus = typeof OPEN_SHIFT_CLAIM_STATUSES[number];
+
+// Fairness rules for awarding automatically: whoever has the fewest hours on the roster
+// (earliest claim breaks ties), or simply whoever claimed first
+export const OPEN_SHIFT_AWARD_RULES = ["fewest_hours", "first_claim"] as const;
+export type OpenShiftAwardRule = typeof OPEN_SHIFT_AWARD_RULES[number];
+
+// Why an open shift action was refused, returned as `code` alongside the error message
+export const OPEN_SHIFT_ERROR_CODES = [
+  "roster_not_live",
+  "already_filled",
+  "already_posted",
+  "shift_started",
+  "not_open",
+  "not_allowed",
+  "on_leave",
+  "double_booked",
+  "locum",
+  "already_claimed",
+  "no_claim",
+  "no_eligible_claimants",
+  "compliance_violation",
+  "stale",
+] as const;
+export type OpenShiftErrorCode = typeof OPEN_SHIFT_ERROR_CODES[number];
+
+export const NOTIFICATION_TYPES = ["shift_assigned", "shift_changed", "roster_update", "swap_request", "swap_response", "open_shift"] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// Where notifications are delivered besides the in-app inbox
+export const NOTIFICATION_CHANNELS = ["email", "webhook"] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+// Channels per notification type; a type that is not listed goes to every channel with a destination
+export type NotificationChannelMap = Partial<Record<NotificationType, NotificationChannel[]>>;
+
+// A delivery is pending until it is sent, or failed once it runs out of attempts
+export const DELIVERY_STATUSES = ["pending", "sent", "failed"] as const;
+export type DeliveryStatus = typeof DELIVERY_STATUSES[number];
+
+// Roster lifecycle: only the published roster is visible to staff, and only one roster is published at a time
+export const ROSTER_STATUSES = ["draft", "under_review", "published", "archived"] as const;
+export type RosterStatus = typeof ROSTER_STATUSES[number];
+
+// Account roles: admins manage accounts, managers run the rota, staff see their own shifts
+export const USER_ROLES = ["admin", "manager", "staff"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// Roles allowed to change rosters, rules, the staff directory and leave
+export const MANAGER_ROLES: UserRole[] = ["admin", "manager"];
+
+// Changes recorded in the audit trail
+export const AUDIT_ACTIONS = [
+  "roster_generated",
+  "roster_activated",
+  "roster_deleted",
+  "roster_published",
+  "roster_restored",
+  "roster_status_changed",
+  "shift_updated",
+  "compliance_rules_updated",
+  "shift_template_updated",
+  "shift_type_created",
+  "shift_type_deleted",
+  "shift_layout_updated",
+  "location_created",
+  "location_updated",
+  "public_holiday_created",
+  "public_holiday_deleted",
+  "public_holidays_imported",
+  "swap_accepted",
+  "swap_approved",
+  "swap_rejected",
+  "swap_cancelled",
+  "open_shift_posted",
+  "open_shift_awarded",
+  "open_shift_cancelled",
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// Which shifts run on each weekday, in the order they appear on the roster. Holiday, when
+// set, replaces the weekday's shifts on public holidays.
+export type ShiftLayout = Record<Weekday, ShiftType[]> & { Holiday: ShiftType[] | null };
+
+// Key of the public holiday row in shift_layouts
+export const HOLIDAY_LAYOUT_KEY = "Holiday";
+
+// Layout seeded on first start: a 24h shift on weekdays, a Day and a Night at weekends
+export const DEFAULT_SHIFT_LAYOUT: ShiftLayout = {
+  Mon: ["24h"],
+  Tue: ["24h"],
+  Wed: ["24h"],
+  Thu: ["24h"],
+  Fri: ["24h"],
+  Sat: ["Day", "Night"],
+  Sun: ["Day", "Night"],
+  Holiday: null,
+};
+
+// Rules seeded into an empty rule set on first start (reproduces the original fixed rota)
+export const DEFAULT_SHIFT_RULES: {
+  name: string;
+  priority: number;
+  weekdays: Weekday[];
+  shiftTypes: ShiftType[];
+  allowedStaff: StaffMember[] | null;
+  rotation: StaffMember[];
+  fromWeek: number | null;
+  toWeek: number | null;
+}[] = [
+  { name: "Saturday Day is Joflix only", priority: 10, weekdays: ["Sat"], shiftTypes: ["Day"], allowedStaff: ["Joflix"], rotation: ["Joflix"], fromWeek: null, toWeek: null },
+  { name: "Saturday Night Locum from week 4", priority: 10, weekdays: ["Sat"], shiftTypes: ["Night"], allowedStaff: ["Ashley", "Peninah", "Locum"], rotation: ["Locum"], fromWeek: 4, toWeek: null },
+  { name: "Saturday Night alternates Ashley/Peninah", priority: 20, weekdays: ["Sat"], shiftTypes: ["Night"], allowedStaff: ["Ashley", "Peninah", "Locum"], rotation: ["Ashley", "Peninah"], fromWeek: null, toWeek: null },
+  { name: "Sunday Day alternates Ashley/Peninah", priority: 20, weekdays: ["Sun"], shiftTypes: ["Day"], allowedStaff: ["Ashley", "Peninah", "Locum"], rotation: ["Ashley", "Peninah"], fromWeek: null, toWeek: null },
+  { name: "Sunday Night alternates Peninah/Ashley", priority: 20, weekdays: ["Sun"], shiftTypes: ["Night"], allowedStaff: ["Ashley", "Peninah", "Locum"], rotation: ["Peninah", "Ashley"], fromWeek: null, toWeek: null },
+  { name: "Monday is Ashley", priority: 20, weekdays: ["Mon"], shiftTypes: ["24h"], allowedStaff: null, rotation: ["Ashley"], fromWeek: null, toWeek: null },
+  { name: "Tuesday is Peninah", priority: 20, weekdays: ["Tue"], shiftTypes: ["24h"], allowedStaff: null, rotation: ["Peninah"], fromWeek: null, toWeek: null },
+  { name: "Wednesday/Thursday 48h block is Joflix", priority: 20, weekdays: ["Wed", "Thu"], shiftTypes: ["24h"], allowedStaff: null, rotation: ["Joflix"], fromWeek: null, toWeek: null },
+  { name: "Friday Locum from week 4", priority: 10, weekdays: ["Fri"], shiftTypes: ["24h"], allowedStaff: null, rotation: ["Locum"], fromWeek: 4, toWeek: null },
+  { name: "Friday is Peninah", priority: 20, weekdays: ["Fri"], shiftTypes: ["24h"], allowedStaff: null, rotation: ["Peninah"], fromWeek: null, toWeek: null },
+];
+
 // ============== Database Tables ==============
 
-// Rosters table - stores saved roster versions
+// Locations table - the homes or units of the organisation, each with its own rosters
+export const locations = pgTable("locations", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Staff directory - archived staff are kept so historical rosters still resolve
+export const staff = pgTable("staff", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  role: text("role").notNull(),
+  color: text("color").notNull(),
+  contractedHours: integer("contracted_hours").default(0).notNull(),
+  locationIds: jsonb("location_ids").notNull().$type<string[]>().default([DEFAULT_LOCATION_ID]), // sites they can be rostered at
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Users table - login accounts, optionally linked to a staff record
+export const users = pgTable("users", {
+  id: text("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").notNull().default("staff"), // admin, manager, staff
+  staffId: text("staff_id").references(() => staff.id, { onDelete: "set null" }),
+  calendarToken: text("calendar_token").unique(), // secret in the user's calendar feed URL, created on first use
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Shift rules - eligibility and default assignment, evaluated by shared/rule-engine.ts
+export const shiftRules = pgTable("shift_rules", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  priority: integer("priority").default(100).notNull(),
+  weekdays: jsonb("weekdays").notNull().$type<Weekday[]>(),
+  shiftTypes: jsonb("shift_types").notNull().$type<ShiftType[]>(),
+  allowedStaff: jsonb("allowed_staff").$type<StaffMember[] | null>(),
+  rotation: jsonb("rotation").notNull().$type<StaffMember[]>(),
+  fromWeek: integer("from_week"),
+  toWeek: integer("to_week"),
+  locationId: text("location_id"), // null applies at every location
+  publicHolidays: text("public_holidays").notNull().default("include"), // PublicHolidayRuleMode
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Public holidays table - the bank holiday calendar, for every location or just one
+export const publicHolidays = pgTable("public_holidays", {
+  id: text("id").primaryKey(),
+  date: text("date").notNull(), // yyyy-MM-dd
+  name: text("name").notNull(),
+  locationId: text("location_id"), // null applies at every location
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Rosters table - each roster is the editable draft; version is the latest published number (0 = never published).
+// isActive marks the one published roster of its location and is kept in step with status.
 export const rosters = pgTable("rosters", {
   id: text("id").primaryKey(),
   name: text("name").notNull(),
+  locationId: text("location_id").notNull().default(DEFAULT_LOCATION_ID),
   startDate: text("start_date").notNull(),
   endDate: text("end_date").notNull(),
   weeks: integer("weeks").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   isActive: boolean("is_active").default(false).notNull(),
-  version: integer("version").default(1).notNull(),
+  version: integer("version").default(0).notNull(),
+  status: text("status").notNull().default("draft"), // draft, under_review, published, archived
 });
 
-// Shifts table - stores individual shifts for each roster
+// Shifts table - stores individual shifts for each roster.
+// id is unique across all rosters; slotKey identifies the date/shift slot within a roster
 export const shifts = pgTable("shifts", {
   id: text("id").primaryKey(),
   rosterId: text("roster_id").notNull().references(() => rosters.id, { onDelete: "cascade" }),
+  slotKey: text("slot_key").notNull(), // e.g. 2025-01-06-day, 2025-01-06-day#2 for a second person
   date: text("date").notNull(),
   weekday: text("weekday").notNull(),
   shiftType: text("shift_type").notNull(),
+  position: integer("position").notNull().default(1),
   shiftLabel: text("shift_label").notNull(),
-  hours: integer("hours").notNull(),
+  hours: real("hours").notNull(), // paid: start to end less the unpaid break
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  breakMinutes: integer("break_minutes").notNull().default(0),
+  timezone: text("timezone").notNull(), // zone the template's wall-clock times were set in
+  publicHoliday: text("public_holiday"), // name of the holiday the shift falls on
   assigned: text("assigned"),
   allowedStaff: jsonb("allowed_staff").notNull().$type<StaffMember[]>(),
-});
+  revision: integer("revision").notNull().default(0), // bumped whenever assigned changes
+}, (table) => [
+  uniqueIndex("shifts_roster_slot_idx").on(table.rosterId, table.slotKey),
+]);
+
+// Roster versions table - immutable snapshots taken each time a roster is published
+export const rosterVersions = pgTable("roster_versions", {
+  id: text("id").primaryKey(),
+  rosterId: text("roster_id").notNull().references(() => rosters.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  startDate: text("start_date").notNull(),
+  endDate: text("end_date").notNull(),
+  weeks: integer("weeks").notNull(),
+  shifts: jsonb("shifts").notNull().$type<RosterShift[]>(),
+  note: text("note"),
+  publishedBy: text("published_by").notNull(), // username at the time of publishing
+  publishedAt: timestamp("published_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("roster_versions_roster_version_idx").on(table.rosterId, table.version),
+]);
 
-// Swap requests table
+// Swap requests table - fromStaff gives up shiftId to toStaff; a trade also moves
+// counterShiftId from toStaff to fromStaff
 export const swapRequests = pgTable("swap_requests", {
   id: text("id").primaryKey(),
+  type: text("type").notNull().default("handover"), // handover, trade
   shiftId: text("shift_id").notNull().references(() => shifts.id, { onDelete: "cascade" }),
+  counterShiftId: text("counter_shift_id").references(() => shifts.id, { onDelete: "cascade" }),
   fromStaff: text("from_staff").notNull(),
   toStaff: text("to_staff").notNull(),
+  status: text("status").notNull().default("pending_colleague"), // see SWAP_STATUSES
+  reason: text("reason"),
+  // Usernames of whoever acted at each stage; a manager may answer for a colleague without a login
+  colleagueActedBy: text("colleague_acted_by"),
+  colleagueActedAt: timestamp("colleague_acted_at"),
+  managerActedBy: text("manager_acted_by"),
+  managerActedAt: timestamp("manager_acted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  // When the request reached its final status
+  respondedAt: timestamp("responded_at"),
+});
+
+// Unavailability table - leave requests; only approved entries block assignments
+export const unavailability = pgTable("unavailability", {
+  id: text("id").primaryKey(),
+  staffMember: text("staff_member").notNull(),
+  startDate: text("start_date").notNull(),
+  endDate: text("end_date").notNull(),
+  type: text("type").notNull(), // holiday, sickness, training, other
   status: text("status").notNull().default("pending"), // pending, approved, rejected
   reason: text("reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   respondedAt: timestamp("responded_at"),
 });
 
+// Audit events table - append-only history of roster and shift changes.
+// Roster and shift ids are not foreign keys so history survives deletion.
+export const auditEvents = pgTable("audit_events", {
+  id: text("id").primaryKey(),
+  action: text("action").notNull(),
+  rosterId: text("roster_id"),
+  shiftId: text("shift_id"),
+  swapRequestId: text("swap_request_id"),
+  actorId: text("actor_id"),
+  actorName: text("actor_name").notNull(), // username at the time of the change
+  before: jsonb("before").$type<Record<string, unknown> | null>(),
+  after: jsonb("after").$type<Record<string, unknown> | null>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Open shifts table - unassigned or Locum shifts posted for permanent staff to claim.
+// previousAssigned is the assignment when posted; awarding only goes ahead while it is unchanged.
+export const openShifts = pgTable("open_shifts", {
+  id: text("id").primaryKey(),
+  shiftId: text("shift_id").notNull().references(() => shifts.id, { onDelete: "cascade" }),
+  previousAssigned: text("previous_assigned"),
+  status: text("status").notNull().default("open"), // open, awarded, cancelled, expired
+  note: text("note"),
+  postedBy: text("posted_by").notNull(), // username
+  awardedTo: text("awarded_to"),
+  awardedBy: text("awarded_by"), // username
+  awardMethod: text("award_method"), // manual, or one of OPEN_SHIFT_AWARD_RULES
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  closedAt: timestamp("closed_at"),
+});
+
+// Open shift claims table - one per staff member volunteering for a posting, with an optional note as their bid
+export const openShiftClaims = pgTable("open_shift_claims", {
+  id: text("id").primaryKey(),
+  openShiftId: text("open_shift_id").notNull().references(() => openShifts.id, { onDelete: "cascade" }),
+  staffMember: text("staff_member").notNull(),
+  note: text("note"),
+  status: text("status").notNull().default("pending"), // pending, awarded, not_awarded
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("open_shift_claims_staff_idx").on(table.openShiftId, table.staffMember),
+]);
+
 // Notifications table
 export const notifications = pgTable("notifications", {
   id: text("id").primaryKey(),
   staffMember: text("staff_member").notNull(),
-  type: text("type").notNull(), // shift_assigned, shift_changed, swap_request, swap_response
+  type: text("type").notNull(), // shift_assigned, shift_changed, roster_update, swap_request, swap_response, open_shift
   title: text("title").notNull(),
   message: text("message").notNull(),
   read: boolean("read").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   relatedShiftId: text("related_shift_id"),
   relatedSwapId: text("related_swap_id"),
+  locationId: text("location_id"), // the roster it is about; null for anything not tied to one
+});
+
+// Notification preferences table - a staff member's contact details for delivery outside
+// the app and which types go to which channel. Without a row notifications stay in-app.
+export const notificationPreferences = pgTable("notification_preferences", {
+  staffId: text("staff_id").primaryKey().references(() => staff.id, { onDelete: "cascade" }),
+  email: text("email"),
+  webhookUrl: text("webhook_url"),
+  channels: jsonb("channels").notNull().$type<NotificationChannelMap>(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Notification deliveries table - the delivery log: one row per notification and channel,
+// retried with backoff until it is sent or gives up
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: text("id").primaryKey(),
+  notificationId: text("notification_id").notNull().references(() => notifications.id, { onDelete: "cascade" }),
+  staffMember: text("staff_member").notNull(),
+  channel: text("channel").notNull(), // email, webhook
+  destination: text("destination").notNull(), // address or URL at the time it was queued
+  status: text("status").notNull().default("pending"), // pending, sent, failed
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Shift templates table - one row per shift type, with the times and headcount used when
+// rosters are generated. Seeded with DEFAULT_SHIFT_TEMPLATES on first start.
+export const shiftTemplates = pgTable("shift_templates", {
+  shiftType: text("shift_type").primaryKey(),
+  startTime: text("start_time").notNull(), // HH:mm wall-clock in timezone
+  endTime: text("end_time").notNull(),
+  breakMinutes: integer("break_minutes").notNull().default(0), // unpaid
+  timezone: text("timezone").notNull(),
+  crossesMidnight: boolean("crosses_midnight").notNull(), // ends on the next day
+  headcount: integer("headcount").notNull().default(1), // staff needed, one shift each
+  sortOrder: integer("sort_order").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Shift layouts table - the shift types that run on each weekday. Seeded with
+// DEFAULT_SHIFT_LAYOUT on first start.
+export const shiftLayouts = pgTable("shift_layouts", {
+  weekday: text("weekday").primaryKey(),
+  shiftTypes: jsonb("shift_types").notNull().$type<ShiftType[]>(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Compliance settings table - a single row (id "default") of working-time limits.
+// A null limit switches that check off.
+export const complianceSettings = pgTable("compliance_settings", {
+  id: text("id").primaryKey(),
+  maxAvgWeeklyHours: integer("max_avg_weekly_hours"),
+  referenceWeeks: integer("reference_weeks").notNull(),
+  minDailyRestHours: integer("min_daily_rest_hours"),
+  minWeeklyRestHours: integer("min_weekly_rest_hours"),
+  maxConsecutiveShifts: integer("max_consecutive_shifts"),
+  maxConsecutiveNights: integer("max_consecutive_nights"),
+  maxNightShiftsPerWeek: integer("max_night_shifts_per_week"),
+  blockViolations: boolean("block_violations").default(false).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 // Insert schemas
+export const insertUserSchema = createInsertSchema(users).omit({
+  createdAt: true
+});
+export const insertStaffSchema = createInsertSchema(staff).omit({
+  createdAt: true,
+  updatedAt: true
+});
+export const insertShiftRuleSchema = createInsertSchema(shiftRules).omit({
+  createdAt: true,
+  updatedAt: true
+});
 export const insertRosterSchema = createInsertSchema(rosters).omit({ 
   createdAt: true, 
   updatedAt: true 
 });
 export const insertShiftSchema = createInsertSchema(shifts);
+export const insertRosterVersionSchema = createInsertSchema(rosterVersions).omit({
+  publishedAt: true
+});
 export const insertSwapRequestSchema = createInsertSchema(swapRequests).omit({ 
   createdAt: true, 
   respondedAt: true 
 });
+export const insertUnavailabilitySchema = createInsertSchema(unavailability).omit({
+  createdAt: true,
+  respondedAt: true
+});
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  createdAt: true
+});
 export const insertNotificationSchema = createInsertSchema(notifications).omit({ 
   createdAt: true 
 });
 
 // Select types
+export type DbUser = typeof users.$inferSelect;
+export type DbLocation = typeof locations.$inferSelect;
+export type DbStaff = typeof staff.$inferSelect;
+export type DbShiftRule = typeof shiftRules.$inferSelect;
+export type DbPublicHoliday = typeof publicHolidays.$inferSelect;
 export type DbRoster = typeof rosters.$inferSelect;
 export type DbShift = typeof shifts.$inferSelect;
+export type DbRosterVersion = typeof rosterVersions.$inferSelect;
 export type DbSwapRequest = typeof swapRequests.$inferSelect;
+export type DbOpenShift = typeof openShifts.$inferSelect;
+export type DbOpenShiftClaim = typeof openShiftClaims.$inferSelect;
+export type DbUnavailability = typeof unavailability.$inferSelect;
+export type DbAuditEvent = typeof auditEvents.$inferSelect;
 export type DbNotification = typeof notifications.$inferSelect;
+export type DbNotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type DbNotificationDelivery = typeof notificationDeliveries.$inferSelect;
+export type DbComplianceSettings = typeof complianceSettings.$inferSelect;
+export type DbShiftTemplate = typeof shiftTemplates.$inferSelect;
+export type DbShiftLayout = typeof shiftLayouts.$inferSelect;
 
 // Insert types
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertStaff = z.infer<typeof insertStaffSchema>;
+export type InsertShiftRule = z.infer<typeof insertShiftRuleSchema>;
 export type InsertRoster = z.infer<typeof insertRosterSchema>;
 export type InsertShift = z.infer<typeof insertShiftSchema>;
+export type InsertRosterVersion = z.infer<typeof insertRosterVersionSchema>;
 export type InsertSwapRequest = z.infer<typeof insertSwapRequestSchema>;
+export type InsertUnavailability = z.infer<typeof insertUnavailabilitySchema>;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 
 // ============== Application Types (for API/Frontend) ==============
 
+// Login account as exposed by the API - never includes the password hash
+export const userSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  role: z.enum(USER_ROLES),
+  staffId: z.string().nullable(),
+  staffName: staffNameSchema.nullable(),
+  createdAt: z.string(),
+});
+
+export type User = z.infer<typeof userSchema>;
+
+export const locationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type Location = z.infer<typeof locationSchema>;
+
+// Staff directory entry
+export const staffMemberSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  role: z.string(),
+  color: z.enum(STAFF_COLOR_KEYS),
+  contractedHours: z.number(),
+  locationIds: z.array(z.string()),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type Staff = z.infer<typeof staffMemberSchema>;
+
+// Shift rule (used in API responses and by the rule engine)
+export const shiftRuleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  priority: z.number(),
+  weekdays: z.array(z.enum(WEEKDAYS)),
+  shiftTypes: z.array(z.string()),
+  allowedStaff: z.array(staffNameSchema).nullable(),
+  rotation: z.array(staffNameSchema),
+  fromWeek: z.number().nullable(),
+  toWeek: z.number().nullable(),
+  locationId: z.string().nullable(),
+  publicHolidays: z.enum(PUBLIC_HOLIDAY_RULE_MODES),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type ShiftRule = z.infer<typeof shiftRuleSchema>;
+
+export const publicHolidaySchema = z.object({
+  id: z.string(),
+  date: z.string(),
+  name: z.string(),
+  locationId: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type PublicHoliday = z.infer<typeof publicHolidaySchema>;
+
 // Roster shift entry (used in API responses)
 export const rosterShiftSchema = z.object({
   id: z.string(),
+  slotKey: z.string(), // same date/shift slot across rosters, used for comparison
   date: z.string(),
   weekday: z.string(),
-  shiftType: z.enum(SHIFT_TYPES),
+  shiftType: z.string(),
+  position: z.number().int(), // 1-based; a type needing several staff has a shift per person
   shiftLabel: z.string(),
-  hours: z.number(),
-  assigned: z.enum(STAFF_MEMBERS).nullable(),
-  allowedStaff: z.array(z.enum(STAFF_MEMBERS)),
+  hours: z.number(), // paid hours
+  startsAt: z.string(), // ISO instants
+  endsAt: z.string(),
+  breakMinutes: z.number().int(),
+  timezone: z.string(),
+  publicHoliday: z.string().nullable(), // the holiday's name, on shifts that fall on one
+  assigned: staffNameSchema.nullable(),
+  allowedStaff: z.array(staffNameSchema),
+  revision: z.number().int(), // edits send back the revision they were made against
 });
 
 export type RosterShift = z.infer<typeof rosterShiftSchema>;
@@ -121,6 +667,7 @@ export type RosterShift = z.infer<typeof rosterShiftSchema>;
 export const rosterSchema = z.object({
   id: z.string(),
   name: z.string(),
+  locationId: z.string(),
   startDate: z.string(),
   endDate: z.string(),
   weeks: z.number(),
@@ -129,6 +676,7 @@ export const rosterSchema = z.object({
   updatedAt: z.string().optional(),
   isActive: z.boolean().optional(),
   version: z.number().optional(),
+  status: z.enum(ROSTER_STATUSES).optional(),
 });
 
 export type Roster = z.infer<typeof rosterSchema>;
@@ -137,70 +685,405 @@ export type Roster = z.infer<typeof rosterSchema>;
 export const rosterSummarySchema = z.object({
   id: z.string(),
   name: z.string(),
+  locationId: z.string(),
   startDate: z.string(),
   endDate: z.string(),
   weeks: z.number(),
   createdAt: z.string(),
   isActive: z.boolean(),
   version: z.number(),
+  status: z.enum(ROSTER_STATUSES),
   shiftCount: z.number(),
 });
 
 export type RosterSummary = z.infer<typeof rosterSummarySchema>;
 
+// Published roster version - a read-only snapshot of the draft at publish time
+export const rosterVersionSchema = z.object({
+  id: z.string(),
+  rosterId: z.string(),
+  version: z.number(),
+  name: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  weeks: z.number(),
+  shifts: z.array(rosterShiftSchema),
+  note: z.string().nullable(),
+  publishedBy: z.string(),
+  publishedAt: z.string(),
+});
+
+export type RosterVersion = z.infer<typeof rosterVersionSchema>;
+
+// Version list entry (without the shifts)
+export const rosterVersionSummarySchema = rosterVersionSchema.omit({ shifts: true }).extend({
+  shiftCount: z.number(),
+});
+
+export type RosterVersionSummary = z.infer<typeof rosterVersionSummarySchema>;
+
+// One date/shift slot compared between two rosters or roster versions
+export const shiftDiffSchema = z.object({
+  slotKey: z.string(),
+  date: z.string(),
+  weekday: z.string(),
+  shiftType: z.string(),
+  position: z.number().int(),
+  leftAssigned: staffNameSchema.nullable(),
+  rightAssigned: staffNameSchema.nullable(),
+  isDifferent: z.boolean(),
+});
+
+export type ShiftDiff = z.infer<typeof shiftDiffSchema>;
+
+// Response of GET /api/roster/:id/versions/diff - "draft" is the roster's current shifts
+export const rosterVersionDiffSchema = z.object({
+  rosterId: z.string(),
+  from: z.union([z.number(), z.literal("draft")]),
+  to: z.union([z.number(), z.literal("draft")]),
+  changedCount: z.number(),
+  shifts: z.array(shiftDiffSchema),
+});
+
+export type RosterVersionDiff = z.infer<typeof rosterVersionDiffSchema>;
+
+// Response of POST /api/roster/:id/versions/:version/restore
+export type RestoreRosterVersionResponse = Roster & {
+  // Snapshot assignments left empty because the staff member is now on approved leave
+  clearedForLeave: RosterShift[];
+};
+
 // Staff hours summary
 export const staffHoursSummarySchema = z.object({
-  name: z.enum(STAFF_MEMBERS),
+  name: staffNameSchema,
   totalHours: z.number(),
   shiftCount: z.number(),
+  holidayHours: z.number(), // the part of totalHours worked on public holidays
+  holidayShiftCount: z.number(),
 });
 
 export type StaffHoursSummary = z.infer<typeof staffHoursSummarySchema>;
 
+// Solver score breakdown - lower is better
+export const solverScoreSchema = z.object({
+  total: z.number(),
+  hoursBalance: z.number(),
+  holidayBalance: z.number(),
+  locumShifts: z.number(),
+  preferredDays: z.number(),
+  hardViolations: z.number(),
+});
+
+export type SolverScore = z.infer<typeof solverScoreSchema>;
+
+// A hard constraint the solver could not satisfy
+export const unmetConstraintSchema = z.object({
+  constraint: z.enum(["coverage", "minimum_rest"]),
+  shiftId: z.string(),
+  date: z.string(),
+  shiftType: z.string(),
+  staff: staffNameSchema.nullable(),
+  message: z.string(),
+});
+
+export type UnmetConstraint = z.infer<typeof unmetConstraintSchema>;
+
+export const solverReportSchema = z.object({
+  score: solverScoreSchema,
+  unmet: z.array(unmetConstraintSchema),
+  iterations: z.number(),
+  hoursStdDev: z.number(),
+  holidayHoursStdDev: z.number(),
+  locumShiftCount: z.number(),
+  preferenceMisses: z.number(),
+});
+
+export type SolverReport = z.infer<typeof solverReportSchema>;
+
+// 409 response of PATCH /api/roster/shift when the edit was made against an out-of-date copy of the shift
+export type ShiftConflictResponse = {
+  error: string;
+  code: "revision_conflict";
+  shift: RosterShift; // as it is now
+  changedBy: string | null;
+  changedAt: string | null;
+};
+
+// Response of POST /api/roster/generate
+export type GenerateRosterResponse = Roster & { solverReport?: SolverReport };
+
 // Swap request with shift details
 export const swapRequestWithDetailsSchema = z.object({
   id: z.string(),
+  type: z.enum(SWAP_TYPES),
   shiftId: z.string(),
   shiftDate: z.string(),
   shiftType: z.string(),
-  fromStaff: z.enum(STAFF_MEMBERS),
-  toStaff: z.enum(STAFF_MEMBERS),
-  status: z.enum(["pending", "approved", "rejected"]),
+  // The shift fromStaff takes in return, for trades only
+  counterShiftId: z.string().nullable(),
+  counterShiftDate: z.string().nullable(),
+  counterShiftType: z.string().nullable(),
+  fromStaff: staffNameSchema,
+  toStaff: staffNameSchema,
+  status: z.enum(SWAP_STATUSES),
+  // Still open, but a shift in it has been reassigned since it was requested
+  stale: z.boolean(),
   reason: z.string().nullable(),
+  colleagueActedBy: z.string().nullable(),
+  colleagueActedAt: z.string().nullable(),
+  managerActedBy: z.string().nullable(),
+  managerActedAt: z.string().nullable(),
   createdAt: z.string(),
   respondedAt: z.string().nullable(),
 });
 
 export type SwapRequestWithDetails = z.infer<typeof swapRequestWithDetailsSchema>;
 
+export const openShiftClaimSchema = z.object({
+  id: z.string(),
+  staffMember: staffNameSchema,
+  note: z.string().nullable(),
+  status: z.enum(OPEN_SHIFT_CLAIM_STATUSES),
+  createdAt: z.string(),
+});
+
+export type OpenShiftClaim = z.infer<typeof openShiftClaimSchema>;
+
+// Open shift posting with its shift details and claims (earliest first)
+export const openShiftSchema = z.object({
+  id: z.string(),
+  shiftId: z.string(),
+  rosterId: z.string(),
+  shiftDate: z.string(),
+  shiftType: z.string(),
+  weekday: z.string(),
+  hours: z.number(),
+  allowedStaff: z.array(staffNameSchema),
+  previousAssigned: staffNameSchema.nullable(),
+  status: z.enum(OPEN_SHIFT_STATUSES),
+  note: z.string().nullable(),
+  postedBy: z.string(),
+  awardedTo: staffNameSchema.nullable(),
+  awardedBy: z.string().nullable(),
+  awardMethod: z.union([z.literal("manual"), z.enum(OPEN_SHIFT_AWARD_RULES)]).nullable(),
+  claims: z.array(openShiftClaimSchema),
+  createdAt: z.string(),
+  closedAt: z.string().nullable(),
+});
+
+export type OpenShift = z.infer<typeof openShiftSchema>;
+
+// Leave / unavailability entry
+export const unavailabilityEntrySchema = z.object({
+  id: z.string(),
+  staffMember: staffNameSchema,
+  startDate: z.string(),
+  endDate: z.string(),
+  type: z.enum(UNAVAILABILITY_TYPES),
+  status: z.enum(UNAVAILABILITY_STATUSES),
+  reason: z.string().nullable(),
+  createdAt: z.string(),
+  respondedAt: z.string().nullable(),
+});
+
+export type Unavailability = z.infer<typeof unavailabilityEntrySchema>;
+
+// Audit trail entry
+export const auditEventSchema = z.object({
+  id: z.string(),
+  action: z.enum(AUDIT_ACTIONS),
+  rosterId: z.string().nullable(),
+  shiftId: z.string().nullable(),
+  swapRequestId: z.string().nullable(),
+  actorId: z.string().nullable(),
+  actorName: z.string(),
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()).nullable(),
+  createdAt: z.string(),
+});
+
+export type AuditEvent = z.infer<typeof auditEventSchema>;
+
 // Notification
 export const notificationSchema = z.object({
   id: z.string(),
-  staffMember: z.enum(STAFF_MEMBERS),
-  type: z.enum(["shift_assigned", "shift_changed", "swap_request", "swap_response"]),
+  staffMember: staffNameSchema,
+  type: z.enum(NOTIFICATION_TYPES),
   title: z.string(),
   message: z.string(),
   read: z.boolean(),
   createdAt: z.string(),
   relatedShiftId: z.string().nullable(),
   relatedSwapId: z.string().nullable(),
+  locationId: z.string().nullable(),
 });
 
 export type Notification = z.infer<typeof notificationSchema>;
 
+const notificationChannelMapSchema = z.record(z.enum(NOTIFICATION_TYPES), z.array(z.enum(NOTIFICATION_CHANNELS)));
+
+// A staff member's delivery settings; defaults (in-app only) until first saved
+export const notificationPreferencesSchema = z.object({
+  staffId: z.string(),
+  email: z.string().email().nullable(),
+  webhookUrl: z.string().url().regex(/^https?:\/\//, "Webhook URL must use http or https").nullable(),
+  channels: notificationChannelMapSchema,
+  updatedAt: z.string().nullable(),
+});
+
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
+// Response of GET /api/staff/:id/notification-preferences
+export type NotificationPreferencesResponse = NotificationPreferences & {
+  // Channels the server has a transport for (email needs SMTP_HOST)
+  availableChannels: NotificationChannel[];
+};
+
+// One entry in the delivery log
+export const notificationDeliverySchema = z.object({
+  id: z.string(),
+  notificationId: z.string(),
+  notificationType: z.enum(NOTIFICATION_TYPES),
+  notificationTitle: z.string(),
+  staffMember: staffNameSchema,
+  channel: z.enum(NOTIFICATION_CHANNELS),
+  destination: z.string(),
+  status: z.enum(DELIVERY_STATUSES),
+  attempts: z.number(),
+  lastError: z.string().nullable(),
+  nextAttemptAt: z.string().nullable(),
+  sentAt: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type NotificationDelivery = z.infer<typeof notificationDeliverySchema>;
+
+// Working-time limits a roster is checked against
+export const complianceRulesSchema = z.object({
+  maxAvgWeeklyHours: z.number().int().min(1).max(168).nullable(),
+  referenceWeeks: z.number().int().min(1).max(52), // averaging period for maxAvgWeeklyHours
+  minDailyRestHours: z.number().int().min(0).max(48).nullable(), // between two shifts
+  minWeeklyRestHours: z.number().int().min(0).max(168).nullable(), // uninterrupted, in each roster week
+  maxConsecutiveShifts: z.number().int().min(1).max(31).nullable(), // days worked in a row
+  maxConsecutiveNights: z.number().int().min(1).max(31).nullable(),
+  maxNightShiftsPerWeek: z.number().int().min(1).max(7).nullable(),
+  // Refuse manual assignments that would break a rule instead of only reporting them
+  blockViolations: z.boolean(),
+});
+
+export type ComplianceRules = z.infer<typeof complianceRulesSchema>;
+
+// Wall-clock times of a shift type. A shift that ends at or before its start time runs
+// into the next day and must say so, which also tells a 24h shift from an empty one.
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const shiftTemplateSchema = z.object({
+  shiftType: shiftTypeNameSchema,
+  startTime: z.string().regex(TIME_OF_DAY, "Use 24-hour HH:mm"),
+  endTime: z.string().regex(TIME_OF_DAY, "Use 24-hour HH:mm"),
+  breakMinutes: z.number().int().min(0).max(240),
+  timezone: z.string().refine(isValidTimeZone, "Unknown time zone"),
+  crossesMidnight: z.boolean(),
+  headcount: z.number().int().min(1).max(10),
+  sortOrder: z.number().int(),
+  updatedAt: z.string().nullable(),
+});
+
+export type ShiftTemplate = z.infer<typeof shiftTemplateSchema>;
+
+export const DEFAULT_TIMEZONE = "Europe/London";
+
+// The shift types and times rosters always assumed before they could be configured
+export const DEFAULT_SHIFT_TEMPLATES: Omit<ShiftTemplate, "updatedAt">[] = [
+  { shiftType: "Day", startTime: "08:00", endTime: "20:00", breakMinutes: 0, timezone: DEFAULT_TIMEZONE, crossesMidnight: false, headcount: 1, sortOrder: 0 },
+  { shiftType: "Night", startTime: "20:00", endTime: "08:00", breakMinutes: 0, timezone: DEFAULT_TIMEZONE, crossesMidnight: true, headcount: 1, sortOrder: 1 },
+  { shiftType: "24h", startTime: "08:00", endTime: "08:00", breakMinutes: 0, timezone: DEFAULT_TIMEZONE, crossesMidnight: true, headcount: 1, sortOrder: 2 },
+];
+
+// Defaults follow the usual working-time regulations
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRules = {
+  maxAvgWeeklyHours: 48,
+  referenceWeeks: 17,
+  minDailyRestHours: 11,
+  minWeeklyRestHours: 24,
+  maxConsecutiveShifts: 6,
+  maxConsecutiveNights: 4,
+  maxNightShiftsPerWeek: 4,
+  blockViolations: false,
+};
+
+export const COMPLIANCE_RULE_KEYS = [
+  "max_avg_weekly_hours",
+  "min_daily_rest",
+  "min_weekly_rest",
+  "max_consecutive_shifts",
+  "max_consecutive_nights",
+  "max_night_shifts_per_week",
+] as const;
+export type ComplianceRuleKey = typeof COMPLIANCE_RULE_KEYS[number];
+
+// One broken rule for one staff member; shiftIds are the shifts that make it up
+export const complianceViolationSchema = z.object({
+  rule: z.enum(COMPLIANCE_RULE_KEYS),
+  staffMember: staffNameSchema,
+  date: z.string(), // first date the rule is broken
+  shiftIds: z.array(z.string()),
+  message: z.string(),
+});
+
+export type ComplianceViolation = z.infer<typeof complianceViolationSchema>;
+
+export const complianceReportSchema = z.object({
+  rosterId: z.string(),
+  rules: complianceRulesSchema,
+  violations: z.array(complianceViolationSchema),
+});
+
+export type ComplianceReport = z.infer<typeof complianceReportSchema>;
+
 // ============== Request Schemas ==============
 
+// Options for the constraint-solving scheduler
+export const solverOptionsSchema = z.object({
+  // Hard constraints (allowed staff always come from the shift rules)
+  minRestHours: z.number().min(0).max(48).default(11),
+  leave: z.array(z.object({
+    staff: staffNameSchema,
+    startDate: z.string(),
+    endDate: z.string(),
+  })).default([]),
+  // Soft objectives
+  preferredDays: z.array(z.object({
+    staff: staffNameSchema,
+    weekdays: z.array(z.enum(WEEKDAYS)).min(1),
+  })).default([]),
+  weights: z.object({
+    equalHours: z.number().min(0).default(1),
+    equalHolidayHours: z.number().min(0).default(2),
+    locumShifts: z.number().min(0).default(5),
+    preferredDays: z.number().min(0).default(2),
+  }).default({}),
+  maxIterations: z.number().int().min(0).max(200000).default(20000),
+  seed: z.number().int().optional(),
+});
+
+export type SolverOptions = z.infer<typeof solverOptionsSchema>;
+
 export const generateRosterRequestSchema = z.object({
+  locationId: z.string().default(DEFAULT_LOCATION_ID),
   startDate: z.string(),
   weeks: z.number().min(1).max(12).default(4),
   name: z.string().optional(),
+  mode: z.enum(["rules", "solver"]).default("rules"),
+  solver: solverOptionsSchema.default({}),
 });
 
 export type GenerateRosterRequest = z.infer<typeof generateRosterRequestSchema>;
 
 export const updateShiftRequestSchema = z.object({
   shiftId: z.string(),
-  assigned: z.enum(STAFF_MEMBERS).nullable(),
+  assigned: staffNameSchema.nullable(),
+  revision: z.number().int().min(0),
 });
 
 export type UpdateShiftRequest = z.infer<typeof updateShiftRequestSchema>;
@@ -212,17 +1095,298 @@ export const exportRosterRequestSchema = z.object({
 export type ExportRosterRequest = z.infer<typeof exportRosterRequestSchema>;
 
 export const createSwapRequestSchema = z.object({
+  type: z.enum(SWAP_TYPES).default("handover"),
   shiftId: z.string(),
-  fromStaff: z.enum(STAFF_MEMBERS),
-  toStaff: z.enum(STAFF_MEMBERS),
+  counterShiftId: z.string().optional(),
+  fromStaff: staffNameSchema,
+  toStaff: staffNameSchema,
   reason: z.string().optional(),
+}).refine((req) => (req.type === "trade") === !!req.counterShiftId, {
+  message: "counterShiftId is required for trades and not allowed for handovers",
+  path: ["counterShiftId"],
 });
 
 export type CreateSwapRequest = z.infer<typeof createSwapRequestSchema>;
 
+export const createUnavailabilityRequestSchema = z.object({
+  staffMember: staffNameSchema,
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  type: z.enum(UNAVAILABILITY_TYPES),
+  reason: z.string().optional(),
+}).refine((req) => req.startDate <= req.endDate, {
+  message: "startDate must not be after endDate",
+  path: ["endDate"],
+});
+
+export type CreateUnavailabilityRequest = z.infer<typeof createUnavailabilityRequestSchema>;
+
+export const respondUnavailabilityRequestSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+});
+
+export type RespondUnavailabilityRequest = z.infer<typeof respondUnavailabilityRequestSchema>;
+
+export const publishRosterRequestSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+  // Publish even though some shifts have no one assigned
+  override: z.boolean().default(false),
+});
+
+export type PublishRosterRequest = z.infer<typeof publishRosterRequestSchema>;
+
+// Publishing has its own endpoint because it also takes a version snapshot
+export const updateRosterStatusRequestSchema = z.object({
+  status: z.enum(["draft", "under_review", "archived"]),
+});
+
+export type UpdateRosterStatusRequest = z.infer<typeof updateRosterStatusRequestSchema>;
+
+// A published version number, or "draft" for the roster's current shifts
+export const rosterVersionRefSchema = z.union([
+  z.literal("draft"),
+  z.coerce.number().int().min(1),
+]);
+
+export type RosterVersionRef = z.infer<typeof rosterVersionRefSchema>;
+
+// Query string of GET /api/roster/:id/versions/diff
+export const rosterVersionDiffQuerySchema = z.object({
+  from: rosterVersionRefSchema,
+  to: rosterVersionRefSchema.default("draft"),
+});
+
+export const updateComplianceRulesRequestSchema = complianceRulesSchema.partial();
+
+export type UpdateComplianceRulesRequest = z.infer<typeof updateComplianceRulesRequestSchema>;
+
+const shiftTemplateFields = shiftTemplateSchema.pick({
+  startTime: true,
+  endTime: true,
+  breakMinutes: true,
+  timezone: true,
+  crossesMidnight: true,
+  headcount: true,
+});
+
+function checkShiftTimes(t: z.infer<typeof shiftTemplateFields>, ctx: z.RefinementCtx) {
+  if (t.crossesMidnight !== t.endTime <= t.startTime) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "A shift ending at or before its start time crosses midnight, and only such a shift does",
+      path: ["crossesMidnight"],
+    });
+    return;
+  }
+  const [sh, sm] = t.startTime.split(":").map(Number);
+  const [eh, em] = t.endTime.split(":").map(Number);
+  const minutes = eh * 60 + em - (sh * 60 + sm) + (t.crossesMidnight ? 24 * 60 : 0);
+  if (t.breakMinutes >= minutes) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The break must be shorter than the shift", path: ["breakMinutes"] });
+  }
+}
+
+export const createShiftTemplateRequestSchema = shiftTemplateFields
+  .extend({ shiftType: shiftTypeNameSchema })
+  .superRefine(checkShiftTimes);
+
+export type CreateShiftTemplateRequest = z.infer<typeof createShiftTemplateRequestSchema>;
+
+export const updateShiftTemplateRequestSchema = shiftTemplateFields.superRefine(checkShiftTimes);
+
+export type UpdateShiftTemplateRequest = z.infer<typeof updateShiftTemplateRequestSchema>;
+
+// Every weekday's list in full; a type may appear once per day
+const layoutDaySchema = z
+  .array(shiftTypeNameSchema)
+  .max(10)
+  .refine((types) => new Set(types).size === types.length, "A shift type can only run once a day");
+
+export const updateShiftLayoutRequestSchema = z
+  .object({
+    Mon: layoutDaySchema,
+    Tue: layoutDaySchema,
+    Wed: layoutDaySchema,
+    Thu: layoutDaySchema,
+    Fri: layoutDaySchema,
+    Sat: layoutDaySchema,
+    Sun: layoutDaySchema,
+    Holiday: layoutDaySchema.nullable().default(null),
+  })
+  .refine((layout) => WEEKDAYS.some((day) => layout[day].length > 0), "At least one day needs a shift");
+
 export const respondSwapRequestSchema = z.object({
   requestId: z.string(),
   status: z.enum(["approved", "rejected"]),
 });
 
 export type RespondSwapRequest = z.infer<typeof respondSwapRequestSchema>;
+
+export const postOpenShiftRequestSchema = z.object({
+  shiftId: z.string(),
+  note: z.string().trim().max(500).optional(),
+});
+
+export type PostOpenShiftRequest = z.infer<typeof postOpenShiftRequestSchema>;
+
+export const claimOpenShiftRequestSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+export type ClaimOpenShiftRequest = z.infer<typeof claimOpenShiftRequestSchema>;
+
+// Award to a named claimant, or leave it out to award by the fairness rule
+export const awardOpenShiftRequestSchema = z.object({
+  staffMember: staffNameSchema.optional(),
+  rule: z.enum(OPEN_SHIFT_AWARD_RULES).default("fewest_hours"),
+});
+
+export type AwardOpenShiftRequest = z.infer<typeof awardOpenShiftRequestSchema>;
+
+// Filters for GET /api/audit, taken from the query string
+export const auditQuerySchema = z.object({
+  rosterId: z.string().optional(),
+  shiftId: z.string().optional(),
+  actor: z.string().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // inclusive, UTC
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // inclusive, UTC
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+export const updateNotificationPreferencesRequestSchema = notificationPreferencesSchema
+  .pick({ email: true, webhookUrl: true, channels: true })
+  .partial();
+
+export type UpdateNotificationPreferencesRequest = z.infer<typeof updateNotificationPreferencesRequestSchema>;
+
+// Delivery log filters, newest first
+export const notificationDeliveryQuerySchema = z.object({
+  status: z.enum(DELIVERY_STATUSES).optional(),
+  staffMember: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+export type NotificationDeliveryQuery = z.infer<typeof notificationDeliveryQuerySchema>;
+
+// Response of GET /api/calendar/feed: where the logged-in user's calendar subscription lives
+export interface CalendarFeedResponse {
+  staffMember: StaffMember;
+  // Relative to the app's origin; includes the secret token
+  path: string;
+}
+
+export const loginRequestSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+export type LoginRequest = z.infer<typeof loginRequestSchema>;
+
+export const createUserRequestSchema = z.object({
+  username: z.string().trim().min(3).max(50),
+  password: z.string().min(8),
+  role: z.enum(USER_ROLES).default("staff"),
+  staffId: z.string().nullable().default(null),
+});
+
+export type CreateUserRequest = z.infer<typeof createUserRequestSchema>;
+
+export const updateUserRequestSchema = z.object({
+  password: z.string().min(8),
+  role: z.enum(USER_ROLES),
+  staffId: z.string().nullable(),
+}).partial();
+
+export type UpdateUserRequest = z.infer<typeof updateUserRequestSchema>;
+
+export const createStaffRequestSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  role: z.string().trim().min(1).max(50),
+  color: z.enum(STAFF_COLOR_KEYS),
+  contractedHours: z.number().int().min(0).max(168).default(0),
+  locationIds: z.array(z.string()).min(1, "Choose at least one location").default([DEFAULT_LOCATION_ID]),
+});
+
+export type CreateStaffRequest = z.infer<typeof createStaffRequestSchema>;
+
+// Names are stored on shifts and swap requests, so they cannot be changed once created
+export const updateStaffRequestSchema = createStaffRequestSchema.omit({ name: true }).partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export type UpdateStaffRequest = z.infer<typeof updateStaffRequestSchema>;
+
+export const createShiftRuleRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  priority: z.number().int().min(0).max(1000).default(100),
+  weekdays: z.array(z.enum(WEEKDAYS)).min(1),
+  shiftTypes: z.array(shiftTypeNameSchema).default([]),
+  allowedStaff: z.array(staffNameSchema).nullable().default(null),
+  rotation: z.array(staffNameSchema).default([]),
+  fromWeek: z.number().int().min(1).nullable().default(null),
+  toWeek: z.number().int().min(1).nullable().default(null),
+  locationId: z.string().nullable().default(null),
+  publicHolidays: z.enum(PUBLIC_HOLIDAY_RULE_MODES).default("include"),
+  isActive: z.boolean().default(true),
+}).refine(
+  (rule) => rule.fromWeek === null || rule.toWeek === null || rule.fromWeek <= rule.toWeek,
+  { message: "fromWeek must not be after toWeek", path: ["toWeek"] }
+);
+
+export type CreateShiftRuleRequest = z.infer<typeof createShiftRuleRequestSchema>;
+
+export const updateShiftRuleRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  priority: z.number().int().min(0).max(1000),
+  weekdays: z.array(z.enum(WEEKDAYS)).min(1),
+  shiftTypes: z.array(shiftTypeNameSchema),
+  allowedStaff: z.array(staffNameSchema).nullable(),
+  rotation: z.array(staffNameSchema),
+  fromWeek: z.number().int().min(1).nullable(),
+  toWeek: z.number().int().min(1).nullable(),
+  locationId: z.string().nullable(),
+  publicHolidays: z.enum(PUBLIC_HOLIDAY_RULE_MODES),
+  isActive: z.boolean(),
+}).partial();
+
+export type UpdateShiftRuleRequest = z.infer<typeof updateShiftRuleRequestSchema>;
+
+export const createLocationRequestSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+});
+
+export type CreateLocationRequest = z.infer<typeof createLocationRequestSchema>;
+
+export const updateLocationRequestSchema = createLocationRequestSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export type UpdateLocationRequest = z.infer<typeof updateLocationRequestSchema>;
+
+export const createPublicHolidayRequestSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  name: z.string().trim().min(1).max(100),
+  locationId: z.string().nullable().default(null),
+});
+
+export type CreatePublicHolidayRequest = z.infer<typeof createPublicHolidayRequestSchema>;
+
+// A calendar file's text, read in the browser
+export const importPublicHolidaysRequestSchema = z.object({
+  format: z.enum(["ics", "csv"]),
+  content: z.string().min(1).max(1_000_000),
+  locationId: z.string().nullable().default(null),
+});
+
+export type ImportPublicHolidaysRequest = z.infer<typeof importPublicHolidaysRequestSchema>;
+
+export interface ImportPublicHolidaysResponse {
+  imported: PublicHoliday[];
+  // Dates already in the calendar for the same locations
+  skipped: number;
+  // Lines or events that could not be read, with why
+  errors: string[];
+}
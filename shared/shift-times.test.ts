@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { shiftTimesOn, zonedTimeToUtc } from "./shift-times";
+
+function utc(date: string, time: string, timeZone: string): string {
+  return zonedTimeToUtc(date, time, timeZone).toISOString();
+}
+
+const night = { startTime: "20:00", endTime: "08:00", breakMinutes: 0, crossesMidnight: true };
+
+describe("zonedTimeToUtc", () => {
+  it("reads ordinary times with the zone's offset on the day", () => {
+    expect(utc("2026-01-12", "08:00", "Europe/London")).toBe("2026-01-12T08:00:00.000Z");
+    expect(utc("2026-07-13", "08:00", "Europe/London")).toBe("2026-07-13T07:00:00.000Z");
+    expect(utc("2025-07-01", "08:00", "America/New_York")).toBe("2025-07-01T12:00:00.000Z");
+    expect(utc("2026-06-10", "23:30", "Asia/Kolkata")).toBe("2026-06-10T18:00:00.000Z");
+  });
+
+  describe("east of UTC", () => {
+    it("moves a time skipped when the clocks go forward to just after the gap", () => {
+      // 01:30 in London never happens; it is read as 02:30 BST
+      expect(utc("2026-03-29", "01:30", "Europe/London")).toBe("2026-03-29T01:30:00.000Z");
+      // 02:30 in Sydney is read as 03:30 AEDT
+      expect(utc("2025-10-05", "02:30", "Australia/Sydney")).toBe("2025-10-04T16:30:00.000Z");
+    });
+
+    it("takes the second occurrence of a time repeated when the clocks go back", () => {
+      // 01:30 GMT, not 01:30 BST
+      expect(utc("2026-10-25", "01:30", "Europe/London")).toBe("2026-10-25T01:30:00.000Z");
+      // 02:30 AEST, not 02:30 AEDT
+      expect(utc("2025-04-06", "02:30", "Australia/Sydney")).toBe("2025-04-05T16:30:00.000Z");
+    });
+  });
+
+  describe("west of UTC", () => {
+    it("moves a time skipped when the clocks go forward to just after the gap", () => {
+      // 02:30 in New York is read as 03:30 EDT
+      expect(utc("2025-03-09", "02:30", "America/New_York")).toBe("2025-03-09T07:30:00.000Z");
+    });
+
+    it("takes the second occurrence of a time repeated when the clocks go back", () => {
+      // 01:30 EST, not 01:30 EDT
+      expect(utc("2025-11-02", "01:30", "America/New_York")).toBe("2025-11-02T06:30:00.000Z");
+    });
+  });
+});
+
+describe("shiftTimesOn", () => {
+  it("pays a night spanning a clock change for the hours actually worked", () => {
+    expect(shiftTimesOn("2026-03-28", { ...night, timezone: "Europe/London" }).hours).toBe(11);
+    expect(shiftTimesOn("2026-10-24", { ...night, timezone: "Europe/London" }).hours).toBe(13);
+    expect(shiftTimesOn("2025-03-08", { ...night, timezone: "America/New_York" }).hours).toBe(11);
+    expect(shiftTimesOn("2025-11-01", { ...night, timezone: "America/New_York" }).hours).toBe(13);
+  });
+});
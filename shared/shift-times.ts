@@ -0,0 +1,111 @@
+import type { RosterShift, ShiftTemplate } from "./schema";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Wall-clock parts of an instant in a time zone
+function zonedParts(instant: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)!.value;
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    time: `${get("hour")}:${get("minute")}`,
+    second: get("second"),
+  };
+}
+
+// How far the zone's clocks are ahead of UTC at an instant
+function offsetAt(instant: number, timeZone: string): number {
+  const { date, time, second } = zonedParts(instant, timeZone);
+  const wallClock = Date.parse(`${date}T${time}:${second}Z`);
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The instant a wall-clock time happens in a zone. A time skipped when the clocks go
+// forward lands just after the gap; a time that happens twice when they go back is the
+// second occurrence. Either way round, east or west of UTC.
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  // Clocks change at most once a day, so the offsets a day either side are the only ones
+  // the time can be in
+  const before = offsetAt(wallClock - 24 * HOUR_MS, timeZone);
+  const after = offsetAt(wallClock + 24 * HOUR_MS, timeZone);
+  const occurrences = [wallClock - before, wallClock - after].filter(
+    (instant) => offsetAt(instant, timeZone) === wallClock - instant
+  );
+  // Skipped: read it on the clocks from before the change, which puts it after the gap
+  return new Date(occurrences.length > 0 ? Math.max(...occurrences) : wallClock - before);
+}
+
+// Date ("yyyy-MM-dd") and time ("HH:mm") an instant shows on clocks in a zone
+export function toZonedDateTime(instant: Date | string, timeZone: string): { date: string; time: string } {
+  const { date, time } = zonedParts(new Date(instant).getTime(), timeZone);
+  return { date, time };
+}
+
+function nextDate(date: string): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + 24 * HOUR_MS).toISOString().slice(0, 10);
+}
+
+// Paid hours between two instants after the unpaid break, to two decimal places
+export function paidHours(startsAt: Date, endsAt: Date, breakMinutes: number): number {
+  const worked = endsAt.getTime() - startsAt.getTime() - breakMinutes * MINUTE_MS;
+  return Math.round((Math.max(0, worked) / HOUR_MS) * 100) / 100;
+}
+
+// A template's times on a given date. Times are wall-clock in the template's zone, so a
+// shift spanning a DST change is an hour longer or shorter than usual, and paid for as such.
+export function shiftTimesOn(
+  date: string,
+  template: Pick<ShiftTemplate, "startTime" | "endTime" | "breakMinutes" | "timezone" | "crossesMidnight">
+): Pick<RosterShift, "startsAt" | "endsAt" | "breakMinutes" | "timezone" | "hours"> {
+  const startsAt = zonedTimeToUtc(date, template.startTime, template.timezone);
+  const endsAt = zonedTimeToUtc(template.crossesMidnight ? nextDate(date) : date, template.endTime, template.timezone);
+  return {
+    startsAt: startsAt.toISOString(),
+    endsAt: endsAt.toISOString(),
+    breakMinutes: template.breakMinutes,
+    timezone: template.timezone,
+    hours: paidHours(startsAt, endsAt, template.breakMinutes),
+  };
+}
+
+export interface ShiftWindow {
+  start: number;
+  end: number;
+}
+
+// Start and end of a shift in epoch milliseconds
+export function getShiftWindow(shift: Pick<RosterShift, "startsAt" | "endsAt">): ShiftWindow {
+  return { start: Date.parse(shift.startsAt), end: Date.parse(shift.endsAt) };
+}
+
+// "08:00–20:00", in the shift's own zone
+export function formatShiftTimes(shift: Pick<RosterShift, "startsAt" | "endsAt" | "timezone">): string {
+  const start = toZonedDateTime(shift.startsAt, shift.timezone);
+  const end = toZonedDateTime(shift.endsAt, shift.timezone);
+  return `${start.time}–${end.time}`;
+}
+
+// "12h", or "11.5h" after a break
+export function formatHours(hours: number): string {
+  return `${Math.round(hours * 100) / 100}h`;
+}
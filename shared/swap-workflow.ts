@@ -0,0 +1,36 @@
+import { OPEN_SWAP_STATUSES, type SwapStatus } from "./schema";
+
+// The two sign-offs a swap needs, in order
+export type SwapStage = "colleague" | "manager";
+
+export const SWAP_STATUS_LABELS: Record<SwapStatus, string> = {
+  pending_colleague: "Awaiting colleague",
+  pending_manager: "Awaiting manager",
+  approved: "Approved",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+  withdrawn: "Withdrawn",
+  expired: "Expired",
+};
+
+export function isSwapOpen(status: SwapStatus): boolean {
+  return OPEN_SWAP_STATUSES.includes(status);
+}
+
+// The stage an open request is waiting on
+export function swapStage(status: SwapStatus): SwapStage | null {
+  if (status === "pending_colleague") return "colleague";
+  if (status === "pending_manager") return "manager";
+  return null;
+}
+
+// Accepting moves a request on to the next stage; rejecting at any stage ends it
+export function nextSwapStatus(stage: SwapStage, decision: "approved" | "rejected"): SwapStatus {
+  if (decision === "rejected") return "rejected";
+  return stage === "colleague" ? "pending_manager" : "approved";
+}
+
+// Withdrawing before the colleague has answered is a cancellation
+export function withdrawnSwapStatus(stage: SwapStage): SwapStatus {
+  return stage === "colleague" ? "cancelled" : "withdrawn";
+}